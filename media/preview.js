@@ -39,6 +39,18 @@ const outboundMessages = {
 
   /** Sent when player performs any action */
   action: "action",
+
+  /** Sent when player asks to save the current point of the story to a slot */
+  saveState: "saveState",
+
+  /** Sent when player asks to load a previously saved slot */
+  loadState: "loadState",
+
+  /** Sent when player asks to change the value of a global variable */
+  editVariable: "editVariable",
+
+  /** Sent when player asks to jump to a knot or stitch */
+  goToKnot: "goToKnot",
 };
 
 /**
@@ -203,6 +215,14 @@ const storyView = {
     storyContent: null,
     choicesContainer: null,
     restartButton: null,
+    goToKnotButton: null,
+    saveStateButton: null,
+    loadStateButton: null,
+    variablesButton: null,
+    variablesPanel: null,
+    variablesList: null,
+    variablesTurn: null,
+    visitsList: null,
     debugContainer: null,
     liveUpdateCheckbox: null,
     // Error elements
@@ -244,6 +264,14 @@ const storyView = {
   initializeElements() {
     this.elements.restartButton = document.getElementById("button-restart");
     this.elements.rewindButton = document.getElementById("button-rewind");
+    this.elements.goToKnotButton = document.getElementById("button-go-to-knot");
+    this.elements.saveStateButton = document.getElementById("button-save-state");
+    this.elements.loadStateButton = document.getElementById("button-load-state");
+    this.elements.variablesButton = document.getElementById("button-variables");
+    this.elements.variablesPanel = document.getElementById("variables-panel");
+    this.elements.variablesList = document.getElementById("variables-list");
+    this.elements.variablesTurn = document.getElementById("variables-turn");
+    this.elements.visitsList = document.getElementById("visits-list");
     this.elements.storyContent = document.getElementById("story-content");
     this.elements.choicesContainer =
       document.getElementById("choices-container");
@@ -278,6 +306,9 @@ const storyView = {
   setupEventListeners() {
     this.setupRestartButton();
     this.setupRewindButton();
+    this.setupGoToKnotButton();
+    this.setupSaveStateButtons();
+    this.setupVariablesPanel();
     this.setupLiveUpdateToggle();
     this.setupKeyboardShortcuts();
     this.setupErrorHandlers();
@@ -301,6 +332,53 @@ const storyView = {
     });
   },
 
+  /**
+   * Sets up the go to knot button click handler.
+   */
+  setupGoToKnotButton() {
+    this.elements.goToKnotButton.addEventListener("click", () => {
+      storyController.actionGoToKnot();
+    });
+  },
+
+  /**
+   * Sets up the save state and load state button click handlers.
+   */
+  setupSaveStateButtons() {
+    this.elements.saveStateButton.addEventListener("click", () => {
+      storyController.actionSaveState();
+    });
+    this.elements.loadStateButton.addEventListener("click", () => {
+      storyController.actionLoadState();
+    });
+  },
+
+  /**
+   * Sets up the variables button click handler, restoring whether the panel was open when the webview was last shown.
+   */
+  setupVariablesPanel() {
+    const viewState = messageHandler.vscode.getState() || {};
+    this.setVariablesPanelVisible(viewState.variablesVisible === true);
+    this.elements.variablesButton.addEventListener("click", () => {
+      this.setVariablesPanelVisible(
+        this.elements.variablesPanel.classList.contains("hidden")
+      );
+    });
+  },
+
+  /**
+   * Shows or hides the variables panel.
+   * @param {boolean} visible - Whether the panel should be visible
+   */
+  setVariablesPanelVisible(visible) {
+    this.elements.variablesPanel.classList.toggle("hidden", !visible);
+    this.elements.variablesButton.setAttribute("aria-pressed", String(visible));
+    document.body.classList.toggle("variables-open", visible);
+
+    const viewState = messageHandler.vscode.getState() || {};
+    messageHandler.vscode.setState({ ...viewState, variablesVisible: visible });
+  },
+
   /**
    * Sets up the live update checkbox handler.
    */
@@ -743,6 +821,136 @@ const storyView = {
     }
   },
 
+  /**
+   * Renders the global variables of the story, highlighting those changed since the last choice.
+   * @param {Array} variables - The variables, each with a name, type, value, and optional origins and previous value
+   * @param {number} turnIndex - The index of the current turn
+   */
+  renderVariables(variables, turnIndex) {
+    const list = this.elements.variablesList;
+    list.innerHTML = "";
+    this.elements.variablesTurn.textContent = `Turn ${turnIndex}`;
+
+    if (!variables?.length) {
+      const empty = createElement("div", "variables-empty");
+      empty.textContent = "This story has no global variables.";
+      list.appendChild(empty);
+      return;
+    }
+
+    const fragment = document.createDocumentFragment();
+    variables.forEach((variable) => {
+      const changed = variable.previousValue !== undefined;
+      const editable = variable.type !== "divert";
+      const element = createElement(
+        "div",
+        [
+          "variable",
+          changed ? "variable-changed" : "",
+          editable ? "variable-editable" : "",
+        ].join(" ").trim(),
+        {
+          title: editable
+            ? `${variable.name} (${variable.type}) - click to change its value`
+            : `${variable.name} (${variable.type})`,
+        }
+      );
+      if (editable) {
+        element.tabIndex = 0;
+        element.setAttribute("role", "button");
+        element.addEventListener("click", () => {
+          storyController.actionEditVariable(variable.name);
+        });
+        element.addEventListener("keydown", (e) => {
+          if (e.key === "Enter") {
+            storyController.actionEditVariable(variable.name);
+          }
+        });
+      }
+
+      const name = createElement("span", "variable-name");
+      name.textContent = variable.name;
+      element.appendChild(name);
+
+      const value = createElement(
+        "span",
+        variable.value ? "variable-value" : "variable-value variable-value-empty"
+      );
+      value.textContent = variable.value || "(empty)";
+      element.appendChild(value);
+
+      if (changed) {
+        const previous = createElement("span", "variable-previous", {
+          title: "Value before the last choice",
+        });
+        previous.textContent = variable.previousValue || "(empty)";
+        element.appendChild(previous);
+      }
+
+      if (variable.origins?.length) {
+        const origins = createElement("div", "variable-origins");
+        origins.textContent = `from ${variable.origins.join(", ")}`;
+        element.appendChild(origins);
+      }
+
+      fragment.appendChild(element);
+    });
+    list.appendChild(fragment);
+  },
+
+  /**
+   * Renders the visit counts of the knots, stitches and labels of the story, highlighting those visited this turn.
+   * @param {Array} visits - The visit counts, each with a path, number of visits and the turns since the last visit
+   * @param {number} turnIndex - The index of the current turn
+   */
+  renderVisits(visits, turnIndex) {
+    const list = this.elements.visitsList;
+    list.innerHTML = "";
+
+    if (!visits?.length) {
+      const empty = createElement("div", "variables-empty");
+      empty.textContent = "This story has no counted knots, stitches or labels.";
+      list.appendChild(empty);
+      return;
+    }
+
+    const fragment = document.createDocumentFragment();
+    visits.forEach((visit) => {
+      const visited = visit.visits > 0 && visit.lastVisitTurnIndex === turnIndex;
+      const element = createElement(
+        "div",
+        visited ? "variable variable-changed" : "variable",
+        {
+          title: `${visit.path}: visited ${visit.visits} time${visit.visits === 1 ? "" : "s"}, TURNS_SINCE ${visit.turnsSince}`,
+        }
+      );
+
+      const path = createElement("span", "variable-name");
+      path.textContent = visit.path;
+      element.appendChild(path);
+
+      const count = createElement(
+        "span",
+        visit.visits ? "variable-value" : "variable-value variable-value-empty"
+      );
+      count.textContent = `×${visit.visits}`;
+      element.appendChild(count);
+
+      const turnsSince = createElement("span", "visit-turns-since");
+      if (visit.turnsSince < 0) {
+        turnsSince.textContent = "never";
+      } else if (visit.turnsSince === 0) {
+        turnsSince.textContent = "this turn";
+      } else {
+        turnsSince.textContent = `${visit.turnsSince} turn${visit.turnsSince === 1 ? "" : "s"} ago`;
+      }
+      element.appendChild(turnsSince);
+
+      fragment.appendChild(element);
+    });
+    list.appendChild(fragment);
+  },
+
   /**
    * Updates the rewind button enabled/disabled state.
    * @param {boolean} canRewind - Whether the rewind functionality should be available
@@ -861,6 +1069,39 @@ const storyController = {
     actionDispatcher.dispatch({ type: "REWIND_STORY" });
   },
 
+  /**
+   * Handles the player's request to jump to a knot or stitch of the story.
+   */
+  actionGoToKnot() {
+    log("Action: Requesting go to knot");
+    messageHandler.postMessage(outboundMessages.goToKnot, {});
+  },
+
+  /**
+   * Handles the player's request to save the current point of the story.
+   */
+  actionSaveState() {
+    log("Action: Requesting save state");
+    messageHandler.postMessage(outboundMessages.saveState, {});
+  },
+
+  /**
+   * Handles the player's request to load a saved point of the story.
+   */
+  actionLoadState() {
+    log("Action: Requesting load state");
+    messageHandler.postMessage(outboundMessages.loadState, {});
+  },
+
+  /**
+   * Handles the player's request to change the value of a global variable.
+   * @param {string} name - The name of the variable
+   */
+  actionEditVariable(name) {
+    log(`Action: Requesting edit of variable ${name}`);
+    messageHandler.postMessage(outboundMessages.editVariable, { name });
+  },
+
   /**
    * Handles toggling the live update setting.
    * @param {boolean} enabled - Whether live update should be enabled
@@ -895,6 +1136,12 @@ const storyController = {
       storyView.renderStoryEnded();
     }
 
+    // Render the variables of the story
+    storyView.renderVariables(story.variables, story.turnIndex);
+
+    // Render the visit counts of the story
+    storyView.renderVisits(story.visits, story.turnIndex);
+
     // Update UI state
     storyView.updateRewindButton(ui.canRewind);
     storyView.updateLiveUpdateToggle(ui.liveUpdateEnabled);
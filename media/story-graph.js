@@ -0,0 +1,266 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+// Constants =========================================================================================================
+
+/**
+ * Messages sent from Webview to MVC
+ */
+const outboundMessages = {
+  /** Sent when Webview is ready to receive messages */
+  ready: "ready",
+
+  /** Sent when a node is clicked */
+  openNode: "openNode",
+};
+
+/**
+ * Messages sent from MVC to Webview
+ */
+const inboundMessages = {
+  /** Sent with the complete graph whenever it is built */
+  updateGraph: "updateGraph",
+};
+
+// Layout
+const svgNamespace = "http://www.w3.org/2000/svg";
+const edgeTypes = ["divert", "choice", "tunnel", "thread"];
+const nodeWidth = 180;
+const nodeHeight = 32;
+const columnGap = 80;
+const rowGap = 24;
+const margin = 24;
+
+// Utility Functions =================================================================================================
+
+/**
+ * Creates an SVG element with the specified attributes.
+ * @param {string} tag - The SVG tag name
+ * @param {Object} attributes - The attributes to set
+ * @returns {SVGElement} The created element
+ */
+function createSvgElement(tag, attributes = {}) {
+  const element = document.createElementNS(svgNamespace, tag);
+  Object.entries(attributes).forEach(([key, value]) => {
+    element.setAttribute(key, value);
+  });
+  return element;
+}
+
+/**
+ * Creates a tooltip for an SVG element.
+ * @param {string} text - The text of the tooltip
+ * @returns {SVGTitleElement} The tooltip
+ */
+function createTooltip(text) {
+  const title = createSvgElement("title");
+  title.textContent = text;
+  return title;
+}
+
+/**
+ * Utility function to log a message to the VSCode Extension.
+ * @param {string} message - The message to log.
+ */
+function log(message, ...payload) {
+  console.info(`[story-graph.js] ${message}`, ...payload);
+}
+
+// Message Handler ===================================================================================================
+
+const messageHandler = {
+  vscode: acquireVsCodeApi(),
+
+  /**
+   * Sends a message to the VSCode extension.
+   * @param {string} command - The command to send
+   * @param {Object} payload - The payload to send with the command
+   */
+  postMessage(command, payload) {
+    log(`📤 Sending message: ${command}`, payload);
+    this.vscode.postMessage({ command, payload });
+  },
+
+  /**
+   * Starts listening for messages from the VSCode extension.
+   */
+  listen() {
+    window.addEventListener("message", (event) => {
+      const message = event.data;
+      if (message.command === inboundMessages.updateGraph) {
+        log("📥 Received graph");
+        graphRenderer.render(message.payload.graph);
+      }
+    });
+  },
+};
+
+// Graph Renderer ====================================================================================================
+
+const graphRenderer = {
+  svg: document.getElementById("graph"),
+
+  empty: document.getElementById("graph-empty"),
+
+  /**
+   * Lays out the nodes in columns by rank, keeping the order they were given in within each column.
+   * @param {Object[]} nodes - The nodes of the graph
+   * @returns {Map<string, {x: number, y: number}>} The position of the top left corner of each node
+   */
+  layout(nodes) {
+    const rows = new Map();
+    const positions = new Map();
+    nodes.forEach((node) => {
+      const row = rows.get(node.rank) ?? 0;
+      rows.set(node.rank, row + 1);
+      positions.set(node.id, {
+        x: margin + node.rank * (nodeWidth + columnGap),
+        y: margin + row * (nodeHeight + rowGap),
+      });
+    });
+    return positions;
+  },
+
+  /**
+   * Creates the arrowhead markers for each type of edge.
+   * @returns {SVGDefsElement} The marker definitions
+   */
+  createMarkers() {
+    const defs = createSvgElement("defs");
+    edgeTypes.forEach((type) => {
+      const marker = createSvgElement("marker", {
+        id: `arrow-${type}`,
+        class: `marker edge-${type}`,
+        viewBox: "0 0 10 10",
+        refX: "10",
+        refY: "5",
+        markerWidth: "8",
+        markerHeight: "8",
+        orient: "auto-start-reverse",
+      });
+      marker.appendChild(
+        createSvgElement("path", { d: "M 0 0 L 10 5 L 0 10 z" })
+      );
+      defs.appendChild(marker);
+    });
+    return defs;
+  },
+
+  /**
+   * Creates the path of an edge. Edges going forward run from the right of one node to the left of the next, while
+   * edges going back or within a column loop around the right of the nodes.
+   * @param {Object} edge - The edge
+   * @param {Object} from - The position of the node the edge leaves
+   * @param {Object} to - The position of the node the edge enters
+   * @returns {SVGPathElement} The path
+   */
+  createEdge(edge, from, to) {
+    const fromY = from.y + nodeHeight / 2;
+    const toY = to.y + nodeHeight / 2;
+    let d;
+    if (to.x > from.x) {
+      const startX = from.x + nodeWidth;
+      const bend = (to.x - startX) / 2;
+      d = `M ${startX} ${fromY} C ${startX + bend} ${fromY}, ${to.x - bend} ${toY}, ${to.x} ${toY}`;
+    } else {
+      const startX = from.x + nodeWidth;
+      const endX = to.x + nodeWidth;
+      const loop = Math.max(startX, endX) + columnGap / 2;
+      d = `M ${startX} ${fromY} C ${loop} ${fromY}, ${loop} ${toY}, ${endX} ${toY}`;
+    }
+
+    const path = createSvgElement("path", {
+      d,
+      class: `edge edge-${edge.type}`,
+      "marker-end": `url(#arrow-${edge.type})`,
+    });
+    path.appendChild(
+      createTooltip(edge.label ? `${edge.type}: ${edge.label}` : edge.type)
+    );
+    return path;
+  },
+
+  /**
+   * Creates a node, which reveals its definition when clicked.
+   * @param {Object} node - The node
+   * @param {Object} position - The position of the node
+   * @returns {SVGGElement} The node
+   */
+  createNode(node, position) {
+    const group = createSvgElement("g", {
+      class: `node node-${node.type}`,
+      transform: `translate(${position.x}, ${position.y})`,
+    });
+    group.appendChild(
+      createSvgElement("rect", {
+        width: nodeWidth,
+        height: nodeHeight,
+        rx: node.type === "stitch" ? "12" : "4",
+      })
+    );
+    const label = createSvgElement("text", {
+      x: nodeWidth / 2,
+      y: nodeHeight / 2,
+    });
+    label.textContent = node.label;
+    group.appendChild(label);
+    group.appendChild(createTooltip(`${node.type}: ${node.label}`));
+    group.addEventListener("click", () => {
+      messageHandler.postMessage(outboundMessages.openNode, { id: node.id });
+    });
+    return group;
+  },
+
+  /**
+   * Renders the graph, replacing whatever was rendered before.
+   * @param {Object} graph - The graph
+   */
+  render(graph) {
+    this.svg.replaceChildren(this.createMarkers());
+    this.empty.classList.toggle("hidden", graph.nodes.length > 1);
+
+    const positions = this.layout(graph.nodes);
+    graph.edges.forEach((edge) => {
+      const from = positions.get(edge.from);
+      const to = positions.get(edge.to);
+      if (from && to) {
+        this.svg.appendChild(this.createEdge(edge, from, to));
+      }
+    });
+    graph.nodes.forEach((node) => {
+      this.svg.appendChild(this.createNode(node, positions.get(node.id)));
+    });
+
+    const bounds = Array.from(positions.values());
+    const width = Math.max(...bounds.map((p) => p.x)) + nodeWidth + columnGap;
+    const height = Math.max(...bounds.map((p) => p.y)) + nodeHeight + margin;
+    this.svg.setAttribute("width", width);
+    this.svg.setAttribute("height", height);
+  },
+};
+
+// Initialization ====================================================================================================
+
+messageHandler.listen();
+messageHandler.postMessage(outboundMessages.ready, {});
@@ -30,13 +30,14 @@ import { PipelineContext } from "./PipelineContext";
 import { DependencyManager } from "../model/DependencyManager";
 import { OutlinePreProcessor } from "./OutlinePreProcessor";
 import { IncludePreProcessor } from "./IncludePreProcessor";
+import { ReferencePreProcessor } from "./ReferencePreProcessor";
 import { CompilationProcessor } from "./CompilationProcessor";
+import { StaticAnalysisProcessor } from "./StaticAnalysisProcessor";
+import { LintProcessor } from "./LintProcessor";
 import { VSCodeServiceLocator } from "../services/VSCodeServiceLocator";
 import { JsonOutputPostProcessor } from "./JsonOutputPostProcessor";
 import { JavaScriptOutputPostProcessor } from "./JavaScriptOutputPostProcessor";
-import { IPathResolutionStrategy } from "../util/paths/IPathResolutionStrategy";
-import { InkyDefaultPathResolutionStrategy } from "../util/paths/InkyDefaultPathResolutionStrategy";
-import { AdvancedPathResolutionStrategy } from "../util/paths/AdvancedPathResolutionStrategy";
+import { createPathResolutionStrategy } from "../util/paths/createPathResolutionStrategy";
 import { ExternalFunctionPreProcessor } from "./ExternalFunctionPreProcessor";
 import { ISuccessfulBuildResult } from "./IBuildResult";
 
@@ -80,38 +81,17 @@ export class BuildEngine {
   private constructor() {
     this.registerProcessor(new OutlinePreProcessor());
     this.registerProcessor(new IncludePreProcessor());
+    this.registerProcessor(new ReferencePreProcessor());
     this.registerProcessor(new ExternalFunctionPreProcessor());
     this.registerProcessor(new CompilationProcessor());
+    this.registerProcessor(new StaticAnalysisProcessor());
+    this.registerProcessor(new LintProcessor());
     this.registerProcessor(new JsonOutputPostProcessor());
     this.registerProcessor(new JavaScriptOutputPostProcessor());
   }
 
   // Private Methods ==================================================================================================
 
-  /**
-   * Create the appropriate path resolution strategy based on configuration.
-   * @param uri The URI to get configuration for.
-   * @returns The path resolution strategy to use.
-   */
-  private createPathResolutionStrategy(
-    uri: vscode.Uri
-  ): IPathResolutionStrategy {
-    const configService = VSCodeServiceLocator.getConfigurationService();
-    const useAdvancedResolution = configService.get<boolean>(
-      "ink.compile.behaviour.advancedPathResolution",
-      false,
-      uri
-    );
-
-    if (useAdvancedResolution) {
-      const docService = VSCodeServiceLocator.getDocumentService();
-      const sourceRootUri = docService.resolveSourceRootUri(uri);
-      return new AdvancedPathResolutionStrategy(sourceRootUri);
-    }
-
-    return new InkyDefaultPathResolutionStrategy();
-  }
-
   /**
    * Flush the diagnostics to the diagnostics service.
    * @param context The context to flush the diagnostics from.
@@ -130,7 +110,14 @@ export class BuildEngine {
     for (const d of context.getDiagnostics()) {
       const uri = d.uri;
       const diagnostics = vscodeDiagnostics.get(uri) || [];
-      diagnostics.push(new vscode.Diagnostic(d.range, d.message, d.severity));
+      const diagnostic = new vscode.Diagnostic(d.range, d.message, d.severity);
+      if (d.code) {
+        diagnostic.code = d.code;
+      }
+      if (d.relatedInformation) {
+        diagnostic.relatedInformation = d.relatedInformation;
+      }
+      diagnostics.push(diagnostic);
       vscodeDiagnostics.set(uri, diagnostics);
     }
 
@@ -175,7 +162,7 @@ export class BuildEngine {
       depManager.createNode(uri, doc.version);
 
       // Execute the pipeline
-      const pathStrategy = this.createPathResolutionStrategy(uri);
+      const pathStrategy = createPathResolutionStrategy(uri);
       const context = new PipelineContext(uri, doc, pathStrategy);
       for (const proc of this.processors) {
         await proc.run(context);
@@ -208,6 +195,7 @@ export class BuildEngine {
       success: true,
       diagnostics: context.getDiagnostics(),
       externalFunctionVM: context.getExternalFunctionVM(),
+      labelPaths: context.labelPaths,
     };
   }
 
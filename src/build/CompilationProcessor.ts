@@ -28,8 +28,13 @@ import { Compiler, CompilerOptions } from "inkjs/compiler/Compiler";
 import { CompilationFileHandler } from "./compiler/CompilationFileHandler";
 import { ErrorType as InkjsErrorType } from "inkjs/engine/Error";
 import { parseCompilationError } from "./compiler/parseCompilationError";
+import { getLabelPaths } from "./compiler/getLabelPaths";
+import { getCompilationErrorRange } from "./compiler/getCompilationErrorRange";
 import { VSCodeServiceLocator } from "../services/VSCodeServiceLocator";
 
+const includeErrorRegex =
+  /^(?:Failed to load|Recursive INCLUDE detected): '([^']*)'/;
+
 /**
  * Pipeline processor that compiles an Ink file into a Story object.
  */
@@ -47,7 +52,6 @@ export class CompilationProcessor implements IPipelineProcessor {
   }
 
   private getCompilerOptions(context: PipelineContext): CompilerOptions {
-    const text = context.getText();
     const sourceFilename = context.uri.fsPath;
     return {
       sourceFilename,
@@ -56,19 +60,50 @@ export class CompilationProcessor implements IPipelineProcessor {
       countAllVisits: this.getCountAllVisits(context),
       errorHandler: (message: string, type: InkjsErrorType) => {
         const { message: msg, filename, line } = parseCompilationError(message);
+        if (this.isReportedInclude(context, msg)) {
+          return;
+        }
         const severity = this.toSeverity(type);
-        const all = text.split(/\r?\n/);
+        const all = this.getSourceText(context, filename).split(/\r?\n/);
         const lineText = all[line] || "";
-        const range = new vscode.Range(
-          new vscode.Position(line, 0),
-          new vscode.Position(line, lineText.length)
-        );
+        const range = getCompilationErrorRange(lineText, line, msg);
         const uri = this.toDiagnosticUri(context, filename);
         context.reportDiagnostic(uri, range, msg, severity);
       },
     };
   }
 
+  /**
+   * Determines whether an error is for a missing or circular include already reported at its INCLUDE directive.
+   * The compiler names the include as it is written in the directive, as do the diagnostics reporting it.
+   */
+  private isReportedInclude(
+    context: PipelineContext,
+    message: string
+  ): boolean {
+    const match = includeErrorRegex.exec(message);
+    if (!match) {
+      return false;
+    }
+    return (
+      context.filterDiagnostics(
+        (d) =>
+          (d.code === "unresolved-include" || d.code === "circular-include") &&
+          d.message.includes(`'${match[1]}'`)
+      ).length > 0
+    );
+  }
+
+  private getSourceText(
+    context: PipelineContext,
+    filename: string | undefined
+  ): string {
+    const include = filename
+      ? context.includeDocuments.get(filename)
+      : undefined;
+    return include ? include.getText() : context.getText();
+  }
+
   private toDiagnosticUri(
     context: PipelineContext,
     filename: string | undefined
@@ -105,6 +140,7 @@ export class CompilationProcessor implements IPipelineProcessor {
       const compilerOptions = this.getCompilerOptions(context);
       const compiler = new Compiler(text, compilerOptions);
       context.story = compiler.Compile();
+      context.labelPaths = getLabelPaths(compiler.parsedStory);
     } catch (err: any) {
       // No-op as the error will be handled by the error handler in CompilerOptions
     }
@@ -27,22 +27,22 @@ import { IPipelineProcessor } from "./IPipelineProcessor";
 import { PipelineContext } from "./PipelineContext";
 import { ExternalFunctionVM } from "./ExternalFunctionVM";
 import { VSCodeServiceLocator } from "../services/VSCodeServiceLocator";
+import { EntityType, OutlineEntity } from "../model/OutlineEntity";
+import { OutlineManager } from "../model/OutlineManager";
+import { getDefinitionNameRange } from "../util/ink/getDefinitionNameRange";
+import { DirectivePath } from "../util/ink/DirectivePath";
+import { parseLinkDirectives } from "../util/ink/parseLinkDirectives";
 
-interface LinkDirective {
-  path: string;
-  line: number;
-  character: number;
+interface ExternalDeclaration {
+  document: vscode.TextDocument;
+  entity: OutlineEntity;
+  parameters: string[];
 }
 
 /**
  * Processes LINK directives to load external JavaScript functions into the VM.
  */
 export class ExternalFunctionPreProcessor implements IPipelineProcessor {
-  private static readonly singleLineRegex =
-    /^\s*\/\/\s*LINKS?\s+(.+\.js)\s*$/gm;
-  private static readonly multiLineCommentRegex = /\/\*[\s\S]*?\*\//gm;
-  private static readonly linkInCommentRegex = /^\s*LINKS?\s+(.+\.js)\s*$/gm;
-
   public async run(context: PipelineContext): Promise<void> {
     const linkDirectives = this.parseLinkDirectives(context.getText());
 
@@ -52,6 +52,7 @@ export class ExternalFunctionPreProcessor implements IPipelineProcessor {
 
     const externalFunctionVM = new ExternalFunctionVM();
     const documentService = VSCodeServiceLocator.getDocumentService();
+    const linkedUris = new Map<string, vscode.Uri>();
     let hasAnyFailures = false;
 
     for (const directive of linkDirectives) {
@@ -61,6 +62,7 @@ export class ExternalFunctionPreProcessor implements IPipelineProcessor {
           throw new Error(`Could not resolve path: ${directive.path}`);
         }
         const jsDocument = await documentService.getTextDocument(resolvedUri);
+        linkedUris.set(directive.path, resolvedUri);
         const jsContent = jsDocument.getText();
         const conflicts = externalFunctionVM.addJavaScriptContent(
           jsContent,
@@ -89,89 +91,130 @@ export class ExternalFunctionPreProcessor implements IPipelineProcessor {
 
     if (!hasAnyFailures) {
       context.setExternalFunctionVM(externalFunctionVM);
+      this.checkDeclarations(
+        context,
+        linkDirectives,
+        linkedUris,
+        externalFunctionVM
+      );
     } else {
       externalFunctionVM.dispose();
     }
   }
 
-  private parseLinkDirectives(content: string): LinkDirective[] {
-    const directives: LinkDirective[] = [];
-
-    let match: RegExpExecArray | null;
-    ExternalFunctionPreProcessor.singleLineRegex.lastIndex = 0;
-
-    while (
-      (match = ExternalFunctionPreProcessor.singleLineRegex.exec(content)) !==
-      null
-    ) {
-      const filePath = match[1].trim();
-
-      // Handle case where match includes leading newline
-      const matchText = match[0];
-      const actualDirectiveText = matchText.replace(/^\n/, "");
-      const actualIndex = content.indexOf(actualDirectiveText, match.index);
-
-      const lineNumber = this.getLineNumber(content, actualIndex);
-      const character = this.getCharacterPosition(content, actualIndex);
+  /**
+   * Compares the EXTERNAL declarations of the story and its includes with the mock functions of the linked files.
+   */
+  private checkDeclarations(
+    context: PipelineContext,
+    directives: DirectivePath[],
+    linkedUris: Map<string, vscode.Uri>,
+    vm: ExternalFunctionVM
+  ): void {
+    // Without an outline of the story, its declarations are unknown
+    if (!OutlineManager.getInstance().getOutline(context.uri)) {
+      return;
+    }
+    const declarations = this.getExternalDeclarations(context);
+    const linkedFiles = [...linkedUris.entries()].map(
+      ([path, uri]) =>
+        new vscode.DiagnosticRelatedInformation(
+          new vscode.Location(uri, new vscode.Position(0, 0)),
+          `Mock functions are linked from '${path}'`
+        )
+    );
 
-      directives.push({
-        path: filePath,
-        line: lineNumber,
-        character: character,
-      });
+    for (const { document, entity, parameters } of declarations.values()) {
+      const name = entity.identifier;
+      const range =
+        getDefinitionNameRange(document, entity) ?? entity.definitionRange;
+      const length = vm.getFunctionLength(name);
+      if (length === undefined) {
+        context.reportDiagnostic(
+          document.uri,
+          range,
+          `External function '${name}(${parameters.join(", ")})' has no mock function in the linked files.`,
+          vscode.DiagnosticSeverity.Warning,
+          "external-missing-mock",
+          linkedFiles
+        );
+      } else if (length !== parameters.length) {
+        context.reportDiagnostic(
+          document.uri,
+          range,
+          `Mock function '${name}' in '${vm.getFunctionSource(name)}' takes ${length} parameter(s), but the EXTERNAL declaration has ${parameters.length}.`,
+          vscode.DiagnosticSeverity.Warning,
+          "external-parameter-mismatch"
+        );
+      }
     }
 
-    ExternalFunctionPreProcessor.multiLineCommentRegex.lastIndex = 0;
-
-    while (
-      (match =
-        ExternalFunctionPreProcessor.multiLineCommentRegex.exec(content)) !==
-      null
-    ) {
-      const commentContent = match[0];
-      const commentStartIndex = match.index;
-
-      // Extract inner content without /* and */
-      const innerContent = commentContent.slice(2, -2);
-
-      ExternalFunctionPreProcessor.linkInCommentRegex.lastIndex = 0;
-      let linkMatch: RegExpExecArray | null;
-
-      while (
-        (linkMatch =
-          ExternalFunctionPreProcessor.linkInCommentRegex.exec(
-            innerContent
-          )) !== null
-      ) {
-        const filePath = linkMatch[1].trim();
-        const absoluteIndex = commentStartIndex + 2 + linkMatch.index; // +2 for /*
-        const lineNumber = this.getLineNumber(content, absoluteIndex);
-        const character = this.getCharacterPosition(content, absoluteIndex);
-
-        directives.push({
-          path: filePath,
-          line: lineNumber,
-          character: character,
-        });
+    for (const name of vm.getFunctionNames()) {
+      if (declarations.has(name)) {
+        continue;
       }
+      const source = vm.getFunctionSource(name);
+      const directive = directives.find((d) => d.path === source);
+      if (!directive) {
+        continue;
+      }
+      const parameters = vm.getFunctionParameters(name) ?? [];
+      context.reportDiagnostic(
+        context.uri,
+        this.getDirectiveRange(directive),
+        `Mock function '${name}(${parameters.join(", ")})' in '${source}' is not declared EXTERNAL.`,
+        vscode.DiagnosticSeverity.Warning,
+        "external-undeclared-mock"
+      );
     }
+  }
 
-    return directives;
+  /**
+   * Gets the EXTERNAL declarations of the story and its includes, by name.
+   */
+  private getExternalDeclarations(
+    context: PipelineContext
+  ): Map<string, ExternalDeclaration> {
+    const outlineManager = OutlineManager.getInstance();
+    const declarations = new Map<string, ExternalDeclaration>();
+    for (const document of [
+      context.getTextDocument(),
+      ...context.includeDocuments.values(),
+    ]) {
+      for (const entity of outlineManager.getOutline(document.uri) ?? []) {
+        if (
+          entity.type !== EntityType.external ||
+          declarations.has(entity.identifier)
+        ) {
+          continue;
+        }
+        const params = /\((.*)\)/.exec(entity.name)?.[1] ?? "";
+        const parameters = params
+          .split(",")
+          .map((param) => param.trim())
+          .filter((param) => param.length > 0);
+        declarations.set(entity.identifier, { document, entity, parameters });
+      }
+    }
+    return declarations;
   }
 
-  private getLineNumber(content: string, index: number): number {
-    return content.substring(0, index).split("\n").length - 1;
+  private getDirectiveRange(directive: DirectivePath): vscode.Range {
+    return new vscode.Range(
+      directive.line,
+      directive.character,
+      directive.line,
+      directive.character + directive.path.length
+    );
   }
 
-  private getCharacterPosition(content: string, index: number): number {
-    const textBeforeIndex = content.substring(0, index);
-    const lastNewlineIndex = textBeforeIndex.lastIndexOf("\n");
-    return lastNewlineIndex === -1 ? index : index - lastNewlineIndex - 1;
+  private parseLinkDirectives(content: string): DirectivePath[] {
+    return parseLinkDirectives(content);
   }
 
   private reportFileError(
     context: PipelineContext,
-    directive: LinkDirective,
+    directive: DirectivePath,
     error: unknown
   ): void {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -179,12 +222,7 @@ export class ExternalFunctionPreProcessor implements IPipelineProcessor {
 
     context.reportDiagnostic(
       context.uri,
-      new vscode.Range(
-        directive.line,
-        directive.character,
-        directive.line,
-        directive.character + directive.path.length + 5
-      ),
+      this.getDirectiveRange(directive),
       message,
       vscode.DiagnosticSeverity.Error
     );
@@ -207,7 +245,7 @@ export class ExternalFunctionPreProcessor implements IPipelineProcessor {
 
   private reportConflicts(
     context: PipelineContext,
-    directive: LinkDirective,
+    directive: DirectivePath,
     conflicts: string[],
     vm: ExternalFunctionVM
   ): void {
@@ -217,12 +255,7 @@ export class ExternalFunctionPreProcessor implements IPipelineProcessor {
 
       context.reportDiagnostic(
         context.uri,
-        new vscode.Range(
-          directive.line,
-          directive.character,
-          directive.line,
-          directive.character + directive.path.length + 5
-        ),
+        this.getDirectiveRange(directive),
         message,
         vscode.DiagnosticSeverity.Error
       );
@@ -137,6 +137,42 @@ export class ExternalFunctionVM {
     return this.functions.has(name);
   }
 
+  /**
+   * Gets the number of parameters a function declares, as given by its `length`.
+   * @param name - Function name
+   * @returns Parameter count or undefined if function not found
+   */
+  public getFunctionLength(name: string): number | undefined {
+    this.ensureNotDisposed();
+    return this.functions.get(name)?.length;
+  }
+
+  /**
+   * Gets the parameter names of a function, as written in its source.
+   * Falls back to generated names when the source cannot be read.
+   * @param name - Function name
+   * @returns Parameter names or undefined if function not found
+   */
+  public getFunctionParameters(name: string): string[] | undefined {
+    this.ensureNotDisposed();
+    const fn = this.functions.get(name);
+    if (!fn) {
+      return undefined;
+    }
+
+    const source = Function.prototype.toString.call(fn);
+    const match =
+      /^[^(=]*\(([^)]*)\)/.exec(source) ??
+      /^\s*(?:async\s+)?([a-zA-Z_$][\w$]*)\s*=>/.exec(source);
+    if (!match) {
+      return Array.from({ length: fn.length }, (_, i) => `arg${i + 1}`);
+    }
+    return match[1]
+      .split(",")
+      .map((param) => param.replace(/=[\s\S]*$/, "").replace("...", "").trim())
+      .filter((param) => param.length > 0);
+  }
+
   /**
    * Gets the source file path for a function.
    * @param functionName - Function name
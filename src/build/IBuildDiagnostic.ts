@@ -32,4 +32,6 @@ export interface IBuildDiagnostic {
   range: vscode.Range;
   message: string;
   severity: vscode.DiagnosticSeverity;
+  code?: string;
+  relatedInformation?: vscode.DiagnosticRelatedInformation[];
 }
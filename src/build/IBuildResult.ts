@@ -53,6 +53,11 @@ export interface ISuccessfulBuildResult {
    * The external function VM containing loaded mock functions.
    */
   externalFunctionVM?: ExternalFunctionVM;
+
+  /**
+   * The runtime path of each labelled choice and gather, keyed by the path used to refer to it in Ink.
+   */
+  labelPaths?: ReadonlyMap<string, string>;
 }
 
 /**
@@ -22,13 +22,25 @@
  * SOFTWARE.
  */
 
+import * as path from "path";
 import * as vscode from "vscode";
 import { IPipelineProcessor } from "./IPipelineProcessor";
 import { PipelineContext } from "./PipelineContext";
-import { EntityType } from "../model/OutlineEntity";
+import { EntityType, OutlineEntity } from "../model/OutlineEntity";
 import { VSCodeServiceLocator } from "../services/VSCodeServiceLocator";
 import { IVSCodeDocumentService } from "../services/VSCodeDocumentService";
 import { OutlineManager } from "../model/OutlineManager";
+import { OutlineParser } from "./OutlineParser";
+import { parseIncludeDirectives } from "../util/ink/parseIncludeDirectives";
+
+/**
+ * The location of an INCLUDE directive, along with the files included on the way to it from the root story.
+ */
+interface IncludeLocation {
+  chain: vscode.Uri[];
+  range: vscode.Range;
+  uri: vscode.Uri;
+}
 
 /**
  * Pipeline processor for pre-processing includes of an Ink story.
@@ -51,29 +63,136 @@ export class IncludePreProcessor implements IPipelineProcessor {
 
   private async addInclude(
     context: PipelineContext,
-    currentUri: vscode.Uri,
-    includePath: string,
-    processTodo: vscode.Uri[]
+    currentDoc: vscode.TextDocument,
+    includeEntity: OutlineEntity,
+    processTodo: vscode.TextDocument[],
+    includes: Map<string, IncludeLocation>
   ): Promise<void> {
+    const includePath = includeEntity.name;
+    const currentUri = currentDoc.uri;
     const resolvedUri = context.resolvePath(
       context.uri,
       includePath,
       currentUri
     );
     if (!resolvedUri) {
-      // no-op, as we let the Ink compiler handle the missing file reporting
+      this.reportInclude(
+        context,
+        currentDoc,
+        includeEntity,
+        `Cannot resolve the path of included file '${includePath}'.`,
+        "unresolved-include"
+      );
       return;
     }
 
+    // Circular includes are left out of the dependency graph, as the files in the cycle would otherwise have no root
+    const chain = includes.get(currentUri.toString())?.chain ?? [currentUri];
+    const cycleStart = chain.findIndex(
+      (uri) => uri.toString() === resolvedUri.toString()
+    );
+    if (cycleStart !== -1) {
+      const cycle = [...chain.slice(cycleStart), resolvedUri]
+        .map((uri) => path.basename(uri.fsPath))
+        .join(" → ");
+      this.reportInclude(
+        context,
+        currentDoc,
+        includeEntity,
+        `Circular include of '${includePath}': ${cycle}.`,
+        "circular-include"
+      );
+      return;
+    }
+
+    let includeDoc: vscode.TextDocument;
     try {
-      const includeDoc = await this.docService.getTextDocument(resolvedUri);
-      context.includeDocuments.set(includePath, includeDoc);
-      context.addDependency(currentUri, resolvedUri);
+      includeDoc = await this.docService.getTextDocument(resolvedUri);
     } catch (e) {
-      // no-op, as we let the Ink compiler handle the missing file reporting
+      this.reportInclude(
+        context,
+        currentDoc,
+        includeEntity,
+        `Included file '${includePath}' was not found at '${resolvedUri.fsPath}'.`,
+        "unresolved-include"
+      );
+      return;
+    }
+
+    // Files included twice are still loaded, so that the compiler can report the knots they define twice
+    const range = this.getIncludePathRange(currentDoc, includeEntity);
+    const firstInclude = includes.get(resolvedUri.toString());
+    if (firstInclude) {
+      this.reportInclude(
+        context,
+        currentDoc,
+        includeEntity,
+        `Included file '${includePath}' is already included by '${path.basename(firstInclude.uri.fsPath)}' on line ${firstInclude.range.start.line + 1}.`,
+        "duplicate-include",
+        [
+          new vscode.DiagnosticRelatedInformation(
+            new vscode.Location(firstInclude.uri, firstInclude.range),
+            "First included here"
+          ),
+        ]
+      );
+    } else {
+      includes.set(resolvedUri.toString(), {
+        chain: [...chain, resolvedUri],
+        range,
+        uri: currentUri,
+      });
     }
 
-    processTodo.push(resolvedUri);
+    // Refresh the outline of the include, as only the root story is parsed by the OutlinePreProcessor
+    await OutlineParser.getInstance().parseAndCache(includeDoc);
+    context.includeDocuments.set(includePath, includeDoc);
+    context.addDependency(currentUri, resolvedUri);
+    processTodo.push(includeDoc);
+  }
+
+  /**
+   * Gets the range of the path within an INCLUDE directive, or of the whole directive if the path cannot be found.
+   */
+  private getIncludePathRange(
+    currentDoc: vscode.TextDocument,
+    includeEntity: OutlineEntity
+  ): vscode.Range {
+    const line = includeEntity.definitionRange.start.line;
+    const directive = parseIncludeDirectives(currentDoc.getText()).find(
+      (d) => d.line === line
+    );
+    return directive
+      ? new vscode.Range(
+          line,
+          directive.character,
+          line,
+          directive.character + directive.path.length
+        )
+      : includeEntity.definitionRange;
+  }
+
+  /**
+   * Reports an include which could not be loaded, or which is circular or duplicated, at its path within the INCLUDE
+   * directive. The Ink compiler's own error for a missing or circular include is then left out by the
+   * CompilationProcessor.
+   */
+  private reportInclude(
+    context: PipelineContext,
+    currentDoc: vscode.TextDocument,
+    includeEntity: OutlineEntity,
+    message: string,
+    code: string,
+    relatedInformation?: vscode.DiagnosticRelatedInformation[]
+  ): void {
+    context.reportDiagnostic(
+      currentDoc.uri,
+      this.getIncludePathRange(currentDoc, includeEntity),
+      message,
+      vscode.DiagnosticSeverity.Error,
+      code,
+      relatedInformation
+    );
   }
 
   // Public Methods ===================================================================================================
@@ -83,12 +202,13 @@ export class IncludePreProcessor implements IPipelineProcessor {
     context.includeDocuments.clear();
 
     // Use a queue for traversal and a set to track processed files
-    const processTodo: vscode.Uri[] = [context.uri];
+    const processTodo: vscode.TextDocument[] = [context.getTextDocument()];
     const processComplete = new Set<string>();
+    const includes = new Map<string, IncludeLocation>();
 
     while (processTodo.length > 0) {
-      const currentUri = processTodo.shift()!;
-      const uriString = currentUri.toString();
+      const currentDoc = processTodo.shift()!;
+      const uriString = currentDoc.uri.toString();
 
       if (processComplete.has(uriString)) {
         continue;
@@ -96,13 +216,18 @@ export class IncludePreProcessor implements IPipelineProcessor {
       processComplete.add(uriString);
 
       const includeEntities = this.outlineManager.queryByTypes(
-        currentUri,
+        currentDoc.uri,
         EntityType.include
       );
 
       for (const includeEntity of includeEntities) {
-        const includePath = includeEntity.name;
-        await this.addInclude(context, currentUri, includePath, processTodo);
+        await this.addInclude(
+          context,
+          currentDoc,
+          includeEntity,
+          processTodo,
+          includes
+        );
       }
     }
   }
@@ -0,0 +1,117 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { IPipelineProcessor } from "./IPipelineProcessor";
+import { PipelineContext } from "./PipelineContext";
+import { ILintRule, LintSeverity } from "./lint/ILintRule";
+import { ChoiceTrailingWhitespaceRule } from "./lint/ChoiceTrailingWhitespaceRule";
+import { ChoiceWithoutDivertRule } from "./lint/ChoiceWithoutDivertRule";
+import { KnotWithoutEndRule } from "./lint/KnotWithoutEndRule";
+import { WeaveIndentationRule } from "./lint/WeaveIndentationRule";
+import { getLintSuppressions } from "./lint/getLintSuppressions";
+import { parseWeaveLines } from "./lint/parseWeaveLines";
+import { VSCodeServiceLocator } from "../services/VSCodeServiceLocator";
+
+/**
+ * Pipeline processor that checks the story and its includes against the configured lint rules.
+ */
+export class LintProcessor implements IPipelineProcessor {
+  // Private Properties ===============================================================================================
+
+  private readonly rules: ILintRule[] = [
+    new ChoiceWithoutDivertRule(),
+    new KnotWithoutEndRule(),
+    new WeaveIndentationRule(),
+    new ChoiceTrailingWhitespaceRule(),
+  ];
+
+  // Private Methods ==================================================================================================
+
+  private getSeverity(
+    context: PipelineContext,
+    rule: ILintRule
+  ): vscode.DiagnosticSeverity | undefined {
+    const severity = VSCodeServiceLocator.getConfigurationService().get<
+      LintSeverity
+    >(`ink.lint.rules.${rule.id}`, rule.defaultSeverity, context.uri);
+    switch (severity) {
+      case "error":
+        return vscode.DiagnosticSeverity.Error;
+      case "warning":
+        return vscode.DiagnosticSeverity.Warning;
+      case "info":
+        return vscode.DiagnosticSeverity.Information;
+      default:
+        return undefined;
+    }
+  }
+
+  private lintDocument(
+    context: PipelineContext,
+    document: vscode.TextDocument
+  ): void {
+    const lines = parseWeaveLines(document.getText());
+    const suppressions = getLintSuppressions(lines);
+    if (suppressions.all) {
+      return;
+    }
+    for (const rule of this.rules) {
+      if (suppressions.rules.has(rule.id)) {
+        continue;
+      }
+      const severity = this.getSeverity(context, rule);
+      if (severity === undefined) {
+        continue;
+      }
+      for (const problem of rule.check(lines)) {
+        context.reportDiagnostic(
+          document.uri,
+          problem.range,
+          problem.message,
+          severity,
+          rule.id
+        );
+      }
+    }
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  async run(context: PipelineContext): Promise<void> {
+    const documents = new Map<string, vscode.TextDocument>();
+    for (const document of [
+      await context.getTextDocument(),
+      ...context.includeDocuments.values(),
+    ]) {
+      documents.set(document.uri.toString(), document);
+    }
+    for (const document of documents.values()) {
+      this.lintDocument(context, document);
+    }
+  }
+}
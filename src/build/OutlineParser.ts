@@ -35,6 +35,7 @@ import { ConstParser } from "./outline/ConstParser";
 import { stripComments } from "./outline/stripComments";
 import { IEntityParser } from "./outline/IEntityParser";
 import { LabelParser } from "./outline/LabelParser";
+import { OutlineManager } from "../model/OutlineManager";
 
 /**
  * Parser for the outline of an Ink story.
@@ -235,4 +236,17 @@ export class OutlineParser {
     this.assignScopeRanges(rootEntities, lines);
     return rootEntities;
   }
+
+  /**
+   * Parses the outline of an Ink story and caches it in the Outline Manager.
+   * @param document - The document to parse.
+   * @returns The outline entities.
+   */
+  public async parseAndCache(
+    document: vscode.TextDocument
+  ): Promise<OutlineEntity[]> {
+    const entities = await this.parse(document);
+    OutlineManager.getInstance().setOutline(document.uri, entities);
+    return entities;
+  }
 }
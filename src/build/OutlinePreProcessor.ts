@@ -25,7 +25,6 @@
 import { IPipelineProcessor } from "./IPipelineProcessor";
 import { PipelineContext } from "./PipelineContext";
 import { OutlineParser } from "./OutlineParser";
-import { OutlineManager } from "../model/OutlineManager";
 
 /**
  * Pipeline processor for generating the outline of an Ink story.
@@ -38,9 +37,7 @@ export class OutlinePreProcessor implements IPipelineProcessor {
    */
   async run(context: PipelineContext): Promise<void> {
     const parser = OutlineParser.getInstance();
-    const outlineManager = OutlineManager.getInstance();
     const document = await context.getTextDocument();
-    const entities = await parser.parse(document);
-    outlineManager.setOutline(document.uri, entities);
+    await parser.parseAndCache(document);
   }
 }
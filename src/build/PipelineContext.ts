@@ -51,6 +51,12 @@ export class PipelineContext {
    */
   public story?: Story;
 
+  /**
+   * The runtime path of each labelled choice and gather in the compiled Ink Story, keyed by the path used to refer
+   * to it in Ink.
+   */
+  public labelPaths?: Map<string, string>;
+
   /**
    * Map of all included Ink Story TextDocuments for this PipelineContext.
    */
@@ -193,18 +199,24 @@ export class PipelineContext {
    * @param message The message of the diagnostic.
    * @param severity The severity of the diagnostic.
    * @param uri The URI of the diagnostic.
+   * @param code An optional code identifying the kind of diagnostic, e.g. a lint rule.
+   * @param relatedInformation Optional locations related to the diagnostic.
    */
   public reportDiagnostic(
     uri: vscode.Uri,
     range: vscode.Range,
     message: string,
-    severity: vscode.DiagnosticSeverity
+    severity: vscode.DiagnosticSeverity,
+    code?: string,
+    relatedInformation?: vscode.DiagnosticRelatedInformation[]
   ) {
     const d: IBuildDiagnostic = {
       uri,
       range,
       message,
       severity,
+      code,
+      relatedInformation,
     };
     this.diagnostics.push(d);
   }
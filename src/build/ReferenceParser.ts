@@ -0,0 +1,417 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { InkReference, ReferenceType } from "../model/InkReference";
+import { ReferenceManager } from "../model/ReferenceManager";
+import { stripComments } from "./outline/stripComments";
+import { reservedWords } from "../util/ink/reservedWords";
+
+/**
+ * The line being scanned for references.
+ */
+interface LineContext {
+  text: string;
+  line: number;
+  references: InkReference[];
+}
+
+const identifierPathRegex =
+  /[a-zA-Z_][a-zA-Z0-9_]*(?:\.[a-zA-Z_][a-zA-Z0-9_]*)*/y;
+
+const sequenceHeadRegex =
+  /^\s*(stopping|cycle|shuffle|once)(\s+(stopping|cycle|once))?\s*$/;
+
+const assignmentRegex = /^(=(?!=)|\+=|-=|\+\+|--)/;
+
+/**
+ * Parser for the references made by an Ink document, such as diverts, reads, assignments and function calls.
+ * Only logic is scanned (diverts, `{...}` expressions and `~` lines), so that prose is never mistaken for a reference.
+ */
+export class ReferenceParser {
+  // Private Properties ===============================================================================================
+
+  private static instance: ReferenceParser | null = null;
+
+  // Public Static Methods ============================================================================================
+
+  /**
+   * Gets the singleton instance of the reference parser.
+   * @returns The singleton instance of the reference parser.
+   */
+  public static getInstance(): ReferenceParser {
+    if (!this.instance) {
+      this.instance = new ReferenceParser();
+    }
+    return this.instance;
+  }
+
+  /**
+   * Test-only method to clear the singleton instance.
+   */
+  public static clearInstance(): void {
+    this.instance = null;
+  }
+
+  // Private Methods ===================================================================================================
+
+  /**
+   * Records a reference to a dotted path.
+   * @param context - The line being scanned.
+   * @param type - The kind of reference.
+   * @param start - The character the path starts at.
+   * @param path - The dotted path.
+   */
+  private addReference(
+    context: LineContext,
+    type: ReferenceType,
+    start: number,
+    path: string
+  ): void {
+    const segments = path.split(".");
+    const ranges: vscode.Range[] = [];
+    let segmentStart = start;
+    for (const segment of segments) {
+      ranges.push(
+        new vscode.Range(
+          context.line,
+          segmentStart,
+          context.line,
+          segmentStart + segment.length
+        )
+      );
+      segmentStart += segment.length + 1;
+    }
+    context.references.push({ type, segments, ranges });
+  }
+
+  /**
+   * Finds the bracket closing the one at a position.
+   * @param text - The text to search.
+   * @param start - The position of the opening bracket.
+   * @returns The position of the closing bracket, or -1 if it is not on this line.
+   */
+  private findClosing(text: string, start: number): number {
+    const open = text[start];
+    const close = open === "(" ? ")" : "}";
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+      if (text[i] === open) {
+        depth++;
+      } else if (text[i] === close && --depth === 0) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Finds the first delimiter which is not nested within brackets or a string.
+   * @param text - The text to search.
+   * @param start - The position to start searching from.
+   * @param end - The position to stop searching at.
+   * @param delimiters - The delimiter characters to find.
+   * @returns The position of the delimiter, or -1 if not found.
+   */
+  private findDelimiter(
+    text: string,
+    start: number,
+    end: number,
+    delimiters: string
+  ): number {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < end; i++) {
+      const ch = text[i];
+      if (ch === '"') {
+        inString = !inString;
+      } else if (inString) {
+        continue;
+      } else if (ch === "{" || ch === "(") {
+        depth++;
+      } else if (ch === "}" || ch === ")") {
+        depth--;
+      } else if (ch === "|" && text[i + 1] === "|") {
+        // Logical or, rather than an alternative
+        i++;
+      } else if (depth === 0 && delimiters.includes(ch)) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Parses a single line, tracking the multiline blocks it opens and closes.
+   * @param context - The line being scanned.
+   * @param blocks - The open multiline blocks; true for conditionals, false for sequences.
+   */
+  private parseLine(context: LineContext, blocks: boolean[]): void {
+    const text = context.text;
+    const trimmed = text.trim();
+    if (
+      trimmed === "" ||
+      trimmed.startsWith("=") ||
+      /^(INCLUDE|EXTERNAL|LIST)\b/.test(trimmed)
+    ) {
+      return;
+    }
+    const indent = text.length - text.trimStart().length;
+
+    if (/^(VAR|CONST)\b/.test(trimmed)) {
+      const equals = text.indexOf("=", indent);
+      if (equals !== -1) {
+        this.scanCode(context, equals + 1, text.length, false);
+      }
+      return;
+    }
+
+    if (trimmed.startsWith("~")) {
+      this.scanCode(context, indent + 1, text.length, true);
+      return;
+    }
+
+    // Branches of a multiline conditional start with a condition, e.g. `- x > 2:`
+    let start = indent;
+    if (blocks[blocks.length - 1] && /^-(?!>)/.test(trimmed)) {
+      const colon = this.findDelimiter(text, indent + 1, text.length, ":");
+      if (colon !== -1) {
+        this.scanCode(context, indent + 1, colon, false);
+        start = colon + 1;
+      }
+    }
+    this.scanText(context, start, blocks);
+  }
+
+  /**
+   * Scans an expression for references.
+   * @param context - The line being scanned.
+   * @param start - The position the expression starts at.
+   * @param end - The position the expression ends at.
+   * @param isLogic - Whether the expression is a `~` logic line, which may contain assignments.
+   */
+  private scanCode(
+    context: LineContext,
+    start: number,
+    end: number,
+    isLogic: boolean
+  ): void {
+    const text = context.text;
+    let isDeclaration = false;
+    let i = start;
+    while (i < end) {
+      const ch = text[i];
+      if (ch === '"') {
+        const close = text.indexOf('"', i + 1);
+        i = close === -1 || close >= end ? end : close + 1;
+        continue;
+      }
+      if (text.startsWith("->", i)) {
+        i = this.scanDivert(context, i, end);
+        continue;
+      }
+      if (!/[a-zA-Z_]/.test(ch) || (i > 0 && /[a-zA-Z0-9_.]/.test(text[i - 1]))) {
+        i++;
+        continue;
+      }
+
+      identifierPathRegex.lastIndex = i;
+      const path = identifierPathRegex.exec(text)![0];
+      const pathStart = i;
+      i += path.length;
+
+      // Temporary variables are declared rather than referenced
+      if (reservedWords.has(path)) {
+        isDeclaration = path === "temp";
+        continue;
+      }
+      if (isDeclaration) {
+        isDeclaration = false;
+        continue;
+      }
+
+      const rest = text.substring(i, end).trimStart();
+      let type = ReferenceType.read;
+      if (rest.startsWith("(")) {
+        type = ReferenceType.call;
+      } else if (isLogic && assignmentRegex.test(rest)) {
+        type = ReferenceType.assignment;
+      }
+      this.addReference(context, type, pathStart, path);
+    }
+  }
+
+  /**
+   * Scans a divert (`->`), tunnel (`-> target ->`), tunnel onwards (`->->`) or thread (`<-`) for its target.
+   * @param context - The line being scanned.
+   * @param start - The position of the divert arrow.
+   * @param end - The position to stop scanning at.
+   * @returns The position following the divert target.
+   */
+  private scanDivert(context: LineContext, start: number, end: number): number {
+    const text = context.text;
+    const isTunnelReturn = text.startsWith("->->", start);
+    let type = text.startsWith("<-", start)
+      ? ReferenceType.thread
+      : ReferenceType.divert;
+    let i = start + (isTunnelReturn ? 4 : 2);
+    while (i < end && /\s/.test(text[i])) {
+      i++;
+    }
+    identifierPathRegex.lastIndex = i;
+    const match = i < end ? identifierPathRegex.exec(text) : null;
+    if (!match) {
+      return i;
+    }
+    const path = match[0];
+    const pathStart = i;
+    i += path.length;
+    if (reservedWords.has(path)) {
+      return i;
+    }
+
+    // Arguments may themselves contain references, e.g. `-> knot(x, -> other)`
+    let next = i;
+    while (next < end && /\s/.test(text[next])) {
+      next++;
+    }
+    if (text[next] === "(") {
+      const close = this.findClosing(text, next);
+      const argsEnd = close === -1 ? end : close;
+      this.scanCode(context, next + 1, argsEnd, false);
+      i = close === -1 ? end : close + 1;
+      next = i;
+      while (next < end && /\s/.test(text[next])) {
+        next++;
+      }
+    }
+
+    if (
+      type === ReferenceType.divert &&
+      !isTunnelReturn &&
+      text.startsWith("->", next)
+    ) {
+      type = ReferenceType.tunnel;
+    }
+    this.addReference(context, type, pathStart, path);
+    return i;
+  }
+
+  /**
+   * Scans content for diverts and `{...}` blocks, ignoring prose.
+   * @param context - The line being scanned.
+   * @param start - The position to start scanning from.
+   * @param blocks - The open multiline blocks; true for conditionals, false for sequences.
+   */
+  private scanText(context: LineContext, start: number, blocks: boolean[]): void {
+    const text = context.text;
+    let inlineDepth = 0;
+    let i = start;
+    while (i < text.length) {
+      if (text.startsWith("->", i) || text.startsWith("<-", i)) {
+        i = this.scanDivert(context, i, text.length);
+        continue;
+      }
+
+      const ch = text[i];
+      if (ch === "}") {
+        if (inlineDepth > 0) {
+          inlineDepth--;
+        } else {
+          blocks.pop();
+        }
+        i++;
+        continue;
+      }
+      if (ch !== "{") {
+        i++;
+        continue;
+      }
+
+      const close = this.findClosing(text, i);
+      const end = close === -1 ? text.length : close;
+      const delimiter = this.findDelimiter(text, i + 1, end, ":|");
+      const marker = text.substring(i + 1, end).trimStart()[0];
+      let isConditional = true;
+      if (marker && "&~!$".includes(marker)) {
+        // Sequences, cycles, shuffles and once-only alternatives contain only content
+        isConditional = false;
+        i++;
+      } else if (delimiter !== -1 && text[delimiter] === ":") {
+        // Conditionals start with a condition, unless they are a multiline sequence, e.g. `{stopping:`
+        if (sequenceHeadRegex.test(text.substring(i + 1, delimiter))) {
+          isConditional = false;
+        } else {
+          this.scanCode(context, i + 1, delimiter, false);
+        }
+        i = delimiter + 1;
+      } else if (delimiter !== -1) {
+        isConditional = false;
+        i++;
+      } else {
+        // Anything else prints the value of an expression, e.g. `{x}` or `{knot}`
+        this.scanCode(context, i + 1, end, false);
+        i = end;
+      }
+
+      if (close === -1) {
+        blocks.push(isConditional);
+      } else {
+        inlineDepth++;
+      }
+    }
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * Parses the references made by an Ink document.
+   * @param document - The document to parse.
+   * @returns The references, in document order.
+   */
+  public parse(document: vscode.TextDocument): InkReference[] {
+    const lines = stripComments(document.getText()).split(/\r?\n/);
+    const references: InkReference[] = [];
+    const blocks: boolean[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      this.parseLine({ text: lines[i], line: i, references }, blocks);
+    }
+    return references;
+  }
+
+  /**
+   * Parses the references made by an Ink document, and caches them in the ReferenceManager.
+   * @param document - The document to parse.
+   * @returns The references, in document order.
+   */
+  public parseAndCache(document: vscode.TextDocument): InkReference[] {
+    const references = this.parse(document);
+    ReferenceManager.getInstance().setReferences(
+      document.uri,
+      references,
+      document
+    );
+    return references;
+  }
+}
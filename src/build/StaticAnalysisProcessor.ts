@@ -0,0 +1,138 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { IPipelineProcessor } from "./IPipelineProcessor";
+import { PipelineContext } from "./PipelineContext";
+import { StoryAnalyzer } from "./analysis/StoryAnalyzer";
+import { EntityType, OutlineEntity } from "../model/OutlineEntity";
+import { OutlineManager } from "../model/OutlineManager";
+import { getDefinitionNameRange } from "../util/ink/getDefinitionNameRange";
+
+/**
+ * Pipeline processor that analyses a compiled Ink story for dead content: knots and stitches which can never be
+ * reached, functions which are never called, and variables which are never read.
+ */
+export class StaticAnalysisProcessor implements IPipelineProcessor {
+  // Private Methods ==================================================================================================
+
+  /**
+   * Analyses a root entity of a document, and the stitches of a knot.
+   */
+  private analyzeEntity(
+    context: PipelineContext,
+    analyzer: StoryAnalyzer,
+    document: vscode.TextDocument,
+    entity: OutlineEntity
+  ): void {
+    const name = entity.identifier;
+    switch (entity.type) {
+      case EntityType.knot:
+        if (!analyzer.isReachable([name])) {
+          this.report(
+            context,
+            document,
+            entity,
+            `Knot '${name}' can never be reached from the start of the story.`
+          );
+          return;
+        }
+        for (const stitch of entity.children) {
+          const path = [name, stitch.identifier];
+          if (stitch.type === EntityType.stitch && !analyzer.isReachable(path)) {
+            this.report(
+              context,
+              document,
+              stitch,
+              `Stitch '${path.join(".")}' can never be reached from the start of the story.`
+            );
+          }
+        }
+        break;
+      case EntityType.function:
+        if (!analyzer.isFunctionCalled(name)) {
+          this.report(
+            context,
+            document,
+            entity,
+            `Function '${name}' is never called.`
+          );
+        }
+        break;
+      case EntityType.variable:
+        if (!analyzer.isVariableRead(name)) {
+          this.report(
+            context,
+            document,
+            entity,
+            `Variable '${name}' is assigned but its value is never read.`
+          );
+        }
+        break;
+    }
+  }
+
+  private report(
+    context: PipelineContext,
+    document: vscode.TextDocument,
+    entity: OutlineEntity,
+    message: string
+  ): void {
+    const range =
+      getDefinitionNameRange(document, entity) ?? entity.definitionRange;
+    context.reportDiagnostic(
+      document.uri,
+      range,
+      message,
+      vscode.DiagnosticSeverity.Warning
+    );
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  async run(context: PipelineContext): Promise<void> {
+    if (!context.story) {
+      return;
+    }
+    const analyzer = new StoryAnalyzer(context.story);
+
+    const documents = new Map<string, vscode.TextDocument>();
+    for (const document of [
+      await context.getTextDocument(),
+      ...context.includeDocuments.values(),
+    ]) {
+      documents.set(document.uri.toString(), document);
+    }
+
+    const outlineManager = OutlineManager.getInstance();
+    for (const document of documents.values()) {
+      for (const entity of outlineManager.getOutline(document.uri) ?? []) {
+        this.analyzeEntity(context, analyzer, document, entity);
+      }
+    }
+  }
+}
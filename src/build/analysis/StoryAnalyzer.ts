@@ -0,0 +1,204 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Story } from "inkjs";
+import { ChoicePoint } from "inkjs/engine/ChoicePoint";
+import { Container } from "inkjs/engine/Container";
+import { Divert } from "inkjs/engine/Divert";
+import { InkObject } from "inkjs/engine/Object";
+import { PushPopType } from "inkjs/engine/PushPop";
+import { DivertTargetValue } from "inkjs/engine/Value";
+import { VariableReference } from "inkjs/engine/VariableReference";
+
+/**
+ * Analyses the runtime container tree of a compiled Ink Story, to find which knots and stitches can be reached from
+ * the start of the story, which functions are called and which variables are read.
+ *
+ * Reachability errs on the side of caution: entering a container part way through (e.g. at a label) treats its
+ * enclosing containers as reached, and any knot stored as a divert target value is treated as reachable.
+ */
+export class StoryAnalyzer {
+  // Private Properties ===============================================================================================
+
+  private readonly calledFunctions = new Set<Container>();
+  private readonly reachedContainers = new Set<Container>();
+  private readonly readVariables = new Set<string>();
+  private readonly root: Container;
+
+  // Constructor ======================================================================================================
+
+  constructor(story: Story) {
+    this.root = story.mainContentContainer;
+    const entryPoints: Container[] = [this.root];
+    this.scan(this.root, entryPoints);
+    for (const entryPoint of entryPoints) {
+      this.enter(entryPoint);
+    }
+  }
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Gets the containers nested within a container, whether part of its flow or only reachable by name.
+   */
+  private getChildContainers(container: Container): Container[] {
+    const children = container.content.filter(
+      (obj): obj is Container => obj instanceof Container
+    );
+    for (const obj of container.namedOnlyContent?.values() ?? []) {
+      if (obj instanceof Container) {
+        children.push(obj);
+      }
+    }
+    return children;
+  }
+
+  /**
+   * Gets the container targeted by a divert, choice or divert target value.
+   */
+  private getTarget(obj: InkObject): Container | null {
+    if (obj instanceof Divert) {
+      return obj.hasVariableTarget || obj.isExternal
+        ? null
+        : obj.targetPointer.container;
+    }
+    if (obj instanceof ChoicePoint) {
+      return obj.choiceTarget;
+    }
+    if (obj instanceof DivertTargetValue) {
+      return this.root.ContentAtPath(obj.targetPath).container;
+    }
+    return null;
+  }
+
+  /**
+   * Determines whether a container, or any container nested within it, has been reached.
+   */
+  private isReachedWithin(container: Container): boolean {
+    return (
+      this.reachedContainers.has(container) ||
+      this.getChildContainers(container).some((c) => this.isReachedWithin(c))
+    );
+  }
+
+  /**
+   * Enters a container, treating it and all of its enclosing containers (other than the root) as reached.
+   */
+  private enter(target: Container): void {
+    let container: InkObject | null = target;
+    while (container instanceof Container) {
+      this.visit(container);
+      if (container === this.root) {
+        break;
+      }
+      container = container.parent;
+    }
+  }
+
+  /**
+   * Scans every container, whether reachable or not, for function calls, variable reads and divert target values.
+   */
+  private scan(container: Container, entryPoints: Container[]): void {
+    for (const obj of container.content) {
+      if (
+        obj instanceof Divert &&
+        obj.pushesToStack &&
+        obj.stackPushType === PushPopType.Function
+      ) {
+        const target = this.getTarget(obj);
+        if (target) {
+          this.calledFunctions.add(target);
+        }
+      } else if (obj instanceof VariableReference && obj.name) {
+        this.readVariables.add(obj.name);
+      } else if (obj instanceof DivertTargetValue) {
+        const target = this.getTarget(obj);
+        if (target) {
+          entryPoints.push(target);
+        }
+      }
+    }
+    for (const child of this.getChildContainers(container)) {
+      this.scan(child, entryPoints);
+    }
+  }
+
+  /**
+   * Visits a reached container, following its flow into nested containers and its diverts and choices to others.
+   */
+  private visit(container: Container): void {
+    if (this.reachedContainers.has(container)) {
+      return;
+    }
+    this.reachedContainers.add(container);
+    for (const obj of container.content) {
+      if (obj instanceof Container) {
+        this.visit(obj);
+        continue;
+      }
+      const target = this.getTarget(obj);
+      if (target && !(obj instanceof DivertTargetValue)) {
+        this.enter(target);
+      }
+    }
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * Determines whether a function is called from anywhere in the story.
+   * @param name - The name of the function.
+   * @returns True if the function is called, or if it cannot be found in the story.
+   */
+  public isFunctionCalled(name: string): boolean {
+    const container = this.root.namedContent.get(name);
+    return !(container instanceof Container) || this.calledFunctions.has(container);
+  }
+
+  /**
+   * Determines whether a knot or stitch can be reached from the start of the story.
+   * @param path - The path of the knot or stitch, e.g. `["knot", "stitch"]`.
+   * @returns True if the knot or stitch is reachable, or if it cannot be found in the story.
+   */
+  public isReachable(path: string[]): boolean {
+    let container: Container = this.root;
+    for (const segment of path) {
+      const child = container.namedContent.get(segment);
+      if (!(child instanceof Container)) {
+        return true;
+      }
+      container = child;
+    }
+    return this.isReachedWithin(container);
+  }
+
+  /**
+   * Determines whether the value of a variable is read anywhere in the story.
+   * @param name - The name of the variable.
+   * @returns True if the variable is read.
+   */
+  public isVariableRead(name: string): boolean {
+    return this.readVariables.has(name);
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+
+/**
+ * Represents a token named by a compilation error, which may be found on the offending line.
+ */
+type ErrorToken = {
+  text: string;
+  isDivert: boolean;
+  isLast: boolean;
+};
+
+// Private Functions ==================================================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Extracts the tokens named by a compilation error message, in order of appearance.
+ * Tokens are either quoted (e.g. `Divert target not found: '-> nowhere'`) or a trailing identifier
+ * (e.g. `Unresolved variable: gold`).
+ */
+function extractTokens(message: string): ErrorToken[] {
+  const tokens: ErrorToken[] = [];
+  const quotedRegex = /(saw\s+)?'([^']+)'/g;
+  let match: RegExpExecArray | null;
+  while ((match = quotedRegex.exec(message)) !== null) {
+    const text = match[2];
+    const isDivert = text.startsWith("->");
+    tokens.push({
+      text: isDivert ? text.replace(/^->\s*/, "") : text,
+      isDivert,
+      isLast: match[1] !== undefined,
+    });
+  }
+  const trailing = /:\s*([a-zA-Z_][a-zA-Z0-9_.]*)\s*$/.exec(message);
+  if (trailing) {
+    tokens.push({ text: trailing[1], isDivert: false, isLast: false });
+  }
+  return tokens.filter((token) => token.text.trim() !== "");
+}
+
+/**
+ * Finds a token on a line, returning its start index or -1 if not found.
+ * Function call targets are reported as diverts (e.g. `'-> func'`), so divert targets are also searched for as words.
+ */
+function findToken(lineText: string, token: ErrorToken): number {
+  const index = findTokenPattern(lineText, token);
+  return index === -1 && token.isDivert
+    ? findTokenPattern(lineText, { ...token, isDivert: false })
+    : index;
+}
+
+function findTokenPattern(lineText: string, token: ErrorToken): number {
+  const escaped = escapeRegExp(token.text);
+  const isWord = /^[a-zA-Z0-9_.]+$/.test(token.text);
+  const pattern = token.isDivert
+    ? `(?:->|<-)\\s*(${escaped})(?![a-zA-Z0-9_])`
+    : isWord
+    ? `(?<![a-zA-Z0-9_])(${escaped})(?![a-zA-Z0-9_])`
+    : `(${escaped})`;
+  const regex = new RegExp(pattern, "g");
+  let found = -1;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(lineText)) !== null) {
+    found = match.index + match[0].length - match[1].length;
+    if (!token.isLast) {
+      break;
+    }
+  }
+  return found;
+}
+
+// Exported Functions =================================================================================================
+
+/**
+ * Gets the range of the token a compilation error refers to.
+ * The Ink compiler only reports the line of an error, so the token is found by searching the line for the
+ * identifier, divert target or character named in the message. If none can be found, the range spans the content
+ * of the line, excluding indentation and trailing whitespace.
+ * @param lineText - The text of the line the error was reported on.
+ * @param line - The 0-based line number of the error.
+ * @param message - The error message.
+ * @returns The range of the offending token.
+ */
+export function getCompilationErrorRange(
+  lineText: string,
+  line: number,
+  message: string
+): vscode.Range {
+  const start = lineText.length - lineText.trimStart().length;
+  const end = lineText.trimEnd().length;
+  if (end <= start) {
+    return new vscode.Range(line, 0, line, lineText.length);
+  }
+
+  if (/saw end of line/i.test(message)) {
+    return new vscode.Range(line, end - 1, line, end);
+  }
+
+  for (const token of extractTokens(message)) {
+    const index = findToken(lineText, token);
+    if (index !== -1) {
+      return new vscode.Range(line, index, line, index + token.text.length);
+    }
+  }
+  return new vscode.Range(line, start, line, end);
+}
@@ -0,0 +1,61 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Choice } from "inkjs/compiler/Parser/ParsedHierarchy/Choice";
+import { FlowBase } from "inkjs/compiler/Parser/ParsedHierarchy/Flow/FlowBase";
+import { Gather } from "inkjs/compiler/Parser/ParsedHierarchy/Gather/Gather";
+import { Story as ParsedStory } from "inkjs/compiler/Parser/ParsedHierarchy/Story";
+
+// Exported Functions =================================================================================================
+
+/**
+ * Gets the runtime path of each labelled choice and gather in a compiled story, keyed by the path used to refer to it
+ * in Ink, e.g. `chapter_9.duel.parried`. Labels are compiled into containers nested within their weave, and labelled
+ * choices into anonymous containers, so their runtime paths cannot be worked out from the runtime story alone.
+ * @param parsedStory - The parsed story, after it has been compiled.
+ * @returns The runtime path of the container counting the visits of each label.
+ */
+export function getLabelPaths(parsedStory: ParsedStory): Map<string, string> {
+  const labels = [
+    ...parsedStory.FindAll(Choice)((choice) => !!choice.name),
+    ...parsedStory.FindAll(Gather)((gather) => !!gather.name),
+  ];
+
+  const paths = new Map<string, string>();
+  for (const label of labels) {
+    const container = label.containerForCounting;
+    if (!container) {
+      continue;
+    }
+    const flows = label.ancestry
+      .filter((ancestor): ancestor is FlowBase => ancestor instanceof FlowBase)
+      .map((flow) => flow.identifier?.name)
+      .filter((name): name is string => !!name);
+    paths.set(
+      [...flows, label.name].join("."),
+      container.path.componentsString
+    );
+  }
+  return paths;
+}
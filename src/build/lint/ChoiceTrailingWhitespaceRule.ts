@@ -0,0 +1,78 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { ILintRule, LintProblem, LintSeverity } from "./ILintRule";
+import { WeaveLine, WeaveLineKind } from "./parseWeaveLines";
+
+/**
+ * Lint rule that reports whitespace at the end of choice text, either before the closing `]` of choice-only
+ * content or at the end of the line.
+ */
+export class ChoiceTrailingWhitespaceRule implements ILintRule {
+  // Public Properties ================================================================================================
+
+  readonly id = "choice-trailing-whitespace";
+
+  readonly defaultSeverity: LintSeverity = "info";
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  check(lines: WeaveLine[]): LintProblem[] {
+    const problems: LintProblem[] = [];
+    for (const line of lines) {
+      if (line.kind !== WeaveLineKind.choice) {
+        continue;
+      }
+
+      // Before the closing bracket of choice-only content
+      const bracket = /\S(\s+)\]/.exec(line.code.slice(line.bulletEnd));
+      if (bracket) {
+        const start = line.bulletEnd + bracket.index + 1;
+        problems.push({
+          range: new vscode.Range(
+            line.line,
+            start,
+            line.line,
+            start + bracket[1].length
+          ),
+          message: "Choice text has trailing whitespace before ']'.",
+        });
+      }
+
+      // At the end of the line, unless it is followed by a comment
+      const end = line.text.trimEnd().length;
+      if (end < line.text.length && line.code.trimEnd().length === end) {
+        problems.push({
+          range: new vscode.Range(line.line, end, line.line, line.text.length),
+          message: "Choice text has trailing whitespace.",
+        });
+      }
+    }
+    return problems;
+  }
+}
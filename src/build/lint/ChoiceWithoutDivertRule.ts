@@ -0,0 +1,107 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { ILintRule, LintProblem, LintSeverity } from "./ILintRule";
+import { WeaveLine, WeaveLineKind } from "./parseWeaveLines";
+
+/**
+ * Lint rule that reports choices whose flow runs out: the choice has no divert, and no gather follows to collect it.
+ */
+export class ChoiceWithoutDivertRule implements ILintRule {
+  // Public Properties ================================================================================================
+
+  readonly id = "choice-without-divert";
+
+  readonly defaultSeverity: LintSeverity = "warning";
+
+  // Private Methods ==================================================================================================
+
+  private isBoundary(line: WeaveLine): boolean {
+    return (
+      line.kind === WeaveLineKind.knot ||
+      line.kind === WeaveLineKind.stitch ||
+      line.kind === WeaveLineKind.function
+    );
+  }
+
+  /**
+   * Determines whether the flow continues after the choice at the given index.
+   */
+  private isContinued(lines: WeaveLine[], index: number): boolean {
+    const choice = lines[index];
+    if (choice.code.includes("->")) {
+      return true;
+    }
+
+    // The body of the choice, where a divert or a nested weave takes over the flow
+    let i = index + 1;
+    for (; i < lines.length; i++) {
+      const line = lines[i];
+      if (
+        this.isBoundary(line) ||
+        (line.depth > 0 && line.depth <= choice.depth)
+      ) {
+        break;
+      }
+      if (line.depth > 0 || line.code.includes("->")) {
+        return true;
+      }
+    }
+
+    // A later gather at the same or a lower depth collects the flow
+    for (; i < lines.length && !this.isBoundary(lines[i]); i++) {
+      const line = lines[i];
+      if (line.kind === WeaveLineKind.gather && line.depth <= choice.depth) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  check(lines: WeaveLine[]): LintProblem[] {
+    const problems: LintProblem[] = [];
+    lines.forEach((line, index) => {
+      if (line.kind !== WeaveLineKind.choice || this.isContinued(lines, index)) {
+        return;
+      }
+      problems.push({
+        range: new vscode.Range(
+          line.line,
+          line.bulletStart,
+          line.line,
+          line.code.trimEnd().length
+        ),
+        message:
+          "Choice has no divert and no gather follows it, so the story runs out of content once it is chosen.",
+      });
+    });
+    return problems;
+  }
+}
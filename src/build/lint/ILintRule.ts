@@ -0,0 +1,65 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { WeaveLine } from "./parseWeaveLines";
+
+/**
+ * The severity of a lint rule, as configured in the settings.
+ */
+export type LintSeverity = "off" | "info" | "warning" | "error";
+
+/**
+ * A problem found by a lint rule.
+ */
+export interface LintProblem {
+  range: vscode.Range;
+  message: string;
+}
+
+/**
+ * Interface for a lint rule, which checks the lines of a single Ink document.
+ */
+export interface ILintRule {
+  // Public Properties ================================================================================================
+
+  /**
+   * The identifier of the rule, used in settings and in `// ink-lint-disable` comments.
+   */
+  readonly id: string;
+
+  /**
+   * The severity of the rule when it is not configured.
+   */
+  readonly defaultSeverity: LintSeverity;
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * Checks the lines of a document.
+   * @param lines - The classified lines of the document.
+   * @returns The problems found.
+   */
+  check(lines: WeaveLine[]): LintProblem[];
+}
@@ -0,0 +1,112 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { ILintRule, LintProblem, LintSeverity } from "./ILintRule";
+import { WeaveLine, WeaveLineKind } from "./parseWeaveLines";
+
+/**
+ * Lint rule that reports knots with no way out: nothing within the knot or its stitches diverts to END or DONE,
+ * returns from a tunnel, or diverts to another knot.
+ */
+export class KnotWithoutEndRule implements ILintRule {
+  // Private Properties ===============================================================================================
+
+  private divertRegex = /->(->)?\s*([a-zA-Z_][a-zA-Z0-9_]*)?/g;
+
+  // Public Properties ================================================================================================
+
+  readonly id = "knot-without-end";
+
+  readonly defaultSeverity: LintSeverity = "info";
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Determines whether any line of a knot leads out of it.
+   */
+  private hasExit(knot: WeaveLine, body: WeaveLine[]): boolean {
+    const localNames = new Set<string>([knot.name!]);
+    for (const line of body) {
+      if (line.name) {
+        localNames.add(line.name);
+      }
+    }
+
+    for (const line of body) {
+      this.divertRegex.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = this.divertRegex.exec(line.code)) !== null) {
+        const target = match[2];
+        if (
+          match[1] ||
+          target === "END" ||
+          target === "DONE" ||
+          (target && !localNames.has(target))
+        ) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  check(lines: WeaveLine[]): LintProblem[] {
+    const problems: LintProblem[] = [];
+    lines.forEach((knot, index) => {
+      if (knot.kind !== WeaveLineKind.knot) {
+        return;
+      }
+      let end = index + 1;
+      while (
+        end < lines.length &&
+        lines[end].kind !== WeaveLineKind.knot &&
+        lines[end].kind !== WeaveLineKind.function
+      ) {
+        end++;
+      }
+      if (this.hasExit(knot, lines.slice(index + 1, end))) {
+        return;
+      }
+
+      const name = knot.name!;
+      const start = knot.code.search(new RegExp(`\\b${name}\\b`));
+      problems.push({
+        range: new vscode.Range(
+          knot.line,
+          start,
+          knot.line,
+          start + name.length
+        ),
+        message: `Knot '${name}' never diverts to END or DONE, returns from a tunnel, or diverts to another knot.`,
+      });
+    });
+    return problems;
+  }
+}
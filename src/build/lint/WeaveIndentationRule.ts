@@ -0,0 +1,74 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { ILintRule, LintProblem, LintSeverity } from "./ILintRule";
+import { WeaveLine, WeaveLineKind } from "./parseWeaveLines";
+
+/**
+ * Lint rule that reports weave bullets indented differently from the first bullet of the same depth in their knot,
+ * stitch or function.
+ */
+export class WeaveIndentationRule implements ILintRule {
+  // Public Properties ================================================================================================
+
+  readonly id = "inconsistent-weave-indentation";
+
+  readonly defaultSeverity: LintSeverity = "info";
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  check(lines: WeaveLine[]): LintProblem[] {
+    const problems: LintProblem[] = [];
+    let indents = new Map<number, string>();
+    for (const line of lines) {
+      if (
+        line.kind === WeaveLineKind.knot ||
+        line.kind === WeaveLineKind.stitch ||
+        line.kind === WeaveLineKind.function
+      ) {
+        indents = new Map<number, string>();
+        continue;
+      }
+      if (line.depth === 0) {
+        continue;
+      }
+
+      const indent = line.text.slice(0, line.bulletStart);
+      const expected = indents.get(line.depth);
+      if (expected === undefined) {
+        indents.set(line.depth, indent);
+      } else if (indent !== expected) {
+        problems.push({
+          range: new vscode.Range(line.line, 0, line.line, line.bulletEnd),
+          message: `Weave bullet is indented differently from the other bullets at depth ${line.depth}.`,
+        });
+      }
+    }
+    return problems;
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { WeaveLine } from "./parseWeaveLines";
+
+/**
+ * The lint rules disabled for a document by `// ink-lint-disable` comments.
+ */
+export interface LintSuppressions {
+  /**
+   * Whether every rule is disabled, by a comment which names no rules.
+   */
+  all: boolean;
+
+  /**
+   * The identifiers of the disabled rules.
+   */
+  rules: Set<string>;
+}
+
+const suppressionRegex = /\/\/\s*ink-lint-disable(?![\w-])(.*)$/;
+
+/**
+ * Gets the lint rules disabled for a document.
+ * A `// ink-lint-disable rule-a, rule-b` comment anywhere in a document disables the named rules for the whole
+ * document, and a comment naming no rules disables all of them.
+ * @param lines - The classified lines of the document.
+ * @returns The suppressions of the document.
+ */
+export function getLintSuppressions(lines: WeaveLine[]): LintSuppressions {
+  const suppressions: LintSuppressions = { all: false, rules: new Set() };
+  for (const line of lines) {
+    const match = suppressionRegex.exec(line.text);
+    if (!match) {
+      continue;
+    }
+    const rules = match[1].split(/[\s,]+/).filter((rule) => rule.length > 0);
+    if (rules.length === 0) {
+      suppressions.all = true;
+    }
+    rules.forEach((rule) => suppressions.rules.add(rule));
+  }
+  return suppressions;
+}
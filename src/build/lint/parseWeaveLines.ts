@@ -0,0 +1,187 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { stripComments } from "../outline/stripComments";
+
+/**
+ * The kind of a line of an Ink document, as far as the structure of a weave is concerned.
+ */
+export enum WeaveLineKind {
+  choice = "choice",
+  content = "content",
+  function = "function",
+  gather = "gather",
+  knot = "knot",
+  stitch = "stitch",
+}
+
+/**
+ * A line of an Ink document, classified for linting.
+ */
+export interface WeaveLine {
+  /**
+   * The zero-based line number in the document.
+   */
+  line: number;
+
+  /**
+   * The original text of the line.
+   */
+  text: string;
+
+  /**
+   * The text of the line with comments replaced by spaces, so that columns are preserved.
+   */
+  code: string;
+
+  /**
+   * The kind of the line.
+   */
+  kind: WeaveLineKind;
+
+  /**
+   * The name of a knot, stitch or function header, or the label of a choice or gather.
+   */
+  name?: string;
+
+  /**
+   * The number of bullets of a choice or gather, otherwise 0.
+   */
+  depth: number;
+
+  /**
+   * The column of the first bullet of a choice or gather, or of the first non-whitespace character.
+   */
+  bulletStart: number;
+
+  /**
+   * The column after the last bullet of a choice or gather.
+   */
+  bulletEnd: number;
+}
+
+const functionRegex = /^\s*==+\s*function\s+([a-zA-Z_][a-zA-Z0-9_]*)/;
+const knotRegex = /^\s*==+\s*([a-zA-Z_][a-zA-Z0-9_]*)/;
+const stitchRegex = /^\s*=\s*([a-zA-Z_][a-zA-Z0-9_]*)/;
+const labelRegex = /^\s*\(\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\)/;
+
+/**
+ * Reads the bullets of a choice or gather from a line of code.
+ * @returns The number of bullets and the column after the last one.
+ */
+function readBullets(
+  code: string,
+  start: number,
+  isBullet: (index: number) => boolean
+): { depth: number; end: number } {
+  let depth = 0;
+  let end = start;
+  let i = start;
+  while (i < code.length) {
+    if (isBullet(i)) {
+      depth++;
+      end = ++i;
+    } else if (/\s/.test(code[i])) {
+      i++;
+    } else {
+      break;
+    }
+  }
+  return { depth, end };
+}
+
+/**
+ * Classifies each line of an Ink document by its role in the weave.
+ * Lines within a multiline `{ }` block are content, so that the `- condition:` branches of a conditional are not
+ * mistaken for gathers.
+ * @param text - The text of the document.
+ * @returns The classified lines, one per line of the document.
+ */
+export function parseWeaveLines(text: string): WeaveLine[] {
+  const texts = text.split(/\r?\n/);
+  const codes = stripComments(text).split(/\r?\n/);
+  const lines: WeaveLine[] = [];
+  let braceDepth = 0;
+
+  texts.forEach((lineText, line) => {
+    const code = codes[line] ?? "";
+    const bulletStart = code.search(/\S/);
+    const weaveLine: WeaveLine = {
+      line,
+      text: lineText,
+      code,
+      kind: WeaveLineKind.content,
+      depth: 0,
+      bulletStart: Math.max(bulletStart, 0),
+      bulletEnd: Math.max(bulletStart, 0),
+    };
+    lines.push(weaveLine);
+
+    const first = bulletStart === -1 ? "" : code[bulletStart];
+    if (braceDepth === 0) {
+      let match: RegExpExecArray | null;
+      if ((match = functionRegex.exec(code))) {
+        weaveLine.kind = WeaveLineKind.function;
+        weaveLine.name = match[1];
+      } else if ((match = knotRegex.exec(code))) {
+        weaveLine.kind = WeaveLineKind.knot;
+        weaveLine.name = match[1];
+      } else if ((match = stitchRegex.exec(code))) {
+        weaveLine.kind = WeaveLineKind.stitch;
+        weaveLine.name = match[1];
+      } else if (first === "*" || first === "+") {
+        const bullets = readBullets(
+          code,
+          bulletStart,
+          (i) => code[i] === "*" || code[i] === "+"
+        );
+        weaveLine.kind = WeaveLineKind.choice;
+        weaveLine.depth = bullets.depth;
+        weaveLine.bulletEnd = bullets.end;
+      } else if (first === "-" && code[bulletStart + 1] !== ">") {
+        const bullets = readBullets(
+          code,
+          bulletStart,
+          (i) => code[i] === "-" && code[i + 1] !== ">"
+        );
+        weaveLine.kind = WeaveLineKind.gather;
+        weaveLine.depth = bullets.depth;
+        weaveLine.bulletEnd = bullets.end;
+      }
+      if (weaveLine.depth > 0) {
+        const label = labelRegex.exec(code.slice(weaveLine.bulletEnd));
+        weaveLine.name = label?.[1];
+      }
+    }
+
+    for (const char of code) {
+      if (char === "{") {
+        braceDepth++;
+      } else if (char === "}") {
+        braceDepth = Math.max(braceDepth - 1, 0);
+      }
+    }
+  });
+  return lines;
+}
@@ -0,0 +1,57 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { EntityType } from "../../model/OutlineEntity";
+
+/**
+ * Gets a human-readable description of an entity type.
+ * @param type - The type of entity.
+ * @returns The description, e.g. "External Function".
+ */
+export function getEntityTypeDescription(type: EntityType): string {
+  switch (type) {
+    case EntityType.const:
+      return "Constant";
+    case EntityType.function:
+      return "Function";
+    case EntityType.external:
+      return "External Function";
+    case EntityType.include:
+      return "Include";
+    case EntityType.label:
+      return "Label";
+    case EntityType.list:
+      return "List";
+    case EntityType.listItem:
+      return "List Item";
+    case EntityType.knot:
+      return "Knot";
+    case EntityType.stitch:
+      return "Stitch";
+    case EntityType.variable:
+      return "Variable";
+    default:
+      return "Entity";
+  }
+}
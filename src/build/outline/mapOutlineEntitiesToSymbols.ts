@@ -23,67 +23,15 @@
  */
 
 import * as vscode from "vscode";
-import { OutlineEntity, EntityType } from "../../model/OutlineEntity";
-
-function getSymbolKind(type: EntityType): vscode.SymbolKind {
-  switch (type) {
-    case EntityType.const:
-      return vscode.SymbolKind.Constant;
-    case EntityType.external:
-      return vscode.SymbolKind.Event;
-    case EntityType.function:
-      return vscode.SymbolKind.Function;
-    case EntityType.label:
-      return vscode.SymbolKind.Key;
-    case EntityType.list:
-      return vscode.SymbolKind.Enum;
-    case EntityType.listItem:
-      return vscode.SymbolKind.EnumMember;
-    case EntityType.include:
-      return vscode.SymbolKind.File;
-    case EntityType.knot:
-      return vscode.SymbolKind.Package;
-    case EntityType.stitch:
-      return vscode.SymbolKind.Object;
-    case EntityType.variable:
-      return vscode.SymbolKind.Variable;
-    default:
-      return vscode.SymbolKind.Object;
-  }
-}
-
-function getDescription(type: EntityType): string {
-  switch (type) {
-    case EntityType.const:
-      return "Constant";
-    case EntityType.function:
-      return "Function";
-    case EntityType.external:
-      return "External Function";
-    case EntityType.include:
-      return "Include";
-    case EntityType.label:
-      return "Label";
-    case EntityType.list:
-      return "List";
-    case EntityType.listItem:
-      return "List Item";
-    case EntityType.knot:
-      return "Knot";
-    case EntityType.stitch:
-      return "Stitch";
-    case EntityType.variable:
-      return "Variable";
-    default:
-      return "Entity";
-  }
-}
+import { OutlineEntity } from "../../model/OutlineEntity";
+import { getEntitySymbolKind } from "./getEntitySymbolKind";
+import { getEntityTypeDescription } from "./getEntityTypeDescription";
 
 function mapEntityToSymbol(entity: OutlineEntity): vscode.DocumentSymbol {
   const symbol = new vscode.DocumentSymbol(
     entity.name,
-    getDescription(entity.type),
-    getSymbolKind(entity.type),
+    getEntityTypeDescription(entity.type),
+    getEntitySymbolKind(entity.type),
     entity.scopeRange,
     entity.definitionRange
   );
@@ -0,0 +1,117 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { IExtensionPlugin } from "../IExtensionPlugin";
+import { BuildEngine } from "../build/BuildEngine";
+import { StoryGraphManager } from "../graph/StoryGraphManager";
+import { VSCodeServiceLocator } from "../services/VSCodeServiceLocator";
+import {
+  IVSCodeFileContextService,
+  FileType,
+} from "../services/VSCodeFileContextService";
+
+/**
+ * Implements the VSCode Command for showing the Story Graph of an Ink story.
+ */
+export class StoryGraphCommand implements IExtensionPlugin {
+  // Private Properties ===============================================================================================
+
+  private readonly fileContextService: IVSCodeFileContextService;
+
+  // Constructors =====================================================================================================
+
+  constructor() {
+    this.fileContextService = VSCodeServiceLocator.getFileContextService();
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  activate(context: vscode.ExtensionContext): void {
+    const storyGraphCommand = vscode.commands.registerCommand(
+      "ink.showStoryGraph",
+      async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+        try {
+          const result = await this.fileContextService.resolveSingleFile(
+            FileType.ink,
+            uri,
+            uris
+          );
+
+          // Handle no selection
+          if (!result.hasSelection) {
+            vscode.window.showErrorMessage(result.errorMessage!);
+            return;
+          }
+
+          // Handle no valid file found
+          if (!result.validFile) {
+            vscode.window.showErrorMessage(result.errorMessage!);
+            return;
+          }
+
+          // Show warning if multiple files were selected
+          if (result.warningMessage) {
+            vscode.window.showWarningMessage(result.warningMessage);
+          }
+
+          // Auto-save the file if it's dirty
+          const openDoc = vscode.workspace.textDocuments.find(
+            (doc) => doc.uri.toString() === result.validFile!.toString()
+          );
+          if (openDoc && openDoc.isDirty) {
+            await openDoc.save();
+          }
+
+          // Compile the story, so that the outlines and references of its includes are up to date. The graph is
+          // shown even if the story has errors, as they are reported in the Problems Panel. A graph already being
+          // shown is rebuilt by the manager itself once the story compiles successfully.
+          const manager = StoryGraphManager.getInstance();
+          const isShowing = manager.isShowing(result.validFile);
+          const buildResult = await BuildEngine.getInstance().compileStory(
+            result.validFile
+          );
+          if (!isShowing || !buildResult.success) {
+            await manager.show(result.validFile);
+          }
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : "Unknown error occurred";
+          vscode.window.showErrorMessage(`Story Graph failed: ${errorMessage}`);
+        }
+      }
+    );
+    context.subscriptions.push(storyGraphCommand);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  dispose(): void {
+    // No explicit resources to dispose in this implementation
+  }
+}
@@ -26,8 +26,26 @@ import * as vscode from "vscode";
 import { IExtensionPlugin } from "./IExtensionPlugin";
 import { BuildSystem } from "./systems/BuildSystem";
 import { OutlineSystem } from "./systems/OutlineSystem";
+import { DefinitionSystem } from "./systems/DefinitionSystem";
+import { ReferenceSystem } from "./systems/ReferenceSystem";
+import { RenameSystem } from "./systems/RenameSystem";
+import { CompletionSystem } from "./systems/CompletionSystem";
+import { HoverSystem } from "./systems/HoverSystem";
+import { WorkspaceSymbolSystem } from "./systems/WorkspaceSymbolSystem";
+import { ExternalFunctionQuickFixSystem } from "./systems/ExternalFunctionQuickFixSystem";
+import { DivertQuickFixSystem } from "./systems/DivertQuickFixSystem";
+import { DocumentLinkSystem } from "./systems/DocumentLinkSystem";
+import { SemanticTokensSystem } from "./systems/SemanticTokensSystem";
+import { FoldingRangeSystem } from "./systems/FoldingRangeSystem";
+import { SignatureHelpSystem } from "./systems/SignatureHelpSystem";
+import { InlayHintSystem } from "./systems/InlayHintSystem";
+import { FormattingSystem } from "./systems/FormattingSystem";
+import { CallHierarchySystem } from "./systems/CallHierarchySystem";
+import { IncludeHierarchySystem } from "./systems/IncludeHierarchySystem";
+import { StoryExplorerSystem } from "./systems/StoryExplorerSystem";
 import { CompileCommand } from "./commands/CompileCommand";
 import { PreviewCommand } from "./commands/PreviewCommand";
+import { StoryGraphCommand } from "./commands/StoryGraphCommand";
 import { VSCodeServiceLocator } from "./services/VSCodeServiceLocator";
 import { VSCodeDiagnosticsServiceImpl } from "./services/VSCodeDiagnosticsService";
 import { VSCodeDocumentServiceImpl } from "./services/VSCodeDocumentService";
@@ -58,7 +76,9 @@ export function activate(context: vscode.ExtensionContext): void {
   context.subscriptions.push(documentService);
 
   // Setup Extension Service
-  const extensionService = new VSCodeExtensionServiceImpl();
+  const extensionService = new VSCodeExtensionServiceImpl(
+    context.workspaceState
+  );
   context.subscriptions.push(extensionService);
 
   // Setup Workspace Navigation Service
@@ -76,9 +96,27 @@ export function activate(context: vscode.ExtensionContext): void {
 
   // Setup Systems
   systems.push(new OutlineSystem());
+  systems.push(new DefinitionSystem());
+  systems.push(new ReferenceSystem());
+  systems.push(new RenameSystem());
+  systems.push(new CompletionSystem());
+  systems.push(new HoverSystem());
+  systems.push(new WorkspaceSymbolSystem());
+  systems.push(new ExternalFunctionQuickFixSystem());
+  systems.push(new DivertQuickFixSystem());
+  systems.push(new DocumentLinkSystem());
+  systems.push(new SemanticTokensSystem());
+  systems.push(new FoldingRangeSystem());
+  systems.push(new SignatureHelpSystem());
+  systems.push(new InlayHintSystem());
+  systems.push(new FormattingSystem());
+  systems.push(new CallHierarchySystem());
+  systems.push(new IncludeHierarchySystem());
+  systems.push(new StoryExplorerSystem());
   systems.push(new BuildSystem());
   systems.push(new CompileCommand());
   systems.push(new PreviewCommand());
+  systems.push(new StoryGraphCommand());
   systems.forEach((s) => s.activate(context));
 }
 
@@ -0,0 +1,408 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { formatFunction } from "../build/outline/formatFunction";
+import {
+  parseWeaveLines,
+  WeaveLine,
+  WeaveLineKind,
+} from "../build/lint/parseWeaveLines";
+
+/**
+ * The preferred style of a formatted Ink document.
+ */
+export interface InkFormatOptions {
+  /**
+   * The `=` signs opening knot and function headers, e.g. `===`.
+   */
+  knotHeaderMarker: string;
+
+  /**
+   * Whether knot and function headers are closed with the same `=` signs as they are opened with.
+   */
+  closeKnotHeaders: boolean;
+
+  /**
+   * Whether the bullets of nested choices and gathers are separated by spaces, e.g. `* *` rather than `**`.
+   */
+  spaceBullets: boolean;
+
+  /**
+   * Whether lines are indented by their level in the weave. When false, indentation is left unchanged.
+   */
+  indentWeave: boolean;
+
+  /**
+   * The text of a single level of indentation, e.g. two spaces or a tab.
+   */
+  indent: string;
+}
+
+/**
+ * A multiline `{ }` block which is open at the start of a line.
+ */
+interface OpenBlock {
+  /**
+   * Whether the block is a conditional, whose `- condition:` branches may be formatted.
+   */
+  isConditional: boolean;
+
+  /**
+   * Whether a `- ` branch has been seen, after which the content of the block is indented beneath its branch.
+   */
+  hasBranch: boolean;
+}
+
+const headerRegex =
+  /^(==+)\s*(function\s+)?([a-zA-Z_][a-zA-Z0-9_]*)\s*(?:\((.*?)\))?\s*(?:==+)?$/;
+
+const stitchRegex = /^=\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*(?:\((.*?)\))?$/;
+
+const assignmentRegex =
+  /^(temp\s+)?([a-zA-Z_][a-zA-Z0-9_.]*)\s*(\+=|-=|=(?!=))\s*(.*)$/;
+
+const sequenceHeadRegex =
+  /^\s*(stopping|cycle|shuffle|once)(\s+(stopping|cycle|once))?\s*$/;
+
+/**
+ * Formats Ink documents, normalising whitespace without changing what the story says or does.
+ * Each line is formatted in place, so that the formatted document has the same number of lines.
+ */
+export class InkFormatter {
+  // Private Properties ===============================================================================================
+
+  private readonly options: InkFormatOptions;
+
+  // Constructor ======================================================================================================
+
+  constructor(options: InkFormatOptions) {
+    this.options = options;
+  }
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Finds the first delimiter which is not nested within brackets.
+   * @param text - The text to search.
+   * @param start - The position to start searching from.
+   * @param delimiters - The delimiter characters to find.
+   * @returns The position of the delimiter, or -1 if not found.
+   */
+  private findDelimiter(
+    text: string,
+    start: number,
+    delimiters: string
+  ): number {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+      const ch = text[i];
+      if (ch === "{" || ch === "(") {
+        depth++;
+      } else if (depth > 0 && (ch === "}" || ch === ")")) {
+        depth--;
+      } else if (depth === 0 && delimiters.includes(ch)) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Formats a knot, function or stitch header, e.g. `==knot( a,b )` as `=== knot(a, b) ===`.
+   * @param code - The header, without indentation or comments.
+   * @returns The formatted header, or the header unchanged if it is malformed.
+   */
+  private formatHeader(code: string): string {
+    const stitch = stitchRegex.exec(code);
+    if (stitch) {
+      return `= ${this.formatSignature(stitch[1], stitch[2])}`;
+    }
+    const header = headerRegex.exec(code);
+    if (!header) {
+      return code;
+    }
+    const { knotHeaderMarker, closeKnotHeaders } = this.options;
+    const keyword = header[2] ? "function " : "";
+    const signature = this.formatSignature(header[3], header[4]);
+    const closing = closeKnotHeaders ? ` ${knotHeaderMarker}` : "";
+    return `${knotHeaderMarker} ${keyword}${signature}${closing}`;
+  }
+
+  /**
+   * Formats a name and its parameters, if it has any.
+   * @param name - The name.
+   * @param params - The parameters, or undefined if there are no brackets.
+   * @returns The formatted signature.
+   */
+  private formatSignature(name: string, params?: string): string {
+    return params === undefined ? name : formatFunction(name, params);
+  }
+
+  /**
+   * Formats the spacing around `~` assignments, e.g. `~x+=1` as `~ x += 1`.
+   * @param code - The logic line, without indentation or comments.
+   * @returns The formatted logic line.
+   */
+  private formatLogic(code: string): string {
+    const logic = code.substring(1).trim();
+    const assignment = assignmentRegex.exec(logic);
+    if (!assignment) {
+      return logic ? `~ ${logic}` : "~";
+    }
+    const [, temp, name, operator, value] = assignment;
+    return `~ ${temp ? "temp " : ""}${name} ${operator} ${value}`.trimEnd();
+  }
+
+  /**
+   * Formats the spacing around diverts, so that `->knot` becomes `-> knot` and `text->knot` becomes `text -> knot`.
+   * Arrows within strings, escaped arrows, and arrows directly following a bracket, `|` or `:` are left alone.
+   * @param code - The code to format.
+   * @returns The formatted code.
+   */
+  private formatDiverts(code: string): string {
+    let result = "";
+    let inString = false;
+    let i = 0;
+    while (i < code.length) {
+      const ch = code[i];
+      if (ch === '"') {
+        inString = !inString;
+      }
+      if (inString || !code.startsWith("->", i) || code[i - 1] === "\\") {
+        result += ch;
+        i++;
+        continue;
+      }
+
+      const arrow = code.startsWith("->->", i) ? "->->" : "->";
+      const before = result.trimEnd();
+      if (before && !"({[|:".includes(before[before.length - 1])) {
+        result = `${before} `;
+      }
+      result += arrow;
+      i += arrow.length;
+
+      let next = i;
+      while (next < code.length && /[ \t]/.test(code[next])) {
+        next++;
+      }
+      if (/[a-zA-Z_]/.test(code[next] ?? "")) {
+        result += " ";
+        i = next;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Formats the conditions and expressions of `{ }` blocks, so that `{ x > 1 : text}` becomes `{x > 1: text}` and
+   * `{ x }` becomes `{x}`. Sequences and alternatives are content, so are left alone.
+   * @param code - The code to format.
+   * @returns The formatted code.
+   */
+  private formatConditions(code: string): string {
+    let result = "";
+    let i = 0;
+    while (i < code.length) {
+      if (code[i] !== "{") {
+        result += code[i++];
+        continue;
+      }
+      const delimiter = this.findDelimiter(code, i + 1, ":|}");
+      const head = code.substring(
+        i + 1,
+        delimiter === -1 ? code.length : delimiter
+      );
+      const marker = head.trimStart()[0];
+      if (
+        delimiter === -1 ||
+        code[delimiter] === "|" ||
+        (marker && "&~!$".includes(marker)) ||
+        sequenceHeadRegex.test(head) ||
+        head.trim() === ""
+      ) {
+        result += code[i++];
+        continue;
+      }
+      result += `{${head.trim()}${code[delimiter]}`;
+      i = delimiter + 1;
+    }
+    return result;
+  }
+
+  /**
+   * Formats the bullets of a choice or gather, e.g. `**Choice` as `* * Choice`.
+   * @param line - The choice or gather.
+   * @param code - The line, without comments.
+   * @returns The formatted line, without indentation.
+   */
+  private formatBullets(line: WeaveLine, code: string): string {
+    const bullets = code
+      .substring(line.bulletStart, line.bulletEnd)
+      .replace(/\s/g, "")
+      .split("")
+      .join(this.options.spaceBullets ? " " : "");
+    const rest = this.formatCode(code.substring(line.bulletEnd).trim());
+    return rest ? `${bullets} ${rest}` : bullets;
+  }
+
+  /**
+   * Formats the spacing within a line of content or logic.
+   * @param code - The code, without indentation or comments.
+   * @returns The formatted code.
+   */
+  private formatCode(code: string): string {
+    if (code.startsWith("~")) {
+      code = this.formatLogic(code);
+    }
+    return this.formatConditions(this.formatDiverts(code));
+  }
+
+  /**
+   * Formats a `- condition:` branch of a multiline conditional, e.g. `-  x > 1 :` as `- x > 1:`.
+   * @param code - The branch, without indentation or comments.
+   * @returns The formatted branch.
+   */
+  private formatBranch(code: string): string {
+    const colon = this.findDelimiter(code, 1, ":");
+    if (colon === -1) {
+      return code;
+    }
+    const condition = code.substring(1, colon).trim();
+    const rest = this.formatCode(code.substring(colon + 1).trim());
+    return `- ${condition}:${rest ? ` ${rest}` : ""}`;
+  }
+
+  /**
+   * Updates the open multiline blocks with the braces of a line.
+   * @param code - The line, without comments.
+   * @param blocks - The open blocks, innermost last.
+   */
+  private trackBlocks(code: string, blocks: OpenBlock[]): void {
+    for (let i = 0; i < code.length; i++) {
+      if (code[i] === "{") {
+        const delimiter = this.findDelimiter(code, i + 1, ":|}");
+        const head = code.substring(
+          i + 1,
+          delimiter === -1 ? code.length : delimiter
+        );
+        const marker = head.trimStart()[0];
+        blocks.push({
+          isConditional:
+            !(marker && "&~!$".includes(marker)) &&
+            !sequenceHeadRegex.test(head),
+          hasBranch: false,
+        });
+      } else if (code[i] === "}") {
+        blocks.pop();
+      }
+    }
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * Formats an Ink document.
+   * @param text - The text of the document.
+   * @returns The formatted lines, one for each line of the document.
+   */
+  public format(text: string): string[] {
+    const { indent, indentWeave } = this.options;
+    const blocks: OpenBlock[] = [];
+    let level = 0;
+
+    return parseWeaveLines(text).map((line) => {
+      const trimmed = line.text.trim();
+      if (trimmed === "") {
+        return "";
+      }
+
+      // Lines within block comments are left as they are
+      const isLineComment = trimmed.startsWith("//");
+      if (line.code.trim() === "" && !isLineComment) {
+        return line.text;
+      }
+
+      // Trailing comments are kept, whereas lines with comments within them are only indented
+      let code = line.code.trim();
+      let comment = "";
+      const first = Array.from(line.code).findIndex(
+        (ch, i) => ch !== line.text[i]
+      );
+      if (
+        first !== -1 &&
+        code !== "" &&
+        line.code.substring(first).trim() === ""
+      ) {
+        const gap = /\s*$/.exec(line.text.substring(0, first))![0];
+        comment = gap + line.text.substring(first);
+      } else if (first !== -1) {
+        code = "";
+        comment = trimmed;
+      }
+
+      let depth =
+        level + blocks.reduce((sum, b) => sum + (b.hasBranch ? 2 : 1), 0);
+      let formatted = code;
+      switch (line.kind) {
+        case WeaveLineKind.function:
+        case WeaveLineKind.knot:
+        case WeaveLineKind.stitch:
+          blocks.length = 0;
+          level = 0;
+          depth = 0;
+          formatted = code && this.formatHeader(code);
+          break;
+        case WeaveLineKind.choice:
+        case WeaveLineKind.gather:
+          depth = line.depth - 1;
+          level =
+            line.kind === WeaveLineKind.choice ? line.depth : line.depth - 1;
+          formatted = code && this.formatBullets(line, line.code.trimEnd());
+          break;
+        default: {
+          const block = blocks[blocks.length - 1];
+          if (block && code.startsWith("}")) {
+            depth -= block.hasBranch ? 2 : 1;
+          } else if (block?.isConditional && /^-(?!>)/.test(code)) {
+            depth -= block.hasBranch ? 1 : 0;
+            block.hasBranch = true;
+            formatted = this.formatBranch(code);
+            break;
+          }
+          formatted = code && this.formatCode(code);
+        }
+      }
+      this.trackBlocks(line.code, blocks);
+
+      const lineIndent = indentWeave
+        ? indent.repeat(Math.max(depth, 0))
+        : line.text.substring(
+            0,
+            line.text.length - line.text.trimStart().length
+          );
+      return `${lineIndent}${formatted}${comment}`.trimEnd();
+    });
+  }
+}
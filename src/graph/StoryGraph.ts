@@ -0,0 +1,114 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * The kind of a node of a Story Graph.
+ */
+export type StoryGraphNodeType = "knot" | "stitch" | "story";
+
+/**
+ * The kind of an edge of a Story Graph.
+ */
+export type StoryGraphEdgeType = "choice" | "divert" | "thread" | "tunnel";
+
+/**
+ * A knot or stitch of an Ink Story, or the top of one of its documents.
+ */
+export interface StoryGraphNode {
+  /**
+   * The unique identifier of the node within the graph.
+   */
+  id: string;
+
+  /**
+   * The name shown for the node, e.g. `knot.stitch`, or the file name for the top of a document.
+   */
+  label: string;
+
+  /**
+   * The kind of the node.
+   */
+  type: StoryGraphNodeType;
+
+  /**
+   * The URI of the document defining the node, as a string so that it can be sent to the webview.
+   */
+  uri: string;
+
+  /**
+   * The zero-based line the node is defined at.
+   */
+  line: number;
+
+  /**
+   * The number of edges between the top of the root story and the node, used to lay out the graph in columns.
+   * Nodes which cannot be reached are counted from the first of them in the document.
+   */
+  rank: number;
+}
+
+/**
+ * A divert, tunnel, thread or choice from one node of a Story Graph to another.
+ */
+export interface StoryGraphEdge {
+  /**
+   * The identifier of the node the edge leaves.
+   */
+  from: string;
+
+  /**
+   * The identifier of the node the edge enters.
+   */
+  to: string;
+
+  /**
+   * The kind of the edge. Diverts made from within the content of a choice are choice edges.
+   */
+  type: StoryGraphEdgeType;
+
+  /**
+   * The text of the choice, for choice edges.
+   */
+  label?: string;
+}
+
+/**
+ * The knots and stitches of an Ink Story and its includes, along with the flow between them.
+ */
+export interface StoryGraph {
+  /**
+   * The URI of the root story, as a string.
+   */
+  rootUri: string;
+
+  /**
+   * The nodes of the graph, starting with the top of the root story.
+   */
+  nodes: StoryGraphNode[];
+
+  /**
+   * The edges of the graph, in document order, with duplicates removed.
+   */
+  edges: StoryGraphEdge[];
+}
@@ -0,0 +1,293 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as path from "path";
+import * as vscode from "vscode";
+import {
+  parseWeaveLines,
+  WeaveLine,
+  WeaveLineKind,
+} from "../build/lint/parseWeaveLines";
+import { CallGraph } from "../model/CallGraph";
+import { ReferenceType } from "../model/InkReference";
+import { EntityType, OutlineEntity } from "../model/OutlineEntity";
+import { OutlineManager } from "../model/OutlineManager";
+import { ResolvedEntity, SymbolResolver } from "../model/SymbolResolver";
+import { VSCodeServiceLocator } from "../services/VSCodeServiceLocator";
+import {
+  StoryGraph,
+  StoryGraphEdge,
+  StoryGraphEdgeType,
+  StoryGraphNode,
+} from "./StoryGraph";
+
+/**
+ * The lines spanned by a choice and the content following it, up to the next choice or gather at the same or a
+ * shallower level of the weave.
+ */
+interface ChoiceSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const headerKinds = new Set([
+  WeaveLineKind.function,
+  WeaveLineKind.knot,
+  WeaveLineKind.stitch,
+]);
+
+const edgeTypes = new Map<ReferenceType, StoryGraphEdgeType>([
+  [ReferenceType.divert, "divert"],
+  [ReferenceType.thread, "thread"],
+  [ReferenceType.tunnel, "tunnel"],
+]);
+
+/**
+ * Builds the Story Graph of an Ink Story from the outlines and references of its documents, which must have been
+ * parsed, e.g. by compiling the story.
+ */
+export class StoryGraphBuilder {
+  // Private Properties ===============================================================================================
+
+  private readonly callGraph: CallGraph;
+
+  private readonly outlineManager: OutlineManager;
+
+  private readonly resolver: SymbolResolver;
+
+  // Constructor ======================================================================================================
+
+  constructor(resolver?: SymbolResolver, outlineManager?: OutlineManager) {
+    this.outlineManager = outlineManager ?? OutlineManager.getInstance();
+    this.resolver = resolver ?? new SymbolResolver(this.outlineManager);
+    this.callGraph = new CallGraph(this.resolver, this.outlineManager);
+  }
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Assigns each node the number of edges between it and the top of the root story. Nodes which cannot be reached
+   * are counted from the first of them, so that every node has a rank.
+   * @param nodes - The nodes, starting with the top of the root story.
+   * @param edges - The edges.
+   */
+  private assignRanks(nodes: StoryGraphNode[], edges: StoryGraphEdge[]): void {
+    const targets = new Map<string, string[]>();
+    for (const edge of edges) {
+      targets.set(edge.from, [...(targets.get(edge.from) ?? []), edge.to]);
+    }
+
+    const ranks = new Map<string, number>();
+    for (const start of nodes) {
+      if (ranks.has(start.id)) {
+        continue;
+      }
+      ranks.set(start.id, 0);
+      const queue = [start.id];
+      while (queue.length > 0) {
+        const id = queue.shift()!;
+        for (const to of targets.get(id) ?? []) {
+          if (!ranks.has(to)) {
+            ranks.set(to, ranks.get(id)! + 1);
+            queue.push(to);
+          }
+        }
+      }
+    }
+    nodes.forEach((node) => (node.rank = ranks.get(node.id)!));
+  }
+
+  /**
+   * Creates the node of a knot or stitch.
+   * @param uri - The URI of the document defining the entity.
+   * @param entity - The knot or stitch.
+   * @returns The node.
+   */
+  private createEntityNode(
+    uri: vscode.Uri,
+    entity: OutlineEntity
+  ): StoryGraphNode {
+    const isStitch = entity.type === EntityType.stitch;
+    return {
+      id: this.getNodeId({ entity, uri }),
+      label:
+        isStitch && entity.parent
+          ? `${entity.parent.identifier}.${entity.identifier}`
+          : entity.identifier,
+      type: isStitch ? "stitch" : "knot",
+      uri: uri.toString(),
+      line: entity.definitionRange.start.line,
+      rank: 0,
+    };
+  }
+
+  /**
+   * Creates the node of the top of a document, where the story starts before entering its first knot.
+   * @param uri - The URI of the document.
+   * @returns The node.
+   */
+  private createTopNode(uri: vscode.Uri): StoryGraphNode {
+    return {
+      id: `${uri.toString()}#top`,
+      label: path.basename(uri.fsPath),
+      type: "story",
+      uri: uri.toString(),
+      line: 0,
+      rank: 0,
+    };
+  }
+
+  /**
+   * Finds the choices of a document, along with the content following each of them.
+   * @param lines - The classified lines of the document.
+   * @returns The choices, in document order, so that nested choices follow the choices containing them.
+   */
+  private getChoiceSpans(lines: WeaveLine[]): ChoiceSpan[] {
+    const spans: ChoiceSpan[] = [];
+    lines.forEach((start, index) => {
+      if (start.kind !== WeaveLineKind.choice) {
+        return;
+      }
+      let end = index + 1;
+      while (
+        end < lines.length &&
+        !headerKinds.has(lines[end].kind) &&
+        (lines[end].depth === 0 || lines[end].depth > start.depth)
+      ) {
+        end++;
+      }
+      spans.push({
+        start: start.line,
+        end: lines[end - 1].line,
+        text: this.getChoiceText(start.code.substring(start.bulletEnd)),
+      });
+    });
+    return spans;
+  }
+
+  /**
+   * Gets the text offered to the player by a choice, which is its text up to the end of any `[ ]` brackets, without
+   * its label, conditions or divert.
+   * @param code - The code of the choice following its bullets.
+   * @returns The text of the choice.
+   */
+  private getChoiceText(code: string): string {
+    let text = code
+      .replace(/^\s*(\(\s*[a-zA-Z_][a-zA-Z0-9_]*\s*\))?(\s*\{[^}]*\})*/, "")
+      .split("->")[0];
+    const close = text.indexOf("]");
+    if (close !== -1) {
+      text = text.substring(0, close);
+    }
+    return text.replace("[", "").replace(/\s+/g, " ").trim();
+  }
+
+  /**
+   * Gets the identifier of the node of a knot or stitch.
+   * @param resolved - The resolved knot or stitch.
+   * @returns The identifier.
+   */
+  private getNodeId(resolved: ResolvedEntity): string {
+    return `${resolved.uri.toString()}#${resolved.entity.definitionRange.start.line}`;
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * Builds the Story Graph of an Ink Story and every document it includes.
+   * Function calls are left out, as they return to where they were called from rather than moving the story on.
+   * @param rootUri - The URI of the root story.
+   * @returns The graph.
+   */
+  public async build(rootUri: vscode.Uri): Promise<StoryGraph> {
+    const uris = this.resolver
+      .getStoryUris(rootUri)
+      .filter((uri) => uri.path.endsWith(".ink"));
+
+    const nodes = new Map<string, StoryGraphNode>();
+    const rootNode = this.createTopNode(rootUri);
+    nodes.set(rootNode.id, rootNode);
+    for (const uri of uris) {
+      for (const entity of this.outlineManager.getOutline(uri) ?? []) {
+        if (entity.type !== EntityType.knot) {
+          continue;
+        }
+        const node = this.createEntityNode(uri, entity);
+        nodes.set(node.id, node);
+        for (const child of entity.children) {
+          if (child.type === EntityType.stitch) {
+            const stitchNode = this.createEntityNode(uri, child);
+            nodes.set(stitchNode.id, stitchNode);
+          }
+        }
+      }
+    }
+
+    const edges = new Map<string, StoryGraphEdge>();
+    const documentService = VSCodeServiceLocator.getDocumentService();
+    for (const uri of uris) {
+      const document = await documentService.getTextDocument(uri);
+      const choices = this.getChoiceSpans(parseWeaveLines(document.getText()));
+
+      for (const call of this.callGraph.getEdges(uri)) {
+        const type = edgeTypes.get(call.type);
+        const to = this.getNodeId(call.callee);
+        if (!type || !nodes.has(to)) {
+          continue;
+        }
+
+        let from: string;
+        if (call.caller) {
+          from = this.getNodeId(call.caller);
+        } else {
+          const topNode = this.createTopNode(uri);
+          from = topNode.id;
+          nodes.set(from, nodes.get(from) ?? topNode);
+        }
+        if (!nodes.has(from)) {
+          continue;
+        }
+
+        const line = call.range.start.line;
+        const choice = choices
+          .filter((span) => span.start <= line && line <= span.end)
+          .pop();
+        const edge: StoryGraphEdge =
+          choice && type === "divert"
+            ? { from, to, type: "choice", label: choice.text }
+            : { from, to, type };
+        edges.set(`${from}|${to}|${edge.type}|${edge.label ?? ""}`, edge);
+      }
+    }
+
+    const graph: StoryGraph = {
+      rootUri: rootUri.toString(),
+      nodes: Array.from(nodes.values()),
+      edges: Array.from(edges.values()),
+    };
+    this.assignRanks(graph.nodes, graph.edges);
+    return graph;
+  }
+}
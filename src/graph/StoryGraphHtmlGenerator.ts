@@ -0,0 +1,71 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { VSCodeServiceLocator } from "../services/VSCodeServiceLocator";
+
+/**
+ * Helper class for generating HTML content for the Story Graph webview.
+ */
+export class StoryGraphHtmlGenerator {
+  /**
+   * Generates the complete HTML content for the Story Graph webview.
+   * @param webview - The webview instance to generate resource URIs for
+   * @returns The complete HTML content as a string
+   */
+  public generateHtml(webview: vscode.Webview): string {
+    const extensionService = VSCodeServiceLocator.getExtensionService();
+    const cssUrl = extensionService.getWebviewMediaUri(
+      webview,
+      "story-graph.css"
+    );
+    const jsUrl = extensionService.getWebviewMediaUri(
+      webview,
+      "story-graph.js"
+    );
+
+    return `<!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Ink Story Graph</title>
+        <link rel="stylesheet" href="${cssUrl}">
+      </head>
+      <body>
+        <div id="legend">
+          <span class="legend-item edge-divert">Divert</span>
+          <span class="legend-item edge-choice">Choice</span>
+          <span class="legend-item edge-tunnel">Tunnel</span>
+          <span class="legend-item edge-thread">Thread</span>
+        </div>
+        <div id="graph-container">
+          <svg id="graph"></svg>
+          <div id="graph-empty" class="hidden">This story has no knots or stitches.</div>
+        </div>
+        <script src="${jsUrl}"></script>
+      </body>
+      </html>`;
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import path from "path";
+import { BuildEngine } from "../build/BuildEngine";
+import { ISuccessfulBuildResult } from "../build/IBuildResult";
+import { DependencyManager } from "../model/DependencyManager";
+import { Message } from "../preview/PreviewMessages";
+import { VSCodeServiceLocator } from "../services/VSCodeServiceLocator";
+import { StoryGraph } from "./StoryGraph";
+import { StoryGraphBuilder } from "./StoryGraphBuilder";
+import { StoryGraphHtmlGenerator } from "./StoryGraphHtmlGenerator";
+
+/**
+ * Messages sent from the Story Graph Webview.
+ */
+export const storyGraphInboundMessages = {
+  /** Sent when Webview is ready to receive messages */
+  ready: "ready",
+
+  /** Sent when a node is clicked, with the identifier of the node */
+  openNode: "openNode",
+} as const;
+
+/**
+ * Manages the Story Graph webview, showing the knots and stitches of a root story and its includes along with the
+ * diverts between them. The graph is rebuilt whenever the story being shown is recompiled.
+ */
+export class StoryGraphManager {
+  // Private Static Properties ========================================================================================
+
+  private static instance: StoryGraphManager | undefined;
+
+  // Private Properties ===============================================================================================
+
+  private readonly webviewPanel: vscode.WebviewPanel;
+  private readonly builder: StoryGraphBuilder;
+  private readonly disposables: vscode.Disposable[] = [];
+  private graph: StoryGraph | undefined;
+  private isViewReady: boolean = false;
+  private uri: vscode.Uri | undefined;
+
+  // Public Static Methods ============================================================================================
+
+  public static getInstance(): StoryGraphManager {
+    const column = vscode.window.activeTextEditor
+      ? vscode.ViewColumn.Beside
+      : undefined;
+
+    // If we already have a panel, show it
+    if (StoryGraphManager.instance) {
+      StoryGraphManager.instance.webviewPanel.reveal(column);
+      return StoryGraphManager.instance;
+    }
+
+    // Otherwise, create a new panel
+    StoryGraphManager.instance = new StoryGraphManager();
+    return StoryGraphManager.instance;
+  }
+
+  // Constructor ======================================================================================================
+
+  private constructor() {
+    this.webviewPanel = vscode.window.createWebviewPanel(
+      "inkStoryGraph",
+      "Ink Story Graph",
+      vscode.ViewColumn.Beside,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots:
+          VSCodeServiceLocator.getExtensionService().getWebviewLocalResourceRoots(),
+      }
+    );
+
+    // Set the icon for the webview panel
+    this.webviewPanel.iconPath =
+      VSCodeServiceLocator.getExtensionService().getIconUri("ink.png");
+
+    this.builder = new StoryGraphBuilder();
+    this.webviewPanel.webview.html = new StoryGraphHtmlGenerator().generateHtml(
+      this.webviewPanel.webview
+    );
+
+    this.disposables.push(
+      this.webviewPanel.webview.onDidReceiveMessage((message: Message) =>
+        this.handleMessage(message)
+      )
+    );
+    this.webviewPanel.onDidDispose(() => this.dispose());
+
+    // Register for compilation events
+    BuildEngine.getInstance().onDidStoryCompile(
+      "story-graph-manager",
+      (result) => this.handleStoryRecompiled(result)
+    );
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * Shows the Story Graph of a root story and its includes, which must have been compiled.
+   * @param uri - The URI of the root story.
+   */
+  public async show(uri: vscode.Uri): Promise<void> {
+    this.uri = uri;
+    this.webviewPanel.title = `${path.basename(uri.fsPath)} (Story Graph)`;
+    this.graph = await this.builder.build(uri);
+    this.postGraph();
+  }
+
+  /**
+   * Checks whether the graph of a story is being shown, so that it is rebuilt when the story is recompiled.
+   * A graph shown from an included file belongs to the root stories including it as well.
+   * @param uri - The URI of the story.
+   * @returns True if the graph of the story is being shown.
+   */
+  public isShowing(uri: vscode.Uri): boolean {
+    if (!this.uri) {
+      return false;
+    }
+    const roots = DependencyManager.getInstance().getAllDependents(
+      [this.uri],
+      true
+    );
+    return [this.uri, ...roots].some(
+      (storyUri) => storyUri.toString() === uri.toString()
+    );
+  }
+
+  /**
+   * Gets the graph being shown.
+   * @returns The graph, or undefined if no story has been shown.
+   */
+  public getGraph(): StoryGraph | undefined {
+    return this.graph;
+  }
+
+  public dispose(): void {
+    console.debug("[StoryGraphManager] 🗑️ Disposing manager");
+
+    // Unregister from compilation events
+    BuildEngine.getInstance().offDidStoryCompile("story-graph-manager");
+
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables.length = 0;
+    this.webviewPanel.dispose();
+    StoryGraphManager.instance = undefined;
+  }
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Handles a message from the webview.
+   * @param message - The message.
+   */
+  private async handleMessage(message: Message): Promise<void> {
+    if (message.command === storyGraphInboundMessages.ready) {
+      this.isViewReady = true;
+      this.postGraph();
+    } else if (message.command === storyGraphInboundMessages.openNode) {
+      const node = this.graph?.nodes.find((n) => n.id === message.payload?.id);
+      if (!node) {
+        return;
+      }
+      try {
+        await VSCodeServiceLocator.getWorkspaceNavigationService().openDocumentEditor(
+          vscode.Uri.parse(node.uri),
+          node.line
+        );
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error occurred";
+        vscode.window.showErrorMessage(
+          `Could not open '${node.label}': ${errorMessage}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Rebuilds the graph when the story being shown is recompiled, e.g. after one of its files has been saved.
+   * @param result - The result of the compilation.
+   */
+  private async handleStoryRecompiled(
+    result: ISuccessfulBuildResult
+  ): Promise<void> {
+    if (!this.uri || !this.isShowing(result.uri)) {
+      return;
+    }
+    try {
+      await this.show(this.uri);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      vscode.window.showErrorMessage(`Story Graph failed: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Sends the graph to the webview, once it is ready to receive it.
+   */
+  private postGraph(): void {
+    if (!this.isViewReady || !this.graph) {
+      return;
+    }
+    const message: Message = {
+      command: "updateGraph",
+      payload: { graph: this.graph },
+    };
+    this.webviewPanel.webview.postMessage(message);
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { ReferenceType } from "./InkReference";
+import { EntityType, OutlineEntity } from "./OutlineEntity";
+import { OutlineManager } from "./OutlineManager";
+import { ReferenceManager } from "./ReferenceManager";
+import { ResolvedEntity, SymbolResolver } from "./SymbolResolver";
+
+/**
+ * Represents a divert, tunnel, thread or function call from one part of an Ink Story to another.
+ */
+export interface CallEdge {
+  /**
+   * The kind of call.
+   */
+  type: ReferenceType;
+
+  /**
+   * The URI of the document making the call.
+   */
+  uri: vscode.Uri;
+
+  /**
+   * The range of the identifier being called.
+   */
+  range: vscode.Range;
+
+  /**
+   * The innermost knot, stitch or function making the call, or undefined if it is made from the top of the document.
+   */
+  caller?: ResolvedEntity;
+
+  /**
+   * The knot, stitch, function or external function being called. Calls to labels are attributed to the stitch or
+   * knot containing the label.
+   */
+  callee: ResolvedEntity;
+}
+
+const callTypes = new Set([
+  ReferenceType.call,
+  ReferenceType.divert,
+  ReferenceType.thread,
+  ReferenceType.tunnel,
+]);
+
+/**
+ * Extracts the flow between the knots, stitches and functions of Ink Stories from their references, so that each
+ * divert, tunnel, thread and function call becomes an edge from the scope making it to the scope it enters.
+ */
+export class CallGraph {
+  // Private Properties ===============================================================================================
+
+  private readonly outlineManager: OutlineManager;
+
+  private readonly referenceManager: ReferenceManager;
+
+  private readonly resolver: SymbolResolver;
+
+  // Constructor ======================================================================================================
+
+  constructor(
+    resolver?: SymbolResolver,
+    outlineManager?: OutlineManager,
+    referenceManager?: ReferenceManager
+  ) {
+    this.outlineManager = outlineManager ?? OutlineManager.getInstance();
+    this.referenceManager = referenceManager ?? ReferenceManager.getInstance();
+    this.resolver =
+      resolver ??
+      new SymbolResolver(this.outlineManager, undefined, this.referenceManager);
+  }
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Gets the knot, stitch, function or external function entered by calling an entity, which for labels is the
+   * stitch or knot containing them.
+   * @param resolved - The resolved entity being called.
+   * @returns The entity entered, or undefined if the entity cannot be called.
+   */
+  private getCallable(resolved: ResolvedEntity): ResolvedEntity | undefined {
+    let entity: OutlineEntity | undefined = resolved.entity;
+    while (entity && !entity.isBlock && entity.type !== EntityType.external) {
+      entity = entity.type === EntityType.label ? entity.parent : undefined;
+    }
+    return entity ? { entity, uri: resolved.uri } : undefined;
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * Gets the calls made by a document.
+   * @param uri - The URI of the document.
+   * @returns The calls, in document order.
+   */
+  public getEdges(uri: vscode.Uri): CallEdge[] {
+    const outline = this.outlineManager.getOutline(uri) ?? [];
+    const edges: CallEdge[] = [];
+    for (const reference of this.referenceManager.getReferences(uri) ?? []) {
+      if (!callTypes.has(reference.type)) {
+        continue;
+      }
+      const range = reference.ranges[reference.ranges.length - 1];
+      const resolved = this.resolver.resolve(
+        uri,
+        range.start.line,
+        reference.segments
+      );
+      const callee = resolved && this.getCallable(resolved);
+      if (!callee) {
+        continue;
+      }
+      const block = this.resolver.getScopeChain(outline, range.start.line)[0];
+      edges.push({
+        type: reference.type,
+        uri,
+        range,
+        caller: block ? { entity: block, uri } : undefined,
+        callee,
+      });
+    }
+    return edges;
+  }
+
+  /**
+   * Gets the calls into a knot, stitch or function from anywhere in the stories it belongs to.
+   * @param callee - The entity being called.
+   * @returns The calls.
+   */
+  public getIncomingEdges(callee: ResolvedEntity): CallEdge[] {
+    return this.resolver
+      .getStoryUris(callee.uri)
+      .flatMap((uri) => this.getEdges(uri))
+      .filter((edge) => this.resolver.isSameEntity(edge.callee, callee));
+  }
+
+  /**
+   * Gets the calls made directly by a knot, stitch or function, excluding those made by the stitches within it.
+   * @param uri - The URI of the document making the calls.
+   * @param caller - The entity making the calls, or undefined for the top of the document.
+   * @returns The calls.
+   */
+  public getOutgoingEdges(
+    uri: vscode.Uri,
+    caller?: ResolvedEntity
+  ): CallEdge[] {
+    return this.getEdges(uri).filter((edge) =>
+      edge.caller && caller
+        ? this.resolver.isSameEntity(edge.caller, caller)
+        : edge.caller === caller
+    );
+  }
+}
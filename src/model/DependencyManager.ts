@@ -51,6 +51,7 @@ export class DependencyManager {
   private nodes: Map<string, DependencyNode> = new Map();
   private dependencies: Map<string, Set<string>> = new Map();
   private reverseDependencies: Map<string, Set<string>> = new Map();
+  private changeListeners: Map<string, () => void> = new Map();
 
   // Constructor ======================================================================================================
 
@@ -132,6 +133,13 @@ export class DependencyManager {
     return revDeps.size === 0;
   }
 
+  /**
+   * Notifies all listeners that the graph has changed.
+   */
+  private notifyChanged(): void {
+    this.changeListeners.forEach((callback) => callback());
+  }
+
   /**
    * Removes all outgoing dependency edges from a node.
    * This also updates the reverse dependency lists of the nodes it depended on.
@@ -263,6 +271,7 @@ export class DependencyManager {
     this.nodes.clear();
     this.dependencies.clear();
     this.reverseDependencies.clear();
+    this.notifyChanged();
   }
 
   /**
@@ -305,6 +314,7 @@ export class DependencyManager {
 
     // Remove the node and its edge sets
     this.removeNode(uri);
+    this.notifyChanged();
   }
 
   /**
@@ -445,6 +455,23 @@ export class DependencyManager {
     return this.reverseDependencies.get(fromString)?.has(toString) ?? false;
   }
 
+  /**
+   * Unregisters a listener for changes to the graph.
+   * @param listenerId The identifier of the listener to remove.
+   */
+  public offDidChange(listenerId: string): void {
+    this.changeListeners.delete(listenerId);
+  }
+
+  /**
+   * Registers a listener for changes to the graph, such as when the includes of a story are updated.
+   * @param listenerId A unique identifier for the listener.
+   * @param callback The function to call when the graph changes.
+   */
+  public onDidChange(listenerId: string, callback: () => void): void {
+    this.changeListeners.set(listenerId, callback);
+  }
+
   /**
    * Removes all incoming reverse dependency edges for a node.
    * This also updates the dependency lists of the nodes that depend on it.
@@ -468,5 +495,6 @@ export class DependencyManager {
     for (const [uri, deps] of dependencies) {
       this.syncDependencies(uri, deps);
     }
+    this.notifyChanged();
   }
 }
@@ -0,0 +1,57 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+
+/**
+ * The ways in which an Ink document can refer to a named entity.
+ */
+export enum ReferenceType {
+  assignment = "assignment",
+  call = "call",
+  divert = "divert",
+  read = "read",
+  thread = "thread",
+  tunnel = "tunnel",
+}
+
+/**
+ * Represents a reference to a named entity (e.g. a divert target or variable) within an Ink document.
+ */
+export interface InkReference {
+  /**
+   * The kind of reference.
+   */
+  type: ReferenceType;
+
+  /**
+   * The segments of the dotted path being referenced, e.g. `["knot", "stitch"]`.
+   */
+  segments: string[];
+
+  /**
+   * The range of each segment, in the same order as the segments.
+   */
+  ranges: vscode.Range[];
+}
@@ -82,4 +82,13 @@ export class OutlineEntity {
     child.parent = this;
     this.children.push(child);
   }
+
+  /**
+   * The identifier of this entity, being its name without any parameter list, or for list items, without any
+   * initial selection or value (e.g. `(door)` or `door = 2`).
+   */
+  public get identifier(): string {
+    const match = /[a-zA-Z_][a-zA-Z0-9_]*/.exec(this.name);
+    return match ? match[0] : this.name;
+  }
 }
@@ -45,10 +45,19 @@ export class OutlineManager {
   // Private Properties ===============================================================================================
 
   private outlines: Map<string, OutlineEntity[]> = new Map();
+  private uris: Map<string, vscode.Uri> = new Map();
 
   // Constructor ======================================================================================================
   private constructor() {}
 
+  /**
+   * Delete the outline for a document URI.
+   */
+  public deleteOutline(uri: vscode.Uri): void {
+    this.outlines.delete(uri.toString());
+    this.uris.delete(uri.toString());
+  }
+
   /**
    * Get the outline (root entities) for a document URI.
    */
@@ -56,15 +65,24 @@ export class OutlineManager {
     return this.outlines.get(uri.toString());
   }
 
+  /**
+   * Get the URIs of all documents with an outline.
+   */
+  public getUris(): vscode.Uri[] {
+    return Array.from(this.uris.values());
+  }
+
   /**
    * Set the outline (root entities) for a document URI.
    */
   public setOutline(uri: vscode.Uri, entities: OutlineEntity[]): void {
     this.outlines.set(uri.toString(), entities);
+    this.uris.set(uri.toString(), uri);
   }
 
   public clear(): void {
     this.outlines.clear();
+    this.uris.clear();
   }
 
   /**
@@ -0,0 +1,115 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { InkReference } from "./InkReference";
+
+/**
+ * Singleton which manages the references made by the documents of Ink stories.
+ */
+export class ReferenceManager {
+  // Private Static Properties ========================================================================================
+
+  private static instance: ReferenceManager;
+
+  // Public Static Methods ============================================================================================
+
+  public static getInstance(): ReferenceManager {
+    if (!ReferenceManager.instance) {
+      ReferenceManager.instance = new ReferenceManager();
+    }
+    return ReferenceManager.instance;
+  }
+
+  // Private Properties ===============================================================================================
+
+  private references: Map<string, InkReference[]> = new Map();
+  private sources: Map<string, { version: number; text: string }> = new Map();
+  private version: number = 0;
+
+  // Constructor ======================================================================================================
+  private constructor() {}
+
+  /**
+   * Delete the references made by a document URI.
+   */
+  public deleteReferences(uri: vscode.Uri): void {
+    this.references.delete(uri.toString());
+    this.sources.delete(uri.toString());
+    this.version++;
+  }
+
+  /**
+   * Get the references made by a document URI.
+   */
+  public getReferences(uri: vscode.Uri): InkReference[] | undefined {
+    return this.references.get(uri.toString());
+  }
+
+  /**
+   * Get the number of times the references have changed, so that anything built from them can tell when it is stale.
+   */
+  public getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * Check whether the references of a document were set from its current version and text.
+   */
+  public isCurrent(document: vscode.TextDocument): boolean {
+    const source = this.sources.get(document.uri.toString());
+    return (
+      source !== undefined &&
+      source.version === document.version &&
+      source.text === document.getText()
+    );
+  }
+
+  /**
+   * Set the references made by a document URI.
+   * @param source - The document the references were parsed from, if any.
+   */
+  public setReferences(
+    uri: vscode.Uri,
+    references: InkReference[],
+    source?: vscode.TextDocument
+  ): void {
+    this.references.set(uri.toString(), references);
+    if (source) {
+      this.sources.set(uri.toString(), {
+        version: source.version,
+        text: source.getText(),
+      });
+    } else {
+      this.sources.delete(uri.toString());
+    }
+    this.version++;
+  }
+
+  public clear(): void {
+    this.references.clear();
+    this.sources.clear();
+    this.version++;
+  }
+}
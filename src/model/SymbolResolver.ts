@@ -0,0 +1,346 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { DependencyManager } from "./DependencyManager";
+import { ReferenceType } from "./InkReference";
+import { EntityType, OutlineEntity } from "./OutlineEntity";
+import { OutlineManager } from "./OutlineManager";
+import { ReferenceManager } from "./ReferenceManager";
+
+/**
+ * Represents an Outline Entity resolved within an Ink Story, along with the document defining it.
+ */
+export interface ResolvedEntity {
+  /**
+   * The resolved Outline Entity.
+   */
+  entity: OutlineEntity;
+
+  /**
+   * The URI of the document defining the Outline Entity.
+   */
+  uri: vscode.Uri;
+}
+
+/**
+ * Represents a reference within an Ink Story to a resolved Outline Entity.
+ */
+export interface ResolvedReference {
+  /**
+   * The kind of reference.
+   */
+  type: ReferenceType;
+
+  /**
+   * The URI of the document containing the reference.
+   */
+  uri: vscode.Uri;
+
+  /**
+   * The range of the identifier referring to the entity.
+   */
+  range: vscode.Range;
+}
+
+/**
+ * Resolves references to Outline Entities across an Ink Story and its includes, following Ink scoping rules.
+ */
+export class SymbolResolver {
+  // Private Properties ===============================================================================================
+
+  private readonly depManager: DependencyManager;
+
+  private readonly outlineManager: OutlineManager;
+
+  private readonly referenceManager: ReferenceManager;
+
+  // Constructor ======================================================================================================
+
+  constructor(
+    outlineManager?: OutlineManager,
+    depManager?: DependencyManager,
+    referenceManager?: ReferenceManager
+  ) {
+    this.outlineManager = outlineManager ?? OutlineManager.getInstance();
+    this.depManager = depManager ?? DependencyManager.getInstance();
+    this.referenceManager = referenceManager ?? ReferenceManager.getInstance();
+  }
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Finds a named entity amongst a list of entities, ignoring includes.
+   * @param entities - The entities to search.
+   * @param name - The identifier to find.
+   * @returns The matching entity, or undefined if not found.
+   */
+  private findNamed(
+    entities: OutlineEntity[],
+    name: string
+  ): OutlineEntity | undefined {
+    return entities.find(
+      (e) => e.type !== EntityType.include && e.identifier === name
+    );
+  }
+
+  /**
+   * Resolves the first segment of a path, searching the enclosing scopes before the global scope.
+   * @param uri - The URI of the document containing the reference.
+   * @param line - The line of the reference.
+   * @param name - The identifier to resolve.
+   * @returns The resolved entity, or undefined if not found.
+   */
+  private resolveFirst(
+    uri: vscode.Uri,
+    line: number,
+    name: string
+  ): ResolvedEntity | undefined {
+    const outline = this.outlineManager.getOutline(uri) ?? [];
+    for (const scope of this.getScopeChain(outline, line)) {
+      const entity = this.findNamed(scope.children, name);
+      if (entity) {
+        return { entity, uri };
+      }
+    }
+    return this.resolveGlobal(uri, name);
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * Finds every reference to an entity across the stories it belongs to.
+   * Each segment of a dotted path is a reference in its own right, so `-> knot.stitch` refers to both the knot and
+   * the stitch.
+   * @param target - The entity to find references to.
+   * @returns The references, grouped by document.
+   */
+  public findReferences(target: ResolvedEntity): ResolvedReference[] {
+    const result: ResolvedReference[] = [];
+    const name = target.entity.identifier;
+    for (const uri of this.getStoryUris(target.uri)) {
+      for (const reference of this.referenceManager.getReferences(uri) ?? []) {
+        reference.segments.forEach((segment, index) => {
+          if (segment !== name) {
+            return;
+          }
+          const range = reference.ranges[index];
+          const resolved = this.resolve(
+            uri,
+            range.start.line,
+            reference.segments.slice(0, index + 1)
+          );
+          if (resolved && this.isSameEntity(resolved, target)) {
+            result.push({ type: reference.type, uri, range });
+          }
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Gets every entity in the global scope of the stories a document belongs to, including list items.
+   * @param uri - The URI of the document.
+   * @returns The global entities, along with the documents defining them.
+   */
+  public getGlobalEntities(uri: vscode.Uri): ResolvedEntity[] {
+    const result: ResolvedEntity[] = [];
+    for (const storyUri of this.getStoryUris(uri)) {
+      for (const entity of this.outlineManager.getOutline(storyUri) ?? []) {
+        if (entity.type === EntityType.include) {
+          continue;
+        }
+        result.push({ entity, uri: storyUri });
+        if (entity.type === EntityType.list) {
+          result.push(
+            ...entity.children.map((item) => ({ entity: item, uri: storyUri }))
+          );
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Gets the chain of block entities (e.g. stitch, then knot) enclosing a line, from innermost to outermost.
+   * @param outline - The root entities of the document.
+   * @param line - The line to find the enclosing scopes of.
+   * @returns The enclosing block entities, innermost first.
+   */
+  public getScopeChain(outline: OutlineEntity[], line: number): OutlineEntity[] {
+    const chain: OutlineEntity[] = [];
+    let entities = outline;
+    while (true) {
+      const block = entities.find(
+        (e) =>
+          e.isBlock &&
+          e.scopeRange.start.line <= line &&
+          line <= e.scopeRange.end.line
+      );
+      if (!block) {
+        break;
+      }
+      chain.unshift(block);
+      entities = block.children;
+    }
+    return chain;
+  }
+
+  /**
+   * Gets the URIs of all documents which make up the Ink Stories a document belongs to.
+   * This is the document itself, the root stories including it, and every file in their include closure.
+   * @param uri - The URI of the document.
+   * @returns The URIs of the story documents, starting with the given document.
+   */
+  public getStoryUris(uri: vscode.Uri): vscode.Uri[] {
+    const roots = this.depManager.getAllDependents([uri], true);
+    const starts = roots.size > 0 ? Array.from(roots) : [uri];
+    const dependencies = this.depManager.getAllDependencies(starts);
+
+    const result = new Map<string, vscode.Uri>();
+    for (const storyUri of [uri, ...starts, ...dependencies]) {
+      result.set(storyUri.toString(), storyUri);
+    }
+    return Array.from(result.values());
+  }
+
+  /**
+   * Gets a key identifying a resolved entity by its location, which stays the same when its document is reparsed.
+   * @param target - The resolved entity.
+   * @returns The key of the entity.
+   */
+  public getEntityKey(target: ResolvedEntity): string {
+    const { entity, uri } = target;
+    return `${uri.toString()}#${entity.type}:${entity.identifier}@${entity.definitionRange.start.line}`;
+  }
+
+  /**
+   * Indexes every reference across the stories a document belongs to by the entity it resolves to, so that the
+   * references to many entities can be counted without resolving the whole story again for each of them.
+   * As with `findReferences`, each segment of a dotted path is a reference in its own right.
+   * @param uri - The URI of a document in the stories.
+   * @returns The references, keyed by the entity key of the entity they refer to.
+   */
+  public indexReferences(uri: vscode.Uri): Map<string, ResolvedReference[]> {
+    const index = new Map<string, ResolvedReference[]>();
+    for (const storyUri of this.getStoryUris(uri)) {
+      const references = this.referenceManager.getReferences(storyUri) ?? [];
+      for (const reference of references) {
+        reference.ranges.forEach((range, i) => {
+          const resolved = this.resolve(
+            storyUri,
+            range.start.line,
+            reference.segments.slice(0, i + 1)
+          );
+          if (!resolved) {
+            return;
+          }
+          const key = this.getEntityKey(resolved);
+          const resolvedReferences = index.get(key) ?? [];
+          resolvedReferences.push({
+            type: reference.type,
+            uri: storyUri,
+            range,
+          });
+          index.set(key, resolvedReferences);
+        });
+      }
+    }
+    return index;
+  }
+
+  /**
+   * Determines whether two resolved entities are the same entity.
+   * Entities are compared by location rather than identity, as outlines are replaced whenever a document is parsed.
+   * @param a - The first entity.
+   * @param b - The second entity.
+   * @returns True if both refer to the same entity.
+   */
+  public isSameEntity(a: ResolvedEntity, b: ResolvedEntity): boolean {
+    return this.getEntityKey(a) === this.getEntityKey(b);
+  }
+
+  /**
+   * Resolves a dotted path of identifiers referenced from a line in a document.
+   * The first segment is resolved against the enclosing stitch, then the enclosing knot, then globally across the
+   * story and its includes. Any remaining segments are resolved against the children of the previous segment.
+   * @param uri - The URI of the document containing the reference.
+   * @param line - The line of the reference.
+   * @param segments - The segments of the path, e.g. `["knot", "stitch"]`.
+   * @returns The resolved entity, or undefined if the path cannot be resolved.
+   */
+  public resolve(
+    uri: vscode.Uri,
+    line: number,
+    segments: string[]
+  ): ResolvedEntity | undefined {
+    if (segments.length === 0) {
+      return undefined;
+    }
+    let resolved = this.resolveFirst(uri, line, segments[0]);
+    for (const segment of segments.slice(1)) {
+      if (!resolved) {
+        return undefined;
+      }
+      const child = this.findNamed(resolved.entity.children, segment);
+      resolved = child ? { entity: child, uri: resolved.uri } : undefined;
+    }
+    return resolved;
+  }
+
+  /**
+   * Resolves an identifier in the global scope of the stories a document belongs to.
+   * @param uri - The URI of the document containing the reference.
+   * @param name - The identifier to resolve.
+   * @returns The resolved entity, or undefined if not found.
+   */
+  public resolveGlobal(
+    uri: vscode.Uri,
+    name: string
+  ): ResolvedEntity | undefined {
+    const storyUris = this.getStoryUris(uri);
+    for (const storyUri of storyUris) {
+      const entity = this.findNamed(
+        this.outlineManager.getOutline(storyUri) ?? [],
+        name
+      );
+      if (entity) {
+        return { entity, uri: storyUri };
+      }
+    }
+
+    // List items may be referenced without being qualified by their list
+    for (const storyUri of storyUris) {
+      const lists = this.outlineManager.queryByTypes(storyUri, EntityType.list);
+      for (const list of lists) {
+        const item = this.findNamed(list.children, name);
+        if (item) {
+          return { entity: item, uri: storyUri };
+        }
+      }
+    }
+    return undefined;
+  }
+}
@@ -39,6 +39,11 @@ export interface PreviewAction {
    */
   readonly cursor: boolean;
 
+  /**
+   * The data needed to recreate this Action, as sent by the Webview, if any.
+   */
+  readonly payload?: unknown;
+
   /**
    * Applies this Action to the Preview State.
    * @param state - The Preview State upon which to apply this Action
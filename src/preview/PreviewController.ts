@@ -23,6 +23,7 @@
  */
 
 import * as vscode from "vscode";
+import path from "path";
 import { PreviewHtmlGenerator } from "./PreviewHtmlGenerator";
 import { PreviewStateManager } from "./PreviewStateManager";
 import { PreviewStoryManager } from "./PreviewStoryManager";
@@ -36,6 +37,32 @@ import { PreviewAction } from "./PreviewAction";
 import { SelectChoiceAction } from "./actions/SelectChoiceAction";
 import { RewindStoryAction } from "./actions/RewindStoryAction";
 import { ToggleLiveUpdateUIAction } from "./actions/ToggleLiveUpdateUIAction";
+import { SetVariableAction } from "./actions/SetVariableAction";
+import { GoToPathAction } from "./actions/GoToPathAction";
+import { DependencyManager } from "../model/DependencyManager";
+import { EntityType, OutlineEntity } from "../model/OutlineEntity";
+import { OutlineManager } from "../model/OutlineManager";
+import { getEntityParameters } from "../util/ink/getEntityParameters";
+import { PreviewSaveSlot, SavedPreviewAction } from "./PreviewSaveSlot";
+import { PreviewSaveSlotStore } from "./PreviewSaveSlotStore";
+
+/**
+ * The kinds of outline entity which have a path in the Story, and whose visits are counted.
+ */
+const outlinePathTypes = new Set([
+  EntityType.knot,
+  EntityType.label,
+  EntityType.stitch,
+]);
+
+/**
+ * The types of the properties which may be found in the payload of an Action sent by the Webview.
+ */
+interface PayloadPropertyTypes {
+  boolean: boolean;
+  number: number;
+  string: string;
+}
 
 /**
  * Controller for the Preview Webview that coordinates Preview State with the Webview.
@@ -49,6 +76,8 @@ export class PreviewController {
   private stateManager: PreviewStateManager;
   private isInitialized: boolean = false;
   private viewReadyDeferred: Deferred<void> | null = null;
+  private saveSlotStore?: PreviewSaveSlotStore;
+  private storyUri?: vscode.Uri;
 
   // Constructor ======================================================================================================
 
@@ -72,6 +101,7 @@ export class PreviewController {
   public async initializeStory(
     storyManager: PreviewStoryManager
   ): Promise<void> {
+    storyManager.setVisitPaths(this.getVisitPaths());
     this.stateManager.setStoryManager(storyManager);
     this.stateManager.reset();
 
@@ -89,6 +119,7 @@ export class PreviewController {
    * Refreshes the Preview Controller with a Preview Story Manager with an updated Ink Story.
    */
   public async refreshStory(storyManager: PreviewStoryManager): Promise<void> {
+    storyManager.setVisitPaths(this.getVisitPaths());
     this.stateManager.setStoryManager(storyManager);
     this.stateManager.replay();
   }
@@ -121,6 +152,93 @@ export class PreviewController {
     this.stateManager.dispatch(new AddStoryEventsAction([functionEvent]));
   }
 
+  /**
+   * Sets the store used to save and load Save Slots for the Story being previewed.
+   * @param saveSlotStore - The Save Slot store for the Story
+   */
+  public setSaveSlotStore(saveSlotStore: PreviewSaveSlotStore): void {
+    this.saveSlotStore = saveSlotStore;
+  }
+
+  /**
+   * Sets the URI of the root file of the Story being previewed, whose knots and stitches can be jumped to.
+   * @param storyUri - The URI of the root file of the Story
+   */
+  public setStoryUri(storyUri: vscode.Uri): void {
+    this.storyUri = storyUri;
+  }
+
+  /**
+   * Gets the paths of the knots and stitches which can be jumped to, from the outline of the Story and the files it
+   * includes, in document order starting with the root file. Those with parameters are left out, as there are no
+   * arguments to pass them.
+   * @returns The paths, e.g. `chapter_9.duel`, along with the files defining them
+   */
+  public getKnotPaths(): { path: string; uri: vscode.Uri }[] {
+    return this.getOutlinePaths(
+      (entity) =>
+        (entity.type === EntityType.knot ||
+          entity.type === EntityType.stitch) &&
+        getEntityParameters(entity).length === 0
+    );
+  }
+
+  /**
+   * Saves the current point of the Story to a Save Slot, replacing any Save Slot with the same name.
+   * @param name - The name of the Save Slot
+   * @returns The Save Slot, or undefined if there is no Story to save
+   */
+  public async saveState(name: string): Promise<PreviewSaveSlot | undefined> {
+    const storyManager = this.stateManager.getStoryManager();
+    if (!this.saveSlotStore || !storyManager) {
+      return undefined;
+    }
+
+    const slot: PreviewSaveSlot = {
+      name,
+      savedAt: new Date().toISOString(),
+      storyState: storyManager.getStateJson(),
+      history: this.stateManager
+        .getHistory()
+        .map(({ type, payload }) => ({ type, payload })),
+      story: this.stateManager.getState().story,
+    };
+    await this.saveSlotStore.saveSlot(slot);
+    return slot;
+  }
+
+  /**
+   * Loads a Save Slot, restoring both the Ink Story and the transcript of the preview to the saved point.
+   * If the Story has changed too much since it was saved, the preview is left where it was and an error is shown.
+   * @param slot - The Save Slot to load
+   * @returns True if the Save Slot was loaded
+   */
+  public loadState(slot: PreviewSaveSlot): boolean {
+    const storyManager = this.stateManager.getStoryManager();
+    if (!storyManager) {
+      return false;
+    }
+
+    try {
+      const history = slot.history.map((data) => this.createAction(data));
+      storyManager.loadStateJson(slot.storyState);
+      this.stateManager.restore(slot.story, history);
+      return true;
+    } catch (error) {
+      console.error("[PreviewController] ❌ Failed to load state:", error);
+
+      // Return the story to where it was, as it may have been partially loaded
+      this.stateManager.replay();
+      this.showErrors([
+        {
+          message: `The saved state '${slot.name}' could not be loaded, as the story has changed since it was saved.`,
+          severity: "error",
+        },
+      ]);
+      return false;
+    }
+  }
+
   /**
    * Gets the current preview state.
    * @returns The current preview state
@@ -149,32 +267,254 @@ export class PreviewController {
    * Creates an action instance from the given data.
    * @param data - The action data
    * @returns The action instance
+   * @throws Error if the action is unknown, or its payload is missing a property it needs
    */
-  private createAction(data: any): PreviewAction {
+  private createAction(data: SavedPreviewAction): PreviewAction {
     if (data.type === StartStoryAction.actionType) {
       return new StartStoryAction();
     }
     if (data.type === SelectChoiceAction.actionType) {
-      return new SelectChoiceAction(data.payload.choiceIndex);
+      return new SelectChoiceAction(
+        this.getPayloadProperty(data, "choiceIndex", "number")
+      );
     }
     if (data.type === RewindStoryAction.actionType) {
       return new RewindStoryAction();
     }
     if (data.type === ToggleLiveUpdateUIAction.actionType) {
-      return new ToggleLiveUpdateUIAction(data.payload.enabled);
+      return new ToggleLiveUpdateUIAction(
+        this.getPayloadProperty(data, "enabled", "boolean")
+      );
+    }
+    if (data.type === GoToPathAction.actionType) {
+      return new GoToPathAction(
+        this.getPayloadProperty(data, "path", "string")
+      );
+    }
+    if (data.type === SetVariableAction.actionType) {
+      return new SetVariableAction(
+        this.getPayloadProperty(data, "name", "string"),
+        this.getPayloadProperty(data, "value", "string")
+      );
     }
     throw new Error(`Unknown action type: ${data.type}`);
   }
 
+  /**
+   * Gets a property of the payload of an action, checking that it is of the expected type.
+   * @param data - The action data
+   * @param name - The name of the property
+   * @param type - The expected type of the property
+   * @returns The value of the property
+   * @throws Error if the property is missing or of another type
+   */
+  private getPayloadProperty<K extends keyof PayloadPropertyTypes>(
+    data: SavedPreviewAction,
+    name: string,
+    type: K
+  ): PayloadPropertyTypes[K] {
+    const payload = data.payload as Record<string, unknown> | undefined;
+    const value = payload?.[name];
+    if (typeof value !== type) {
+      throw new Error(
+        `The payload of the ${data.type} action has no ${type} '${name}'.`
+      );
+    }
+    return value as PayloadPropertyTypes[K];
+  }
+
   /**
    * Executes a UI action by creating the action instance and applying it.
    * @param action - The action to execute
    */
-  private executeAction(data: any): void {
+  private executeAction(data: SavedPreviewAction): void {
     const actionInstance = this.createAction(data);
     this.stateManager.dispatch(actionInstance);
   }
 
+  /**
+   * Gets the paths of the knots, stitches and labels of the Story from its outline and that of the files it includes,
+   * in document order starting with the root file.
+   * @param include - Whether to include a knot, stitch or label; the children of those left out are still included
+   * @returns The paths, e.g. `chapter_9.duel.parried`, along with the files defining them
+   */
+  private getOutlinePaths(
+    include: (entity: OutlineEntity) => boolean
+  ): { path: string; uri: vscode.Uri }[] {
+    if (!this.storyUri) {
+      return [];
+    }
+    const uris = [
+      this.storyUri,
+      ...DependencyManager.getInstance().getAllDependencies([this.storyUri]),
+    ];
+    const getPaths = (entities: OutlineEntity[], parent?: string): string[] =>
+      entities
+        .filter((entity) => outlinePathTypes.has(entity.type))
+        .flatMap((entity) => {
+          const entityPath = parent
+            ? `${parent}.${entity.identifier}`
+            : entity.identifier;
+          return [
+            ...(include(entity) ? [entityPath] : []),
+            ...getPaths(entity.children, entityPath),
+          ];
+        });
+
+    return uris.flatMap((uri) =>
+      getPaths(OutlineManager.getInstance().getOutline(uri) ?? []).map(
+        (entityPath) => ({ path: entityPath, uri })
+      )
+    );
+  }
+
+  /**
+   * Gets the paths of the knots, stitches and labels of the Story whose visits are shown.
+   * @returns The paths, e.g. `chapter_9.duel.parried`
+   */
+  private getVisitPaths(): string[] {
+    return this.getOutlinePaths(() => true).map((visit) => visit.path);
+  }
+
+  /**
+   * Prompts for a knot or stitch of the Story, and jumps to it.
+   */
+  private async promptGoToKnot(): Promise<void> {
+    const paths = this.getKnotPaths();
+    if (paths.length === 0) {
+      vscode.window.showInformationMessage(
+        "There are no knots or stitches to jump to in this story."
+      );
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      paths.map(({ path: knotPath, uri }) => ({
+        label: knotPath,
+        description: path.basename(uri.fsPath),
+      })),
+      {
+        title: "Go to Knot",
+        placeHolder: "Select a knot or stitch to jump to",
+        matchOnDescription: true,
+      }
+    );
+    if (selected) {
+      this.stateManager.dispatch(new GoToPathAction(selected.label));
+    }
+  }
+
+  /**
+   * Prompts for the name of a Save Slot, and saves the current point of the Story to it.
+   */
+  private async promptSaveState(): Promise<void> {
+    if (!this.saveSlotStore) {
+      return;
+    }
+    const slots = this.saveSlotStore.getSlots();
+    const name = await vscode.window.showInputBox({
+      title: "Save State",
+      prompt:
+        "Name this point in the story. Using an existing name replaces it.",
+      value: `Save ${slots.length + 1}`,
+      validateInput: (value) =>
+        value.trim() ? undefined : "Enter a name for the saved state",
+    });
+    if (!name?.trim()) {
+      return;
+    }
+    await this.saveState(name.trim());
+    vscode.window.showInformationMessage(`Saved state '${name.trim()}'.`);
+  }
+
+  /**
+   * Prompts for a Save Slot of the Story, and loads it.
+   */
+  private async promptLoadState(): Promise<void> {
+    const slots = this.saveSlotStore?.getSlots() ?? [];
+    if (slots.length === 0) {
+      vscode.window.showInformationMessage(
+        "There are no saved states for this story."
+      );
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      slots.map((slot) => ({
+        label: slot.name,
+        description: new Date(slot.savedAt).toLocaleString(),
+        detail: this.getLastText(slot),
+        slot,
+      })),
+      { title: "Load State", placeHolder: "Select a saved state to load" }
+    );
+    if (selected) {
+      this.loadState(selected.slot);
+    }
+  }
+
+  /**
+   * Logs a failure to save or load a Save Slot, and shows it in the preview.
+   * @param message - The description of what failed
+   * @param error - The error which caused the failure
+   */
+  private showSaveSlotError(message: string, error: unknown): void {
+    console.error(`[PreviewController] ❌ ${message}:`, error);
+    const reason = error instanceof Error ? error.message : String(error);
+    this.showErrors([{ message: `${message}. ${reason}`, severity: "error" }]);
+  }
+
+  /**
+   * Prompts for a new value of a global variable, and sets it in the Story.
+   * @param name - The name of the variable
+   */
+  private async promptEditVariable(name: string): Promise<void> {
+    const storyManager = this.stateManager.getStoryManager();
+    const variable = this.getState().story.variables.find(
+      (variable) => variable.name === name
+    );
+    if (!storyManager || !variable) {
+      return;
+    }
+    if (variable.type === "divert") {
+      vscode.window.showInformationMessage(
+        `'${name}' holds a divert target, which cannot be changed from the preview.`
+      );
+      return;
+    }
+
+    const prompts = {
+      boolean: "Enter true or false.",
+      list: "Enter the list items, separated by commas. Items may be qualified by their list, e.g. doors.front.",
+      number: "Enter a number.",
+      string: "Enter the text, without quotes.",
+    };
+    const value = await vscode.window.showInputBox({
+      title: `Set ${name}`,
+      prompt: prompts[variable.type],
+      value:
+        variable.type === "string"
+          ? JSON.parse(variable.value)
+          : variable.value,
+      validateInput: (value) => storyManager.validateVariable(name, value),
+    });
+    if (value === undefined) {
+      return;
+    }
+    this.stateManager.dispatch(new SetVariableAction(name, value));
+  }
+
+  /**
+   * Gets the last line of text shown before a Save Slot was saved, to help tell Save Slots apart.
+   * @param slot - The Save Slot
+   * @returns The text, or undefined if no text had been shown
+   */
+  private getLastText(slot: PreviewSaveSlot): string | undefined {
+    const events = slot.story.events.filter((event) => event.type === "text");
+    const last = events[events.length - 1];
+    return last?.type === "text" ? last.text.trim() : undefined;
+  }
+
   /**
    * Registers a message handler for a specific command.
    */
@@ -210,9 +550,37 @@ export class PreviewController {
     });
 
     // Handle all actions
-    this.registerMessageHandler(inboundMessages.action, (actionData: any) => {
-      this.executeAction(actionData);
+    this.registerMessageHandler(
+      inboundMessages.action,
+      (actionData: SavedPreviewAction) => {
+        this.executeAction(actionData);
+      }
+    );
+
+    // Handle save slots
+    this.registerMessageHandler(inboundMessages.saveState, () => {
+      this.promptSaveState().catch((error) =>
+        this.showSaveSlotError("The state could not be saved", error)
+      );
     });
+    this.registerMessageHandler(inboundMessages.loadState, () => {
+      this.promptLoadState().catch((error) =>
+        this.showSaveSlotError("The saved state could not be loaded", error)
+      );
+    });
+
+    // Handle jumps to knots and stitches
+    this.registerMessageHandler(inboundMessages.goToKnot, () => {
+      this.promptGoToKnot();
+    });
+
+    // Handle variable edits
+    this.registerMessageHandler(
+      inboundMessages.editVariable,
+      (payload: { name: string }) => {
+        this.promptEditVariable(payload.name);
+      }
+    );
   }
 
   /**
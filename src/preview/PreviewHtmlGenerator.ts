@@ -58,6 +58,18 @@ export class PreviewHtmlGenerator {
       webview,
       "rewind-icon.svg"
     );
+    const saveIconUrl = extensionService.getWebviewMediaUri(
+      webview,
+      "save-icon.svg"
+    );
+    const loadIconUrl = extensionService.getWebviewMediaUri(
+      webview,
+      "load-icon.svg"
+    );
+    const variablesIconUrl = extensionService.getWebviewMediaUri(
+      webview,
+      "variables-icon.svg"
+    );
 
     return `<!DOCTYPE html>
       <html lang="en">
@@ -78,6 +90,22 @@ export class PreviewHtmlGenerator {
               <span class="rewind-icon icon"></span>
               Rewind
             </button>
+            <button id="button-go-to-knot" class="btn btn-toolbar" title="Jump to a knot or stitch of the story">
+              <span class="go-to-icon icon"></span>
+              Go to Knot…
+            </button>
+            <button id="button-save-state" class="btn btn-toolbar" title="Save the current point of the story">
+              <span class="save-icon icon"></span>
+              Save State
+            </button>
+            <button id="button-load-state" class="btn btn-toolbar" title="Load a saved point of the story">
+              <span class="load-icon icon"></span>
+              Load State
+            </button>
+            <button id="button-variables" class="btn btn-toolbar" title="Show or hide the variables and visit counts of the story" aria-pressed="false">
+              <span class="variables-icon icon"></span>
+              Variables
+            </button>
             <div class="live-update-control">
               <label class="checkbox-container">
                 <input type="checkbox" id="live-update-checkbox" checked>
@@ -117,13 +145,32 @@ export class PreviewHtmlGenerator {
             </div>
           </div>
         </div>
+        <aside id="variables-panel" class="variables-panel hidden">
+          <div class="variables-header">
+            <h3>Variables</h3>
+            <span id="variables-turn" class="variables-turn"></span>
+          </div>
+          <div id="variables-list" class="variables-list">
+            <!-- Variables populated dynamically -->
+          </div>
+          <div class="variables-header">
+            <h3>Visits</h3>
+            <span class="variables-turn">visits, turns since</span>
+          </div>
+          <div id="visits-list" class="variables-list">
+            <!-- Visit counts populated dynamically -->
+          </div>
+        </aside>
         <script>
           window.svgIcons = {
             error: "${errorIconUrl}",
             warning: "${warningIconUrl}",
             info: "${infoIconUrl}",
             restart: "${restartIconUrl}",
-            rewind: "${rewindIconUrl}"
+            rewind: "${rewindIconUrl}",
+            save: "${saveIconUrl}",
+            load: "${loadIconUrl}",
+            variables: "${variablesIconUrl}"
           };
         </script>
         <script src="${jsUrl}"></script>
@@ -30,6 +30,7 @@ import { BuildEngine } from "../build/BuildEngine";
 import { IBuildResult, ISuccessfulBuildResult } from "../build/IBuildResult";
 import { FunctionStoryEvent } from "./PreviewState";
 import { VSCodeServiceLocator } from "../services/VSCodeServiceLocator";
+import { PreviewSaveSlotStore } from "./PreviewSaveSlotStore";
 
 export class PreviewManager {
   // Private Static Properties ========================================================================================
@@ -110,6 +111,15 @@ export class PreviewManager {
     // Update the preview panel title
     this.setTitle(document.uri.fsPath);
 
+    // Save and load the save slots of this story
+    this.controller.setStoryUri(document.uri);
+    this.controller.setSaveSlotStore(
+      new PreviewSaveSlotStore(
+        VSCodeServiceLocator.getExtensionService().getWorkspaceState(),
+        document.uri
+      )
+    );
+
     // Compile the story
     const buildResult = await this.compileStory(document.uri);
     if (!buildResult.success) {
@@ -149,7 +159,10 @@ export class PreviewManager {
   private async initializeStoryPreview(
     compiledStory: ISuccessfulBuildResult
   ): Promise<void> {
-    this.storyManager = new PreviewStoryManager(compiledStory.story);
+    this.storyManager = new PreviewStoryManager(
+      compiledStory.story,
+      compiledStory.labelPaths
+    );
     this.setupExternalFunctions(compiledStory);
     await this.controller.initializeStory(this.storyManager);
   }
@@ -184,7 +197,10 @@ export class PreviewManager {
     console.debug("[PreviewManager] 🔄 Story recompiled, triggering replay");
 
     // Set up new story with recompiled result
-    this.storyManager = new PreviewStoryManager(result.story);
+    this.storyManager = new PreviewStoryManager(
+      result.story,
+      result.labelPaths
+    );
     this.setupExternalFunctions(result);
 
     // Simply update the story manager and replay existing history
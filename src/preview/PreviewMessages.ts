@@ -41,6 +41,18 @@ export const inboundMessages = {
 
   /** Sent when player performs any action */
   action: "action",
+
+  /** Sent when player asks to save the current point of the story to a slot */
+  saveState: "saveState",
+
+  /** Sent when player asks to load a previously saved slot */
+  loadState: "loadState",
+
+  /** Sent when player asks to change the value of a global variable */
+  editVariable: "editVariable",
+
+  /** Sent when player asks to jump to a knot or stitch */
+  goToKnot: "goToKnot",
 } as const;
 
 /**
@@ -49,6 +61,10 @@ export const inboundMessages = {
 export interface InboundMessagePayloads {
   [inboundMessages.ready]: void;
   [inboundMessages.action]: void;
+  [inboundMessages.saveState]: void;
+  [inboundMessages.loadState]: void;
+  [inboundMessages.editVariable]: { name: string };
+  [inboundMessages.goToKnot]: void;
 }
 
 /**
@@ -0,0 +1,63 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { PreviewStoryState } from "./PreviewState";
+
+/**
+ * Represents a Preview Action recorded in the history of a Save Slot, as sent by the Webview.
+ */
+export interface SavedPreviewAction {
+  type: string;
+  payload?: unknown;
+}
+
+/**
+ * Represents a named snapshot of a Story being previewed, which can be loaded to return to that point.
+ */
+export interface PreviewSaveSlot {
+  /**
+   * The name of the Save Slot, unique to the Story.
+   */
+  name: string;
+
+  /**
+   * When the Save Slot was saved, as an ISO 8601 timestamp.
+   */
+  savedAt: string;
+
+  /**
+   * The state of the Ink Story, as returned by `story.state.ToJson()`.
+   */
+  storyState: string;
+
+  /**
+   * The Preview Actions which led to the saved point, so that the Story can still be rewound and replayed.
+   */
+  history: SavedPreviewAction[];
+
+  /**
+   * The State of the Story shown in the preview, including the transcript of its events.
+   */
+  story: PreviewStoryState;
+}
@@ -0,0 +1,100 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { PreviewSaveSlot } from "./PreviewSaveSlot";
+
+/**
+ * Stores the Save Slots of a Story in the workspace state, so that they persist across sessions.
+ */
+export class PreviewSaveSlotStore {
+  // Private Static Properties ========================================================================================
+
+  private static readonly stateKey = "ink.preview.saveSlots";
+
+  // Private Properties ===============================================================================================
+
+  private readonly workspaceState: vscode.Memento;
+
+  private readonly uri: vscode.Uri;
+
+  // Constructor ======================================================================================================
+
+  /**
+   * Creates a new PreviewSaveSlotStore for a Story.
+   * @param workspaceState - The workspace state to store the Save Slots in
+   * @param uri - The URI of the Story
+   */
+  constructor(workspaceState: vscode.Memento, uri: vscode.Uri) {
+    this.workspaceState = workspaceState;
+    this.uri = uri;
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * Gets a Save Slot of the Story by name.
+   * @param name - The name of the Save Slot
+   * @returns The Save Slot, or undefined if there is no Save Slot with that name
+   */
+  public getSlot(name: string): PreviewSaveSlot | undefined {
+    return this.getSlots().find((slot) => slot.name === name);
+  }
+
+  /**
+   * Gets the Save Slots of the Story.
+   * @returns The Save Slots, most recently saved first
+   */
+  public getSlots(): PreviewSaveSlot[] {
+    return this.getAllSlots()[this.uri.toString()] ?? [];
+  }
+
+  /**
+   * Saves a Save Slot for the Story, replacing any Save Slot with the same name.
+   * @param slot - The Save Slot to save
+   */
+  public async saveSlot(slot: PreviewSaveSlot): Promise<void> {
+    const allSlots = this.getAllSlots();
+    allSlots[this.uri.toString()] = [
+      slot,
+      ...this.getSlots().filter((other) => other.name !== slot.name),
+    ];
+    await this.workspaceState.update(PreviewSaveSlotStore.stateKey, allSlots);
+  }
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Gets the Save Slots of every Story, by the URI of the Story.
+   * @returns The Save Slots
+   */
+  private getAllSlots(): Record<string, PreviewSaveSlot[]> {
+    return {
+      ...this.workspaceState.get<Record<string, PreviewSaveSlot[]>>(
+        PreviewSaveSlotStore.stateKey,
+        {}
+      ),
+    };
+  }
+}
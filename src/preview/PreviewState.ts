@@ -57,6 +57,67 @@ export interface FunctionStoryEvent {
  */
 export type StoryEvent = TextStoryEvent | FunctionStoryEvent;
 
+/**
+ * Represents the kind of value held by a Variable of the Story.
+ */
+export type StoryVariableType =
+  "boolean" | "divert" | "list" | "number" | "string";
+
+/**
+ * Represents a global Variable of the Story.
+ */
+export interface StoryVariable {
+  /**
+   * The name of the Variable.
+   */
+  name: string;
+
+  /**
+   * The kind of value held by the Variable.
+   */
+  type: StoryVariableType;
+
+  /**
+   * The value of the Variable, formatted for display.
+   */
+  value: string;
+
+  /**
+   * The names of the lists the items of a list value originate from.
+   */
+  origins?: string[];
+
+  /**
+   * The value of the Variable before the last Choice was made, if it has changed since.
+   */
+  previousValue?: string;
+}
+
+/**
+ * Represents how often a knot, stitch or labelled choice or gather of the Story has been visited.
+ */
+export interface StoryVisitCount {
+  /**
+   * The path of the knot, stitch or label, e.g. `chapter_9.duel`.
+   */
+  path: string;
+
+  /**
+   * The number of times it has been visited.
+   */
+  visits: number;
+
+  /**
+   * The number of turns since it was last visited, or -1 if it has never been visited.
+   */
+  turnsSince: number;
+
+  /**
+   * The index of the turn in which it was last visited, if it has been visited.
+   */
+  lastVisitTurnIndex?: number;
+}
+
 /**
  * Represents the Severity of an Error for the Story.
  */
@@ -109,6 +170,21 @@ export interface PreviewStoryState {
    * The index of the last Choice made for the Story.
    */
   lastChoiceIndex: number;
+
+  /**
+   * The index of the current turn of the Story, which starts at -1 and is incremented by each Choice made.
+   */
+  turnIndex: number;
+
+  /**
+   * All global Variables of the Story, sorted by name.
+   */
+  variables: StoryVariable[];
+
+  /**
+   * The Visit Counts of the knots, stitches and labels of the Story, in the order of its outline.
+   */
+  visits: StoryVisitCount[];
 }
 
 /**
@@ -23,7 +23,7 @@
  */
 
 import { freeze, produce } from "immer";
-import { PreviewState } from "./PreviewState";
+import { PreviewState, PreviewStoryState } from "./PreviewState";
 import { PreviewAction } from "./PreviewAction";
 import { PreviewStoryManager } from "./PreviewStoryManager";
 import { PreviewActionContext } from "./PreviewActionContext";
@@ -209,6 +209,33 @@ export class PreviewStateManager {
     return this.replay(lastIndex);
   }
 
+  /**
+   * Restores the Story State and history of a previously saved point in the Story.
+   * The Story itself must already have been restored to the same point by the story manager.
+   * Errors are cleared, as they relate to the Story before it was restored.
+   * The Story State is merged over the default one, as it may have been saved before some of its fields existed.
+   *
+   * @param story - The Story State to restore, including the transcript of its events
+   * @param history - The actions which led to the saved point
+   * @returns The restored state
+   */
+  public restore(
+    story: Partial<PreviewStoryState>,
+    history: PreviewAction[]
+  ): PreviewState {
+    this.state = produce(this.state, (draft) => {
+      draft.story = {
+        ...this.createDefaultStoryState(),
+        ...story,
+        errors: [],
+      };
+      draft.ui.canRewind = !draft.story.isStart;
+    });
+    this.history = [...history];
+    this.sendState();
+    return this.getState();
+  }
+
   /**
    * Resets the state to the initial default state.
    * Preserves metadata if it was set during construction.
@@ -282,6 +309,9 @@ export class PreviewStateManager {
       isEnded: false,
       isStart: true,
       lastChoiceIndex: 0,
+      turnIndex: -1,
+      variables: [],
+      visits: [],
     };
   }
 
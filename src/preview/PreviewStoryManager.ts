@@ -23,8 +23,19 @@
  */
 
 import { Story } from "inkjs";
+import { InkList } from "inkjs/engine/InkList";
+import { InkObject } from "inkjs/engine/Object";
+import { Path } from "inkjs/engine/Path";
+import { Value, ValueType } from "inkjs/engine/Value";
 import { StoryProgressResult } from "./StoryProgressResult";
-import { StoryEvent, TextStoryEvent, Choice, ErrorInfo } from "./PreviewState";
+import {
+  StoryEvent,
+  TextStoryEvent,
+  Choice,
+  ErrorInfo,
+  StoryVariable,
+  StoryVisitCount,
+} from "./PreviewState";
 import { parseErrorMessage } from "./parseErrorMessage";
 
 /**
@@ -50,15 +61,22 @@ export class PreviewStoryManager {
   // Private Properties ===============================================================================================
 
   private readonly story: Story;
+  private readonly labelPaths: ReadonlyMap<string, string>;
+  private visitPaths: string[] = [];
 
   // Constructor ======================================================================================================
 
   /**
    * Creates a new PreviewStoryManager wrapping the provided Ink story instance.
    * @param story - The Ink story instance to manage
+   * @param labelPaths - The runtime path of each labelled choice and gather, keyed by the path used in Ink
    */
-  constructor(story: Story) {
+  constructor(
+    story: Story,
+    labelPaths: ReadonlyMap<string, string> = new Map()
+  ) {
     this.story = story;
+    this.labelPaths = labelPaths;
   }
 
   // Public Methods ===================================================================================================
@@ -71,6 +89,37 @@ export class PreviewStoryManager {
     return this.story.canContinue;
   }
 
+  /**
+   * Jumps to a knot or stitch and then continues the story until the next choice point or end.
+   * The jump counts as a turn, as selecting a choice does.
+   * @param path - The path of the knot or stitch, e.g. `chapter_9` or `chapter_9.duel`
+   * @returns StoryProgressResult containing events, choices, and end state after the jump
+   */
+  choosePath(path: string): StoryProgressResult {
+    try {
+      this.story.ChoosePathString(path);
+      return this.continue();
+    } catch (error) {
+      console.error("[PreviewStoryManager] ❌ Error choosing path:", error);
+
+      // Return safe default state after error
+      const { message, severity } = parseErrorMessage(
+        error instanceof Error ? error.message : "Unknown error choosing path"
+      );
+      return {
+        events: [],
+        choices: [],
+        isEnded: true,
+        errors: [
+          {
+            message,
+            severity: severity || "error",
+          },
+        ],
+      };
+    }
+  }
+
   /**
    * Continues the story until it reaches a choice point or ends.
    * Collects all events generated during continuation and returns the result.
@@ -128,6 +177,106 @@ export class PreviewStoryManager {
     }));
   }
 
+  /**
+   * Gets the complete state of the story, such as its position, variables and visit counts, as JSON.
+   * @returns The story state as JSON
+   */
+  getStateJson(): string {
+    return this.story.state.ToJson();
+  }
+
+  /**
+   * Gets the index of the current turn, which starts at -1 and is incremented by each choice made.
+   * @returns The current turn index
+   */
+  getTurnIndex(): number {
+    return this.story.state.currentTurnIndex;
+  }
+
+  /**
+   * Gets all global variables of the story, including lists, sorted by name.
+   * Constants are not included, as they are replaced by their values when the story is compiled.
+   * @returns The global variables, with their values formatted for display
+   */
+  getVariables(): StoryVariable[] {
+    const variablesState = this.story.variablesState;
+    return Object.keys(variablesState)
+      .sort((a, b) => a.localeCompare(b))
+      .flatMap((name) => {
+        const variable = this.createVariable(name, variablesState.$(name));
+        return variable ? [variable] : [];
+      });
+  }
+
+  /**
+   * Sets the knots, stitches and labels whose visits are counted by getVisitCounts().
+   * @param paths - The paths of the knots, stitches and labels, e.g. `chapter_9.duel.parried`
+   */
+  setVisitPaths(paths: string[]): void {
+    this.visitPaths = paths;
+  }
+
+  /**
+   * Sets the value of a global variable, keeping the kind of value it already holds.
+   * Numbers become floats if the variable already holds a float or the value is not a whole number, and lists are
+   * given as comma-separated item names, qualified by their list if needed, e.g. `front, mood.happy`.
+   * @param name - The name of the variable
+   * @param text - The new value, as entered by the player
+   * @throws Error describing why the value is not valid for the variable
+   */
+  setVariable(name: string, text: string): void {
+    this.story.variablesState.SetGlobal(
+      name,
+      this.parseVariableValue(name, text)
+    );
+  }
+
+  /**
+   * Validates a new value for a global variable, without setting it.
+   * @param name - The name of the variable
+   * @param text - The new value, as entered by the player
+   * @returns A message describing why the value is not valid, or undefined if it is valid
+   */
+  validateVariable(name: string, text: string): string | undefined {
+    try {
+      this.parseVariableValue(name, text);
+      return undefined;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Gets the number of times each knot, stitch and label set by setVisitPaths() has been visited.
+   * Those the story does not count visits for are left out, as is the case for anything not referred to by the story
+   * when it is compiled without counting all visits.
+   * @returns The path and number of visits of each knot, stitch and label
+   */
+  getVisitCounts(): Pick<StoryVisitCount, "path" | "visits">[] {
+    return this.visitPaths.flatMap((path) => {
+      const runtimePath = this.labelPaths.get(path) ?? path;
+      const result = this.story.ContentAtPath(new Path(runtimePath));
+      if (result.approximate || !result.container?.visitsShouldBeCounted) {
+        return [];
+      }
+      return [
+        {
+          path,
+          visits: this.story.state.VisitCountAtPathString(runtimePath) ?? 0,
+        },
+      ];
+    });
+  }
+
+  /**
+   * Checks if the story contains a knot or stitch.
+   * @param path - The path of the knot or stitch, e.g. `chapter_9` or `chapter_9.duel`
+   * @returns True if the story contains the knot or stitch
+   */
+  hasPath(path: string): boolean {
+    return !this.story.ContentAtPath(new Path(path)).approximate;
+  }
+
   /**
    * Checks if the story has reached an end state.
    * @returns True if the story has ended (cannot continue and has no choices)
@@ -136,6 +285,15 @@ export class PreviewStoryManager {
     return !this.story.canContinue && this.story.currentChoices.length === 0;
   }
 
+  /**
+   * Restores a state of the story previously returned by getStateJson().
+   * @param json - The story state as JSON
+   * @throws Error if the state cannot be loaded into the story
+   */
+  loadStateJson(json: string): void {
+    this.story.state.LoadJson(json);
+  }
+
   /**
    * Registers an Error Callback for handling errors from the Ink Story.
    * @param callback - The callback to register
@@ -206,6 +364,106 @@ export class PreviewStoryManager {
 
   // Private Methods ==================================================================================================
 
+  /**
+   * Creates the variable shown for the value of a global variable.
+   * @param name - The name of the variable
+   * @param value - The value of the variable
+   * @returns The variable, or undefined if the value is of an unknown kind
+   */
+  private createVariable(
+    name: string,
+    value: unknown
+  ): StoryVariable | undefined {
+    if (typeof value === "boolean") {
+      return { name, type: "boolean", value: String(value) };
+    }
+    if (typeof value === "number") {
+      return { name, type: "number", value: String(value) };
+    }
+    if (typeof value === "string") {
+      return { name, type: "string", value: JSON.stringify(value) };
+    }
+    if (value instanceof InkList) {
+      return {
+        name,
+        type: "list",
+        value: String(value),
+        origins: [...(value.originNames ?? [])],
+      };
+    }
+    if (value instanceof Path) {
+      return { name, type: "divert", value: `-> ${value.componentsString}` };
+    }
+    return undefined;
+  }
+
+  /**
+   * Parses a new value for a global variable, according to the kind of value it already holds.
+   * @param name - The name of the variable
+   * @param text - The new value, as entered by the player
+   * @returns The Ink value
+   * @throws Error describing why the value is not valid for the variable
+   */
+  private parseVariableValue(name: string, text: string): InkObject {
+    const variablesState = this.story.variablesState;
+    const current = variablesState.$(name);
+    const variable = this.createVariable(name, current);
+    if (!variable) {
+      throw new Error(`The story has no global variable named '${name}'.`);
+    }
+
+    const trimmed = text.trim();
+    let value: InkObject | null;
+    switch (variable.type) {
+      case "boolean":
+        if (!/^(true|false)$/i.test(trimmed)) {
+          throw new Error("Enter true or false.");
+        }
+        value = Value.Create(trimmed.toLowerCase() === "true");
+        break;
+      case "number": {
+        const number = Number(trimmed);
+        if (trimmed === "" || !Number.isFinite(number)) {
+          throw new Error("Enter a number.");
+        }
+        const isFloat =
+          !Number.isInteger(number) ||
+          trimmed.includes(".") ||
+          (variablesState.GetVariableWithName(name) as Value<number> | null)
+            ?.valueType === ValueType.Float;
+        value = Value.Create(number, isFloat ? ValueType.Float : ValueType.Int);
+        break;
+      }
+      case "string":
+        value = Value.Create(text);
+        break;
+      case "list": {
+        // Copy the current list to keep its origins, so that unqualified items can be found
+        const list = new InkList(current as InkList);
+        list.clear();
+        for (const item of trimmed.split(",").map((item) => item.trim())) {
+          if (!item) {
+            continue;
+          }
+          try {
+            list.AddItem(item, this.story);
+          } catch (error) {
+            throw new Error(`The list item '${item}' does not exist.`);
+          }
+        }
+        value = Value.Create(list);
+        break;
+      }
+      default:
+        throw new Error("Divert targets cannot be edited.");
+    }
+
+    if (!value) {
+      throw new Error(`The value cannot be stored in '${name}'.`);
+    }
+    return value;
+  }
+
   /**
    * Continues the story execution with error handling.
    * Handles the complete continue block including text extraction, tag processing, and event creation.
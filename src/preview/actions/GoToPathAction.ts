@@ -0,0 +1,101 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { PreviewActionContext } from "../PreviewActionContext";
+import { AddErrorsAction } from "./AddErrorsAction";
+import { PreviewState } from "../PreviewState";
+import { StoryProgressAction } from "./StoryProgressAction";
+
+/**
+ * Action to jump to a knot or stitch in the Story, continue the Story, triggering updates to the Story State.
+ */
+export class GoToPathAction extends StoryProgressAction {
+  // Static Properties ================================================================================================
+
+  public static readonly actionType = "GO_TO_PATH";
+
+  // Public Properties ==============================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  public readonly cursor = true;
+
+  /**
+   * @inheritdoc
+   */
+  public readonly type = GoToPathAction.actionType;
+
+  /**
+   * @inheritdoc
+   */
+  public get payload(): { path: string } {
+    return { path: this.path };
+  }
+
+  // Private Properties ===============================================================================================
+
+  /**
+   * The path of the knot or stitch to jump to, e.g. `chapter_9.duel`.
+   */
+  private readonly path: string;
+
+  // Constructor ======================================================================================================
+
+  constructor(path: string) {
+    super();
+    this.path = path;
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  public apply(state: PreviewState): PreviewState {
+    state.story.isStart = false;
+    state.ui.canRewind = true;
+    return state;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public effect(context: PreviewActionContext): void {
+    const storyManager = context.storyManager;
+    if (!storyManager.hasPath(this.path)) {
+      context.dispatch(
+        new AddErrorsAction([
+          {
+            message: `The knot or stitch '${this.path}' that was jumped to is no longer in the story after live refreshing it.`,
+            severity: "info",
+          },
+        ])
+      );
+      return;
+    }
+    const result = storyManager.choosePath(this.path);
+    this.applyStoryProgress(result, context);
+  }
+}
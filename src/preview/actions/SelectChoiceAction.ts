@@ -50,6 +50,13 @@ export class SelectChoiceAction extends StoryProgressAction {
    */
   public readonly type = SelectChoiceAction.actionType;
 
+  /**
+   * @inheritdoc
+   */
+  public get payload(): { choiceIndex: number } {
+    return { choiceIndex: this.choiceIndex };
+  }
+
   // Private Properties ===============================================================================================
 
   /**
@@ -0,0 +1,114 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { PreviewAction } from "../PreviewAction";
+import { PreviewState } from "../PreviewState";
+import { PreviewActionContext } from "../PreviewActionContext";
+import { AddErrorsAction } from "./AddErrorsAction";
+import { SetVariablesAction } from "./SetVariablesAction";
+
+/**
+ * Action to set the value of a global variable in the Story, as entered by the player.
+ * Recorded in the history, so that the edit is reproduced when the story is replayed after live refreshing.
+ */
+export class SetVariableAction implements PreviewAction {
+  // Static Properties ================================================================================================
+
+  public static readonly actionType = "SET_VARIABLE";
+
+  // Public Properties ==============================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  public readonly cursor = true;
+
+  /**
+   * @inheritdoc
+   */
+  public readonly type = SetVariableAction.actionType;
+
+  /**
+   * @inheritdoc
+   */
+  public get payload(): { name: string; value: string } {
+    return { name: this.name, value: this.value };
+  }
+
+  // Private Properties ===============================================================================================
+
+  /**
+   * The name of the variable to set.
+   */
+  private readonly name: string;
+
+  /**
+   * The new value of the variable, as entered by the player.
+   */
+  private readonly value: string;
+
+  // Constructor ======================================================================================================
+
+  constructor(name: string, value: string) {
+    this.name = name;
+    this.value = value;
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  public apply(state: PreviewState): PreviewState {
+    state.ui.canRewind = true;
+    return state;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public effect(context: PreviewActionContext): void {
+    const storyManager = context.storyManager;
+    try {
+      storyManager.setVariable(this.name, this.value);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      context.dispatch(
+        new AddErrorsAction([
+          {
+            message: `The variable '${this.name}' could not be set to '${this.value}'. ${reason}`,
+            severity: "warning",
+          },
+        ])
+      );
+      return;
+    }
+    context.dispatch(
+      new SetVariablesAction(
+        storyManager.getVariables(),
+        storyManager.getTurnIndex()
+      )
+    );
+  }
+}
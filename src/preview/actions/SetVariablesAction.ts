@@ -0,0 +1,110 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { PreviewAction } from "../PreviewAction";
+import { PreviewState, StoryVariable } from "../PreviewState";
+import { PreviewActionContext } from "../PreviewActionContext";
+
+/**
+ * Action to set the global variables and turn index of the story after it has progressed.
+ * Variables whose values differ from those at the start of the turn are marked with their previous value, so that
+ * variables edited during a turn do not hide the changes made by the last choice.
+ */
+export class SetVariablesAction implements PreviewAction {
+  // Static Properties ================================================================================================
+
+  /**
+   * The type identifier for this action.
+   * Used for action identification, filtering, and debugging.
+   */
+  public static readonly actionType = "SET_VARIABLES";
+
+  // Public Properties ==============================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  public readonly cursor = false;
+
+  /**
+   * The type identifier for this action instance.
+   */
+  public readonly type = SetVariablesAction.actionType;
+
+  // Private Properties ===============================================================================================
+
+  /**
+   * The global variables of the story.
+   */
+  private readonly variables: StoryVariable[];
+
+  /**
+   * The index of the current turn of the story.
+   */
+  private readonly turnIndex: number;
+
+  // Constructor ======================================================================================================
+
+  /**
+   * Creates a new SetVariablesAction.
+   * @param variables - The global variables of the story
+   * @param turnIndex - The index of the current turn of the story
+   */
+  constructor(variables: StoryVariable[], turnIndex: number) {
+    this.variables = variables;
+    this.turnIndex = turnIndex;
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  public apply(state: PreviewState): PreviewState {
+    const isSameTurn = state.story.turnIndex === this.turnIndex;
+    const previous = new Map(
+      state.story.variables.map((variable) => [
+        variable.name,
+        isSameTurn
+          ? (variable.previousValue ?? variable.value)
+          : variable.value,
+      ])
+    );
+    state.story.variables = this.variables.map((variable) => {
+      const previousValue = previous.get(variable.name);
+      return previousValue === undefined || previousValue === variable.value
+        ? { ...variable, previousValue: undefined }
+        : { ...variable, previousValue };
+    });
+    state.story.turnIndex = this.turnIndex;
+    return state;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public effect(context: PreviewActionContext): void {
+    // no-op
+  }
+}
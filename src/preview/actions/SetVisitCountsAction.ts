@@ -0,0 +1,116 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { PreviewAction } from "../PreviewAction";
+import { PreviewState, StoryVisitCount } from "../PreviewState";
+import { PreviewActionContext } from "../PreviewActionContext";
+
+/**
+ * Action to set the Visit Counts of the knots, stitches and labels of the story after it has progressed.
+ * The turns since each was last visited are worked out from the turn in which its count last went up, as the story
+ * only keeps track of them for those it refers to with `TURNS_SINCE()`.
+ */
+export class SetVisitCountsAction implements PreviewAction {
+  // Static Properties ================================================================================================
+
+  /**
+   * The type identifier for this action.
+   * Used for action identification, filtering, and debugging.
+   */
+  public static readonly actionType = "SET_VISIT_COUNTS";
+
+  // Public Properties ==============================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  public readonly cursor = false;
+
+  /**
+   * The type identifier for this action instance.
+   */
+  public readonly type = SetVisitCountsAction.actionType;
+
+  // Private Properties ===============================================================================================
+
+  /**
+   * The number of times each knot, stitch and label has been visited.
+   */
+  private readonly visitCounts: Pick<StoryVisitCount, "path" | "visits">[];
+
+  /**
+   * The index of the current turn of the story.
+   */
+  private readonly turnIndex: number;
+
+  // Constructor ======================================================================================================
+
+  /**
+   * Creates a new SetVisitCountsAction.
+   * @param visitCounts - The number of times each knot, stitch and label has been visited
+   * @param turnIndex - The index of the current turn of the story
+   */
+  constructor(
+    visitCounts: Pick<StoryVisitCount, "path" | "visits">[],
+    turnIndex: number
+  ) {
+    this.visitCounts = visitCounts;
+    this.turnIndex = turnIndex;
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  public apply(state: PreviewState): PreviewState {
+    const previous = new Map(
+      state.story.visits.map((visitCount) => [visitCount.path, visitCount])
+    );
+    state.story.visits = this.visitCounts.map(({ path, visits }) => {
+      const previousCount = previous.get(path);
+      const lastVisitTurnIndex =
+        visits > 0 && visits !== previousCount?.visits
+          ? this.turnIndex
+          : previousCount?.lastVisitTurnIndex;
+      return {
+        path,
+        visits,
+        turnsSince:
+          lastVisitTurnIndex === undefined
+            ? -1
+            : this.turnIndex - lastVisitTurnIndex,
+        lastVisitTurnIndex,
+      };
+    });
+    return state;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public effect(context: PreviewActionContext): void {
+    // no-op
+  }
+}
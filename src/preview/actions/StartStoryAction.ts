@@ -58,6 +58,9 @@ export class StartStoryAction extends StoryProgressAction {
     state.story.isEnded = false;
     state.story.lastChoiceIndex = 0;
     state.story.isStart = true;
+    state.story.turnIndex = -1;
+    state.story.variables = [];
+    state.story.visits = [];
     state.ui.canRewind = false;
     return state;
   }
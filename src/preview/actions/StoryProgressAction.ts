@@ -29,6 +29,8 @@ import { AddStoryEventsAction } from "./AddStoryEventsAction";
 import { AddErrorsAction } from "./AddErrorsAction";
 import { SetCurrentChoicesAction } from "./SetCurrentChoicesAction";
 import { EndStoryAction } from "./EndStoryAction";
+import { SetVariablesAction } from "./SetVariablesAction";
+import { SetVisitCountsAction } from "./SetVisitCountsAction";
 
 /**
  * Base Action to handle continuation of a Story.
@@ -65,6 +67,20 @@ export abstract class StoryProgressAction implements PreviewAction {
 
     context.dispatch(new SetCurrentChoicesAction(result.choices));
 
+    context.dispatch(
+      new SetVariablesAction(
+        context.storyManager.getVariables(),
+        context.storyManager.getTurnIndex()
+      )
+    );
+
+    context.dispatch(
+      new SetVisitCountsAction(
+        context.storyManager.getVisitCounts(),
+        context.storyManager.getTurnIndex()
+      )
+    );
+
     if (result.isEnded) {
       context.dispatch(new EndStoryAction());
     }
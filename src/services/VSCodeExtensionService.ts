@@ -74,6 +74,12 @@ export interface IVSCodeExtensionService {
    * @returns The icon URI.
    */
   getIconUri(fileName: string): vscode.Uri;
+
+  /**
+   * Get the state stored for the extension in the current workspace, which persists across sessions.
+   * @returns The workspace state.
+   */
+  getWorkspaceState(): vscode.Memento;
 }
 
 /**
@@ -86,9 +92,13 @@ export class VSCodeExtensionServiceImpl implements IVSCodeExtensionService {
   private static readonly mediaPath = "media";
   private static readonly iconsPath = "icons";
 
+  private readonly workspaceState?: vscode.Memento;
+
   // Constructor ======================================================================================================
 
-  constructor() {}
+  constructor(workspaceState?: vscode.Memento) {
+    this.workspaceState = workspaceState;
+  }
 
   // Public Methods ===================================================================================================
 
@@ -170,4 +180,16 @@ export class VSCodeExtensionServiceImpl implements IVSCodeExtensionService {
       )
     );
   }
+
+  /**
+   * @inheritdoc
+   */
+  public getWorkspaceState(): vscode.Memento {
+    if (!this.workspaceState) {
+      throw new Error(
+        "Workspace state is not available until the extension is activated"
+      );
+    }
+    return this.workspaceState;
+  }
 }
@@ -1,10 +1,19 @@
 import * as vscode from "vscode";
 import { BuildEngine } from "../build/BuildEngine";
 import { IExtensionPlugin } from "../IExtensionPlugin";
+import { OutlineParser } from "../build/OutlineParser";
+import { ReferenceParser } from "../build/ReferenceParser";
 import { DependencyManager } from "../model/DependencyManager";
+import { OutlineManager } from "../model/OutlineManager";
+import { ReferenceManager } from "../model/ReferenceManager";
 import { VSCodeServiceLocator } from "../services/VSCodeServiceLocator";
 import { debounce } from "../util/debounce";
 
+/**
+ * The number of Ink files opened and parsed at once while seeding the outlines and references of the workspace.
+ */
+const seedChunkSize = 16;
+
 export class BuildSystem implements IExtensionPlugin {
   // Private Properties ===============================================================================================
   private engine: BuildEngine;
@@ -33,6 +42,34 @@ export class BuildSystem implements IExtensionPlugin {
     return debounceWait ?? 500;
   }
 
+  /**
+   * Parses and caches the outline and references of an Ink file, whether or not it is part of a compiled story.
+   * @param uri - The URI of the Ink file.
+   */
+  private async parseDocument(uri: vscode.Uri): Promise<void> {
+    try {
+      const document =
+        await VSCodeServiceLocator.getDocumentService().getTextDocument(uri);
+      await OutlineParser.getInstance().parseAndCache(document);
+      ReferenceParser.getInstance().parseAndCache(document);
+    } catch (error) {
+      console.error(`Failed to parse ${uri.fsPath}:`, error);
+    }
+  }
+
+  /**
+   * Parses and caches the outlines and references of Ink files a chunk at a time, so that files which are not part
+   * of a compiled story can still be searched and referenced.
+   * @param uris - The URIs of the Ink files.
+   */
+  private async seedDocuments(uris: vscode.Uri[]): Promise<void> {
+    for (let i = 0; i < uris.length; i += seedChunkSize) {
+      await Promise.all(
+        uris.slice(i, i + seedChunkSize).map((uri) => this.parseDocument(uri))
+      );
+    }
+  }
+
   private async seedGraph(): Promise<vscode.Uri[]> {
     const inkUris = await vscode.workspace.findFiles("**/*.ink");
 
@@ -41,18 +78,21 @@ export class BuildSystem implements IExtensionPlugin {
       depManager.createNode(uri);
     }
 
-    return Array.from(depManager.getAllRoots());
+    return inkUris;
   }
 
   private onCreate(uri: vscode.Uri): void {
     console.log("onCreate: uri:", uri.fsPath);
     this.depManager.createNode(uri);
+    this.parseDocument(uri);
     this.engine.recompileDependents(uri);
   }
 
   private onDelete(uri: vscode.Uri): void {
     console.log("onDelete: uri:", uri.fsPath);
     this.depManager.deleteNode(uri);
+    OutlineManager.getInstance().deleteOutline(uri);
+    ReferenceManager.getInstance().deleteReferences(uri);
     this.engine.diagnostics.clear(uri);
   }
 
@@ -69,10 +109,12 @@ export class BuildSystem implements IExtensionPlugin {
    */
   activate(context: vscode.ExtensionContext): void {
     // Seed initial graph from workspace
-    this.seedGraph().then((roots) => {
-      for (const uri of roots) {
+    this.seedGraph().then((inkUris) => {
+      for (const uri of this.depManager.getAllRoots()) {
         this.engine.compileStory(uri);
       }
+      // Seed the remaining outlines in the background, so that the first diagnostics are not held up
+      this.seedDocuments(inkUris);
     });
 
     // Setup filesystem watchers
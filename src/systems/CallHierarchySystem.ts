@@ -0,0 +1,247 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { IExtensionPlugin } from "../IExtensionPlugin";
+import { OutlineParser } from "../build/OutlineParser";
+import { ReferenceParser } from "../build/ReferenceParser";
+import { getEntitySymbolKind } from "../build/outline/getEntitySymbolKind";
+import { getEntityTypeDescription } from "../build/outline/getEntityTypeDescription";
+import { CallEdge, CallGraph } from "../model/CallGraph";
+import { ReferenceType } from "../model/InkReference";
+import { EntityType } from "../model/OutlineEntity";
+import { OutlineManager } from "../model/OutlineManager";
+import { ResolvedEntity, SymbolResolver } from "../model/SymbolResolver";
+import { getIdentifierPathAtPosition } from "../util/ink/getIdentifierPathAtPosition";
+
+export class CallHierarchySystem implements IExtensionPlugin {
+  // Private Properties ===============================================================================================
+
+  private callGraph: CallGraph;
+  private itemTargets: WeakMap<vscode.CallHierarchyItem, ResolvedEntity> =
+    new WeakMap();
+  private outlineParser: OutlineParser;
+  private referenceParser: ReferenceParser;
+  private resolver: SymbolResolver;
+
+  // Constructor ======================================================================================================
+
+  constructor(resolver?: SymbolResolver) {
+    this.outlineParser = OutlineParser.getInstance();
+    this.referenceParser = ReferenceParser.getInstance();
+    this.resolver = resolver ?? new SymbolResolver();
+    this.callGraph = new CallGraph(this.resolver);
+  }
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Creates the item presenting a knot, stitch or function, or the top of a document.
+   * @param uri - The URI of the document.
+   * @param target - The knot, stitch or function, or undefined for the top of the document.
+   * @param types - The kinds of call made to or from the item, shown alongside it.
+   * @returns The item.
+   */
+  private createItem(
+    uri: vscode.Uri,
+    target?: ResolvedEntity,
+    types: ReferenceType[] = []
+  ): vscode.CallHierarchyItem {
+    const calls = Array.from(new Set(types)).sort().join(", ");
+    const suffix = calls ? ` (${calls})` : "";
+    if (!target) {
+      const range = new vscode.Range(0, 0, 0, 0);
+      return new vscode.CallHierarchyItem(
+        vscode.SymbolKind.File,
+        path.basename(uri.fsPath),
+        `Top of story${suffix}`,
+        uri,
+        range,
+        range
+      );
+    }
+
+    const entity = target.entity;
+    const name =
+      entity.type === EntityType.stitch && entity.parent
+        ? `${entity.parent.identifier}.${entity.identifier}`
+        : entity.identifier;
+    const item = new vscode.CallHierarchyItem(
+      getEntitySymbolKind(entity.type),
+      name,
+      `${getEntityTypeDescription(entity.type)}${suffix}`,
+      target.uri,
+      entity.isBlock ? entity.scopeRange : entity.definitionRange,
+      entity.definitionRange
+    );
+    this.itemTargets.set(item, target);
+    return item;
+  }
+
+  /**
+   * Gets the knot, stitch or function presented by an item.
+   * Items are normally those created by this system, but are looked up by location should they have been recreated.
+   * @param item - The item.
+   * @returns The knot, stitch or function, or undefined for the top of a document.
+   */
+  private getTarget(
+    item: vscode.CallHierarchyItem
+  ): ResolvedEntity | undefined {
+    const target = this.itemTargets.get(item);
+    if (target || item.kind === vscode.SymbolKind.File) {
+      return target;
+    }
+    const outline = OutlineManager.getInstance().getOutline(item.uri) ?? [];
+    const line = item.selectionRange.start.line;
+    const entity = [...outline, ...outline.flatMap((e) => e.children)].find(
+      (e) =>
+        (e.isBlock || e.type === EntityType.external) &&
+        e.definitionRange.start.line === line
+    );
+    return entity ? { entity, uri: item.uri } : undefined;
+  }
+
+  /**
+   * Groups calls by the item at one end of them.
+   * @param edges - The calls to group.
+   * @param getEnd - Gets the document and entity at the end of a call to group by.
+   * @returns The item at the end of each group, along with the calls in the group.
+   */
+  private groupEdges(
+    edges: CallEdge[],
+    getEnd: (edge: CallEdge) => { uri: vscode.Uri; target?: ResolvedEntity }
+  ): { item: vscode.CallHierarchyItem; edges: CallEdge[] }[] {
+    const groups = new Map<string, CallEdge[]>();
+    for (const edge of edges) {
+      const { uri, target } = getEnd(edge);
+      const key = `${uri.toString()}#${target?.entity.definitionRange.start.line ?? -1}`;
+      groups.set(key, [...(groups.get(key) ?? []), edge]);
+    }
+    return Array.from(groups.values()).map((group) => {
+      const { uri, target } = getEnd(group[0]);
+      const item = this.createItem(
+        uri,
+        target,
+        group.map((edge) => edge.type)
+      );
+      return { item, edges: group };
+    });
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  activate(context: vscode.ExtensionContext): void {
+    // Register CallHierarchyProvider for Ink files
+    const callHierarchyProvider =
+      vscode.languages.registerCallHierarchyProvider(
+        { language: "ink" },
+        {
+          prepareCallHierarchy: async (document, position) => {
+            return this.prepareCallHierarchy(document, position);
+          },
+          provideCallHierarchyIncomingCalls: (item) => {
+            return this.getIncomingCalls(item);
+          },
+          provideCallHierarchyOutgoingCalls: (item) => {
+            return this.getOutgoingCalls(item);
+          },
+        }
+      );
+
+    context.subscriptions.push(callHierarchyProvider);
+  }
+
+  /**
+   * Gets the calls into the knot, stitch or function presented by an item: every divert, tunnel, thread or function
+   * call to it, grouped by the knot, stitch or function making them.
+   * @param item - The item.
+   * @returns The incoming calls.
+   */
+  public getIncomingCalls(
+    item: vscode.CallHierarchyItem
+  ): vscode.CallHierarchyIncomingCall[] {
+    const target = this.getTarget(item);
+    if (!target) {
+      return [];
+    }
+    return this.groupEdges(this.callGraph.getIncomingEdges(target), (edge) => ({
+      uri: edge.uri,
+      target: edge.caller,
+    })).map(
+      (group) =>
+        new vscode.CallHierarchyIncomingCall(
+          group.item,
+          group.edges.map((edge) => edge.range)
+        )
+    );
+  }
+
+  /**
+   * Gets the calls made by the knot, stitch or function presented by an item, grouped by where they go.
+   * @param item - The item.
+   * @returns The outgoing calls.
+   */
+  public getOutgoingCalls(
+    item: vscode.CallHierarchyItem
+  ): vscode.CallHierarchyOutgoingCall[] {
+    const target = this.getTarget(item);
+    if (target?.entity.type === EntityType.external) {
+      return [];
+    }
+    return this.groupEdges(
+      this.callGraph.getOutgoingEdges(item.uri, target),
+      (edge) => ({ uri: edge.callee.uri, target: edge.callee })
+    ).map(
+      (group) =>
+        new vscode.CallHierarchyOutgoingCall(
+          group.item,
+          group.edges.map((edge) => edge.range)
+        )
+    );
+  }
+
+  /**
+   * Gets the item for the knot, stitch or function at a position in an Ink document, either a reference to it or
+   * anywhere within its body.
+   * @param document - The Ink document.
+   * @param position - The position.
+   * @returns The item, or undefined if the position is not within a knot, stitch or function.
+   */
+  public async prepareCallHierarchy(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.CallHierarchyItem | undefined> {
+    // Refresh the outline and references, as the document may have changed since it was last compiled
+    this.referenceParser.parseAndCache(document);
+    const outline = await this.outlineParser.parseAndCache(document);
+
+    const identifierPath = getIdentifierPathAtPosition(document, position);
+    if (identifierPath) {
+      const resolved = this.resolver.resolve(
+        document.uri,
+        position.line,
+        identifierPath.segments
+      );
+      if (
+        resolved &&
+        (resolved.entity.isBlock ||
+          resolved.entity.type === EntityType.external)
+      ) {
+        return this.createItem(resolved.uri, resolved);
+      }
+    }
+
+    const block = this.resolver.getScopeChain(outline, position.line)[0];
+    return block
+      ? this.createItem(document.uri, { entity: block, uri: document.uri })
+      : undefined;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  dispose(): void {
+    // No explicit resources to dispose in this implementation
+  }
+}
@@ -0,0 +1,225 @@
+import * as vscode from "vscode";
+import { IExtensionPlugin } from "../IExtensionPlugin";
+import { OutlineParser } from "../build/OutlineParser";
+import { getEntityTypeDescription } from "../build/outline/getEntityTypeDescription";
+import { EntityType, OutlineEntity } from "../model/OutlineEntity";
+import { SymbolResolver } from "../model/SymbolResolver";
+
+const qualifiedPathRegex =
+  /([a-zA-Z_][a-zA-Z0-9_]*(?:\.[a-zA-Z_][a-zA-Z0-9_]*)*)\.[a-zA-Z0-9_]*$/;
+
+const divertRegex = /(->|<-)\s*[a-zA-Z0-9_]*$/;
+
+const expressionTypes = new Set([
+  EntityType.const,
+  EntityType.external,
+  EntityType.function,
+  EntityType.list,
+  EntityType.listItem,
+  EntityType.variable,
+]);
+
+const callableTypes = new Set([
+  EntityType.external,
+  EntityType.function,
+  EntityType.knot,
+  EntityType.stitch,
+]);
+
+export class CompletionSystem implements IExtensionPlugin {
+  // Private Properties ===============================================================================================
+
+  private outlineParser: OutlineParser;
+  private resolver: SymbolResolver;
+
+  // Constructor ======================================================================================================
+
+  constructor(resolver?: SymbolResolver) {
+    this.outlineParser = OutlineParser.getInstance();
+    this.resolver = resolver ?? new SymbolResolver();
+  }
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Creates a completion item for an entity.
+   * @param entity - The entity to complete.
+   * @returns The completion item, showing the signature of functions and parameterised knots.
+   */
+  private createItem(entity: OutlineEntity): vscode.CompletionItem {
+    const identifier = entity.identifier;
+    const signature =
+      callableTypes.has(entity.type) && entity.name.startsWith(identifier)
+        ? entity.name.substring(identifier.length)
+        : undefined;
+    const item = new vscode.CompletionItem(
+      {
+        label: identifier,
+        detail: signature,
+        description: getEntityTypeDescription(entity.type),
+      },
+      this.getCompletionItemKind(entity.type)
+    );
+    item.insertText = identifier;
+    return item;
+  }
+
+  /**
+   * Creates completion items for entities, dropping duplicate identifiers.
+   * @param entities - The entities to complete.
+   * @returns The completion items.
+   */
+  private createItems(entities: OutlineEntity[]): vscode.CompletionItem[] {
+    const seen = new Set<string>();
+    const items: vscode.CompletionItem[] = [];
+    for (const entity of entities) {
+      if (!seen.has(entity.identifier)) {
+        seen.add(entity.identifier);
+        items.push(this.createItem(entity));
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Gets the completion item kind for an entity type.
+   * @param type - The type of entity.
+   * @returns The completion item kind.
+   */
+  private getCompletionItemKind(type: EntityType): vscode.CompletionItemKind {
+    switch (type) {
+      case EntityType.const:
+        return vscode.CompletionItemKind.Constant;
+      case EntityType.external:
+      case EntityType.function:
+        return vscode.CompletionItemKind.Function;
+      case EntityType.knot:
+        return vscode.CompletionItemKind.Module;
+      case EntityType.label:
+        return vscode.CompletionItemKind.Reference;
+      case EntityType.list:
+        return vscode.CompletionItemKind.Enum;
+      case EntityType.listItem:
+        return vscode.CompletionItemKind.EnumMember;
+      case EntityType.stitch:
+        return vscode.CompletionItemKind.Class;
+      default:
+        return vscode.CompletionItemKind.Variable;
+    }
+  }
+
+  /**
+   * Gets the divert targets in scope at a line: knots from across the story, and the stitches and labels of the
+   * enclosing knot and stitch.
+   * @param uri - The URI of the document.
+   * @param outline - The root entities of the document.
+   * @param line - The line being completed.
+   * @returns The divert targets.
+   */
+  private getDivertTargets(
+    uri: vscode.Uri,
+    outline: OutlineEntity[],
+    line: number
+  ): OutlineEntity[] {
+    const local = this.resolver
+      .getScopeChain(outline, line)
+      .flatMap((scope) =>
+        scope.children.filter(
+          (e) => e.type === EntityType.stitch || e.type === EntityType.label
+        )
+      );
+    const knots = this.resolver
+      .getGlobalEntities(uri)
+      .map((resolved) => resolved.entity)
+      .filter((e) => e.type === EntityType.knot);
+    return [...local, ...knots];
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  activate(context: vscode.ExtensionContext): void {
+    // Register CompletionItemProvider for Ink files
+    const completionProvider = vscode.languages.registerCompletionItemProvider(
+      { language: "ink" },
+      {
+        provideCompletionItems: async (document, position) => {
+          return this.getCompletionItems(document, position);
+        },
+      },
+      ">",
+      ".",
+      "{",
+      "~"
+    );
+
+    context.subscriptions.push(completionProvider);
+  }
+
+  /**
+   * Gets the completion items for a position in an Ink document, based on the context of the position:
+   * divert targets after `->`, the children of a knot, stitch or list after `.`, and variables, list items and
+   * functions within `{...}` or after `~`.
+   * @param document - The Ink document.
+   * @param position - The position being completed.
+   * @returns The completion items, or an empty list if there is nothing to complete.
+   */
+  public async getCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.CompletionItem[]> {
+    const prefix = document
+      .lineAt(position.line)
+      .text.substring(0, position.character);
+    if (prefix.includes("//")) {
+      return [];
+    }
+
+    // Refresh the outline, as the document may have changed since it was last compiled
+    const outline = await this.outlineParser.parseAndCache(document);
+
+    const pathMatch = qualifiedPathRegex.exec(prefix);
+    if (pathMatch) {
+      const parent = this.resolver.resolve(
+        document.uri,
+        position.line,
+        pathMatch[1].split(".")
+      );
+      return parent ? this.createItems(parent.entity.children) : [];
+    }
+
+    if (divertRegex.test(prefix)) {
+      const items = this.createItems(
+        this.getDivertTargets(document.uri, outline, position.line)
+      );
+      for (const keyword of ["END", "DONE"]) {
+        items.push(
+          new vscode.CompletionItem(keyword, vscode.CompletionItemKind.Keyword)
+        );
+      }
+      return items;
+    }
+
+    const isLogic = /^\s*~/.test(prefix);
+    const openBraces =
+      (prefix.match(/\{/g) ?? []).length - (prefix.match(/\}/g) ?? []).length;
+    if (!isLogic && openBraces <= 0) {
+      return [];
+    }
+    return this.createItems(
+      this.resolver
+        .getGlobalEntities(document.uri)
+        .map((resolved) => resolved.entity)
+        .filter((e) => expressionTypes.has(e.type))
+    );
+  }
+
+  /**
+   * @inheritdoc
+   */
+  dispose(): void {
+    // No explicit resources to dispose in this implementation
+  }
+}
@@ -0,0 +1,74 @@
+import * as vscode from "vscode";
+import { IExtensionPlugin } from "../IExtensionPlugin";
+import { OutlineParser } from "../build/OutlineParser";
+import { SymbolResolver } from "../model/SymbolResolver";
+import { getIdentifierPathAtPosition } from "../util/ink/getIdentifierPathAtPosition";
+
+export class DefinitionSystem implements IExtensionPlugin {
+  // Private Properties ===============================================================================================
+
+  private outlineParser: OutlineParser;
+  private resolver: SymbolResolver;
+
+  // Constructor ======================================================================================================
+
+  constructor(resolver?: SymbolResolver) {
+    this.outlineParser = OutlineParser.getInstance();
+    this.resolver = resolver ?? new SymbolResolver();
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  activate(context: vscode.ExtensionContext): void {
+    // Register DefinitionProvider for Ink files
+    const definitionProvider = vscode.languages.registerDefinitionProvider(
+      { language: "ink" },
+      {
+        provideDefinition: async (document, position) => {
+          return this.getDefinition(document, position);
+        },
+      }
+    );
+
+    context.subscriptions.push(definitionProvider);
+  }
+
+  /**
+   * Gets the definition of the divert target, label or identifier at a position in an Ink document.
+   * @param document - The Ink document containing the reference.
+   * @param position - The position of the reference.
+   * @returns The location of the definition, or undefined if it cannot be resolved.
+   */
+  public async getDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.Location | undefined> {
+    const identifierPath = getIdentifierPathAtPosition(document, position);
+    if (!identifierPath) {
+      return undefined;
+    }
+
+    // Refresh the outline, as the document may have changed since it was last compiled
+    await this.outlineParser.parseAndCache(document);
+
+    const resolved = this.resolver.resolve(
+      document.uri,
+      position.line,
+      identifierPath.segments
+    );
+    if (!resolved) {
+      return undefined;
+    }
+    return new vscode.Location(resolved.uri, resolved.entity.definitionRange);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  dispose(): void {
+    // No explicit resources to dispose in this implementation
+  }
+}
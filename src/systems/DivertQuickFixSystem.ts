@@ -0,0 +1,311 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { IExtensionPlugin } from "../IExtensionPlugin";
+import { DependencyManager } from "../model/DependencyManager";
+import { EntityType, OutlineEntity } from "../model/OutlineEntity";
+import { OutlineManager } from "../model/OutlineManager";
+import { SymbolResolver } from "../model/SymbolResolver";
+import { editDistance } from "../util/editDistance";
+import { createPathResolutionStrategy } from "../util/paths/createPathResolutionStrategy";
+
+const divertNotFoundRegex =
+  /^Divert target not found: '->\s*([a-zA-Z_][a-zA-Z0-9_]*(?:\.[a-zA-Z_][a-zA-Z0-9_]*)*)'/;
+
+const maxCorrections = 3;
+
+export class DivertQuickFixSystem implements IExtensionPlugin {
+  // Private Properties ===============================================================================================
+
+  private depManager: DependencyManager;
+  private outlineManager: OutlineManager;
+  private resolver: SymbolResolver;
+
+  // Constructor ======================================================================================================
+
+  constructor(resolver?: SymbolResolver) {
+    this.depManager = DependencyManager.getInstance();
+    this.outlineManager = OutlineManager.getInstance();
+    this.resolver = resolver ?? new SymbolResolver();
+  }
+
+  // Private Methods ==================================================================================================
+
+  private createAction(
+    title: string,
+    diagnostic: vscode.Diagnostic,
+    edit: vscode.WorkspaceEdit
+  ): vscode.CodeAction {
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+    action.diagnostics = [diagnostic];
+    action.edit = edit;
+    return action;
+  }
+
+  /**
+   * Creates quick fixes replacing the last segment of a divert target with the closest existing names.
+   */
+  private createCorrectionActions(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    segments: string[]
+  ): vscode.CodeAction[] {
+    const line = diagnostic.range.start.line;
+    const name = segments[segments.length - 1];
+    const range = this.getLastSegmentRange(document, line, segments);
+    if (!range) {
+      return [];
+    }
+
+    const maxDistance = Math.max(2, Math.floor(name.length / 3));
+    const candidates = new Map<string, number>();
+    for (const entity of this.getCandidates(document, line, segments)) {
+      const distance = editDistance(name, entity.identifier);
+      if (distance <= maxDistance && !candidates.has(entity.identifier)) {
+        candidates.set(entity.identifier, distance);
+      }
+    }
+
+    return [...candidates.entries()]
+      .sort((a, b) => a[1] - b[1] || a[0].localeCompare(b[0]))
+      .slice(0, maxCorrections)
+      .map(([candidate], index) => {
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(document.uri, range, candidate);
+        const action = this.createAction(
+          `Change to '${[...segments.slice(0, -1), candidate].join(".")}'`,
+          diagnostic,
+          edit
+        );
+        action.isPreferred = index === 0;
+        return action;
+      });
+  }
+
+  /**
+   * Creates quick fixes including a workspace file which defines the knot a divert target starts with.
+   * INCLUDE paths are resolved against the root story rather than the file containing them, so the path is made
+   * relative to the root story, and files it cannot reach are left out.
+   */
+  private createIncludeActions(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    segments: string[]
+  ): vscode.CodeAction[] {
+    const storyUris = new Set(
+      this.resolver.getStoryUris(document.uri).map((uri) => uri.toString())
+    );
+    const outline = this.outlineManager.getOutline(document.uri) ?? [];
+    const includes = outline.filter((e) => e.type === EntityType.include);
+    const line =
+      includes.length > 0
+        ? includes[includes.length - 1].definitionRange.start.line + 1
+        : 0;
+
+    const roots = this.depManager.getAllDependents([document.uri], true);
+    const rootUri: vscode.Uri =
+      roots.size > 0 ? roots.values().next().value! : document.uri;
+    const strategy = createPathResolutionStrategy(rootUri);
+
+    const actions: vscode.CodeAction[] = [];
+    for (const uri of this.outlineManager.getUris()) {
+      if (storyUris.has(uri.toString())) {
+        continue;
+      }
+      const defines = (this.outlineManager.getOutline(uri) ?? []).some(
+        (e) => e.type === EntityType.knot && e.identifier === segments[0]
+      );
+      if (!defines) {
+        continue;
+      }
+
+      const includePath = path
+        .relative(path.dirname(rootUri.fsPath), uri.fsPath)
+        .split(path.sep)
+        .join("/");
+      const resolved = strategy.resolvePath(rootUri, includePath, document.uri);
+      if (resolved?.toString() !== uri.toString()) {
+        continue;
+      }
+      const edit = new vscode.WorkspaceEdit();
+      if (line < document.lineCount) {
+        edit.insert(
+          document.uri,
+          new vscode.Position(line, 0),
+          `INCLUDE ${includePath}\n`
+        );
+      } else {
+        edit.insert(
+          document.uri,
+          document.lineAt(line - 1).range.end,
+          `\nINCLUDE ${includePath}`
+        );
+      }
+      actions.push(
+        this.createAction(`Add INCLUDE for '${includePath}'`, diagnostic, edit)
+      );
+    }
+    return actions;
+  }
+
+  /**
+   * Creates quick fixes adding a stub knot at the end of the document, or a stub stitch at the end of a knot.
+   */
+  private createStubActions(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    segments: string[]
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+    const line = diagnostic.range.start.line;
+    const name = segments[segments.length - 1];
+
+    if (segments.length === 1) {
+      const lastLine = document.lineAt(document.lineCount - 1);
+      const separator = lastLine.text.trim() === "" ? "\n" : "\n\n";
+      const edit = new vscode.WorkspaceEdit();
+      edit.insert(
+        document.uri,
+        lastLine.range.end,
+        `${separator}=== ${name} ===\n-> DONE\n`
+      );
+      actions.push(
+        this.createAction(`Create knot '${name}'`, diagnostic, edit)
+      );
+    }
+
+    // A stitch of the enclosing knot, or of the knot the target is qualified by
+    const knot =
+      segments.length === 1
+        ? this.resolver
+            .getScopeChain(this.outlineManager.getOutline(document.uri) ?? [], line)
+            .find((e) => e.type === EntityType.knot)
+        : undefined;
+    const qualified =
+      segments.length === 2
+        ? this.resolver.resolve(document.uri, line, segments.slice(0, 1))
+        : undefined;
+    const parent = knot
+      ? { entity: knot, uri: document.uri }
+      : qualified?.entity.type === EntityType.knot
+        ? qualified
+        : undefined;
+    if (parent) {
+      const edit = new vscode.WorkspaceEdit();
+      edit.insert(
+        parent.uri,
+        parent.entity.scopeRange.end,
+        `\n\n= ${name}\n-> DONE`
+      );
+      actions.push(
+        this.createAction(
+          `Create stitch '${name}' in knot '${parent.entity.identifier}'`,
+          diagnostic,
+          edit
+        )
+      );
+    }
+    return actions;
+  }
+
+  /**
+   * Gets the existing entities a divert target could have meant: the stitches and labels in scope along with every
+   * knot for an unqualified target, otherwise the stitches and labels of the entity the target is qualified by.
+   */
+  private getCandidates(
+    document: vscode.TextDocument,
+    line: number,
+    segments: string[]
+  ): OutlineEntity[] {
+    const isTarget = (e: OutlineEntity) =>
+      e.type === EntityType.stitch || e.type === EntityType.label;
+    if (segments.length > 1) {
+      const parent = this.resolver.resolve(
+        document.uri,
+        line,
+        segments.slice(0, -1)
+      );
+      return parent?.entity.children.filter(isTarget) ?? [];
+    }
+
+    const outline = this.outlineManager.getOutline(document.uri) ?? [];
+    const local = this.resolver
+      .getScopeChain(outline, line)
+      .flatMap((scope) => scope.children.filter(isTarget));
+    const knots = this.resolver
+      .getGlobalEntities(document.uri)
+      .map((resolved) => resolved.entity)
+      .filter((e) => e.type === EntityType.knot);
+    return [...local, ...knots];
+  }
+
+  /**
+   * Gets the range of the last segment of a divert target on a line.
+   */
+  private getLastSegmentRange(
+    document: vscode.TextDocument,
+    line: number,
+    segments: string[]
+  ): vscode.Range | undefined {
+    const text = document.lineAt(line).text;
+    const target = segments.join("\\.");
+    const match = new RegExp(`->\\s*${target}(?![a-zA-Z0-9_.])`).exec(text);
+    if (!match) {
+      return undefined;
+    }
+    const end = match.index + match[0].length;
+    const start = end - segments[segments.length - 1].length;
+    return new vscode.Range(line, start, line, end);
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  activate(context: vscode.ExtensionContext): void {
+    // Register CodeActionProvider for Ink files
+    const codeActionProvider = vscode.languages.registerCodeActionsProvider(
+      { language: "ink" },
+      {
+        provideCodeActions: (document, _range, codeActionContext) =>
+          this.provideCodeActions(document, codeActionContext.diagnostics),
+      },
+      { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+    );
+    context.subscriptions.push(codeActionProvider);
+  }
+
+  /**
+   * Provides quick fixes for the divert targets the compiler could not find: creating a stub knot or stitch,
+   * correcting the target to the closest existing name, or including a workspace file which defines it.
+   * @param document - The document the diagnostics belong to.
+   * @param diagnostics - The diagnostics to fix.
+   * @returns The quick fixes.
+   */
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    diagnostics: readonly vscode.Diagnostic[]
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+    for (const diagnostic of diagnostics) {
+      const match = divertNotFoundRegex.exec(diagnostic.message);
+      if (!match) {
+        continue;
+      }
+      const segments = match[1].split(".");
+      actions.push(
+        ...this.createCorrectionActions(document, diagnostic, segments),
+        ...this.createStubActions(document, diagnostic, segments),
+        ...this.createIncludeActions(document, diagnostic, segments)
+      );
+    }
+    return actions;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  dispose(): void {
+    // No explicit resources to dispose in this implementation
+  }
+}
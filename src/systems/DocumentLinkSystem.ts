@@ -0,0 +1,90 @@
+import * as vscode from "vscode";
+import { IExtensionPlugin } from "../IExtensionPlugin";
+import { DependencyManager } from "../model/DependencyManager";
+import { DirectivePath } from "../util/ink/DirectivePath";
+import { parseIncludeDirectives } from "../util/ink/parseIncludeDirectives";
+import { parseLinkDirectives } from "../util/ink/parseLinkDirectives";
+import { createPathResolutionStrategy } from "../util/paths/createPathResolutionStrategy";
+
+export class DocumentLinkSystem implements IExtensionPlugin {
+  // Private Properties ===============================================================================================
+
+  private depManager: DependencyManager;
+
+  // Constructor ======================================================================================================
+
+  constructor(depManager?: DependencyManager) {
+    this.depManager = depManager ?? DependencyManager.getInstance();
+  }
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Gets the URI which the paths of a document are resolved against: the root story including it, or the document
+   * itself.
+   */
+  private getContextUri(uri: vscode.Uri): vscode.Uri {
+    const roots = this.depManager.getAllDependents([uri], true);
+    return roots.size > 0 ? roots.values().next().value! : uri;
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  activate(context: vscode.ExtensionContext): void {
+    // Register DocumentLinkProvider for Ink files
+    const documentLinkProvider = vscode.languages.registerDocumentLinkProvider(
+      { language: "ink" },
+      {
+        provideDocumentLinks: (document) => this.getDocumentLinks(document),
+      }
+    );
+
+    context.subscriptions.push(documentLinkProvider);
+  }
+
+  /**
+   * Gets links for the paths of the INCLUDE and LINK directives of a document, resolved in the same way as when
+   * the story is compiled. Paths which cannot be resolved are left without a link.
+   * @param document - The document to get the links of.
+   * @returns The document links.
+   */
+  public getDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+    const contextUri = this.getContextUri(document.uri);
+    const strategy = createPathResolutionStrategy(contextUri);
+    const text = document.getText();
+    const directives: DirectivePath[] = [
+      ...parseIncludeDirectives(text),
+      ...parseLinkDirectives(text),
+    ];
+
+    const links: vscode.DocumentLink[] = [];
+    for (const directive of directives) {
+      const target = strategy.resolvePath(
+        contextUri,
+        directive.path,
+        document.uri
+      );
+      if (!target) {
+        continue;
+      }
+      const range = new vscode.Range(
+        directive.line,
+        directive.character,
+        directive.line,
+        directive.character + directive.path.length
+      );
+      links.push(new vscode.DocumentLink(range, target));
+    }
+    return links;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  dispose(): void {
+    // No explicit resources to dispose in this implementation
+  }
+}
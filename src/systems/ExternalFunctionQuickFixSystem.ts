@@ -0,0 +1,181 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { IExtensionPlugin } from "../IExtensionPlugin";
+import { EntityType } from "../model/OutlineEntity";
+import { OutlineManager } from "../model/OutlineManager";
+import { VSCodeServiceLocator } from "../services/VSCodeServiceLocator";
+
+/**
+ * Matches the quoted signature of a function in a diagnostic message, e.g. `'addNumbers(a, b)'`.
+ */
+const signatureRegex = /'([a-zA-Z_$][\w$]*)\(([^)]*)\)'/;
+
+export class ExternalFunctionQuickFixSystem implements IExtensionPlugin {
+  // Private Properties ===============================================================================================
+
+  private outlineManager: OutlineManager;
+
+  // Constructor ======================================================================================================
+
+  constructor(outlineManager?: OutlineManager) {
+    this.outlineManager = outlineManager ?? OutlineManager.getInstance();
+  }
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Creates a quick fix declaring a mock function as an EXTERNAL function of the story.
+   */
+  private createDeclarationAction(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic
+  ): vscode.CodeAction | undefined {
+    const match = signatureRegex.exec(diagnostic.message);
+    if (!match) {
+      return undefined;
+    }
+    const [, name, params] = match;
+    const line = this.getDeclarationLine(document, diagnostic);
+    const edit = new vscode.WorkspaceEdit();
+    if (line < document.lineCount) {
+      edit.insert(
+        document.uri,
+        new vscode.Position(line, 0),
+        `EXTERNAL ${name}(${params})\n`
+      );
+    } else {
+      edit.insert(
+        document.uri,
+        document.lineAt(document.lineCount - 1).range.end,
+        `\nEXTERNAL ${name}(${params})`
+      );
+    }
+
+    const action = new vscode.CodeAction(
+      `Add EXTERNAL declaration for '${name}'`,
+      vscode.CodeActionKind.QuickFix
+    );
+    action.diagnostics = [diagnostic];
+    action.edit = edit;
+    action.isPreferred = true;
+    return action;
+  }
+
+  /**
+   * Creates a quick fix adding a stub mock function for an EXTERNAL function to the first linked file.
+   */
+  private async createStubAction(
+    diagnostic: vscode.Diagnostic
+  ): Promise<vscode.CodeAction | undefined> {
+    const match = signatureRegex.exec(diagnostic.message);
+    const uri = diagnostic.relatedInformation?.[0]?.location.uri;
+    if (!match || !uri) {
+      return undefined;
+    }
+    const [, name, params] = match;
+    const jsDocument =
+      await VSCodeServiceLocator.getDocumentService().getTextDocument(uri);
+    const text = jsDocument.getText();
+
+    // Functions added to `exports` are ignored once `module.exports` is assigned
+    const target = text.includes("module.exports") ? "module.exports" : "exports";
+    const separator =
+      text.trim().length === 0 ? "" : text.endsWith("\n") ? "\n" : "\n\n";
+    const stub = [
+      `${separator}${target}.${name} = function (${params}) {`,
+      `  // Mock implementation of EXTERNAL ${name}`,
+      "  return null;",
+      "};",
+      "",
+    ].join("\n");
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.insert(
+      uri,
+      jsDocument.lineAt(jsDocument.lineCount - 1).range.end,
+      stub
+    );
+    const action = new vscode.CodeAction(
+      `Generate mock function for '${name}' in '${path.basename(uri.fsPath)}'`,
+      vscode.CodeActionKind.QuickFix
+    );
+    action.diagnostics = [diagnostic];
+    action.edit = edit;
+    action.isPreferred = true;
+    return action;
+  }
+
+  /**
+   * Gets the line to insert a new EXTERNAL declaration at: after the last declaration of the document, otherwise
+   * after a single-line LINK directive, otherwise at the start of the document.
+   */
+  private getDeclarationLine(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic
+  ): number {
+    const externals = (this.outlineManager.getOutline(document.uri) ?? []).filter(
+      (entity) => entity.type === EntityType.external
+    );
+    if (externals.length > 0) {
+      return externals[externals.length - 1].definitionRange.start.line + 1;
+    }
+    const directiveLine = diagnostic.range.start.line;
+    if (document.lineAt(directiveLine).text.trimStart().startsWith("//")) {
+      return directiveLine + 1;
+    }
+    return 0;
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  activate(context: vscode.ExtensionContext): void {
+    // Register CodeActionProvider for Ink files
+    const codeActionProvider = vscode.languages.registerCodeActionsProvider(
+      { language: "ink" },
+      {
+        provideCodeActions: (document, _range, codeActionContext) =>
+          this.provideCodeActions(document, codeActionContext.diagnostics),
+      },
+      { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+    );
+    context.subscriptions.push(codeActionProvider);
+  }
+
+  /**
+   * Provides quick fixes for the EXTERNAL declaration diagnostics of a document.
+   * @param document - The document the diagnostics belong to.
+   * @param diagnostics - The diagnostics to fix.
+   * @returns The quick fixes.
+   */
+  public async provideCodeActions(
+    document: vscode.TextDocument,
+    diagnostics: readonly vscode.Diagnostic[]
+  ): Promise<vscode.CodeAction[]> {
+    const actions: vscode.CodeAction[] = [];
+    for (const diagnostic of diagnostics) {
+      let action: vscode.CodeAction | undefined;
+      switch (diagnostic.code) {
+        case "external-undeclared-mock":
+          action = this.createDeclarationAction(document, diagnostic);
+          break;
+        case "external-missing-mock":
+          action = await this.createStubAction(diagnostic);
+          break;
+      }
+      if (action) {
+        actions.push(action);
+      }
+    }
+    return actions;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  dispose(): void {
+    // No explicit resources to dispose in this implementation
+  }
+}
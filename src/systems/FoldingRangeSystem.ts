@@ -0,0 +1,243 @@
+import * as vscode from "vscode";
+import { IExtensionPlugin } from "../IExtensionPlugin";
+import { OutlineParser } from "../build/OutlineParser";
+import {
+  parseWeaveLines,
+  WeaveLine,
+  WeaveLineKind,
+} from "../build/lint/parseWeaveLines";
+import { OutlineEntity } from "../model/OutlineEntity";
+
+/**
+ * A multiline `{ }` block which has been opened but not yet closed.
+ */
+interface OpenBlock {
+  line: number;
+  branchLine?: number;
+}
+
+const headerKinds = new Set([
+  WeaveLineKind.function,
+  WeaveLineKind.knot,
+  WeaveLineKind.stitch,
+]);
+
+export class FoldingRangeSystem implements IExtensionPlugin {
+  // Private Properties ===============================================================================================
+
+  private outlineParser: OutlineParser;
+
+  // Constructor ======================================================================================================
+
+  constructor() {
+    this.outlineParser = OutlineParser.getInstance();
+  }
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Adds a folding range, unless it spans a single line. Trailing blank lines are left unfolded, so that the gap
+   * before the next section remains visible.
+   * @param lines - The classified lines of the document.
+   * @param start - The line the range starts at.
+   * @param end - The last line of the range.
+   * @param ranges - The ranges to add to.
+   * @param kind - The kind of the range.
+   */
+  private addRange(
+    lines: WeaveLine[],
+    start: number,
+    end: number,
+    ranges: vscode.FoldingRange[],
+    kind?: vscode.FoldingRangeKind
+  ): void {
+    while (end > start && lines[end].code.trim() === "") {
+      end--;
+    }
+    if (end > start) {
+      ranges.push(new vscode.FoldingRange(start, end, kind));
+    }
+  }
+
+  /**
+   * Adds a folding range for each `/* *\/` comment spanning several lines. Comment markers within quoted strings,
+   * such as `~ temp p = "a/*b"`, are ignored.
+   * @param lines - The classified lines of the document.
+   * @param ranges - The ranges to add to.
+   */
+  private addCommentRanges(
+    lines: WeaveLine[],
+    ranges: vscode.FoldingRange[]
+  ): void {
+    let commentStart: number | undefined;
+    for (const { line, text } of lines) {
+      let inString = false;
+      let i = 0;
+      while (i < text.length) {
+        if (commentStart !== undefined) {
+          const close = text.indexOf("*/", i);
+          if (close === -1) {
+            break;
+          }
+          if (line > commentStart) {
+            ranges.push(
+              new vscode.FoldingRange(
+                commentStart,
+                line,
+                vscode.FoldingRangeKind.Comment
+              )
+            );
+          }
+          commentStart = undefined;
+          i = close + 2;
+        } else if (text[i] === '"') {
+          inString = !inString;
+          i++;
+        } else if (inString) {
+          i++;
+        } else if (text.startsWith("//", i)) {
+          break;
+        } else if (text.startsWith("/*", i)) {
+          commentStart = line;
+          i += 2;
+        } else {
+          i++;
+        }
+      }
+    }
+  }
+
+  /**
+   * Adds a folding range for each multiline `{ }` block, and for each `- condition:` branch within it.
+   * The closing brace is left unfolded, so that the end of the block remains visible.
+   * @param lines - The classified lines of the document.
+   * @param ranges - The ranges to add to.
+   */
+  private addMultilineBlockRanges(
+    lines: WeaveLine[],
+    ranges: vscode.FoldingRange[]
+  ): void {
+    const stack: OpenBlock[] = [];
+    for (const { line, code } of lines) {
+      const block = stack[stack.length - 1];
+      if (block && /^\s*-(?!>)/.test(code)) {
+        if (block.branchLine !== undefined) {
+          this.addRange(lines, block.branchLine, line - 1, ranges);
+        }
+        block.branchLine = line;
+      }
+
+      for (const char of code) {
+        if (char === "{") {
+          stack.push({ line });
+        } else if (char === "}") {
+          const closed = stack.pop();
+          if (!closed || closed.line === line) {
+            continue;
+          }
+          if (closed.branchLine !== undefined) {
+            this.addRange(lines, closed.branchLine, line - 1, ranges);
+          }
+          this.addRange(lines, closed.line, line - 1, ranges);
+        }
+      }
+    }
+  }
+
+  /**
+   * Adds a folding range for each knot, stitch and function, spanning its scope.
+   * @param lines - The classified lines of the document.
+   * @param entities - The outline entities to add ranges for.
+   * @param ranges - The ranges to add to.
+   */
+  private addOutlineRanges(
+    lines: WeaveLine[],
+    entities: OutlineEntity[],
+    ranges: vscode.FoldingRange[]
+  ): void {
+    for (const entity of entities) {
+      if (!entity.isBlock) {
+        continue;
+      }
+      this.addRange(
+        lines,
+        entity.definitionRange.start.line,
+        Math.min(entity.scopeRange.end.line, lines.length - 1),
+        ranges
+      );
+      this.addOutlineRanges(lines, entity.children, ranges);
+    }
+  }
+
+  /**
+   * Adds a folding range for each choice and gather, spanning everything up to the next choice or gather at the
+   * same or a shallower level of the weave.
+   * @param lines - The classified lines of the document.
+   * @param ranges - The ranges to add to.
+   */
+  private addWeaveRanges(
+    lines: WeaveLine[],
+    ranges: vscode.FoldingRange[]
+  ): void {
+    lines.forEach((start, index) => {
+      if (start.depth === 0) {
+        return;
+      }
+      let end = index + 1;
+      while (
+        end < lines.length &&
+        !headerKinds.has(lines[end].kind) &&
+        (lines[end].depth === 0 || lines[end].depth > start.depth)
+      ) {
+        end++;
+      }
+      this.addRange(lines, start.line, end - 1, ranges);
+    });
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  activate(context: vscode.ExtensionContext): void {
+    // Register FoldingRangeProvider for Ink files
+    const foldingRangeProvider = vscode.languages.registerFoldingRangeProvider(
+      { language: "ink" },
+      {
+        provideFoldingRanges: async (document) => {
+          return this.getFoldingRanges(document);
+        },
+      }
+    );
+
+    context.subscriptions.push(foldingRangeProvider);
+  }
+
+  /**
+   * Gets the folding ranges of an Ink document: knots, stitches and functions, the choices and gathers of each
+   * weave, multiline `{ }` blocks and their branches, and `/* *\/` comments.
+   * @param document - The Ink document.
+   * @returns The folding ranges.
+   */
+  public async getFoldingRanges(
+    document: vscode.TextDocument
+  ): Promise<vscode.FoldingRange[]> {
+    const lines = parseWeaveLines(document.getText());
+    const outline = await this.outlineParser.parseAndCache(document);
+
+    const ranges: vscode.FoldingRange[] = [];
+    this.addOutlineRanges(lines, outline, ranges);
+    this.addWeaveRanges(lines, ranges);
+    this.addMultilineBlockRanges(lines, ranges);
+    this.addCommentRanges(lines, ranges);
+    return ranges;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  dispose(): void {
+    // No explicit resources to dispose in this implementation
+  }
+}
@@ -0,0 +1,112 @@
+import * as vscode from "vscode";
+import { IExtensionPlugin } from "../IExtensionPlugin";
+import { InkFormatter } from "../format/InkFormatter";
+import { VSCodeServiceLocator } from "../services/VSCodeServiceLocator";
+
+export class FormattingSystem implements IExtensionPlugin {
+  // Private Methods ==================================================================================================
+
+  /**
+   * Creates a formatter using the preferred style of a document.
+   * @param document - The document to format.
+   * @param options - The formatting options of the editor, which determine the indentation.
+   * @returns The formatter.
+   */
+  private createFormatter(
+    document: vscode.TextDocument,
+    options: vscode.FormattingOptions
+  ): InkFormatter {
+    const config = VSCodeServiceLocator.getConfigurationService();
+    return new InkFormatter({
+      knotHeaderMarker: config.get<string>(
+        "ink.format.knotHeaderMarker",
+        "===",
+        document
+      ),
+      closeKnotHeaders: config.get<boolean>(
+        "ink.format.closeKnotHeaders",
+        true,
+        document
+      ),
+      spaceBullets:
+        config.get<string>("ink.format.bulletStyle", "spaced", document) ===
+        "spaced",
+      indentWeave: config.get<boolean>(
+        "ink.format.indentWeave",
+        true,
+        document
+      ),
+      indent: options.insertSpaces ? " ".repeat(options.tabSize) : "\t",
+    });
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  activate(context: vscode.ExtensionContext): void {
+    // Register DocumentFormattingEditProvider for Ink files
+    const formattingProvider =
+      vscode.languages.registerDocumentFormattingEditProvider(
+        { language: "ink" },
+        {
+          provideDocumentFormattingEdits: (document, options) => {
+            return this.getFormattingEdits(document, options);
+          },
+        }
+      );
+
+    // Register DocumentRangeFormattingEditProvider for Ink files
+    const rangeFormattingProvider =
+      vscode.languages.registerDocumentRangeFormattingEditProvider(
+        { language: "ink" },
+        {
+          provideDocumentRangeFormattingEdits: (document, range, options) => {
+            return this.getFormattingEdits(document, options, range);
+          },
+        }
+      );
+
+    context.subscriptions.push(formattingProvider, rangeFormattingProvider);
+  }
+
+  /**
+   * Gets the edits formatting an Ink document, or the lines of a range within it. The whole document is always
+   * formatted, so that lines within the range are indented by their level in the weave.
+   * @param document - The Ink document.
+   * @param options - The formatting options of the editor.
+   * @param range - The range to format, or undefined to format the whole document.
+   * @returns An edit replacing each line which has changed.
+   */
+  public getFormattingEdits(
+    document: vscode.TextDocument,
+    options: vscode.FormattingOptions,
+    range?: vscode.Range
+  ): vscode.TextEdit[] {
+    const formatted = this.createFormatter(document, options).format(
+      document.getText()
+    );
+    const first = range?.start.line ?? 0;
+    const last = Math.min(
+      range?.end.line ?? document.lineCount - 1,
+      document.lineCount - 1
+    );
+
+    const edits: vscode.TextEdit[] = [];
+    for (let line = first; line <= last; line++) {
+      const textLine = document.lineAt(line);
+      if (formatted[line] !== textLine.text) {
+        edits.push(vscode.TextEdit.replace(textLine.range, formatted[line]));
+      }
+    }
+    return edits;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  dispose(): void {
+    // No explicit resources to dispose in this implementation
+  }
+}
@@ -0,0 +1,185 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { IExtensionPlugin } from "../IExtensionPlugin";
+import { BuildEngine } from "../build/BuildEngine";
+import { ExternalFunctionVM } from "../build/ExternalFunctionVM";
+import { ISuccessfulBuildResult } from "../build/IBuildResult";
+import { OutlineParser } from "../build/OutlineParser";
+import { getEntityTypeDescription } from "../build/outline/getEntityTypeDescription";
+import { EntityType } from "../model/OutlineEntity";
+import { ResolvedEntity, SymbolResolver } from "../model/SymbolResolver";
+import { VSCodeServiceLocator } from "../services/VSCodeServiceLocator";
+import { getIdentifierPathAtPosition } from "../util/ink/getIdentifierPathAtPosition";
+
+const initialValueRegex =
+  /^\s*(?:VAR|CONST)\s+[a-zA-Z_][a-zA-Z0-9_]*\s*=\s*(.*?)\s*(?:\/\/.*)?$/;
+
+export class HoverSystem implements IExtensionPlugin {
+  // Private Properties ===============================================================================================
+
+  private externalFunctionVMs: Map<string, ExternalFunctionVM> = new Map();
+  private outlineParser: OutlineParser;
+  private resolver: SymbolResolver;
+
+  // Constructor ======================================================================================================
+
+  constructor(resolver?: SymbolResolver) {
+    this.outlineParser = OutlineParser.getInstance();
+    this.resolver = resolver ?? new SymbolResolver();
+  }
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Describes the mock function linked for an EXTERNAL function, if any.
+   * @param target - The EXTERNAL function.
+   * @returns A description of the mock function and the file it came from.
+   */
+  private describeMock(target: ResolvedEntity): string {
+    const name = target.entity.identifier;
+    for (const uri of this.resolver.getStoryUris(target.uri)) {
+      const vm = this.externalFunctionVMs.get(uri.toString());
+      if (vm?.hasFunction(name)) {
+        return `Mocked by \`${vm.getFunctionSource(name)}\``;
+      }
+    }
+    return "No mock function is linked for this external function.";
+  }
+
+  /**
+   * Gets the initial value of a VAR or CONST from the line defining it.
+   * @param target - The variable or constant.
+   * @returns The initial value expression, or undefined if it cannot be found.
+   */
+  private async getInitialValue(
+    target: ResolvedEntity
+  ): Promise<string | undefined> {
+    const document =
+      await VSCodeServiceLocator.getDocumentService().getTextDocument(
+        target.uri
+      );
+    const line = target.entity.definitionRange.start.line;
+    if (line >= document.lineCount) {
+      return undefined;
+    }
+    return initialValueRegex.exec(document.lineAt(line).text)?.[1];
+  }
+
+  /**
+   * Gets the path of a document relative to its workspace folder.
+   * @param uri - The URI of the document.
+   * @returns The relative path, or the file name if the document is outside the workspace.
+   */
+  private getDisplayPath(uri: vscode.Uri): string {
+    const folder =
+      VSCodeServiceLocator.getDocumentService().getWorkspaceFolder(uri);
+    return folder
+      ? path.relative(folder.uri.fsPath, uri.fsPath)
+      : path.basename(uri.fsPath);
+  }
+
+  /**
+   * Records the external function VM of a compiled story, for describing its mock functions.
+   * @param result - The result of the compilation.
+   */
+  private handleStoryCompiled(result: ISuccessfulBuildResult): void {
+    if (result.externalFunctionVM) {
+      this.externalFunctionVMs.set(
+        result.uri.toString(),
+        result.externalFunctionVM
+      );
+    } else {
+      this.externalFunctionVMs.delete(result.uri.toString());
+    }
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  activate(context: vscode.ExtensionContext): void {
+    BuildEngine.getInstance().onDidStoryCompile("hover-system", (result) => {
+      this.handleStoryCompiled(result);
+    });
+
+    // Register HoverProvider for Ink files
+    const hoverProvider = vscode.languages.registerHoverProvider(
+      { language: "ink" },
+      {
+        provideHover: async (document, position) => {
+          return this.getHover(document, position);
+        },
+      }
+    );
+
+    context.subscriptions.push(hoverProvider);
+  }
+
+  /**
+   * Gets a hover card describing the entity at a position in an Ink document: its kind, where it is defined, and
+   * its parameters, initial value, members or mock function as appropriate.
+   * @param document - The Ink document.
+   * @param position - The position of the entity or one of its references.
+   * @returns The hover card, or undefined if there is no resolvable entity at the position.
+   */
+  public async getHover(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.Hover | undefined> {
+    const identifierPath = getIdentifierPathAtPosition(document, position);
+    if (!identifierPath) {
+      return undefined;
+    }
+
+    // Refresh the outline, as the document may have changed since it was last compiled
+    await this.outlineParser.parseAndCache(document);
+
+    const target = this.resolver.resolve(
+      document.uri,
+      position.line,
+      identifierPath.segments
+    );
+    if (!target) {
+      return undefined;
+    }
+
+    const entity = target.entity;
+    const contents = new vscode.MarkdownString();
+    contents.appendCodeblock(entity.name, "ink");
+    const line = entity.definitionRange.start.line + 1;
+    contents.appendMarkdown(
+      `**${getEntityTypeDescription(entity.type)}** defined in ` +
+        `\`${this.getDisplayPath(target.uri)}\`, line ${line}`
+    );
+
+    switch (entity.type) {
+      case EntityType.const:
+      case EntityType.variable: {
+        const value = await this.getInitialValue(target);
+        if (value !== undefined) {
+          contents.appendMarkdown(`\n\nInitial value: \`${value}\``);
+        }
+        break;
+      }
+      case EntityType.list:
+        contents.appendMarkdown(
+          `\n\nMembers: ${entity.children.map((item) => `\`${item.name}\``).join(", ")}`
+        );
+        break;
+      case EntityType.external:
+        contents.appendMarkdown(`\n\n${this.describeMock(target)}`);
+        break;
+    }
+
+    return new vscode.Hover(contents, identifierPath.range);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  dispose(): void {
+    BuildEngine.getInstance().offDidStoryCompile("hover-system");
+    this.externalFunctionVMs.clear();
+  }
+}
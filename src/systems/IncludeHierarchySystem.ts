@@ -0,0 +1,181 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { IExtensionPlugin } from "../IExtensionPlugin";
+import { DependencyManager } from "../model/DependencyManager";
+
+/**
+ * An element of the include hierarchy: either the heading of a section, or a file listed within it.
+ */
+export interface IncludeTreeElement {
+  /**
+   * Whether the element lists the files included by its file, or the files including it.
+   */
+  direction: "includes" | "includedBy";
+
+  /**
+   * The URI of the file, or undefined for the heading of a section.
+   */
+  uri?: vscode.Uri;
+
+  /**
+   * The URIs of the files above the element, used to stop at circular includes.
+   */
+  ancestors: string[];
+}
+
+export class IncludeHierarchySystem implements IExtensionPlugin {
+  // Private Properties ===============================================================================================
+
+  private depManager: DependencyManager;
+  private onDidChangeTreeData = new vscode.EventEmitter<
+    IncludeTreeElement | undefined
+  >();
+
+  // Constructor ======================================================================================================
+
+  constructor(depManager?: DependencyManager) {
+    this.depManager = depManager ?? DependencyManager.getInstance();
+  }
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Creates the elements for a set of files, sorted by path.
+   * @param uris - The URIs of the files.
+   * @param direction - Whether the files list their includes, or the files including them.
+   * @param ancestors - The URIs of the files above them.
+   * @returns The elements.
+   */
+  private createFileElements(
+    uris: Iterable<vscode.Uri>,
+    direction: IncludeTreeElement["direction"],
+    ancestors: string[]
+  ): IncludeTreeElement[] {
+    return Array.from(uris)
+      .filter((uri) => uri.path.endsWith(".ink"))
+      .sort((a, b) => a.fsPath.localeCompare(b.fsPath))
+      .map((uri) => ({ direction, uri, ancestors }));
+  }
+
+  /**
+   * Gets the files listed below a file: those it includes, or those including it.
+   * @param element - The element of the file.
+   * @returns The URIs of the files.
+   */
+  private getNextUris(element: IncludeTreeElement): ReadonlySet<vscode.Uri> {
+    return element.direction === "includes"
+      ? this.depManager.getDependencies(element.uri!)
+      : this.depManager.getReverseDependencies(element.uri!);
+  }
+
+  /**
+   * Determines whether a file is already listed above itself, in which case it is not expanded again.
+   * @param element - The element of the file.
+   * @returns True if the file is part of a circular include.
+   */
+  private isCircular(element: IncludeTreeElement): boolean {
+    return element.ancestors.includes(element.uri!.toString());
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  activate(context: vscode.ExtensionContext): void {
+    // Register TreeDataProvider for the include hierarchy view
+    const treeDataProvider = vscode.window.registerTreeDataProvider(
+      "ink.includeHierarchy",
+      {
+        onDidChangeTreeData: this.onDidChangeTreeData.event,
+        getChildren: (element?: IncludeTreeElement) => {
+          return this.getChildren(element);
+        },
+        getTreeItem: (element: IncludeTreeElement) => {
+          return this.getTreeItem(element);
+        },
+      }
+    );
+
+    // Refresh the view whenever the includes of a story are updated
+    this.depManager.onDidChange("include-hierarchy-system", () => {
+      this.onDidChangeTreeData.fire(undefined);
+    });
+
+    context.subscriptions.push(treeDataProvider);
+  }
+
+  /**
+   * Gets the children of an element of the include hierarchy. The hierarchy has two sections: the root stories,
+   * each expanding to the files it includes, and every included file, each expanding to the files including it.
+   * @param element - The element, or undefined for the top of the hierarchy.
+   * @returns The children.
+   */
+  public getChildren(element?: IncludeTreeElement): IncludeTreeElement[] {
+    if (!element) {
+      return [
+        { direction: "includes", ancestors: [] },
+        { direction: "includedBy", ancestors: [] },
+      ];
+    }
+
+    if (!element.uri) {
+      const roots = this.depManager.getAllRoots();
+      return this.createFileElements(
+        element.direction === "includes"
+          ? roots
+          : this.depManager.getAllDependencies(Array.from(roots)),
+        element.direction,
+        []
+      );
+    }
+
+    if (this.isCircular(element)) {
+      return [];
+    }
+    return this.createFileElements(
+      this.getNextUris(element),
+      element.direction,
+      [...element.ancestors, element.uri.toString()]
+    );
+  }
+
+  /**
+   * Gets the item presenting an element of the include hierarchy. Files open when clicked.
+   * @param element - The element.
+   * @returns The item.
+   */
+  public getTreeItem(element: IncludeTreeElement): vscode.TreeItem {
+    if (!element.uri) {
+      return new vscode.TreeItem(
+        element.direction === "includes" ? "Root Stories" : "Included Files",
+        vscode.TreeItemCollapsibleState.Expanded
+      );
+    }
+
+    const isCircular = this.isCircular(element);
+    const item = new vscode.TreeItem(
+      path.basename(element.uri.fsPath),
+      !isCircular && this.getNextUris(element).size > 0
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None
+    );
+    item.resourceUri = element.uri;
+    item.tooltip = element.uri.fsPath;
+    item.description = isCircular ? "circular include" : true;
+    item.command = {
+      command: "vscode.open",
+      title: "Open File",
+      arguments: [element.uri],
+    };
+    return item;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  dispose(): void {
+    this.depManager.offDidChange("include-hierarchy-system");
+    this.onDidChangeTreeData.dispose();
+  }
+}
@@ -0,0 +1,144 @@
+import * as vscode from "vscode";
+import { IExtensionPlugin } from "../IExtensionPlugin";
+import { OutlineParser } from "../build/OutlineParser";
+import { ReferenceParser } from "../build/ReferenceParser";
+import { stripComments } from "../build/outline/stripComments";
+import { ReferenceType } from "../model/InkReference";
+import { EntityType } from "../model/OutlineEntity";
+import { SymbolResolver } from "../model/SymbolResolver";
+import { VSCodeServiceLocator } from "../services/VSCodeServiceLocator";
+import { getEntityParameters } from "../util/ink/getEntityParameters";
+import { parseCallArguments } from "../util/ink/parseCallArguments";
+
+/**
+ * Which arguments are given a hint with the name of their parameter.
+ */
+type ParameterNameHints = "none" | "literals" | "all";
+
+const callableTypes = new Set([
+  EntityType.external,
+  EntityType.function,
+  EntityType.knot,
+  EntityType.stitch,
+]);
+
+const literalRegex = /^(true|false|-?\d+(\.\d+)?|"[^"]*")$/;
+
+export class InlayHintSystem implements IExtensionPlugin {
+  // Private Properties ===============================================================================================
+
+  private outlineParser: OutlineParser;
+  private referenceParser: ReferenceParser;
+  private resolver: SymbolResolver;
+
+  // Constructor ======================================================================================================
+
+  constructor(resolver?: SymbolResolver) {
+    this.outlineParser = OutlineParser.getInstance();
+    this.referenceParser = ReferenceParser.getInstance();
+    this.resolver = resolver ?? new SymbolResolver();
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  activate(context: vscode.ExtensionContext): void {
+    // Register InlayHintsProvider for Ink files
+    const inlayHintsProvider = vscode.languages.registerInlayHintsProvider(
+      { language: "ink" },
+      {
+        provideInlayHints: async (document, range) => {
+          return this.getInlayHints(document, range);
+        },
+      }
+    );
+
+    context.subscriptions.push(inlayHintsProvider);
+  }
+
+  /**
+   * Gets a hint with the parameter name for each argument passed to a function, knot or stitch within a range of
+   * an Ink document, according to the `ink.inlayHints.parameterNames` setting. Arguments which are already named
+   * after their parameter are not given a hint.
+   * @param document - The Ink document.
+   * @param range - The range to get hints for.
+   * @returns The inlay hints.
+   */
+  public async getInlayHints(
+    document: vscode.TextDocument,
+    range: vscode.Range
+  ): Promise<vscode.InlayHint[]> {
+    const mode =
+      VSCodeServiceLocator.getConfigurationService().get<ParameterNameHints>(
+        "ink.inlayHints.parameterNames",
+        "none",
+        document
+      );
+    if (mode === "none") {
+      return [];
+    }
+
+    // Refresh the outline, as the document may have changed since it was last compiled
+    await this.outlineParser.parseAndCache(document);
+    const lines = stripComments(document.getText()).split(/\r?\n/);
+
+    const hints: vscode.InlayHint[] = [];
+    for (const reference of this.referenceParser.parse(document)) {
+      const last = reference.ranges[reference.ranges.length - 1];
+      const line = last.start.line;
+      if (
+        reference.type === ReferenceType.read ||
+        reference.type === ReferenceType.assignment ||
+        line < range.start.line ||
+        line > range.end.line
+      ) {
+        continue;
+      }
+
+      const text = lines[line];
+      const after = last.end.character;
+      const open = after + text.substring(after).search(/\S|$/);
+      if (text[open] !== "(") {
+        continue;
+      }
+      const target = this.resolver.resolve(
+        document.uri,
+        line,
+        reference.segments
+      );
+      if (!target || !callableTypes.has(target.entity.type)) {
+        continue;
+      }
+
+      const params = getEntityParameters(target.entity);
+      parseCallArguments(text, open).forEach((arg, index) => {
+        const name = /[a-zA-Z_][a-zA-Z0-9_]*$/.exec(params[index] ?? "")?.[0];
+        if (
+          !name ||
+          arg.text === "" ||
+          arg.text === name ||
+          (mode === "literals" && !literalRegex.test(arg.text))
+        ) {
+          return;
+        }
+        const hint = new vscode.InlayHint(
+          new vscode.Position(line, arg.start),
+          `${name}:`,
+          vscode.InlayHintKind.Parameter
+        );
+        hint.paddingRight = true;
+        hints.push(hint);
+      });
+    }
+    return hints;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  dispose(): void {
+    // No explicit resources to dispose in this implementation
+  }
+}
@@ -0,0 +1,210 @@
+import * as vscode from "vscode";
+import { IExtensionPlugin } from "../IExtensionPlugin";
+import { OutlineParser } from "../build/OutlineParser";
+import { ReferenceParser } from "../build/ReferenceParser";
+import { EntityType, OutlineEntity } from "../model/OutlineEntity";
+import { ReferenceManager } from "../model/ReferenceManager";
+import {
+  ResolvedEntity,
+  ResolvedReference,
+  SymbolResolver,
+} from "../model/SymbolResolver";
+import { getIdentifierPathAtPosition } from "../util/ink/getIdentifierPathAtPosition";
+
+export class ReferenceSystem implements IExtensionPlugin {
+  // Private Properties ===============================================================================================
+
+  private codeLensTargets: WeakMap<vscode.CodeLens, ResolvedEntity> =
+    new WeakMap();
+  private outlineParser: OutlineParser;
+  private referenceIndexes: Map<string, Map<string, ResolvedReference[]>> =
+    new Map();
+  private referenceIndexVersion: number = -1;
+  private referenceManager: ReferenceManager;
+  private referenceParser: ReferenceParser;
+  private resolver: SymbolResolver;
+
+  // Constructor ======================================================================================================
+
+  constructor(resolver?: SymbolResolver) {
+    this.outlineParser = OutlineParser.getInstance();
+    this.referenceManager = ReferenceManager.getInstance();
+    this.referenceParser = ReferenceParser.getInstance();
+    this.resolver = resolver ?? new SymbolResolver();
+  }
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Gets the index of the references made across the stories a document belongs to, which is built once for each
+   * story and rebuilt whenever the references of any document change.
+   * @param uri - The URI of the document.
+   * @returns The references, keyed by the entity key of the entity they refer to.
+   */
+  private getReferenceIndex(uri: vscode.Uri): Map<string, ResolvedReference[]> {
+    const version = this.referenceManager.getVersion();
+    if (version !== this.referenceIndexVersion) {
+      this.referenceIndexes.clear();
+      this.referenceIndexVersion = version;
+    }
+
+    const storyKey = this.resolver
+      .getStoryUris(uri)
+      .map((storyUri) => storyUri.toString())
+      .sort()
+      .join("\n");
+    let index = this.referenceIndexes.get(storyKey);
+    if (!index) {
+      index = this.resolver.indexReferences(uri);
+      this.referenceIndexes.set(storyKey, index);
+    }
+    return index;
+  }
+
+  /**
+   * Refreshes the outline and references of a document, as it may have changed since it was last compiled.
+   * The references are only stored again when the document has changed, so the reverse indexes stay valid.
+   * @param document - The document to refresh.
+   * @returns The root entities of the document.
+   */
+  private async refresh(
+    document: vscode.TextDocument
+  ): Promise<OutlineEntity[]> {
+    if (!this.referenceManager.isCurrent(document)) {
+      this.referenceParser.parseAndCache(document);
+    }
+    return this.outlineParser.parseAndCache(document);
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  activate(context: vscode.ExtensionContext): void {
+    // Register ReferenceProvider for Ink files
+    const referenceProvider = vscode.languages.registerReferenceProvider(
+      { language: "ink" },
+      {
+        provideReferences: async (document, position, referenceContext) => {
+          return this.getReferences(
+            document,
+            position,
+            referenceContext.includeDeclaration
+          );
+        },
+      }
+    );
+
+    // Register CodeLensProvider for reference counts above knots and stitches
+    const codeLensProvider = vscode.languages.registerCodeLensProvider(
+      { language: "ink" },
+      {
+        provideCodeLenses: async (document) => {
+          return this.getCodeLenses(document);
+        },
+        resolveCodeLens: (codeLens) => {
+          return this.resolveCodeLens(codeLens);
+        },
+      }
+    );
+
+    context.subscriptions.push(referenceProvider, codeLensProvider);
+  }
+
+  /**
+   * Gets the (unresolved) reference count CodeLenses for the knots and stitches of an Ink document.
+   * @param document - The Ink document.
+   * @returns A CodeLens above the header of each knot and stitch.
+   */
+  public async getCodeLenses(
+    document: vscode.TextDocument
+  ): Promise<vscode.CodeLens[]> {
+    const outline = await this.refresh(document);
+    const codeLenses: vscode.CodeLens[] = [];
+    for (const knot of outline.filter((e) => e.type === EntityType.knot)) {
+      const stitches = knot.children.filter(
+        (e) => e.type === EntityType.stitch
+      );
+      for (const entity of [knot, ...stitches]) {
+        const codeLens = new vscode.CodeLens(entity.definitionRange);
+        this.codeLensTargets.set(codeLens, { entity, uri: document.uri });
+        codeLenses.push(codeLens);
+      }
+    }
+    return codeLenses;
+  }
+
+  /**
+   * Gets every reference to the entity at a position in an Ink document, across the story and its includes.
+   * @param document - The Ink document containing the position.
+   * @param position - The position of the entity or one of its references.
+   * @param includeDeclaration - Whether to include the definition of the entity.
+   * @returns The locations of the references.
+   */
+  public async getReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    includeDeclaration: boolean
+  ): Promise<vscode.Location[]> {
+    const identifierPath = getIdentifierPathAtPosition(document, position);
+    if (!identifierPath) {
+      return [];
+    }
+
+    await this.refresh(document);
+    const target = this.resolver.resolve(
+      document.uri,
+      position.line,
+      identifierPath.segments
+    );
+    if (!target) {
+      return [];
+    }
+
+    const locations = this.resolver
+      .findReferences(target)
+      .map((reference) => new vscode.Location(reference.uri, reference.range));
+    if (includeDeclaration) {
+      locations.unshift(
+        new vscode.Location(target.uri, target.entity.definitionRange)
+      );
+    }
+    return locations;
+  }
+
+  /**
+   * Resolves a reference count CodeLens, counting the references to its knot or stitch.
+   * @param codeLens - The CodeLens to resolve.
+   * @returns The CodeLens, with a command showing the references.
+   */
+  public resolveCodeLens(codeLens: vscode.CodeLens): vscode.CodeLens {
+    const target = this.codeLensTargets.get(codeLens);
+    if (!target) {
+      return codeLens;
+    }
+    const references =
+      this.getReferenceIndex(target.uri).get(
+        this.resolver.getEntityKey(target)
+      ) ?? [];
+    const locations = references.map(
+      (reference) => new vscode.Location(reference.uri, reference.range)
+    );
+    codeLens.command = {
+      title:
+        locations.length === 1
+          ? "1 reference"
+          : `${locations.length} references`,
+      command: "editor.action.showReferences",
+      arguments: [target.uri, target.entity.definitionRange.start, locations],
+    };
+    return codeLens;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  dispose(): void {
+    // No explicit resources to dispose in this implementation
+  }
+}
@@ -0,0 +1,173 @@
+import * as vscode from "vscode";
+import { IExtensionPlugin } from "../IExtensionPlugin";
+import { OutlineParser } from "../build/OutlineParser";
+import { ReferenceParser } from "../build/ReferenceParser";
+import { ResolvedEntity, SymbolResolver } from "../model/SymbolResolver";
+import { VSCodeServiceLocator } from "../services/VSCodeServiceLocator";
+import { getDefinitionNameRange } from "../util/ink/getDefinitionNameRange";
+import { getIdentifierPathAtPosition } from "../util/ink/getIdentifierPathAtPosition";
+import { reservedWords } from "../util/ink/reservedWords";
+
+const identifierRegex = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+export class RenameSystem implements IExtensionPlugin {
+  // Private Properties ===============================================================================================
+
+  private outlineParser: OutlineParser;
+  private referenceParser: ReferenceParser;
+  private resolver: SymbolResolver;
+
+  // Constructor ======================================================================================================
+
+  constructor(resolver?: SymbolResolver) {
+    this.outlineParser = OutlineParser.getInstance();
+    this.referenceParser = ReferenceParser.getInstance();
+    this.resolver = resolver ?? new SymbolResolver();
+  }
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Checks that no sibling of an entity already uses a name.
+   * @param target - The entity being renamed.
+   * @param newName - The new name of the entity.
+   * @throws Error if the name is already in use.
+   */
+  private assertNameAvailable(target: ResolvedEntity, newName: string): void {
+    const existing = target.entity.parent
+      ? target.entity.parent.children.find((e) => e.identifier === newName)
+      : this.resolver.resolveGlobal(target.uri, newName)?.entity;
+    if (existing) {
+      throw new Error(`'${newName}' is already defined in this scope.`);
+    }
+  }
+
+  /**
+   * Refreshes the outlines and references of every document in the stories a document belongs to, so that a rename
+   * reflects unsaved changes in all of them.
+   * @param document - The document the rename was requested from.
+   */
+  private async refreshStory(document: vscode.TextDocument): Promise<void> {
+    const docService = VSCodeServiceLocator.getDocumentService();
+    await this.outlineParser.parseAndCache(document);
+    for (const uri of this.resolver.getStoryUris(document.uri)) {
+      const storyDocument =
+        uri.toString() === document.uri.toString()
+          ? document
+          : await docService.getTextDocument(uri);
+      await this.outlineParser.parseAndCache(storyDocument);
+      this.referenceParser.parseAndCache(storyDocument);
+    }
+  }
+
+  /**
+   * Resolves the entity at a position in an Ink document.
+   * @param document - The Ink document.
+   * @param position - The position of the entity or one of its references.
+   * @returns The resolved entity, along with the range of the identifier at the position.
+   * @throws Error if there is no renameable entity at the position.
+   */
+  private async resolveTarget(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<{ target: ResolvedEntity; range: vscode.Range }> {
+    const identifierPath = getIdentifierPathAtPosition(document, position);
+    if (identifierPath) {
+      await this.refreshStory(document);
+      const target = this.resolver.resolve(
+        document.uri,
+        position.line,
+        identifierPath.segments
+      );
+      if (target) {
+        return { target, range: identifierPath.range };
+      }
+    }
+    throw new Error("This element cannot be renamed.");
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  activate(context: vscode.ExtensionContext): void {
+    // Register RenameProvider for Ink files
+    const renameProvider = vscode.languages.registerRenameProvider(
+      { language: "ink" },
+      {
+        prepareRename: async (document, position) => {
+          return this.prepareRename(document, position);
+        },
+        provideRenameEdits: async (document, position, newName) => {
+          return this.getRenameEdits(document, position, newName);
+        },
+      }
+    );
+
+    context.subscriptions.push(renameProvider);
+  }
+
+  /**
+   * Gets the edits renaming the entity at a position, along with every reference to it across the story and its
+   * includes.
+   * @param document - The Ink document containing the position.
+   * @param position - The position of the entity or one of its references.
+   * @param newName - The new name of the entity.
+   * @returns The edits to apply.
+   * @throws Error if the entity cannot be renamed, or the new name is invalid or already in use.
+   */
+  public async getRenameEdits(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    newName: string
+  ): Promise<vscode.WorkspaceEdit> {
+    if (!identifierRegex.test(newName) || reservedWords.has(newName)) {
+      throw new Error(`'${newName}' is not a valid Ink identifier.`);
+    }
+    const { target } = await this.resolveTarget(document, position);
+    if (newName === target.entity.identifier) {
+      return new vscode.WorkspaceEdit();
+    }
+    this.assertNameAvailable(target, newName);
+
+    const edit = new vscode.WorkspaceEdit();
+    const definitionDocument =
+      await VSCodeServiceLocator.getDocumentService().getTextDocument(
+        target.uri
+      );
+    const definitionRange = getDefinitionNameRange(
+      definitionDocument,
+      target.entity
+    );
+    if (definitionRange) {
+      edit.replace(target.uri, definitionRange, newName);
+    }
+    for (const reference of this.resolver.findReferences(target)) {
+      edit.replace(reference.uri, reference.range, newName);
+    }
+    return edit;
+  }
+
+  /**
+   * Checks that the entity at a position can be renamed.
+   * @param document - The Ink document containing the position.
+   * @param position - The position of the entity or one of its references.
+   * @returns The range of the identifier to rename, and its current name.
+   * @throws Error if there is no renameable entity at the position.
+   */
+  public async prepareRename(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<{ range: vscode.Range; placeholder: string }> {
+    const { target, range } = await this.resolveTarget(document, position);
+    return { range, placeholder: target.entity.identifier };
+  }
+
+  /**
+   * @inheritdoc
+   */
+  dispose(): void {
+    // No explicit resources to dispose in this implementation
+  }
+}
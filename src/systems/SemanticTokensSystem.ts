@@ -0,0 +1,318 @@
+import * as vscode from "vscode";
+import { IExtensionPlugin } from "../IExtensionPlugin";
+import { BuildEngine } from "../build/BuildEngine";
+import { OutlineParser } from "../build/OutlineParser";
+import { ReferenceParser } from "../build/ReferenceParser";
+import { stripComments } from "../build/outline/stripComments";
+import { EntityType, OutlineEntity } from "../model/OutlineEntity";
+import { SymbolResolver } from "../model/SymbolResolver";
+import { getDefinitionNameRange } from "../util/ink/getDefinitionNameRange";
+
+/**
+ * Represents an identifier in an Ink document, classified by what it resolves to.
+ */
+export interface InkSemanticToken {
+  /**
+   * The range of the identifier.
+   */
+  range: vscode.Range;
+
+  /**
+   * The token type, one of the types of the legend.
+   */
+  type: string;
+
+  /**
+   * The token modifiers, each one of the modifiers of the legend.
+   */
+  modifiers: string[];
+}
+
+const tokenTypes = [
+  "knot",
+  "stitch",
+  "label",
+  "function",
+  "external",
+  "variable",
+  "parameter",
+  "enum",
+  "enumMember",
+  "unresolved",
+];
+
+const tokenModifiers = ["declaration", "readonly", "temporary"];
+
+/**
+ * The names of the parameters and temporary variables in scope within a block.
+ */
+interface LocalNames {
+  parameters: Set<string>;
+  temporaries: Set<string>;
+}
+
+const tempDeclarationRegex = /^(\s*~\s*temp\s+)([a-zA-Z_][a-zA-Z0-9_]*)/;
+
+const parameterRegex = /(?:ref\s+|->\s*)?([a-zA-Z_][a-zA-Z0-9_]*)/g;
+
+export class SemanticTokensSystem implements IExtensionPlugin {
+  // Private Properties ===============================================================================================
+
+  private onDidChangeSemanticTokens = new vscode.EventEmitter<void>();
+  private outlineParser: OutlineParser;
+  private referenceParser: ReferenceParser;
+  private resolver: SymbolResolver;
+
+  // Public Properties ================================================================================================
+
+  public readonly legend = new vscode.SemanticTokensLegend(
+    tokenTypes,
+    tokenModifiers
+  );
+
+  // Constructor ======================================================================================================
+
+  constructor(resolver?: SymbolResolver) {
+    this.outlineParser = OutlineParser.getInstance();
+    this.referenceParser = ReferenceParser.getInstance();
+    this.resolver = resolver ?? new SymbolResolver();
+  }
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Gets the token type and modifiers of an outline entity.
+   * @param entity - The entity to classify.
+   * @returns The token type and modifiers.
+   */
+  private classify(entity: OutlineEntity): Omit<InkSemanticToken, "range"> {
+    switch (entity.type) {
+      case EntityType.const:
+        return { type: "variable", modifiers: ["readonly"] };
+      case EntityType.list:
+        return { type: "enum", modifiers: [] };
+      case EntityType.listItem:
+        return { type: "enumMember", modifiers: [] };
+      default:
+        return { type: entity.type, modifiers: [] };
+    }
+  }
+
+  /**
+   * Adds a declaration token for each entity defined in a document, along with the parameters of its header.
+   * @param document - The document defining the entities.
+   * @param entities - The entities to add tokens for.
+   * @param tokens - The tokens to add to.
+   */
+  private addDeclarations(
+    document: vscode.TextDocument,
+    entities: OutlineEntity[],
+    tokens: InkSemanticToken[]
+  ): void {
+    for (const entity of entities) {
+      if (entity.type === EntityType.include) {
+        continue;
+      }
+      const range = getDefinitionNameRange(document, entity);
+      if (range) {
+        const { type, modifiers } = this.classify(entity);
+        tokens.push({ range, type, modifiers: [...modifiers, "declaration"] });
+        if (entity.isBlock || entity.type === EntityType.external) {
+          this.addParameterDeclarations(document, range, tokens);
+        }
+      }
+      this.addDeclarations(document, entity.children, tokens);
+    }
+  }
+
+  /**
+   * Adds a declaration token for each parameter following the name of a knot, stitch or function.
+   * @param document - The document defining the entity.
+   * @param nameRange - The range of the entity's name.
+   * @param tokens - The tokens to add to.
+   */
+  private addParameterDeclarations(
+    document: vscode.TextDocument,
+    nameRange: vscode.Range,
+    tokens: InkSemanticToken[]
+  ): void {
+    const line = nameRange.start.line;
+    const text = document.lineAt(line).text;
+    const open = /^\s*\(/.exec(text.substring(nameRange.end.character));
+    if (!open) {
+      return;
+    }
+    const start = nameRange.end.character + open[0].length;
+    const close = text.indexOf(")", start);
+    const params = text.substring(start, close === -1 ? text.length : close);
+
+    parameterRegex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = parameterRegex.exec(params)) !== null) {
+      const character = start + match.index + match[0].length - match[1].length;
+      tokens.push({
+        range: new vscode.Range(
+          line,
+          character,
+          line,
+          character + match[1].length
+        ),
+        type: "parameter",
+        modifiers: ["declaration"],
+      });
+    }
+  }
+
+  /**
+   * Gets the parameters of every block enclosing a line, and the temporary variables declared in the outermost
+   * of them. Neither is part of the outline, so cannot be resolved by the SymbolResolver.
+   * @param lines - The lines of the document, with comments removed.
+   * @param chain - The blocks enclosing the line, innermost first.
+   * @returns The names of the parameters and temporary variables in scope.
+   */
+  private getLocalNames(lines: string[], chain: OutlineEntity[]): LocalNames {
+    const parameters = new Set<string>();
+    for (const block of chain) {
+      const params = /\((.*)\)/.exec(block.name)?.[1] ?? "";
+      parameterRegex.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = parameterRegex.exec(params)) !== null) {
+        parameters.add(match[1]);
+      }
+    }
+
+    const scope = chain[chain.length - 1]?.scopeRange;
+    const first = scope ? scope.start.line : 0;
+    const last = scope ? scope.end.line : lines.length - 1;
+    const temporaries = new Set<string>();
+    for (let i = first; i <= last && i < lines.length; i++) {
+      const match = tempDeclarationRegex.exec(lines[i]);
+      if (match) {
+        temporaries.add(match[2]);
+      }
+    }
+    return { parameters, temporaries };
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  activate(context: vscode.ExtensionContext): void {
+    // Definitions in other files may have changed whenever a story is compiled
+    BuildEngine.getInstance().onDidStoryCompile("semantic-tokens-system", () => {
+      this.onDidChangeSemanticTokens.fire();
+    });
+
+    // Register DocumentSemanticTokensProvider for Ink files
+    const semanticTokensProvider =
+      vscode.languages.registerDocumentSemanticTokensProvider(
+        { language: "ink" },
+        {
+          onDidChangeSemanticTokens: this.onDidChangeSemanticTokens.event,
+          provideDocumentSemanticTokens: async (document) => {
+            const builder = new vscode.SemanticTokensBuilder(this.legend);
+            for (const token of await this.getSemanticTokens(document)) {
+              builder.push(token.range, token.type, token.modifiers);
+            }
+            return builder.build();
+          },
+        },
+        this.legend
+      );
+
+    context.subscriptions.push(semanticTokensProvider);
+  }
+
+  /**
+   * Gets the semantic tokens of an Ink document. Definitions are classified by their kind, and references by the
+   * kind of entity they resolve to, across the story and its includes. References which cannot be resolved are
+   * classified as `unresolved`.
+   * @param document - The Ink document.
+   * @returns The tokens, in document order.
+   */
+  public async getSemanticTokens(
+    document: vscode.TextDocument
+  ): Promise<InkSemanticToken[]> {
+    // Refresh the outline, as the document may have changed since it was last compiled
+    const outline = await this.outlineParser.parseAndCache(document);
+    const lines = stripComments(document.getText()).split(/\r?\n/);
+
+    const tokens: InkSemanticToken[] = [];
+    this.addDeclarations(document, outline, tokens);
+
+    lines.forEach((text, line) => {
+      const match = tempDeclarationRegex.exec(text);
+      if (match) {
+        const character = match[1].length;
+        tokens.push({
+          range: new vscode.Range(
+            line,
+            character,
+            line,
+            character + match[2].length
+          ),
+          type: "variable",
+          modifiers: ["declaration", "temporary"],
+        });
+      }
+    });
+
+    // Local names are gathered once for each innermost block
+    const localNames = new Map<OutlineEntity | undefined, LocalNames>();
+    const getLocalNames = (line: number): LocalNames => {
+      const chain = this.resolver.getScopeChain(outline, line);
+      let locals = localNames.get(chain[0]);
+      if (!locals) {
+        locals = this.getLocalNames(lines, chain);
+        localNames.set(chain[0], locals);
+      }
+      return locals;
+    };
+
+    for (const reference of this.referenceParser.parse(document)) {
+      reference.segments.forEach((segment, index) => {
+        const range = reference.ranges[index];
+
+        // Parameters and temporary variables take precedence over anything defined globally
+        if (index === 0) {
+          const locals = getLocalNames(range.start.line);
+          if (locals.parameters.has(segment)) {
+            tokens.push({ range, type: "parameter", modifiers: [] });
+            return;
+          }
+          if (locals.temporaries.has(segment)) {
+            tokens.push({ range, type: "variable", modifiers: ["temporary"] });
+            return;
+          }
+        }
+
+        const resolved = this.resolver.resolve(
+          document.uri,
+          range.start.line,
+          reference.segments.slice(0, index + 1)
+        );
+        tokens.push(
+          resolved
+            ? { range, ...this.classify(resolved.entity) }
+            : { range, type: "unresolved", modifiers: [] }
+        );
+      });
+    }
+
+    return tokens.sort(
+      (a, b) =>
+        a.range.start.line - b.range.start.line ||
+        a.range.start.character - b.range.start.character
+    );
+  }
+
+  /**
+   * @inheritdoc
+   */
+  dispose(): void {
+    BuildEngine.getInstance().offDidStoryCompile("semantic-tokens-system");
+    this.onDidChangeSemanticTokens.dispose();
+  }
+}
@@ -0,0 +1,159 @@
+import * as vscode from "vscode";
+import { IExtensionPlugin } from "../IExtensionPlugin";
+import { OutlineParser } from "../build/OutlineParser";
+import { getEntityTypeDescription } from "../build/outline/getEntityTypeDescription";
+import { stripComments } from "../build/outline/stripComments";
+import { EntityType } from "../model/OutlineEntity";
+import { ResolvedEntity, SymbolResolver } from "../model/SymbolResolver";
+import { getEntityParameters } from "../util/ink/getEntityParameters";
+import { parseCallArguments } from "../util/ink/parseCallArguments";
+
+const callableTypes = new Set([
+  EntityType.external,
+  EntityType.function,
+  EntityType.knot,
+  EntityType.stitch,
+]);
+
+const calleeRegex = /([a-zA-Z_][a-zA-Z0-9_]*(?:\.[a-zA-Z_][a-zA-Z0-9_]*)*)\s*$/;
+
+export class SignatureHelpSystem implements IExtensionPlugin {
+  // Private Properties ===============================================================================================
+
+  private outlineParser: OutlineParser;
+  private resolver: SymbolResolver;
+
+  // Constructor ======================================================================================================
+
+  constructor(resolver?: SymbolResolver) {
+    this.outlineParser = OutlineParser.getInstance();
+    this.resolver = resolver ?? new SymbolResolver();
+  }
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Finds the opening brackets which have not been closed before the end of some code, innermost last.
+   * @param code - The code to search.
+   * @returns The columns of the unclosed brackets.
+   */
+  private findUnclosedBrackets(code: string): number[] {
+    const open: number[] = [];
+    let inString = false;
+    for (let i = 0; i < code.length; i++) {
+      if (code[i] === '"') {
+        inString = !inString;
+      } else if (inString) {
+        continue;
+      } else if (code[i] === "(") {
+        open.push(i);
+      } else if (code[i] === ")") {
+        open.pop();
+      }
+    }
+    return open;
+  }
+
+  /**
+   * Creates the signature of a function, knot or stitch, with the range of each parameter within its label.
+   * @param target - The resolved function, knot or stitch.
+   * @returns The signature.
+   */
+  private createSignature(target: ResolvedEntity): vscode.SignatureInformation {
+    const params = getEntityParameters(target.entity);
+    const label = `${target.entity.identifier}(${params.join(", ")})`;
+    const signature = new vscode.SignatureInformation(
+      label,
+      getEntityTypeDescription(target.entity.type)
+    );
+
+    let offset = target.entity.identifier.length + 1;
+    for (const param of params) {
+      signature.parameters.push(
+        new vscode.ParameterInformation([offset, offset + param.length])
+      );
+      offset += param.length + 2;
+    }
+    return signature;
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  activate(context: vscode.ExtensionContext): void {
+    // Register SignatureHelpProvider for Ink files
+    const signatureHelpProvider =
+      vscode.languages.registerSignatureHelpProvider(
+        { language: "ink" },
+        {
+          provideSignatureHelp: async (document, position) => {
+            return this.getSignatureHelp(document, position);
+          },
+        },
+        "(",
+        ","
+      );
+
+    context.subscriptions.push(signatureHelpProvider);
+  }
+
+  /**
+   * Gets the signature of the function, knot or stitch being called at a position in an Ink document, such as
+   * `~ add_item(` or `-> meet_character(`, along with the parameter being typed.
+   * @param document - The Ink document.
+   * @param position - The position within the argument list.
+   * @returns The signature help, or undefined if the position is not within a call to a known function, knot or
+   * stitch.
+   */
+  public async getSignatureHelp(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.SignatureHelp | undefined> {
+    const code = stripComments(document.lineAt(position.line).text).substring(
+      0,
+      position.character
+    );
+    const brackets = this.findUnclosedBrackets(code);
+    if (brackets.length === 0) {
+      return undefined;
+    }
+
+    // Refresh the outline, as the document may have changed since it was last compiled
+    await this.outlineParser.parseAndCache(document);
+
+    // Brackets may also group expressions, e.g. `~ x = (add(`, so the innermost call is used
+    for (const open of brackets.reverse()) {
+      const callee = calleeRegex.exec(code.substring(0, open));
+      if (!callee) {
+        continue;
+      }
+      const target = this.resolver.resolve(
+        document.uri,
+        position.line,
+        callee[1].split(".")
+      );
+      if (!target || !callableTypes.has(target.entity.type)) {
+        continue;
+      }
+
+      const help = new vscode.SignatureHelp();
+      help.signatures = [this.createSignature(target)];
+      help.activeSignature = 0;
+      help.activeParameter = Math.max(
+        parseCallArguments(code, open).length - 1,
+        0
+      );
+      return help;
+    }
+    return undefined;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  dispose(): void {
+    // No explicit resources to dispose in this implementation
+  }
+}
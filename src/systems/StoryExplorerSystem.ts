@@ -0,0 +1,288 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { IExtensionPlugin } from "../IExtensionPlugin";
+import { getEntityTypeDescription } from "../build/outline/getEntityTypeDescription";
+import { DependencyManager } from "../model/DependencyManager";
+import { EntityType, OutlineEntity } from "../model/OutlineEntity";
+import { OutlineManager } from "../model/OutlineManager";
+
+/**
+ * An element of the story explorer: a root story, a group of entities of one kind within it, or an entity.
+ */
+export type StoryTreeElement =
+  | { kind: "story"; uri: vscode.Uri }
+  | { kind: "group"; rootUri: vscode.Uri; type: EntityType }
+  | { kind: "entity"; uri: vscode.Uri; entity: OutlineEntity };
+
+/**
+ * The kinds of entity listed under each story, in order, along with the name of their group.
+ */
+const groups: [EntityType, string][] = [
+  [EntityType.knot, "Knots"],
+  [EntityType.function, "Functions"],
+  [EntityType.external, "External Functions"],
+  [EntityType.variable, "Variables"],
+  [EntityType.const, "Constants"],
+  [EntityType.list, "Lists"],
+];
+
+const icons = new Map<EntityType, string>([
+  [EntityType.const, "symbol-constant"],
+  [EntityType.external, "symbol-event"],
+  [EntityType.function, "symbol-function"],
+  [EntityType.knot, "symbol-package"],
+  [EntityType.list, "symbol-enum"],
+  [EntityType.listItem, "symbol-enum-member"],
+  [EntityType.stitch, "symbol-object"],
+  [EntityType.variable, "symbol-variable"],
+]);
+
+export class StoryExplorerSystem implements IExtensionPlugin {
+  // Private Properties ===============================================================================================
+
+  private depManager: DependencyManager;
+  private filter: string = "";
+  private onDidChangeTreeData = new vscode.EventEmitter<
+    StoryTreeElement | undefined
+  >();
+  private outlineManager: OutlineManager;
+  private treeView: vscode.TreeView<StoryTreeElement> | undefined;
+
+  // Constructor ======================================================================================================
+
+  constructor(depManager?: DependencyManager, outlineManager?: OutlineManager) {
+    this.depManager = depManager ?? DependencyManager.getInstance();
+    this.outlineManager = outlineManager ?? OutlineManager.getInstance();
+  }
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Gets the name of an entity as shown in the explorer, which for stitches includes their knot.
+   * @param entity - The entity.
+   * @returns The name.
+   */
+  private getEntityName(entity: OutlineEntity): string {
+    return entity.type === EntityType.stitch && entity.parent
+      ? `${entity.parent.identifier}.${entity.identifier}`
+      : entity.identifier;
+  }
+
+  /**
+   * Gets the entities listed below an entity: the stitches of a knot, or the items of a list.
+   * @param entity - The entity.
+   * @returns The child entities.
+   */
+  private getEntityChildren(entity: OutlineEntity): OutlineEntity[] {
+    return entity.children.filter(
+      (child) =>
+        child.type === EntityType.stitch || child.type === EntityType.listItem
+    );
+  }
+
+  /**
+   * Gets the entities of a kind defined anywhere in a root story and the files it includes, in document order,
+   * starting with the root story.
+   * @param rootUri - The URI of the root story.
+   * @param type - The kind of entity.
+   * @returns The entities, along with the documents defining them.
+   */
+  private getStoryEntities(
+    rootUri: vscode.Uri,
+    type: EntityType
+  ): { uri: vscode.Uri; entity: OutlineEntity }[] {
+    const uris = [rootUri, ...this.depManager.getAllDependencies([rootUri])];
+    return uris.flatMap((uri) =>
+      (this.outlineManager.getOutline(uri) ?? [])
+        .filter((entity) => entity.type === type)
+        .map((entity) => ({ uri, entity }))
+    );
+  }
+
+  /**
+   * Determines whether an entity is shown by the filter: either its name or the name of one of its children contains
+   * the filter text.
+   * @param entity - The entity.
+   * @returns True if the entity is shown.
+   */
+  private isShown(entity: OutlineEntity): boolean {
+    return (
+      this.getEntityName(entity).toLowerCase().includes(this.filter) ||
+      this.getEntityChildren(entity).some((child) => this.isShown(child))
+    );
+  }
+
+  /**
+   * Prompts for the filter, updating the explorer as it is typed.
+   */
+  private promptForFilter(): void {
+    const input = vscode.window.createInputBox();
+    input.title = "Filter Ink Stories";
+    input.placeholder = "Type the name of a knot, stitch, function or global";
+    input.value = this.filter;
+    input.onDidChangeValue((value) => this.setFilter(value));
+    input.onDidAccept(() => input.hide());
+    input.onDidHide(() => input.dispose());
+    input.show();
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  activate(context: vscode.ExtensionContext): void {
+    // Register TreeDataProvider for the story explorer view
+    this.treeView = vscode.window.createTreeView("ink.storyExplorer", {
+      treeDataProvider: {
+        onDidChangeTreeData: this.onDidChangeTreeData.event,
+        getChildren: (element?: StoryTreeElement) => {
+          return this.getChildren(element);
+        },
+        getTreeItem: (element: StoryTreeElement) => {
+          return this.getTreeItem(element);
+        },
+      },
+    });
+
+    const filterCommand = vscode.commands.registerCommand(
+      "ink.storyExplorer.filter",
+      () => this.promptForFilter()
+    );
+    const clearFilterCommand = vscode.commands.registerCommand(
+      "ink.storyExplorer.clearFilter",
+      () => this.setFilter("")
+    );
+
+    // Refresh the view whenever a story is compiled, as its outlines will have been updated along with its includes
+    this.depManager.onDidChange("story-explorer-system", () => {
+      this.onDidChangeTreeData.fire(undefined);
+    });
+
+    context.subscriptions.push(
+      this.treeView,
+      filterCommand,
+      clearFilterCommand
+    );
+  }
+
+  /**
+   * Gets the children of an element of the story explorer. Each root story lists the knots, functions and globals
+   * of every file it includes, grouped by kind, with knots listing their stitches and lists their items. While a
+   * filter is set, only matching entities are listed, along with the groups and stories containing them.
+   * @param element - The element, or undefined for the top of the explorer.
+   * @returns The children.
+   */
+  public getChildren(element?: StoryTreeElement): StoryTreeElement[] {
+    if (!element) {
+      return Array.from(this.depManager.getAllRoots())
+        .filter((uri) => uri.path.endsWith(".ink"))
+        .sort((a, b) => a.fsPath.localeCompare(b.fsPath))
+        .map((uri): StoryTreeElement => ({ kind: "story", uri }))
+        .filter((story) => !this.filter || this.getChildren(story).length > 0);
+    }
+
+    if (element.kind === "story") {
+      return groups
+        .map(([type]): StoryTreeElement => ({
+          kind: "group",
+          rootUri: element.uri,
+          type,
+        }))
+        .filter((group) => this.getChildren(group).length > 0);
+    }
+
+    if (element.kind === "group") {
+      return this.getStoryEntities(element.rootUri, element.type)
+        .filter(({ entity }) => this.isShown(entity))
+        .map(({ uri, entity }) => ({ kind: "entity", uri, entity }));
+    }
+
+    return this.getEntityChildren(element.entity)
+      .filter((entity) => this.isShown(entity))
+      .map((entity) => ({ kind: "entity", uri: element.uri, entity }));
+  }
+
+  /**
+   * Gets the filter applied to the explorer.
+   * @returns The filter text, or an empty string if there is no filter.
+   */
+  public getFilter(): string {
+    return this.filter;
+  }
+
+  /**
+   * Gets the item presenting an element of the story explorer. Entities reveal their definition when clicked.
+   * @param element - The element.
+   * @returns The item.
+   */
+  public getTreeItem(element: StoryTreeElement): vscode.TreeItem {
+    // Expand everything while filtering, so that the matches are visible
+    const collapsed = this.filter
+      ? vscode.TreeItemCollapsibleState.Expanded
+      : vscode.TreeItemCollapsibleState.Collapsed;
+
+    if (element.kind === "story") {
+      const item = new vscode.TreeItem(
+        path.basename(element.uri.fsPath),
+        collapsed
+      );
+      item.resourceUri = element.uri;
+      item.tooltip = element.uri.fsPath;
+      item.description = true;
+      return item;
+    }
+
+    if (element.kind === "group") {
+      const name = groups.find(([type]) => type === element.type)![1];
+      const item = new vscode.TreeItem(name, collapsed);
+      item.description = `${this.getChildren(element).length}`;
+      return item;
+    }
+
+    const { entity, uri } = element;
+    const fileName = path.basename(uri.fsPath);
+    const item = new vscode.TreeItem(
+      this.getEntityName(entity),
+      this.getChildren(element).length > 0
+        ? collapsed
+        : vscode.TreeItemCollapsibleState.None
+    );
+    item.description = fileName;
+    item.tooltip = `${getEntityTypeDescription(entity.type)} defined in ${fileName}, line ${entity.definitionRange.start.line + 1}`;
+    item.iconPath = new vscode.ThemeIcon(icons.get(entity.type)!);
+    item.command = {
+      command: "vscode.open",
+      title: "Reveal in Editor",
+      arguments: [uri, { selection: entity.definitionRange }],
+    };
+    return item;
+  }
+
+  /**
+   * Sets the filter applied to the explorer, listing only the entities whose names contain the filter text.
+   * @param filter - The filter text, or an empty string to clear the filter.
+   */
+  public setFilter(filter: string): void {
+    this.filter = filter.trim().toLowerCase();
+    if (this.treeView) {
+      this.treeView.message = this.filter
+        ? `Showing names containing '${this.filter}'`
+        : undefined;
+    }
+    vscode.commands.executeCommand(
+      "setContext",
+      "ink.storyExplorer.filtered",
+      this.filter !== ""
+    );
+    this.onDidChangeTreeData.fire(undefined);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  dispose(): void {
+    this.depManager.offDidChange("story-explorer-system");
+    this.onDidChangeTreeData.dispose();
+  }
+}
@@ -0,0 +1,112 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { IExtensionPlugin } from "../IExtensionPlugin";
+import { getEntitySymbolKind } from "../build/outline/getEntitySymbolKind";
+import { EntityType, OutlineEntity } from "../model/OutlineEntity";
+import { OutlineManager } from "../model/OutlineManager";
+import { fuzzyMatch } from "../util/fuzzyMatch";
+
+const searchableTypes = new Set([
+  EntityType.const,
+  EntityType.external,
+  EntityType.function,
+  EntityType.knot,
+  EntityType.list,
+  EntityType.stitch,
+  EntityType.variable,
+]);
+
+export class WorkspaceSymbolSystem implements IExtensionPlugin {
+  // Private Properties ===============================================================================================
+
+  private outlineManager: OutlineManager;
+
+  // Constructor ======================================================================================================
+
+  constructor(outlineManager?: OutlineManager) {
+    this.outlineManager = outlineManager ?? OutlineManager.getInstance();
+  }
+
+  // Private Methods ==================================================================================================
+
+  /**
+   * Determines whether the ancestors of an entity match the qualifying parts of a query, e.g. `cab` in `cab.int`.
+   * @param entity - The entity to check.
+   * @param qualifiers - The qualifying parts of the query, outermost first.
+   * @returns True if the innermost ancestors of the entity match the qualifiers.
+   */
+  private matchesQualifiers(
+    entity: OutlineEntity,
+    qualifiers: string[]
+  ): boolean {
+    let ancestor = entity.parent;
+    for (let i = qualifiers.length - 1; i >= 0; i--) {
+      if (!ancestor || !fuzzyMatch(qualifiers[i], ancestor.identifier)) {
+        return false;
+      }
+      ancestor = ancestor.parent;
+    }
+    return true;
+  }
+
+  // Public Methods ===================================================================================================
+
+  /**
+   * @inheritdoc
+   */
+  activate(context: vscode.ExtensionContext): void {
+    // Register WorkspaceSymbolProvider for Ink files
+    const workspaceSymbolProvider =
+      vscode.languages.registerWorkspaceSymbolProvider({
+        provideWorkspaceSymbols: (query) => {
+          return this.getWorkspaceSymbols(query);
+        },
+      });
+
+    context.subscriptions.push(workspaceSymbolProvider);
+  }
+
+  /**
+   * Finds the knots, stitches, functions, variables and lists across every Ink file in the workspace which fuzzily
+   * match a query. Qualified queries such as `knot.stitch` match stitches whose knot matches the qualifier.
+   * @param query - The query to match.
+   * @returns The matching symbols.
+   */
+  public getWorkspaceSymbols(query: string): vscode.SymbolInformation[] {
+    const parts = query.trim().split(".");
+    const name = parts.pop() ?? "";
+    const qualifiers = parts.filter((part) => part !== "");
+
+    const symbols: vscode.SymbolInformation[] = [];
+    for (const uri of this.outlineManager.getUris()) {
+      const pending = [...(this.outlineManager.getOutline(uri) ?? [])];
+      while (pending.length > 0) {
+        const entity = pending.shift()!;
+        pending.push(...entity.children);
+        if (
+          !searchableTypes.has(entity.type) ||
+          !fuzzyMatch(name, entity.identifier) ||
+          !this.matchesQualifiers(entity, qualifiers)
+        ) {
+          continue;
+        }
+        symbols.push(
+          new vscode.SymbolInformation(
+            entity.identifier,
+            getEntitySymbolKind(entity.type),
+            entity.parent?.identifier ?? path.basename(uri.fsPath),
+            new vscode.Location(uri, entity.definitionRange)
+          )
+        );
+      }
+    }
+    return symbols;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  dispose(): void {
+    // No explicit resources to dispose in this implementation
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Determine whether a query fuzzily matches a candidate, i.e. every character of the query appears in the
+ * candidate in the same order, ignoring case.
+ *
+ * @param query The query to match, e.g. `cabint`.
+ * @param candidate The candidate to match against, e.g. `cabin_interior`.
+ * @returns True if the query matches the candidate.
+ */
+export function fuzzyMatch(query: string, candidate: string): boolean {
+  const lowerQuery = query.toLowerCase();
+  const lowerCandidate = candidate.toLowerCase();
+  let index = 0;
+  for (const ch of lowerQuery) {
+    index = lowerCandidate.indexOf(ch, index);
+    if (index === -1) {
+      return false;
+    }
+    index++;
+  }
+  return true;
+}
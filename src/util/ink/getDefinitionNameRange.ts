@@ -0,0 +1,56 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { EntityType, OutlineEntity } from "../../model/OutlineEntity";
+
+/**
+ * Gets the range of an entity's name within the line defining it.
+ * Outline entities are defined by the whole line, e.g. `== knot(a) ==`, whereas edits need the name alone.
+ * @param document - The document defining the entity.
+ * @param entity - The entity to find the name of.
+ * @returns The range of the name, or undefined if it cannot be found on the line.
+ */
+export function getDefinitionNameRange(
+  document: vscode.TextDocument,
+  entity: OutlineEntity
+): vscode.Range | undefined {
+  const line = entity.definitionRange.start.line;
+  if (line >= document.lineCount) {
+    return undefined;
+  }
+  const text = document.lineAt(line).text;
+
+  // List items follow the name of their list, e.g. `LIST colours = red, (green)`
+  const start =
+    entity.type === EntityType.listItem ? Math.max(text.indexOf("="), 0) : 0;
+
+  const nameRegex = new RegExp(`(?<![a-zA-Z0-9_])${entity.identifier}(?![a-zA-Z0-9_])`, "g");
+  nameRegex.lastIndex = start;
+  const match = nameRegex.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  return new vscode.Range(line, match.index, line, match.index + match[0].length);
+}
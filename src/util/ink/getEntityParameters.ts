@@ -0,0 +1,45 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { OutlineEntity } from "../../model/OutlineEntity";
+
+/**
+ * Gets the parameters declared by a knot, stitch, function or external function.
+ * Reference parameters keep their `ref` keyword and divert parameters their `->` arrow, e.g. `ref gold` or
+ * `-> next`.
+ * @param entity - The entity to get the parameters of.
+ * @returns The parameters, or an empty array if the entity declares none.
+ */
+export function getEntityParameters(entity: OutlineEntity): string[] {
+  const params = /\((.*)\)/.exec(entity.name)?.[1] ?? "";
+  return params
+    .split(",")
+    .map((p) =>
+      p
+        .trim()
+        .replace(/^ref\s+/, "ref ")
+        .replace(/^->\s*/, "-> ")
+    )
+    .filter((p) => p !== "");
+}
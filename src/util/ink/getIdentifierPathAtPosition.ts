@@ -0,0 +1,98 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+
+/**
+ * Represents a dotted path of identifiers (e.g. `knot.stitch.label`) found in an Ink document.
+ */
+export interface IdentifierPath {
+  /**
+   * The segments of the path, up to and including the segment at the position.
+   */
+  segments: string[];
+
+  /**
+   * The range of the segment at the position.
+   */
+  range: vscode.Range;
+}
+
+const identifierPathRegex =
+  /[a-zA-Z_][a-zA-Z0-9_]*(?:\.[a-zA-Z_][a-zA-Z0-9_]*)*/g;
+
+/**
+ * Gets the dotted path of identifiers at a position in an Ink document.
+ * Segments after the one at the position are dropped, so that `knot` in `knot.stitch` resolves to the knot.
+ * @param document - The document to search.
+ * @param position - The position to search at.
+ * @returns The identifier path, or undefined if there is no identifier at the position.
+ */
+export function getIdentifierPathAtPosition(
+  document: vscode.TextDocument,
+  position: vscode.Position
+): IdentifierPath | undefined {
+  const text = document.lineAt(position.line).text;
+
+  // Ignore anything within a line comment
+  const commentIndex = text.indexOf("//");
+  if (commentIndex !== -1 && commentIndex < position.character) {
+    return undefined;
+  }
+
+  identifierPathRegex.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = identifierPathRegex.exec(text)) !== null) {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (position.character < start || position.character > end) {
+      continue;
+    }
+
+    // Identifiers cannot start mid-number, e.g. the `e5` of `1e5`
+    if (start > 0 && /[0-9]/.test(text[start - 1])) {
+      return undefined;
+    }
+
+    const segments: string[] = [];
+    let segmentStart = start;
+    for (const segment of match[0].split(".")) {
+      const segmentEnd = segmentStart + segment.length;
+      segments.push(segment);
+      if (position.character <= segmentEnd) {
+        return {
+          segments,
+          range: new vscode.Range(
+            position.line,
+            segmentStart,
+            position.line,
+            segmentEnd
+          ),
+        };
+      }
+      segmentStart = segmentEnd + 1;
+    }
+  }
+  return undefined;
+}
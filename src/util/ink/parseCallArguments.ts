@@ -0,0 +1,80 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Represents an argument passed to a function, knot or stitch.
+ */
+export interface CallArgument {
+  /**
+   * The text of the argument, without surrounding whitespace.
+   */
+  text: string;
+
+  /**
+   * The column at which the argument starts.
+   */
+  start: number;
+}
+
+/**
+ * Parses the arguments of a call, from its opening bracket up to the matching closing bracket or the end of the
+ * line. Commas within nested brackets or strings do not separate arguments.
+ * @param text - The line of code containing the call.
+ * @param open - The column of the opening bracket.
+ * @returns The arguments in order, or an empty array if the argument list is blank.
+ */
+export function parseCallArguments(text: string, open: number): CallArgument[] {
+  const args: CallArgument[] = [];
+  let depth = 0;
+  let inString = false;
+  let argStart = open + 1;
+
+  const addArgument = (end: number) => {
+    const raw = text.substring(argStart, end);
+    const start = argStart + (raw.length - raw.trimStart().length);
+    args.push({ text: raw.trim(), start });
+  };
+
+  let i = open + 1;
+  for (; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      inString = !inString;
+    } else if (inString) {
+      continue;
+    } else if (ch === "(" || ch === "{" || ch === "[") {
+      depth++;
+    } else if (ch === ")" && depth === 0) {
+      break;
+    } else if (ch === ")" || ch === "}" || ch === "]") {
+      depth--;
+    } else if (ch === "," && depth === 0) {
+      addArgument(i);
+      argStart = i + 1;
+    }
+  }
+  addArgument(i);
+
+  return args.length === 1 && args[0].text === "" ? [] : args;
+}
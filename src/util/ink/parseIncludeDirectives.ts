@@ -0,0 +1,46 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { DirectivePath } from "./DirectivePath";
+import { stripComments } from "../../build/outline/stripComments";
+
+const includeRegex = /^(\s*INCLUDE\s+)(.+\.ink)\s*$/;
+
+/**
+ * Finds the paths of the INCLUDE directives in an Ink document, ignoring any within comments.
+ * @param text - The text of the document.
+ * @returns The paths of the directives, in document order.
+ */
+export function parseIncludeDirectives(text: string): DirectivePath[] {
+  const directives: DirectivePath[] = [];
+  stripComments(text)
+    .split(/\r?\n/)
+    .forEach((lineText, line) => {
+      const match = includeRegex.exec(lineText);
+      if (match) {
+        directives.push({ path: match[2], line, character: match[1].length });
+      }
+    });
+  return directives;
+}
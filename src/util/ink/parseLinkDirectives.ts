@@ -0,0 +1,79 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { DirectivePath } from "./DirectivePath";
+
+const singleLineRegex = /^\s*\/\/\s*LINKS?\s+(.+\.js)\s*$/gm;
+const multiLineCommentRegex = /\/\*[\s\S]*?\*\//gm;
+const linkInCommentRegex = /^\s*LINKS?\s+(.+\.js)\s*$/gm;
+
+function toDirectivePath(
+  content: string,
+  path: string,
+  index: number
+): DirectivePath {
+  const textBeforeIndex = content.substring(0, index);
+  const lastNewlineIndex = textBeforeIndex.lastIndexOf("\n");
+  return {
+    path,
+    line: textBeforeIndex.split("\n").length - 1,
+    character: index - lastNewlineIndex - 1,
+  };
+}
+
+/**
+ * Finds the paths of the LINK directives in an Ink document, which link JavaScript files of mock external functions.
+ * Directives are written within either a single-line comment (`// LINK mocks.js`) or a multi-line comment
+ * (`/* LINK mocks.js *\/`).
+ * @param content - The text of the document.
+ * @returns The paths of the directives, single-line comments first.
+ */
+export function parseLinkDirectives(content: string): DirectivePath[] {
+  const directives: DirectivePath[] = [];
+
+  let match: RegExpExecArray | null;
+  singleLineRegex.lastIndex = 0;
+  while ((match = singleLineRegex.exec(content)) !== null) {
+    const path = match[1].trim();
+    const index = match.index + match[0].lastIndexOf(path);
+    directives.push(toDirectivePath(content, path, index));
+  }
+
+  multiLineCommentRegex.lastIndex = 0;
+  while ((match = multiLineCommentRegex.exec(content)) !== null) {
+    // Extract inner content without /* and */
+    const innerContent = match[0].slice(2, -2);
+    const innerStart = match.index + 2;
+
+    linkInCommentRegex.lastIndex = 0;
+    let linkMatch: RegExpExecArray | null;
+    while ((linkMatch = linkInCommentRegex.exec(innerContent)) !== null) {
+      const path = linkMatch[1].trim();
+      const index = innerStart + linkMatch.index + linkMatch[0].lastIndexOf(path);
+      directives.push(toDirectivePath(content, path, index));
+    }
+  }
+
+  return directives;
+}
@@ -0,0 +1,74 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Keywords and built-in names of the Ink language, which are never references to entities and cannot be used as
+ * their names.
+ */
+export const reservedWords: ReadonlySet<string> = new Set([
+  "and",
+  "CHOICE_COUNT",
+  "CONST",
+  "cycle",
+  "DONE",
+  "else",
+  "END",
+  "EXTERNAL",
+  "false",
+  "FLOAT",
+  "FLOOR",
+  "function",
+  "has",
+  "hasnt",
+  "INCLUDE",
+  "INT",
+  "LIST",
+  "LIST_ALL",
+  "LIST_COUNT",
+  "LIST_INVERT",
+  "LIST_MAX",
+  "LIST_MIN",
+  "LIST_RANDOM",
+  "LIST_RANGE",
+  "LIST_VALUE",
+  "MAX",
+  "MIN",
+  "mod",
+  "not",
+  "once",
+  "or",
+  "POW",
+  "RANDOM",
+  "READ_COUNT",
+  "ref",
+  "return",
+  "SEED_RANDOM",
+  "shuffle",
+  "stopping",
+  "temp",
+  "true",
+  "TURNS",
+  "TURNS_SINCE",
+  "VAR",
+]);
@@ -23,7 +23,7 @@
  */
 
 import * as vscode from "vscode";
-import { IBuildResult } from "../../src/build/IBuildResult";
+import { IBuildResult, ISuccessfulBuildResult } from "../../src/build/IBuildResult";
 import { createMockSuccessfulBuildResult, createMockFailedBuildResult } from "./mockBuildResult";
 
 /**
@@ -37,6 +37,7 @@ export class MockBuildEngine {
   private compileStoryCallLog: Array<{ uri: vscode.Uri; timestamp: number }> = [];
   private shouldFailCompilation: boolean = false;
   private failureMessage: string = "Mock compilation failed";
+  private compilationListeners: Map<string, (result: ISuccessfulBuildResult) => void> = new Map();
   
   // Public Methods ===================================================================================================
   
@@ -72,6 +73,23 @@ export class MockBuildEngine {
     return createMockSuccessfulBuildResult(uri.fsPath);
   }
   
+  /**
+   * Mock implementation of onDidStoryCompile.
+   * @param listenerId - Unique identifier for this listener
+   * @param callback - Function to call when a story is successfully compiled
+   */
+  public onDidStoryCompile(listenerId: string, callback: (result: ISuccessfulBuildResult) => void): void {
+    this.compilationListeners.set(listenerId, callback);
+  }
+  
+  /**
+   * Mock implementation of offDidStoryCompile.
+   * @param listenerId - The listener identifier to remove
+   */
+  public offDidStoryCompile(listenerId: string): void {
+    this.compilationListeners.delete(listenerId);
+  }
+  
   // Test Configuration Methods =======================================================================================
   
   /**
@@ -103,6 +121,14 @@ export class MockBuildEngine {
     }
   }
   
+  /**
+   * Notifies the compilation listeners that a story has been compiled successfully.
+   * @param result - The build result to notify the listeners of
+   */
+  public simulateStoryCompiled(result: ISuccessfulBuildResult): void {
+    this.compilationListeners.forEach((callback) => callback(result));
+  }
+  
   /**
    * Clears all predefined compilation results.
    */
@@ -60,6 +60,8 @@ export class MockVSCodeExtensionService implements IVSCodeExtensionService {
 
   private config: Required<MockVSCodeExtensionServiceConfig>;
 
+  private workspaceState = new Map<string, any>();
+
   // Constructor ======================================================================================================
 
   /**
@@ -174,6 +176,27 @@ export class MockVSCodeExtensionService implements IVSCodeExtensionService {
     });
   }
 
+  /**
+   * @inheritdoc
+   */
+  public getWorkspaceState(): vscode.Memento {
+    return this.executeWithLogging("getWorkspaceState", [], () => {
+      const state = this.workspaceState;
+      return {
+        keys: () => Array.from(state.keys()),
+        get: (key: string, defaultValue?: any) =>
+          state.has(key) ? state.get(key) : defaultValue,
+        update: async (key: string, value: any) => {
+          if (value === undefined) {
+            state.delete(key);
+          } else {
+            state.set(key, value);
+          }
+        },
+      } as vscode.Memento;
+    });
+  }
+
   // Mock-specific Methods ============================================================================================
 
   /**
@@ -296,6 +319,7 @@ export class MockVSCodeExtensionService implements IVSCodeExtensionService {
    */
   public reset(): void {
     this.callLog = [];
+    this.workspaceState.clear();
   }
 
   // Static Factory Methods ===========================================================================================
@@ -74,9 +74,20 @@ export function mockPreviewActionContext(
         choices: [],
         isEnded: false,
       }),
+      choosePath: jest.fn().mockReturnValue({
+        events: [],
+        errors: [],
+        choices: [],
+        isEnded: false,
+      }),
+      hasPath: jest.fn().mockReturnValue(true),
       isEnded: jest.fn().mockReturnValue(false),
       canContinue: jest.fn().mockReturnValue(false),
       getCurrentChoices: jest.fn().mockReturnValue([]),
+      getTurnIndex: jest.fn().mockReturnValue(-1),
+      getVariables: jest.fn().mockReturnValue([]),
+      getVisitCounts: jest.fn().mockReturnValue([]),
+      setVariable: jest.fn(),
     } as any,
     undo: jest.fn(),
   };
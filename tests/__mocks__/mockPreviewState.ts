@@ -38,6 +38,9 @@ export function mockPreviewStoryState(
     isStart: true,
     isEnded: false,
     lastChoiceIndex: 0,
+    turnIndex: -1,
+    variables: [],
+    visits: [],
     ...overrides,
   };
 }
@@ -20,3 +20,59 @@ vscode.extensions = {
     },
   }),
 };
+
+// Mock hover, which is not provided by jest-mock-vscode
+vscode.Hover = class Hover {
+  contents: unknown[];
+  range: unknown;
+
+  constructor(contents: unknown, range?: unknown) {
+    this.contents = Array.isArray(contents) ? contents : [contents];
+    this.range = range;
+  }
+};
+
+// Mock signature help, which is not provided by jest-mock-vscode
+vscode.SignatureHelp = class SignatureHelp {
+  signatures: unknown[] = [];
+  activeSignature = 0;
+  activeParameter = 0;
+};
+
+vscode.SignatureInformation = class SignatureInformation {
+  label: string;
+  documentation: unknown;
+  parameters: unknown[] = [];
+
+  constructor(label: string, documentation?: unknown) {
+    this.label = label;
+    this.documentation = documentation;
+  }
+};
+
+vscode.ParameterInformation = class ParameterInformation {
+  label: unknown;
+  documentation: unknown;
+
+  constructor(label: unknown, documentation?: unknown) {
+    this.label = label;
+    this.documentation = documentation;
+  }
+};
+
+// Mock inlay hints, which are not provided by jest-mock-vscode
+vscode.InlayHintKind = { Type: 1, Parameter: 2 };
+
+vscode.InlayHint = class InlayHint {
+  position: unknown;
+  label: unknown;
+  kind: unknown;
+  paddingLeft?: boolean;
+  paddingRight?: boolean;
+
+  constructor(position: unknown, label: unknown, kind?: unknown) {
+    this.position = position;
+    this.label = label;
+    this.kind = kind;
+  }
+};
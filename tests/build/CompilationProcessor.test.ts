@@ -134,6 +134,91 @@ describe("CompilationProcessor", () => {
     expect(context.getDiagnostics()[0].uri).toBe(context.uri);
   });
 
+  describe("when the story has a missing include", () => {
+    beforeEach(() => {
+      // Setup
+      context = makeContext("INCLUDE missing.ink\n-> END");
+    });
+
+    it("reports the compiler error for the missing file", async () => {
+      // Execute
+      await processor.run(context);
+
+      // Assert
+      expect(context.getDiagnostics().length).toBe(1);
+      expect(context.getDiagnostics()[0].message).toMatch(/^Failed to load/);
+    });
+
+    it("leaves out the compiler error once the include is reported", async () => {
+      // Setup
+      context.reportDiagnostic(
+        context.uri,
+        new vscode.Range(0, 8, 0, 19),
+        "Included file 'missing.ink' was not found at '/missing.ink'.",
+        vscode.DiagnosticSeverity.Error,
+        "unresolved-include"
+      );
+
+      // Execute
+      await processor.run(context);
+
+      // Assert
+      expect(context.getDiagnostics().length).toBe(1);
+      expect(context.getDiagnostics()[0].code).toBe("unresolved-include");
+      expect(context.story).toBeUndefined();
+    });
+
+    it("still reports the compiler error for other missing files", async () => {
+      // Setup
+      context = makeContext("INCLUDE missing.ink\nINCLUDE other.ink\n-> END");
+      context.reportDiagnostic(
+        context.uri,
+        new vscode.Range(0, 8, 0, 19),
+        "Included file 'missing.ink' was not found at '/missing.ink'.",
+        vscode.DiagnosticSeverity.Error,
+        "unresolved-include"
+      );
+
+      // Execute
+      await processor.run(context);
+
+      // Assert
+      expect(context.getDiagnostics().map((d) => d.message)).toEqual([
+        "Included file 'missing.ink' was not found at '/missing.ink'.",
+        expect.stringMatching(/^Failed to load: 'other.ink'/),
+      ]);
+    });
+  });
+
+  describe("when the story has a circular include", () => {
+    beforeEach(() => {
+      // Setup
+      context = makeContext("INCLUDE a.ink\n-> END");
+      context.includeDocuments.set(
+        "a.ink",
+        mockVSCodeDocument("/a.ink", "INCLUDE a.ink")
+      );
+    });
+
+    it("leaves out the compiler error once the include is reported", async () => {
+      // Setup
+      context.reportDiagnostic(
+        mockVSCodeUri("/a.ink"),
+        new vscode.Range(0, 8, 0, 13),
+        "Circular include of 'a.ink': test.ink → a.ink → a.ink.",
+        vscode.DiagnosticSeverity.Error,
+        "circular-include"
+      );
+
+      // Execute
+      await processor.run(context);
+
+      // Assert
+      expect(context.getDiagnostics().length).toBe(1);
+      expect(context.getDiagnostics()[0].code).toBe("circular-include");
+    });
+  });
+
   describe("when the story has an include", () => {
     let includeUri: vscode.Uri;
 
@@ -172,5 +257,16 @@ describe("CompilationProcessor", () => {
       expect(context.getDiagnostics().length).toBe(1);
       expect(context.getDiagnostics()[0].uri).toBe(includeUri);
     });
+
+    it("locates errors using the text of the include", async () => {
+      // Execute
+      await processor.run(context);
+
+      // Assert
+      const range = context.getDiagnostics()[0].range;
+      expect(range.start.line).toBe(3);
+      expect(range.start.character).toBe(21);
+      expect(range.end.character).toBe(22);
+    });
   });
 });
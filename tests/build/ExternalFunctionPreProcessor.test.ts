@@ -30,6 +30,8 @@ import { mockVSCodeUri } from "../__mocks__/mockVSCodeUri";
 import { VSCodeServiceLocator } from "../../src/services/VSCodeServiceLocator";
 import { MockVSCodeDocumentService } from "../__mocks__/MockVSCodeDocumentService";
 import { Fixtures } from "../fixtures";
+import { OutlineParser } from "../../src/build/OutlineParser";
+import { OutlineManager } from "../../src/model/OutlineManager";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -478,4 +480,106 @@ describe("ExternalFunctionPreProcessor", () => {
       expect(directives).toHaveLength(0);
     });
   });
+
+  describe("Declaration Checks", () => {
+    const mockContent = [
+      "exports.getName = function() {",
+      '  return "TestPlayer";',
+      "};",
+      "exports.addNumbers = function(a, b) {",
+      "  return a + b;",
+      "};",
+    ].join("\n");
+
+    async function runWithStory(inkContent: string): Promise<void> {
+      mockDocumentService.mockTextDocument(
+        mockVSCodeUri("/mocks.js"),
+        mockContent
+      );
+      const document = mockVSCodeDocument(testUri, inkContent);
+      await OutlineParser.getInstance().parseAndCache(document);
+      context = new PipelineContext(testUri, document);
+      await processor.run(context);
+    }
+
+    beforeEach(() => {
+      OutlineManager.getInstance().clear();
+    });
+
+    test("should accept declarations matching the mock functions", async () => {
+      // Setup
+      const inkContent = [
+        "// LINK mocks.js",
+        "EXTERNAL getName()",
+        "EXTERNAL addNumbers(a, b)",
+      ].join("\n");
+
+      // Execute
+      await runWithStory(inkContent);
+
+      // Assert
+      expect(context.getDiagnostics()).toHaveLength(0);
+    });
+
+    test("should report declarations with no mock function", async () => {
+      // Setup
+      const inkContent = [
+        "// LINK mocks.js",
+        "EXTERNAL getName()",
+        "EXTERNAL addNumbers(a, b)",
+        "EXTERNAL roll(sides)",
+      ].join("\n");
+
+      // Execute
+      await runWithStory(inkContent);
+
+      // Assert
+      const diagnostics = context.getDiagnostics();
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0].code).toBe("external-missing-mock");
+      expect(diagnostics[0].message).toContain("'roll(sides)'");
+      expect(diagnostics[0].range.start.line).toBe(3);
+      expect(diagnostics[0].range.start.character).toBe(9);
+      expect(diagnostics[0].relatedInformation?.[0].location.uri.path).toBe(
+        "/mocks.js"
+      );
+    });
+
+    test("should report declarations whose parameter count differs", async () => {
+      // Setup
+      const inkContent = [
+        "// LINK mocks.js",
+        "EXTERNAL getName(player)",
+        "EXTERNAL addNumbers(a, b)",
+      ].join("\n");
+
+      // Execute
+      await runWithStory(inkContent);
+
+      // Assert
+      const diagnostics = context.getDiagnostics();
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0].code).toBe("external-parameter-mismatch");
+      expect(diagnostics[0].message).toBe(
+        "Mock function 'getName' in 'mocks.js' takes 0 parameter(s), but the EXTERNAL declaration has 1."
+      );
+    });
+
+    test("should report mock functions which are not declared", async () => {
+      // Setup
+      const inkContent = ["// LINK mocks.js", "EXTERNAL getName()"].join(
+        "\n"
+      );
+
+      // Execute
+      await runWithStory(inkContent);
+
+      // Assert
+      const diagnostics = context.getDiagnostics();
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0].code).toBe("external-undeclared-mock");
+      expect(diagnostics[0].message).toContain("'addNumbers(a, b)'");
+      expect(diagnostics[0].range.start.line).toBe(0);
+    });
+  });
 });
@@ -467,6 +467,40 @@ describe("ExternalFunctionVM", () => {
     });
   });
 
+  describe("Function Signatures", () => {
+    test("should report the length of functions", () => {
+      // Setup
+      const jsContent = `
+        exports.none = function() { return 0; };
+        exports.two = (a, b) => a + b;
+      `;
+      vm.addJavaScriptContent(jsContent, "test.js");
+
+      // Execute & Assert
+      expect(vm.getFunctionLength("none")).toBe(0);
+      expect(vm.getFunctionLength("two")).toBe(2);
+      expect(vm.getFunctionLength("nonExistent")).toBeUndefined();
+    });
+
+    test("should read parameter names from the function source", () => {
+      // Setup
+      const jsContent = `
+        module.exports = {
+          greet: function(name, title = "Sir") { return title + name; },
+          double: x => x * 2,
+          sum(...values) { return values.length; },
+        };
+      `;
+      vm.addJavaScriptContent(jsContent, "test.js");
+
+      // Execute & Assert
+      expect(vm.getFunctionParameters("greet")).toEqual(["name", "title"]);
+      expect(vm.getFunctionParameters("double")).toEqual(["x"]);
+      expect(vm.getFunctionParameters("sum")).toEqual(["values"]);
+      expect(vm.getFunctionParameters("nonExistent")).toBeUndefined();
+    });
+  });
+
   describe("VM Disposal", () => {
     test("should dispose cleanly", () => {
       // Setup
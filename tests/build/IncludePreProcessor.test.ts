@@ -115,7 +115,47 @@ describe("IncludePreProcessor", () => {
 
     // Assert
     expect(context.includeDocuments.has("missing.ink")).toBe(false);
-    expect(context.getDiagnostics().length).toBe(0);
+    expect(context.getDiagnostics().length).toBe(1);
+    expect(context.getDiagnostics()[0].code).toBe("unresolved-include");
+  });
+
+  it("reports missing includes at the path of the directive", async () => {
+    // Setup
+    context = new PipelineContext(
+      rootUri,
+      mockVSCodeDocument(rootUri, "Hello\n  INCLUDE  chapters/missing.ink")
+    );
+    const entity = createIncludeEntity(rootUri, "chapters/missing.ink");
+    entity.definitionRange = new vscode.Range(1, 0, 1, 38);
+
+    // Execute
+    await processor.run(context);
+
+    // Assert
+    const diagnostics = context.getDiagnostics();
+    expect(diagnostics.length).toBe(1);
+    expect(diagnostics[0].message).toBe(
+      "Included file 'chapters/missing.ink' was not found at '/chapters/missing.ink'."
+    );
+    expect(diagnostics[0].severity).toBe(vscode.DiagnosticSeverity.Error);
+    expect(diagnostics[0].range.start.line).toBe(1);
+    expect(diagnostics[0].range.start.character).toBe(11);
+    expect(diagnostics[0].range.end.character).toBe(31);
+  });
+
+  it("reports includes whose path cannot be resolved", async () => {
+    // Setup
+    createIncludeEntity(rootUri, "/absolute.ink");
+
+    // Execute
+    await processor.run(context);
+
+    // Assert
+    const diagnostics = context.getDiagnostics();
+    expect(diagnostics.length).toBe(1);
+    expect(diagnostics[0].message).toBe(
+      "Cannot resolve the path of included file '/absolute.ink'."
+    );
   });
 
   it("updates the depedendcy graph with new includes", async () => {
@@ -162,4 +202,77 @@ describe("IncludePreProcessor", () => {
     expect(context.includeDocuments.has("a.ink")).toBe(true);
     // Should not throw or hang
   });
+
+  it("reports circular includes at the include closing the cycle", async () => {
+    // Setup
+    createIncludeEntity(rootUri, "a.ink");
+    const entity = createIncludeEntity(mockVSCodeUri("/a.ink"), "root.ink");
+    entity.definitionRange = new vscode.Range(0, 0, 0, 16);
+    mockDocService.mockTextDocument(
+      mockVSCodeUri("/a.ink"),
+      "INCLUDE root.ink"
+    );
+
+    // Execute
+    await processor.run(context);
+
+    // Assert
+    const diagnostics = context.getDiagnostics();
+    expect(diagnostics.length).toBe(1);
+    expect(diagnostics[0].code).toBe("circular-include");
+    expect(diagnostics[0].message).toBe(
+      "Circular include of 'root.ink': root.ink → a.ink → root.ink."
+    );
+    expect(diagnostics[0].uri.path).toBe("/a.ink");
+    expect(diagnostics[0].range).toEqual(new vscode.Range(0, 8, 0, 16));
+    expect(
+      context.getDependencies().get(mockVSCodeUri("/a.ink"))
+    ).toBeUndefined();
+  });
+
+  it("reports files included twice through different paths", async () => {
+    // Setup
+    const aUri = mockVSCodeUri("/a.ink");
+    const bUri = mockVSCodeUri("/b.ink");
+    const first = new OutlineEntity(
+      "a.ink",
+      EntityType.include,
+      new vscode.Range(0, 0, 0, 13),
+      new vscode.Range(0, 0, 0, 13),
+      false
+    );
+    const second = new OutlineEntity(
+      "b.ink",
+      EntityType.include,
+      new vscode.Range(1, 0, 1, 13),
+      new vscode.Range(1, 0, 1, 13),
+      false
+    );
+    context = new PipelineContext(
+      rootUri,
+      mockVSCodeDocument(rootUri, "INCLUDE a.ink\nINCLUDE b.ink")
+    );
+    outlineManager.setOutline(rootUri, [first, second]);
+    createIncludeEntity(aUri, "c.ink");
+    createIncludeEntity(bUri, "c.ink");
+    mockDocService.mockTextDocument(aUri, "INCLUDE c.ink");
+    mockDocService.mockTextDocument(bUri, "INCLUDE c.ink");
+    mockDocService.mockTextDocument(mockVSCodeUri("/c.ink"), "Hello, world!");
+
+    // Execute
+    await processor.run(context);
+
+    // Assert
+    const diagnostics = context.getDiagnostics();
+    expect(diagnostics.length).toBe(1);
+    expect(diagnostics[0].code).toBe("duplicate-include");
+    expect(diagnostics[0].message).toBe(
+      "Included file 'c.ink' is already included by 'a.ink' on line 1."
+    );
+    expect(diagnostics[0].uri.path).toBe("/b.ink");
+    expect(diagnostics[0].relatedInformation?.[0].location.uri.path).toBe(
+      "/a.ink"
+    );
+    expect(context.includeDocuments.has("c.ink")).toBe(true);
+  });
 });
@@ -0,0 +1,110 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { LintProcessor } from "../../src/build/LintProcessor";
+import { PipelineContext } from "../../src/build/PipelineContext";
+import { VSCodeServiceLocator } from "../../src/services/VSCodeServiceLocator";
+import { MockVSCodeConfigurationService } from "../__mocks__/MockVSCodeConfigurationService";
+import { mockVSCodeDocument } from "../__mocks__/mockVSCodeDocument";
+import { mockVSCodeUri } from "../__mocks__/mockVSCodeUri";
+
+describe("LintProcessor", () => {
+  let configService: MockVSCodeConfigurationService;
+  let processor: LintProcessor;
+
+  function makeContext(lines: string[]): PipelineContext {
+    const document = mockVSCodeDocument("/story.ink", lines.join("\n"));
+    return new PipelineContext(mockVSCodeUri("/story.ink"), document);
+  }
+
+  beforeEach(() => {
+    // Setup
+    configService = new MockVSCodeConfigurationService();
+    VSCodeServiceLocator.setConfigurationService(configService);
+    processor = new LintProcessor();
+  });
+
+  it("reports problems with the default severity and the rule as the code", async () => {
+    // Setup
+    const context = makeContext(["* Choice", "* Other -> END"]);
+
+    // Execute
+    await processor.run(context);
+
+    // Assert
+    const diagnostics = context.getDiagnostics();
+    expect(diagnostics.length).toBe(1);
+    expect(diagnostics[0].severity).toBe(vscode.DiagnosticSeverity.Warning);
+    expect(diagnostics[0].code).toBe("choice-without-divert");
+  });
+
+  it("applies the configured severity of each rule", async () => {
+    // Setup
+    configService.mockSettings["ink.lint.rules.choice-without-divert"] =
+      "error";
+    configService.mockSettings["ink.lint.rules.choice-trailing-whitespace"] =
+      "off";
+    const context = makeContext(["* Choice  ", "* Other -> END"]);
+
+    // Execute
+    await processor.run(context);
+
+    // Assert
+    const diagnostics = context.getDiagnostics();
+    expect(diagnostics.length).toBe(1);
+    expect(diagnostics[0].severity).toBe(vscode.DiagnosticSeverity.Error);
+  });
+
+  it("skips rules disabled by a comment in the document", async () => {
+    // Setup
+    const context = makeContext([
+      "// ink-lint-disable choice-without-divert",
+      "* Choice",
+      "-> END",
+    ]);
+
+    // Execute
+    await processor.run(context);
+
+    // Assert
+    expect(context.getDiagnostics()).toEqual([]);
+  });
+
+  it("lints included documents", async () => {
+    // Setup
+    const context = makeContext(["INCLUDE include.ink", "-> END"]);
+    const include = mockVSCodeDocument("/include.ink", "== knot\nText");
+    context.includeDocuments.set("include.ink", include);
+
+    // Execute
+    await processor.run(context);
+
+    // Assert
+    const diagnostics = context.getDiagnostics();
+    expect(diagnostics.length).toBe(1);
+    expect(diagnostics[0].uri.toString()).toBe(include.uri.toString());
+    expect(diagnostics[0].code).toBe("knot-without-end");
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { ReferenceParser } from "../../src/build/ReferenceParser";
+import { InkReference, ReferenceType } from "../../src/model/InkReference";
+import { ReferenceManager } from "../../src/model/ReferenceManager";
+import { mockVSCodeDocument } from "../__mocks__/mockVSCodeDocument";
+
+describe("ReferenceParser", () => {
+  function parse(lines: string[]): InkReference[] {
+    const document = mockVSCodeDocument("/story.ink", lines.join("\n"));
+    return new ReferenceParser().parse(document);
+  }
+
+  function summarise(references: InkReference[]): string[] {
+    return references.map((r) => `${r.type}:${r.segments.join(".")}`);
+  }
+
+  describe(".parse()", () => {
+    test("should find divert, tunnel and thread targets", () => {
+      // Setup
+      const lines = [
+        "-> cabin",
+        "-> cabin.interior -> outside ->",
+        "<- ambience",
+        "->-> next",
+        "-> END",
+      ];
+
+      // Execute
+      const references = parse(lines);
+
+      // Assert
+      expect(summarise(references)).toEqual([
+        "divert:cabin",
+        "tunnel:cabin.interior",
+        "tunnel:outside",
+        "thread:ambience",
+        "divert:next",
+      ]);
+    });
+
+    test("should record the range of each path segment", () => {
+      // Setup
+      const lines = ["Go -> cabin.interior"];
+
+      // Execute
+      const [reference] = parse(lines);
+
+      // Assert
+      expect(reference.ranges.map((r) => [r.start.character, r.end.character])).toEqual([
+        [6, 11],
+        [12, 20],
+      ]);
+    });
+
+    test("should ignore prose and comments", () => {
+      // Setup
+      const lines = [
+        "The cabin is cold.",
+        "* [Open the door] Gold glitters.",
+        "// -> hidden",
+        "== cabin ==",
+        "= interior(gold)",
+      ];
+
+      // Execute
+      const references = parse(lines);
+
+      // Assert
+      expect(references).toEqual([]);
+    });
+
+    test("should find reads, calls and assignments in logic", () => {
+      // Setup
+      const lines = [
+        "VAR total = base + bonus",
+        "~ gold = gold + add(1, count)",
+        "~ temp spare = visits",
+        "~ visits++",
+      ];
+
+      // Execute
+      const references = parse(lines);
+
+      // Assert
+      expect(summarise(references)).toEqual([
+        "read:base",
+        "read:bonus",
+        "assignment:gold",
+        "read:gold",
+        "call:add",
+        "read:count",
+        "read:visits",
+        "assignment:visits",
+      ]);
+    });
+
+    test("should find references in inline conditions and printed values", () => {
+      // Setup
+      const lines = [
+        "* {cabin.look and not seen} [Look] You have {gold} coins.",
+        "{has_key: The door opens|It is locked.}",
+        "{&Tick|Tock} {stopping: a|b} {colour == red}",
+      ];
+
+      // Execute
+      const references = parse(lines);
+
+      // Assert
+      expect(summarise(references)).toEqual([
+        "read:cabin.look",
+        "read:seen",
+        "read:gold",
+        "read:has_key",
+        "read:colour",
+        "read:red",
+      ]);
+    });
+
+    test("should find conditions within multiline conditionals only", () => {
+      // Setup
+      const lines = [
+        "{",
+        "- gold > 10: Rich -> shop",
+        "- else: Poor",
+        "}",
+        "{stopping:",
+        "- first: text",
+        "}",
+        "- gathered: text",
+      ];
+
+      // Execute
+      const references = parse(lines);
+
+      // Assert
+      expect(summarise(references)).toEqual(["read:gold", "divert:shop"]);
+    });
+
+    test("should find references in divert arguments", () => {
+      // Setup
+      const lines = ["-> travel(destination, -> home)"];
+
+      // Execute
+      const references = parse(lines);
+
+      // Assert
+      expect(summarise(references)).toEqual([
+        "read:destination",
+        "divert:home",
+        "divert:travel",
+      ]);
+    });
+  });
+
+  describe(".parseAndCache()", () => {
+    test("should cache the references in the ReferenceManager", () => {
+      // Setup
+      ReferenceManager.getInstance().clear();
+      const document = mockVSCodeDocument("/story.ink", "-> cabin");
+
+      // Execute
+      new ReferenceParser().parseAndCache(document);
+
+      // Assert
+      expect(
+        ReferenceManager.getInstance().getReferences(document.uri)?.[0].type
+      ).toBe(ReferenceType.divert);
+    });
+  });
+});
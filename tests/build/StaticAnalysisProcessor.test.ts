@@ -0,0 +1,134 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { StaticAnalysisProcessor } from "../../src/build/StaticAnalysisProcessor";
+import { CompilationProcessor } from "../../src/build/CompilationProcessor";
+import { OutlineParser } from "../../src/build/OutlineParser";
+import { PipelineContext } from "../../src/build/PipelineContext";
+import { OutlineManager } from "../../src/model/OutlineManager";
+import { VSCodeServiceLocator } from "../../src/services/VSCodeServiceLocator";
+import { MockVSCodeConfigurationService } from "../__mocks__/MockVSCodeConfigurationService";
+import { mockVSCodeDocument } from "../__mocks__/mockVSCodeDocument";
+import { mockVSCodeUri } from "../__mocks__/mockVSCodeUri";
+
+describe("StaticAnalysisProcessor", () => {
+  let processor: StaticAnalysisProcessor;
+
+  async function makeContext(
+    story: string[],
+    include?: string[]
+  ): Promise<PipelineContext> {
+    const document = mockVSCodeDocument("/story.ink", story.join("\n"));
+    const context = new PipelineContext(mockVSCodeUri("/story.ink"), document);
+    await OutlineParser.getInstance().parseAndCache(document);
+    if (include) {
+      const includeDocument = mockVSCodeDocument(
+        "/include.ink",
+        include.join("\n")
+      );
+      context.includeDocuments.set("include.ink", includeDocument);
+      await OutlineParser.getInstance().parseAndCache(includeDocument);
+    }
+    await new CompilationProcessor().run(context);
+    return context;
+  }
+
+  beforeEach(() => {
+    // Setup
+    OutlineManager.getInstance().clear();
+    VSCodeServiceLocator.setConfigurationService(
+      new MockVSCodeConfigurationService()
+    );
+    processor = new StaticAnalysisProcessor();
+  });
+
+  it("reports unreachable knots and stitches at their names", async () => {
+    // Setup
+    const context = await makeContext([
+      "-> start",
+      "== start ==",
+      "= one",
+      "-> END",
+      "= two",
+      "-> END",
+      "== orphan ==",
+      "-> END",
+    ]);
+
+    // Execute
+    await processor.run(context);
+
+    // Assert
+    const diagnostics = context.getDiagnostics();
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      "Stitch 'start.two' can never be reached from the start of the story.",
+      "Knot 'orphan' can never be reached from the start of the story.",
+    ]);
+    expect(diagnostics[1].range.start.line).toBe(6);
+    expect(diagnostics[1].range.start.character).toBe(3);
+    expect(diagnostics[1].severity).toBe(vscode.DiagnosticSeverity.Warning);
+  });
+
+  it("reports uncalled functions and unread variables in includes", async () => {
+    // Setup
+    const context = await makeContext(
+      ["INCLUDE include.ink", "~ score = double(score)", "-> END"],
+      [
+        "VAR score = 1",
+        "VAR unread = 0",
+        "~ unread = 2",
+        "=== function double(x) ===",
+        "~ return x * 2",
+        "=== function unused() ===",
+        "~ return 0",
+      ]
+    );
+
+    // Execute
+    await processor.run(context);
+
+    // Assert
+    const diagnostics = context.getDiagnostics();
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      "Variable 'unread' is assigned but its value is never read.",
+      "Function 'unused' is never called.",
+    ]);
+    expect(diagnostics[0].uri.toString()).toBe(
+      mockVSCodeUri("/include.ink").toString()
+    );
+  });
+
+  it("does nothing when the story failed to compile", async () => {
+    // Setup
+    const context = await makeContext(["== orphan", "{"]);
+    const before = context.getDiagnostics().length;
+
+    // Execute
+    await processor.run(context);
+
+    // Assert
+    expect(context.getDiagnostics().length).toBe(before);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { StoryAnalyzer } from "../../../src/build/analysis/StoryAnalyzer";
+import { Compiler } from "inkjs/compiler/Compiler";
+
+describe("StoryAnalyzer", () => {
+  function analyze(lines: string[]): StoryAnalyzer {
+    const story = new Compiler(lines.join("\n")).Compile();
+    return new StoryAnalyzer(story);
+  }
+
+  describe(".isReachable()", () => {
+    test("should follow diverts, tunnels, threads and choices", () => {
+      // Setup
+      const analyzer = analyze([
+        "-> start",
+        "== start ==",
+        "-> tunnel ->",
+        "<- thread",
+        "* [Go] -> chosen",
+        "== tunnel ==",
+        "->->",
+        "== thread ==",
+        "* [Thread] -> DONE",
+        "== chosen ==",
+        "-> END",
+        "== orphan ==",
+        "-> chosen",
+      ]);
+
+      // Execute & Assert
+      expect(analyzer.isReachable(["start"])).toBe(true);
+      expect(analyzer.isReachable(["tunnel"])).toBe(true);
+      expect(analyzer.isReachable(["thread"])).toBe(true);
+      expect(analyzer.isReachable(["chosen"])).toBe(true);
+      expect(analyzer.isReachable(["orphan"])).toBe(false);
+    });
+
+    test("should distinguish reachable stitches within a knot", () => {
+      // Setup
+      const analyzer = analyze([
+        "-> knot",
+        "== knot ==",
+        "= first",
+        "-> knot.labelled",
+        "= second",
+        "-> END",
+        "= labelled",
+        "- (here) -> END",
+      ]);
+
+      // Execute & Assert
+      expect(analyzer.isReachable(["knot", "first"])).toBe(true);
+      expect(analyzer.isReachable(["knot", "second"])).toBe(false);
+      expect(analyzer.isReachable(["knot", "labelled"])).toBe(true);
+    });
+
+    test("should treat divert target values as reachable", () => {
+      // Setup
+      const analyzer = analyze([
+        "VAR next = -> stored",
+        "-> next",
+        "== stored ==",
+        "-> END",
+      ]);
+
+      // Execute & Assert
+      expect(analyzer.isReachable(["stored"])).toBe(true);
+    });
+  });
+
+  describe(".isFunctionCalled()", () => {
+    test("should find calls from anywhere in the story", () => {
+      // Setup
+      const analyzer = analyze([
+        "~ used()",
+        "-> END",
+        "== orphan ==",
+        "{nested()} -> END",
+        "=== function used ===",
+        "~ return 1",
+        "=== function nested ===",
+        "~ return 2",
+        "=== function unused ===",
+        "~ return 3",
+      ]);
+
+      // Execute & Assert
+      expect(analyzer.isFunctionCalled("used")).toBe(true);
+      expect(analyzer.isFunctionCalled("nested")).toBe(true);
+      expect(analyzer.isFunctionCalled("unused")).toBe(false);
+    });
+  });
+
+  describe(".isVariableRead()", () => {
+    test("should distinguish variables which are only written", () => {
+      // Setup
+      const analyzer = analyze([
+        "VAR read = 1",
+        "VAR written = 1",
+        "~ written = read + 1",
+        "-> END",
+      ]);
+
+      // Execute & Assert
+      expect(analyzer.isVariableRead("read")).toBe(true);
+      expect(analyzer.isVariableRead("written")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { getCompilationErrorRange } from "../../../src/build/compiler/getCompilationErrorRange";
+
+describe("getCompilationErrorRange()", () => {
+  it("highlights a missing divert target", () => {
+    // Setup
+    const lineText = "* [Go] -> knot1.nostitch // comment";
+
+    // Execute
+    const range = getCompilationErrorRange(
+      lineText,
+      7,
+      "Divert target not found: '-> knot1.nostitch'"
+    );
+
+    // Assert
+    expect(range.start.line).toBe(7);
+    expect(range.start.character).toBe(10);
+    expect(range.end.character).toBe(24);
+  });
+
+  it("highlights a missing function call target", () => {
+    // Setup
+    const lineText = "Hello {bad_function()}.";
+
+    // Execute
+    const range = getCompilationErrorRange(
+      lineText,
+      0,
+      "Function call target not found: '-> bad_function'"
+    );
+
+    // Assert
+    expect(range.start.character).toBe(7);
+    expect(range.end.character).toBe(19);
+  });
+
+  it("highlights an unquoted trailing identifier", () => {
+    // Setup
+    const lineText = "You have {gold_coins} and {gold}.";
+
+    // Execute
+    const range = getCompilationErrorRange(
+      lineText,
+      0,
+      "Unresolved variable: gold"
+    );
+
+    // Assert
+    expect(range.start.character).toBe(27);
+    expect(range.end.character).toBe(31);
+  });
+
+  it("highlights the last occurrence of an unexpected character", () => {
+    // Setup
+    const lineText = "=== Pier ===P";
+
+    // Execute
+    const range = getCompilationErrorRange(
+      lineText,
+      0,
+      "Expected end of line after knot name definition but saw 'P'"
+    );
+
+    // Assert
+    expect(range.start.character).toBe(12);
+    expect(range.end.character).toBe(13);
+  });
+
+  it("highlights the end of the line when it ends unexpectedly", () => {
+    // Setup
+    const lineText = "  {x: ok  ";
+
+    // Execute
+    const range = getCompilationErrorRange(
+      lineText,
+      0,
+      "Expected closing brace '}' for inline logic but saw end of line"
+    );
+
+    // Assert
+    expect(range.start.character).toBe(7);
+    expect(range.end.character).toBe(8);
+  });
+
+  it("falls back to the content of the line", () => {
+    // Setup
+    const lineText = "    Hello world.  ";
+
+    // Execute
+    const range = getCompilationErrorRange(
+      lineText,
+      0,
+      "Apparent loose end exists where the flow runs out. Do you need a '-> DONE' statement?"
+    );
+
+    // Assert
+    expect(range.start.character).toBe(4);
+    expect(range.end.character).toBe(16);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Compiler } from "inkjs/compiler/Compiler";
+import { getLabelPaths } from "../../../src/build/compiler/getLabelPaths";
+
+describe("getLabelPaths()", () => {
+  it("maps labelled choices and gathers to the containers counting their visits", () => {
+    // Setup
+    const compiler = new Compiler(
+      [
+        "- (top) Top.",
+        "* (opening) [Open] -> cabin",
+        "== cabin ==",
+        "* (knock) [Knock]",
+        "  ** (again) [Again]",
+        "  -- (answered) Answered.",
+        "- (inside) Inside. -> cabin.cellar",
+        "= cellar",
+        "* (dig) [Dig] -> END",
+      ].join("\n")
+    );
+    compiler.Compile();
+
+    // Execute
+    const paths = getLabelPaths(compiler.parsedStory);
+
+    // Assert
+    expect(Object.fromEntries(paths)).toEqual({
+      top: "0.top",
+      opening: "0.top.c-0",
+      "cabin.knock": "cabin.0.c-0",
+      "cabin.again": "cabin.0.c-0.1.c-0",
+      "cabin.answered": "cabin.0.c-0.1.answered",
+      "cabin.inside": "cabin.0.inside",
+      "cabin.cellar.dig": "cabin.cellar.0.c-0",
+    });
+  });
+
+  it("returns no paths for a story without labels", () => {
+    // Setup
+    const compiler = new Compiler("Hello.\n-> END");
+    compiler.Compile();
+
+    // Execute
+    const paths = getLabelPaths(compiler.parsedStory);
+
+    // Assert
+    expect(paths.size).toBe(0);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { ChoiceTrailingWhitespaceRule } from "../../../src/build/lint/ChoiceTrailingWhitespaceRule";
+import { parseWeaveLines } from "../../../src/build/lint/parseWeaveLines";
+
+describe("ChoiceTrailingWhitespaceRule", () => {
+  let rule: ChoiceTrailingWhitespaceRule;
+
+  beforeEach(() => {
+    rule = new ChoiceTrailingWhitespaceRule();
+  });
+
+  it("reports whitespace before the closing bracket", () => {
+    // Setup
+    const lines = parseWeaveLines('* "Hello[ there  ]," I said.');
+
+    // Execute
+    const problems = rule.check(lines);
+
+    // Assert
+    expect(problems.length).toBe(1);
+    expect(problems[0].range.start.character).toBe(15);
+    expect(problems[0].range.end.character).toBe(17);
+  });
+
+  it("reports whitespace at the end of a choice line", () => {
+    // Setup
+    const lines = parseWeaveLines("* Hello  \nNot a choice  ");
+
+    // Execute
+    const problems = rule.check(lines);
+
+    // Assert
+    expect(problems.length).toBe(1);
+    expect(problems[0].range.start.line).toBe(0);
+    expect(problems[0].range.start.character).toBe(7);
+    expect(problems[0].range.end.character).toBe(9);
+  });
+
+  it("ignores whitespace before a comment", () => {
+    // Setup
+    const lines = parseWeaveLines("* Hello  // comment");
+
+    // Execute
+    const problems = rule.check(lines);
+
+    // Assert
+    expect(problems).toEqual([]);
+  });
+});
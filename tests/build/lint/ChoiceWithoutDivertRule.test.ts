@@ -0,0 +1,90 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { ChoiceWithoutDivertRule } from "../../../src/build/lint/ChoiceWithoutDivertRule";
+import { parseWeaveLines } from "../../../src/build/lint/parseWeaveLines";
+
+describe("ChoiceWithoutDivertRule", () => {
+  let rule: ChoiceWithoutDivertRule;
+
+  beforeEach(() => {
+    rule = new ChoiceWithoutDivertRule();
+  });
+
+  it("reports choices whose flow runs out", () => {
+    // Setup
+    const lines = parseWeaveLines(
+      ["=== knot ===", "* Stay", "  You stay.", "* Leave -> END"].join("\n")
+    );
+
+    // Execute
+    const problems = rule.check(lines);
+
+    // Assert
+    expect(problems.length).toBe(1);
+    expect(problems[0].range.start.line).toBe(1);
+    expect(problems[0].range.start.character).toBe(0);
+    expect(problems[0].range.end.character).toBe(6);
+  });
+
+  it("accepts choices with a divert in their body", () => {
+    // Setup
+    const lines = parseWeaveLines(
+      ["* Stay", "  You stay.", "  -> END"].join("\n")
+    );
+
+    // Execute
+    const problems = rule.check(lines);
+
+    // Assert
+    expect(problems).toEqual([]);
+  });
+
+  it("accepts choices collected by a later gather", () => {
+    // Setup
+    const lines = parseWeaveLines(
+      ["* A", "* B", "  * * C", "- Gathered", "-> END"].join("\n")
+    );
+
+    // Execute
+    const problems = rule.check(lines);
+
+    // Assert
+    expect(problems).toEqual([]);
+  });
+
+  it("does not look for gathers beyond the end of a stitch", () => {
+    // Setup
+    const lines = parseWeaveLines(
+      ["= one", "* A", "= two", "- Gathered", "-> END"].join("\n")
+    );
+
+    // Execute
+    const problems = rule.check(lines);
+
+    // Assert
+    expect(problems.length).toBe(1);
+    expect(problems[0].range.start.line).toBe(1);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { KnotWithoutEndRule } from "../../../src/build/lint/KnotWithoutEndRule";
+import { parseWeaveLines } from "../../../src/build/lint/parseWeaveLines";
+
+describe("KnotWithoutEndRule", () => {
+  let rule: KnotWithoutEndRule;
+
+  beforeEach(() => {
+    rule = new KnotWithoutEndRule();
+  });
+
+  it("reports knots which only divert within themselves", () => {
+    // Setup
+    const lines = parseWeaveLines(
+      [
+        "=== loop ===",
+        "= one",
+        "-> two",
+        "= two",
+        "* (again) Again -> loop.one",
+        "=== function fn() ===",
+        "~ return -> END",
+      ].join("\n")
+    );
+
+    // Execute
+    const problems = rule.check(lines);
+
+    // Assert
+    expect(problems.length).toBe(1);
+    expect(problems[0].message).toContain("'loop'");
+    expect(problems[0].range.start.character).toBe(4);
+    expect(problems[0].range.end.character).toBe(8);
+  });
+
+  it("accepts knots which end, return from a tunnel or divert elsewhere", () => {
+    // Setup
+    const lines = parseWeaveLines(
+      [
+        "=== ends ===",
+        "- -> DONE",
+        "=== tunnel ===",
+        "->->",
+        "=== onwards ===",
+        "-> ends",
+      ].join("\n")
+    );
+
+    // Execute
+    const problems = rule.check(lines);
+
+    // Assert
+    expect(problems).toEqual([]);
+  });
+
+  it("ignores diverts within comments", () => {
+    // Setup
+    const lines = parseWeaveLines(["== knot", "Text // -> END"].join("\n"));
+
+    // Execute
+    const problems = rule.check(lines);
+
+    // Assert
+    expect(problems.length).toBe(1);
+  });
+});
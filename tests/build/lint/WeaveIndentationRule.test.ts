@@ -0,0 +1,62 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { WeaveIndentationRule } from "../../../src/build/lint/WeaveIndentationRule";
+import { parseWeaveLines } from "../../../src/build/lint/parseWeaveLines";
+
+describe("WeaveIndentationRule", () => {
+  let rule: WeaveIndentationRule;
+
+  beforeEach(() => {
+    rule = new WeaveIndentationRule();
+  });
+
+  it("reports bullets indented differently from the first at their depth", () => {
+    // Setup
+    const lines = parseWeaveLines(
+      ["* A", "  * * A1", "    * * A2", " * B", "- Gather"].join("\n")
+    );
+
+    // Execute
+    const problems = rule.check(lines);
+
+    // Assert
+    expect(problems.map((p) => p.range.start.line)).toEqual([2, 3]);
+    expect(problems[0].range.end.character).toBe(7);
+    expect(problems[0].message).toContain("depth 2");
+  });
+
+  it("compares bullets within each knot and stitch separately", () => {
+    // Setup
+    const lines = parseWeaveLines(
+      ["== one", "* A -> END", "== two", "  * B -> END"].join("\n")
+    );
+
+    // Execute
+    const problems = rule.check(lines);
+
+    // Assert
+    expect(problems).toEqual([]);
+  });
+});
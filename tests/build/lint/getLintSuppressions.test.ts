@@ -0,0 +1,72 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { getLintSuppressions } from "../../../src/build/lint/getLintSuppressions";
+import { parseWeaveLines } from "../../../src/build/lint/parseWeaveLines";
+
+describe("getLintSuppressions", () => {
+  it("collects the rules named by suppression comments", () => {
+    // Setup
+    const lines = parseWeaveLines(
+      [
+        "// ink-lint-disable knot-without-end, choice-without-divert",
+        "Hello // ink-lint-disable choice-trailing-whitespace",
+      ].join("\n")
+    );
+
+    // Execute
+    const suppressions = getLintSuppressions(lines);
+
+    // Assert
+    expect(suppressions.all).toBe(false);
+    expect([...suppressions.rules].sort()).toEqual([
+      "choice-trailing-whitespace",
+      "choice-without-divert",
+      "knot-without-end",
+    ]);
+  });
+
+  it("disables every rule when no rules are named", () => {
+    // Setup
+    const lines = parseWeaveLines("//ink-lint-disable\n");
+
+    // Execute
+    const suppressions = getLintSuppressions(lines);
+
+    // Assert
+    expect(suppressions.all).toBe(true);
+  });
+
+  it("ignores other comments", () => {
+    // Setup
+    const lines = parseWeaveLines("// ink-lint-disabled\n// lint-disable x");
+
+    // Execute
+    const suppressions = getLintSuppressions(lines);
+
+    // Assert
+    expect(suppressions.all).toBe(false);
+    expect(suppressions.rules.size).toBe(0);
+  });
+});
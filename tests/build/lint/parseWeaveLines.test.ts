@@ -0,0 +1,98 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+  parseWeaveLines,
+  WeaveLineKind,
+} from "../../../src/build/lint/parseWeaveLines";
+
+describe("parseWeaveLines", () => {
+  it("classifies headers, choices, gathers and content", () => {
+    // Setup
+    const text = [
+      "=== knot ===",
+      "= stitch",
+      "  * * (lbl) Choice",
+      "- - -> END",
+      "-> knot",
+      "=== function fn(x) ===",
+    ].join("\n");
+
+    // Execute
+    const lines = parseWeaveLines(text);
+
+    // Assert
+    expect(lines.map((l) => l.kind)).toEqual([
+      WeaveLineKind.knot,
+      WeaveLineKind.stitch,
+      WeaveLineKind.choice,
+      WeaveLineKind.gather,
+      WeaveLineKind.content,
+      WeaveLineKind.function,
+    ]);
+    expect(lines.map((l) => l.name)).toEqual([
+      "knot",
+      "stitch",
+      "lbl",
+      undefined,
+      undefined,
+      "fn",
+    ]);
+    expect(lines[2].depth).toBe(2);
+    expect(lines[2].bulletStart).toBe(2);
+    expect(lines[2].bulletEnd).toBe(5);
+    expect(lines[3].depth).toBe(2);
+  });
+
+  it("treats the branches of a multiline conditional as content", () => {
+    // Setup
+    const text = ["{ x > 1:", "- yes", "- else:", "}", "- gather"].join("\n");
+
+    // Execute
+    const lines = parseWeaveLines(text);
+
+    // Assert
+    expect(lines.map((l) => l.kind)).toEqual([
+      WeaveLineKind.content,
+      WeaveLineKind.content,
+      WeaveLineKind.content,
+      WeaveLineKind.content,
+      WeaveLineKind.gather,
+    ]);
+  });
+
+  it("ignores bullets within comments", () => {
+    // Setup
+    const text = "// * not a choice\n/* - not a gather */";
+
+    // Execute
+    const lines = parseWeaveLines(text);
+
+    // Assert
+    expect(lines.map((l) => l.kind)).toEqual([
+      WeaveLineKind.content,
+      WeaveLineKind.content,
+    ]);
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { InkFormatOptions, InkFormatter } from "../../src/format/InkFormatter";
+
+describe("InkFormatter", () => {
+  const options: InkFormatOptions = {
+    knotHeaderMarker: "===",
+    closeKnotHeaders: true,
+    spaceBullets: true,
+    indentWeave: true,
+    indent: "  ",
+  };
+
+  /**
+   * Formats lines of Ink, returning the formatted lines.
+   */
+  function format(lines: string[], overrides?: Partial<InkFormatOptions>) {
+    return new InkFormatter({ ...options, ...overrides }).format(
+      lines.join("\n")
+    );
+  }
+
+  describe(".format()", () => {
+    test("should normalise knot, function and stitch headers", () => {
+      // Execute
+      const result = format([
+        "==cabin",
+        "  ==   function  add( a,ref b ,->c)==",
+        "=bunk( x )",
+      ]);
+
+      // Assert
+      expect(result).toEqual([
+        "=== cabin ===",
+        "=== function add(a, ref b, -> c) ===",
+        "= bunk(x)",
+      ]);
+    });
+
+    test("should use the preferred knot header style", () => {
+      // Execute
+      const result = format(["=== cabin ===", "== function f() =="], {
+        knotHeaderMarker: "==",
+        closeKnotHeaders: false,
+      });
+
+      // Assert
+      expect(result).toEqual(["== cabin", "== function f()"]);
+    });
+
+    test("should indent nested weave levels", () => {
+      // Execute
+      const result = format([
+        "== cabin ==",
+        "    Inside.",
+        "*Left",
+        "Dark.",
+        "**   Onwards",
+        "Darker.",
+        "--Back",
+        "Light.",
+        "  * Right",
+        "- Together",
+        "Again.",
+      ]);
+
+      // Assert
+      expect(result).toEqual([
+        "=== cabin ===",
+        "Inside.",
+        "* Left",
+        "  Dark.",
+        "  * * Onwards",
+        "    Darker.",
+        "  - - Back",
+        "  Light.",
+        "* Right",
+        "- Together",
+        "Again.",
+      ]);
+    });
+
+    test("should use the preferred bullet style", () => {
+      // Execute
+      const result = format(["* * Choice", "+ + + Sticky", "- - Gather"], {
+        spaceBullets: false,
+      });
+
+      // Assert
+      expect(result).toEqual(["  ** Choice", "    +++ Sticky", "  -- Gather"]);
+    });
+
+    test("should leave indentation unchanged when weave indentation is disabled", () => {
+      // Execute
+      const result = format(["*Left", "Dark.", "    * * Onwards"], {
+        indentWeave: false,
+      });
+
+      // Assert
+      expect(result).toEqual(["* Left", "Dark.", "    * * Onwards"]);
+    });
+
+    test("should normalise the spacing around diverts", () => {
+      // Execute
+      const result = format([
+        "Go.->knot",
+        "->   knot.stitch",
+        "->->",
+        "->tunnel->next",
+        "{x:->a|->b}",
+        "~ f(->a)",
+        "* [Run]->away",
+      ]);
+
+      // Assert
+      expect(result).toEqual([
+        "Go. -> knot",
+        "-> knot.stitch",
+        "->->",
+        "-> tunnel -> next",
+        "{x:-> a|-> b}",
+        "~ f(-> a)",
+        "* [Run] -> away",
+      ]);
+    });
+
+    test("should normalise the spacing of assignments", () => {
+      // Execute
+      const result = format([
+        "~x=5",
+        "~  temp   y+=x",
+        "~ z   -=  1",
+        "~x==y",
+        "~ x++",
+        "~return",
+      ]);
+
+      // Assert
+      expect(result).toEqual([
+        "~ x = 5",
+        "~ temp y += x",
+        "~ z -= 1",
+        "~ x==y",
+        "~ x++",
+        "~ return",
+      ]);
+    });
+
+    test("should normalise the spacing of conditions and expressions", () => {
+      // Execute
+      const result = format([
+        "{ x > 1 :rich|poor}",
+        "{  gold  }",
+        "{ &  a | b }",
+        "{ stopping :",
+      ]);
+
+      // Assert
+      expect(result).toEqual([
+        "{x > 1:rich|poor}",
+        "{gold}",
+        "{ &  a | b }",
+        "{ stopping :",
+      ]);
+    });
+
+    test("should indent multiline conditionals and their branches", () => {
+      // Execute
+      const result = format([
+        "{",
+        "-x > 1 :",
+        "Rich.",
+        "-   else:",
+        "    Poor.",
+        "  }",
+        "Done.",
+      ]);
+
+      // Assert
+      expect(result).toEqual([
+        "{",
+        "  - x > 1:",
+        "    Rich.",
+        "  - else:",
+        "    Poor.",
+        "}",
+        "Done.",
+      ]);
+    });
+
+    test("should indent multiline sequences without changing their content", () => {
+      // Execute
+      const result = format(["{stopping:", "-   First :", "- Second", "}"]);
+
+      // Assert
+      expect(result).toEqual([
+        "{stopping:",
+        "  -   First :",
+        "  - Second",
+        "}",
+      ]);
+    });
+
+    test("should keep comments", () => {
+      // Execute
+      const result = format([
+        "->knot   // Go",
+        "    // Note",
+        "/*",
+        "   *not a bullet",
+        "*/",
+        "~x=1 /* inline */ + 2",
+      ]);
+
+      // Assert
+      expect(result).toEqual([
+        "-> knot   // Go",
+        "// Note",
+        "/*",
+        "   *not a bullet",
+        "*/",
+        "~x=1 /* inline */ + 2",
+      ]);
+    });
+
+    test("should remove trailing whitespace and blank line indentation", () => {
+      // Execute
+      const result = format(["Text.   ", "    ", "* Choice  "]);
+
+      // Assert
+      expect(result).toEqual(["Text.", "", "* Choice"]);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { StoryGraph } from "../../src/graph/StoryGraph";
+import { StoryGraphBuilder } from "../../src/graph/StoryGraphBuilder";
+import { OutlineParser } from "../../src/build/OutlineParser";
+import { ReferenceParser } from "../../src/build/ReferenceParser";
+import { DependencyManager } from "../../src/model/DependencyManager";
+import { OutlineManager } from "../../src/model/OutlineManager";
+import { ReferenceManager } from "../../src/model/ReferenceManager";
+import { VSCodeServiceLocator } from "../../src/services/VSCodeServiceLocator";
+import { MockVSCodeDocumentService } from "../__mocks__/MockVSCodeDocumentService";
+import { mockVSCodeUri } from "../__mocks__/mockVSCodeUri";
+
+describe("StoryGraphBuilder", () => {
+  let builder: StoryGraphBuilder;
+  let docService: MockVSCodeDocumentService;
+  let rootUri: vscode.Uri;
+  let includeUri: vscode.Uri;
+
+  async function mockStory(uri: vscode.Uri, lines: string[]) {
+    const document = docService.mockTextDocument(uri, lines.join("\n"));
+    await new OutlineParser().parseAndCache(document);
+    new ReferenceParser().parseAndCache(document);
+  }
+
+  function labelsOf(graph: StoryGraph): Map<string, string> {
+    return new Map(graph.nodes.map((node) => [node.id, node.label]));
+  }
+
+  beforeEach(async () => {
+    OutlineManager.getInstance().clear();
+    DependencyManager.getInstance().clear();
+    ReferenceManager.getInstance().clear();
+    docService = new MockVSCodeDocumentService();
+    VSCodeServiceLocator.setDocumentService(docService);
+    builder = new StoryGraphBuilder();
+
+    rootUri = mockVSCodeUri("/root.ink");
+    includeUri = mockVSCodeUri("/chapter.ink");
+    DependencyManager.getInstance().addDependency(rootUri, includeUri);
+
+    await mockStory(rootUri, [
+      "INCLUDE chapter.ink", // 0
+      "-> intro", // 1
+      "== intro ==", // 2
+      "* (polite) [Say hello] -> meet", // 3
+      "* {polite} Wave[] at them", // 4
+      "  -> intro.details", // 5
+      "- <- ambience", // 6
+      "-> END", // 7
+      "= details", // 8
+      "~ x = double(2)", // 9
+      "-> meet ->", // 10
+      "-> END", // 11
+      "== unused ==", // 12
+      "-> intro", // 13
+    ]);
+    await mockStory(includeUri, [
+      "== meet ==", // 0
+      "->->", // 1
+      "== ambience ==", // 2
+      "-> DONE", // 3
+      "=== function double(x) ===", // 4
+      "~ return x * 2", // 5
+    ]);
+  });
+
+  describe(".build()", () => {
+    test("should include the knots and stitches of every file of the story", async () => {
+      // Execute
+      const graph = await builder.build(rootUri);
+
+      // Assert
+      expect(graph.rootUri).toBe(rootUri.toString());
+      expect(graph.nodes.map((node) => [node.type, node.label])).toEqual([
+        ["story", "root.ink"],
+        ["knot", "intro"],
+        ["stitch", "intro.details"],
+        ["knot", "unused"],
+        ["knot", "meet"],
+        ["knot", "ambience"],
+      ]);
+    });
+
+    test("should locate each node at its definition", async () => {
+      // Execute
+      const graph = await builder.build(rootUri);
+
+      // Assert
+      const meet = graph.nodes.find((node) => node.label === "meet");
+      expect(meet?.uri).toBe(includeUri.toString());
+      expect(meet?.line).toBe(0);
+    });
+
+    test("should connect nodes by diverts, choices, tunnels and threads, but not function calls", async () => {
+      // Execute
+      const graph = await builder.build(rootUri);
+
+      // Assert
+      const labels = labelsOf(graph);
+      expect(
+        graph.edges.map((edge) => [
+          labels.get(edge.from),
+          edge.type,
+          labels.get(edge.to),
+          edge.label,
+        ])
+      ).toEqual([
+        ["root.ink", "divert", "intro", undefined],
+        ["intro", "choice", "meet", "Say hello"],
+        ["intro", "choice", "intro.details", "Wave"],
+        ["intro", "thread", "ambience", undefined],
+        ["intro.details", "tunnel", "meet", undefined],
+        ["unused", "divert", "intro", undefined],
+      ]);
+    });
+
+    test("should remove duplicate edges", async () => {
+      // Setup
+      await mockStory(rootUri, [
+        "-> intro", // 0
+        "== intro ==", // 1
+        "-> intro", // 2
+        "-> intro", // 3
+      ]);
+
+      // Execute
+      const graph = await builder.build(rootUri);
+
+      // Assert
+      expect(graph.edges).toHaveLength(2);
+    });
+
+    test("should rank nodes by their distance from the top of the root story", async () => {
+      // Execute
+      const graph = await builder.build(rootUri);
+
+      // Assert
+      expect(
+        Object.fromEntries(graph.nodes.map((node) => [node.label, node.rank]))
+      ).toEqual({
+        "root.ink": 0,
+        intro: 1,
+        "intro.details": 2,
+        meet: 2,
+        ambience: 2,
+        unused: 0,
+      });
+    });
+  });
+});
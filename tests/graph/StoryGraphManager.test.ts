@@ -0,0 +1,269 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { StoryGraphManager } from "../../src/graph/StoryGraphManager";
+import { BuildEngine } from "../../src/build/BuildEngine";
+import { OutlineParser } from "../../src/build/OutlineParser";
+import { ReferenceParser } from "../../src/build/ReferenceParser";
+import { DependencyManager } from "../../src/model/DependencyManager";
+import { OutlineManager } from "../../src/model/OutlineManager";
+import { ReferenceManager } from "../../src/model/ReferenceManager";
+import { VSCodeServiceLocator } from "../../src/services/VSCodeServiceLocator";
+import { MockBuildEngine } from "../__mocks__/MockBuildEngine";
+import { MockVSCodeDocumentService } from "../__mocks__/MockVSCodeDocumentService";
+import { MockVSCodeExtensionService } from "../__mocks__/MockVSCodeExtensionService";
+import { MockWebviewPanel } from "../__mocks__/MockWebviewPanel";
+import { MockWorkspaceNavigationService } from "../__mocks__/MockWorkspaceNavigationService";
+import { createMockSuccessfulBuildResult } from "../__mocks__/mockBuildResult";
+import { mockVSCodeUri } from "../__mocks__/mockVSCodeUri";
+
+// Mock dependencies
+jest.mock("../../src/build/BuildEngine");
+
+describe("StoryGraphManager", () => {
+  let manager: StoryGraphManager;
+  let mockWebviewPanel: MockWebviewPanel;
+  let mockBuildEngine: MockBuildEngine;
+  let docService: MockVSCodeDocumentService;
+  let navigationService: MockWorkspaceNavigationService;
+  let storyUri: vscode.Uri;
+
+  async function mockStory(lines: string[]) {
+    const document = docService.mockTextDocument(storyUri, lines.join("\n"));
+    await new OutlineParser().parseAndCache(document);
+    new ReferenceParser().parseAndCache(document);
+  }
+
+  beforeEach(async () => {
+    OutlineManager.getInstance().clear();
+    DependencyManager.getInstance().clear();
+    ReferenceManager.getInstance().clear();
+
+    // Setup: Reset BuildEngine mock
+    mockBuildEngine = new MockBuildEngine();
+    (BuildEngine.getInstance as jest.Mock).mockReturnValue(mockBuildEngine);
+
+    // Setup: Mock services
+    docService = new MockVSCodeDocumentService();
+    navigationService = new MockWorkspaceNavigationService();
+    VSCodeServiceLocator.setDocumentService(docService);
+    VSCodeServiceLocator.setExtensionService(new MockVSCodeExtensionService());
+    VSCodeServiceLocator.setWorkspaceNavigationService(navigationService);
+
+    // Setup: Create mock webview panel
+    mockWebviewPanel = new MockWebviewPanel();
+    (vscode.window.createWebviewPanel as jest.Mock).mockReturnValue(
+      mockWebviewPanel
+    );
+
+    storyUri = mockVSCodeUri("/story.ink");
+    await mockStory([
+      "-> intro", // 0
+      "== intro ==", // 1
+      "-> END", // 2
+    ]);
+    manager = StoryGraphManager.getInstance();
+  });
+
+  afterEach(() => {
+    manager.dispose();
+  });
+
+  describe(".show()", () => {
+    test("should send the graph once the webview is ready", async () => {
+      // Execute
+      await manager.show(storyUri);
+      mockWebviewPanel.webview.simulateMessage({
+        command: "ready",
+        payload: {},
+      });
+
+      // Assert
+      expect(mockWebviewPanel.title).toBe("story.ink (Story Graph)");
+      expect(mockWebviewPanel.webview.getLastSentMessage()).toEqual({
+        command: "updateGraph",
+        payload: { graph: manager.getGraph() },
+      });
+      expect(manager.getGraph()?.nodes.map((node) => node.label)).toEqual([
+        "story.ink",
+        "intro",
+      ]);
+    });
+
+    test("should rebuild the graph when the story is recompiled", async () => {
+      // Setup
+      await manager.show(storyUri);
+      await mockStory([
+        "-> intro", // 0
+        "== intro ==", // 1
+        "-> outro", // 2
+        "== outro ==", // 3
+        "-> END", // 4
+      ]);
+
+      // Execute
+      mockBuildEngine.simulateStoryCompiled(
+        createMockSuccessfulBuildResult("/story.ink")
+      );
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      // Assert
+      expect(manager.getGraph()?.nodes.map((node) => node.label)).toEqual([
+        "story.ink",
+        "intro",
+        "outro",
+      ]);
+    });
+
+    test("should rebuild the graph of an included file when its root story is recompiled", async () => {
+      // Setup
+      const rootUri = mockVSCodeUri("/main.ink");
+      docService.mockTextDocument(rootUri, "INCLUDE story.ink");
+      DependencyManager.getInstance().addDependency(rootUri, storyUri);
+      await manager.show(storyUri);
+      await mockStory([
+        "-> intro", // 0
+        "== intro ==", // 1
+        "-> outro", // 2
+        "== outro ==", // 3
+        "-> END", // 4
+      ]);
+
+      // Execute
+      mockBuildEngine.simulateStoryCompiled(
+        createMockSuccessfulBuildResult("/main.ink")
+      );
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      // Assert
+      expect(manager.getGraph()?.nodes.map((node) => node.label)).toContain(
+        "outro"
+      );
+    });
+
+    test("should report an error when the graph cannot be rebuilt", async () => {
+      // Setup
+      await manager.show(storyUri);
+      jest
+        .spyOn(docService, "getTextDocument")
+        .mockRejectedValue(new Error("File not found"));
+
+      // Execute
+      mockBuildEngine.simulateStoryCompiled(
+        createMockSuccessfulBuildResult("/story.ink")
+      );
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      // Assert
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+        "Story Graph failed: File not found"
+      );
+    });
+  });
+
+  describe(".isShowing()", () => {
+    test("should match the root stories of an included file being shown", async () => {
+      // Setup
+      const rootUri = mockVSCodeUri("/main.ink");
+      docService.mockTextDocument(rootUri, "INCLUDE story.ink");
+      DependencyManager.getInstance().addDependency(rootUri, storyUri);
+
+      // Execute
+      await manager.show(storyUri);
+
+      // Assert
+      expect(manager.isShowing(rootUri)).toBe(true);
+    });
+
+    test("should only match the story being shown", async () => {
+      // Execute
+      await manager.show(storyUri);
+
+      // Assert
+      expect(manager.isShowing(mockVSCodeUri("/story.ink"))).toBe(true);
+      expect(manager.isShowing(mockVSCodeUri("/other.ink"))).toBe(false);
+    });
+  });
+
+  describe("when a node is clicked", () => {
+    test("should reveal the definition of the node", async () => {
+      // Setup
+      await manager.show(storyUri);
+      const intro = manager.getGraph()!.nodes[1];
+      const openDocumentEditor = jest
+        .spyOn(navigationService, "openDocumentEditor")
+        .mockResolvedValue(undefined);
+
+      // Execute
+      mockWebviewPanel.webview.simulateMessage({
+        command: "openNode",
+        payload: { id: intro.id },
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      // Assert
+      expect(openDocumentEditor).toHaveBeenCalledWith(
+        expect.objectContaining({ path: storyUri.path }),
+        1
+      );
+    });
+
+    test("should ignore unknown nodes", async () => {
+      // Setup
+      await manager.show(storyUri);
+
+      // Execute
+      mockWebviewPanel.webview.simulateMessage({
+        command: "openNode",
+        payload: { id: "missing" },
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      // Assert
+      expect(navigationService.getCallLog()).toEqual([]);
+    });
+
+    test("should report an error when the definition cannot be opened", async () => {
+      // Setup
+      await manager.show(storyUri);
+      const intro = manager.getGraph()!.nodes[1];
+      jest
+        .spyOn(navigationService, "openDocumentEditor")
+        .mockRejectedValue(new Error("File not found"));
+
+      // Execute
+      mockWebviewPanel.webview.simulateMessage({
+        command: "openNode",
+        payload: { id: intro.id },
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      // Assert
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+        "Could not open 'intro': File not found"
+      );
+    });
+  });
+});
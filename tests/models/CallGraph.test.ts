@@ -0,0 +1,153 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { CallGraph } from "../../src/model/CallGraph";
+import { OutlineManager } from "../../src/model/OutlineManager";
+import { DependencyManager } from "../../src/model/DependencyManager";
+import { OutlineParser } from "../../src/build/OutlineParser";
+import { ReferenceParser } from "../../src/build/ReferenceParser";
+import { ReferenceManager } from "../../src/model/ReferenceManager";
+import { ReferenceType } from "../../src/model/InkReference";
+import { mockVSCodeDocument } from "../__mocks__/mockVSCodeDocument";
+import { mockVSCodeUri } from "../__mocks__/mockVSCodeUri";
+
+describe("CallGraph", () => {
+  let graph: CallGraph;
+  let rootUri: vscode.Uri;
+  let includeUri: vscode.Uri;
+
+  async function mockOutline(uri: vscode.Uri, lines: string[]) {
+    const document = mockVSCodeDocument(uri, lines.join("\n"));
+    await new OutlineParser().parseAndCache(document);
+    new ReferenceParser().parseAndCache(document);
+  }
+
+  beforeEach(async () => {
+    OutlineManager.getInstance().clear();
+    DependencyManager.getInstance().clear();
+    ReferenceManager.getInstance().clear();
+    graph = new CallGraph();
+
+    rootUri = mockVSCodeUri("/root.ink");
+    includeUri = mockVSCodeUri("/chapter.ink");
+    DependencyManager.getInstance().addDependency(rootUri, includeUri);
+
+    await mockOutline(rootUri, [
+      "INCLUDE chapter.ink", // 0
+      "-> intro", // 1
+      "== intro ==", // 2
+      "-> meet ->", // 3
+      "<- ambience", // 4
+      "-> details.chat", // 5
+      "= details", // 6
+      "- (chat) Chat", // 7
+      "~ x = double(2)", // 8
+      "{intro}", // 9
+      "-> END", // 10
+    ]);
+    await mockOutline(includeUri, [
+      "== meet ==", // 0
+      "->->", // 1
+      "== ambience ==", // 2
+      "-> intro", // 3
+      "=== function double(x) ===", // 4
+      "~ return x * 2", // 5
+    ]);
+  });
+
+  describe(".getEdges()", () => {
+    test("should attribute each call to the innermost enclosing scope", () => {
+      // Execute
+      const edges = graph.getEdges(rootUri);
+
+      // Assert
+      expect(
+        edges.map((e) => [
+          e.type,
+          e.caller?.entity.identifier,
+          e.callee.entity.identifier,
+          e.range.start.line,
+        ])
+      ).toEqual([
+        [ReferenceType.divert, undefined, "intro", 1],
+        [ReferenceType.tunnel, "intro", "meet", 3],
+        [ReferenceType.thread, "intro", "ambience", 4],
+        [ReferenceType.divert, "intro", "details", 5],
+        [ReferenceType.call, "details", "double", 8],
+      ]);
+    });
+
+    test("should resolve callees defined in included files", () => {
+      // Execute
+      const edges = graph.getEdges(rootUri);
+
+      // Assert
+      expect(edges[1].callee.uri.toString()).toBe(includeUri.toString());
+    });
+  });
+
+  describe(".getIncomingEdges()", () => {
+    test("should find calls from every file of the story", () => {
+      // Setup
+      const intro = graph.getEdges(rootUri)[0].callee;
+
+      // Execute
+      const edges = graph.getIncomingEdges(intro);
+
+      // Assert
+      expect(
+        edges.map((e) => [e.uri.toString(), e.caller?.entity.identifier])
+      ).toEqual([
+        [rootUri.toString(), undefined],
+        [includeUri.toString(), "ambience"],
+      ]);
+    });
+  });
+
+  describe(".getOutgoingEdges()", () => {
+    test("should exclude calls made by nested stitches", () => {
+      // Setup
+      const intro = graph.getEdges(rootUri)[0].callee;
+
+      // Execute
+      const edges = graph.getOutgoingEdges(rootUri, intro);
+
+      // Assert
+      expect(edges.map((e) => e.callee.entity.identifier)).toEqual([
+        "meet",
+        "ambience",
+        "details",
+      ]);
+    });
+
+    test("should find calls made from the top of a document", () => {
+      // Execute
+      const edges = graph.getOutgoingEdges(rootUri);
+
+      // Assert
+      expect(edges.map((e) => e.callee.entity.identifier)).toEqual(["intro"]);
+    });
+  });
+});
@@ -419,6 +419,53 @@ describe("DependencyManager", () => {
     });
   });
 
+  describe("onDidChange()", () => {
+    afterEach(() => {
+      manager.offDidChange("test");
+    });
+
+    it("should notify listeners when dependencies are updated", () => {
+      // Setup
+      const listener = jest.fn();
+      manager.onDidChange("test", listener);
+
+      // Execute
+      manager.updateDependencies(
+        new Map([[mockVSCodeUri("/story.ink"), [mockVSCodeUri("/dep.ink")]]])
+      );
+
+      // Assert
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("should notify listeners when a node is deleted", () => {
+      // Setup
+      const storyUri = mockVSCodeUri("/story.ink");
+      manager.createNode(storyUri);
+      const listener = jest.fn();
+      manager.onDidChange("test", listener);
+
+      // Execute
+      manager.deleteNode(storyUri);
+
+      // Assert
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop notifying listeners once they are removed", () => {
+      // Setup
+      const listener = jest.fn();
+      manager.onDidChange("test", listener);
+      manager.offDidChange("test");
+
+      // Execute
+      manager.clear();
+
+      // Assert
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
   describe("removeDependency()", () => {
     it("should remove a dependency between two nodes", () => {
       // Setup
@@ -72,4 +72,19 @@ describe("OutlineEntity", () => {
     expect(parent.children[0]).toBe(child);
     expect(child.parent).toBe(parent);
   });
+
+  it("identifier strips parameters and list item values", () => {
+    // Setup
+    const names = ["travel(to, -> back)", "(door)", "door = 2", "plain"];
+
+    // Execute
+    const identifiers = names.map(
+      (name) =>
+        new OutlineEntity(name, EntityType.listItem, mockRange(), mockRange())
+          .identifier
+    );
+
+    // Assert
+    expect(identifiers).toEqual(["travel", "door", "door", "plain"]);
+  });
 });
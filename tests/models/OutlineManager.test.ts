@@ -64,4 +64,23 @@ describe("OutlineManager", () => {
     // Assert
     expect(manager.getOutline(uri)).toBeUndefined();
   });
+
+  it("should list the URIs with outlines until they are deleted", () => {
+    // Setup
+    const manager = OutlineManager.getInstance();
+    manager.clear();
+    const kept = mockVSCodeUri("/kept.ink");
+    const deleted = mockVSCodeUri("/deleted.ink");
+    manager.setOutline(kept, [mockEntity("knot1")]);
+    manager.setOutline(deleted, [mockEntity("knot2")]);
+
+    // Execute
+    manager.deleteOutline(deleted);
+
+    // Assert
+    expect(manager.getUris().map((u) => u.toString())).toEqual([
+      kept.toString(),
+    ]);
+    expect(manager.getOutline(deleted)).toBeUndefined();
+  });
 });
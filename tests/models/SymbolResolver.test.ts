@@ -0,0 +1,278 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import {
+  ResolvedReference,
+  SymbolResolver,
+} from "../../src/model/SymbolResolver";
+import { OutlineManager } from "../../src/model/OutlineManager";
+import { DependencyManager } from "../../src/model/DependencyManager";
+import { OutlineParser } from "../../src/build/OutlineParser";
+import { ReferenceParser } from "../../src/build/ReferenceParser";
+import { ReferenceManager } from "../../src/model/ReferenceManager";
+import { ReferenceType } from "../../src/model/InkReference";
+import { EntityType } from "../../src/model/OutlineEntity";
+import { mockVSCodeDocument } from "../__mocks__/mockVSCodeDocument";
+import { mockVSCodeUri } from "../__mocks__/mockVSCodeUri";
+
+describe("SymbolResolver", () => {
+  let resolver: SymbolResolver;
+  let outlineManager: OutlineManager;
+  let depManager: DependencyManager;
+  let rootUri: vscode.Uri;
+  let includeUri: vscode.Uri;
+
+  async function mockOutline(uri: vscode.Uri, lines: string[]) {
+    const document = mockVSCodeDocument(uri, lines.join("\n"));
+    await new OutlineParser().parseAndCache(document);
+    new ReferenceParser().parseAndCache(document);
+  }
+
+  beforeEach(async () => {
+    outlineManager = OutlineManager.getInstance();
+    outlineManager.clear();
+    depManager = DependencyManager.getInstance();
+    depManager.clear();
+    ReferenceManager.getInstance().clear();
+    resolver = new SymbolResolver(outlineManager, depManager);
+
+    rootUri = mockVSCodeUri("/root.ink");
+    includeUri = mockVSCodeUri("/chapter.ink");
+    depManager.addDependency(rootUri, includeUri);
+
+    await mockOutline(rootUri, [
+      "INCLUDE chapter.ink", // 0
+      "VAR gold = 0", // 1
+      "== intro ==", // 2
+      "* (greet) Hello", // 3
+      "= details", // 4
+      "- (greet) Gather", // 5
+      "-> greet", // 6
+      "== outro ==", // 7
+      "-> greet", // 8
+    ]);
+    await mockOutline(includeUri, [
+      "LIST colours = red, green", // 0
+      "== cabin ==", // 1
+      "= interior", // 2
+      "- (look) Look around", // 3
+      "-> intro.details", // 4
+    ]);
+  });
+
+  describe(".getStoryUris()", () => {
+    test("should return the root and its includes when given the root", () => {
+      // Execute
+      const uris = resolver.getStoryUris(rootUri).map((u) => u.toString());
+
+      // Assert
+      expect(uris).toEqual([rootUri.toString(), includeUri.toString()]);
+    });
+
+    test("should return the include and its root stories when given an include", () => {
+      // Execute
+      const uris = resolver.getStoryUris(includeUri).map((u) => u.toString());
+
+      // Assert
+      expect(uris).toEqual([includeUri.toString(), rootUri.toString()]);
+    });
+  });
+
+  describe(".findReferences()", () => {
+    test("should find references to a knot from another document", () => {
+      // Setup
+      const target = resolver.resolve(rootUri, 0, ["intro"])!;
+
+      // Execute
+      const references = resolver.findReferences(target);
+
+      // Assert
+      expect(references).toHaveLength(1);
+      expect(references[0].uri.toString()).toBe(includeUri.toString());
+      expect(references[0].type).toBe(ReferenceType.divert);
+      expect(references[0].range.start.line).toBe(4);
+      expect(references[0].range.start.character).toBe(3);
+    });
+
+    test("should find references to a stitch via its qualified path", () => {
+      // Setup
+      const target = resolver.resolve(rootUri, 0, ["intro", "details"])!;
+
+      // Execute
+      const references = resolver.findReferences(target);
+
+      // Assert
+      expect(references).toHaveLength(1);
+      expect(references[0].range.start.character).toBe(9);
+    });
+
+    test("should only find references resolving to the same label", () => {
+      // Setup
+      const target = resolver.resolve(rootUri, 6, ["greet"])!;
+
+      // Execute
+      const references = resolver.findReferences(target);
+
+      // Assert
+      expect(references.map((r) => r.range.start.line)).toEqual([6]);
+    });
+  });
+
+  describe(".indexReferences()", () => {
+    test("should index the same references as finding each entity's", () => {
+      // Setup
+      const targets = [
+        resolver.resolve(rootUri, 0, ["intro"])!,
+        resolver.resolve(rootUri, 0, ["intro", "details"])!,
+        resolver.resolve(rootUri, 6, ["greet"])!,
+        resolver.resolve(includeUri, 0, ["cabin"])!,
+      ];
+
+      const format = (references: ResolvedReference[]) =>
+        references.map(
+          (r) => `${r.uri.toString()}:${r.range.start.line}:${r.type}`
+        );
+
+      // Execute
+      const index = resolver.indexReferences(includeUri);
+
+      // Assert
+      for (const target of targets) {
+        expect(format(index.get(resolver.getEntityKey(target)) ?? [])).toEqual(
+          format(resolver.findReferences(target))
+        );
+      }
+    });
+  });
+
+  describe(".getGlobalEntities()", () => {
+    test("should return root entities and list items across the story", () => {
+      // Execute
+      const entities = resolver.getGlobalEntities(includeUri);
+
+      // Assert
+      expect(entities.map((e) => e.entity.identifier)).toEqual([
+        "colours",
+        "red",
+        "green",
+        "cabin",
+        "gold",
+        "intro",
+        "outro",
+      ]);
+    });
+  });
+
+  describe(".getScopeChain()", () => {
+    test("should return the enclosing stitch then knot", () => {
+      // Setup
+      const outline = outlineManager.getOutline(rootUri)!;
+
+      // Execute
+      const chain = resolver.getScopeChain(outline, 6);
+
+      // Assert
+      expect(chain.map((e) => e.name)).toEqual(["details", "intro"]);
+    });
+
+    test("should return an empty chain outside of any knot", () => {
+      // Setup
+      const outline = outlineManager.getOutline(rootUri)!;
+
+      // Execute
+      const chain = resolver.getScopeChain(outline, 1);
+
+      // Assert
+      expect(chain).toEqual([]);
+    });
+  });
+
+  describe(".resolve()", () => {
+    test("should resolve a label in the enclosing stitch before the knot", () => {
+      // Execute
+      const resolved = resolver.resolve(rootUri, 6, ["greet"]);
+
+      // Assert
+      expect(resolved?.entity.type).toBe(EntityType.label);
+      expect(resolved?.entity.definitionRange.start.line).toBe(5);
+    });
+
+    test("should not resolve a label from a different knot", () => {
+      // Execute
+      const resolved = resolver.resolve(rootUri, 8, ["greet"]);
+
+      // Assert
+      expect(resolved).toBeUndefined();
+    });
+
+    test("should resolve a qualified path defined in another document", () => {
+      // Execute
+      const resolved = resolver.resolve(rootUri, 6, [
+        "cabin",
+        "interior",
+        "look",
+      ]);
+
+      // Assert
+      expect(resolved?.uri.toString()).toBe(includeUri.toString());
+      expect(resolved?.entity.type).toBe(EntityType.label);
+      expect(resolved?.entity.definitionRange.start.line).toBe(3);
+    });
+
+    test("should resolve a knot and stitch from an included document", () => {
+      // Execute
+      const resolved = resolver.resolve(includeUri, 4, ["intro", "details"]);
+
+      // Assert
+      expect(resolved?.uri.toString()).toBe(rootUri.toString());
+      expect(resolved?.entity.type).toBe(EntityType.stitch);
+    });
+
+    test("should resolve global variables", () => {
+      // Execute
+      const resolved = resolver.resolve(includeUri, 4, ["gold"]);
+
+      // Assert
+      expect(resolved?.entity.type).toBe(EntityType.variable);
+    });
+
+    test("should resolve unqualified list items", () => {
+      // Execute
+      const resolved = resolver.resolve(rootUri, 1, ["green"]);
+
+      // Assert
+      expect(resolved?.entity.type).toBe(EntityType.listItem);
+      expect(resolved?.entity.parent?.name).toBe("colours");
+    });
+
+    test("should return undefined for unknown paths", () => {
+      // Execute
+      const resolved = resolver.resolve(rootUri, 6, ["intro", "missing"]);
+
+      // Assert
+      expect(resolved).toBeUndefined();
+    });
+  });
+});
@@ -30,6 +30,15 @@ import { MockWebviewPanel } from "../__mocks__/MockWebviewPanel";
 import { mockVSCodeDocument } from "../__mocks__/mockVSCodeDocument";
 import { createMockSuccessfulBuildResult } from "../__mocks__/mockBuildResult";
 import { mockPreviewState } from "../__mocks__/mockPreviewState";
+import { PreviewSaveSlotStore } from "../../src/preview/PreviewSaveSlotStore";
+import { MockVSCodeExtensionService } from "../__mocks__/MockVSCodeExtensionService";
+import { mockVSCodeUri } from "../__mocks__/mockVSCodeUri";
+import { getLabelPaths } from "../../src/build/compiler/getLabelPaths";
+import { Compiler, CompilerOptions } from "inkjs/compiler/Compiler";
+import * as vscode from "vscode";
+import { OutlineParser } from "../../src/build/OutlineParser";
+import { DependencyManager } from "../../src/model/DependencyManager";
+import { OutlineManager } from "../../src/model/OutlineManager";
 
 // Mock dependencies
 jest.mock("../../src/build/BuildEngine");
@@ -79,6 +88,13 @@ describe("PreviewController", () => {
       );
     });
 
+    test("should include the variables panel", () => {
+      // Assert
+      expect(mockWebviewPanel.webview.html).toContain('id="variables-panel"');
+      expect(mockWebviewPanel.webview.html).toContain('id="button-variables"');
+      expect(mockWebviewPanel.webview.html).toContain('id="visits-list"');
+    });
+
     test("should set up message handlers", () => {
       // Assert
       expect(onDidReceiveMessageSpy).toHaveBeenCalled();
@@ -259,6 +275,32 @@ describe("PreviewController", () => {
       );
     });
 
+    test("should update the turn index and variables after a choice", () => {
+      // Execute
+      mockWebviewPanel.webview.simulateMessage({
+        command: "action",
+        payload: {
+          type: "SELECT_CHOICE",
+          payload: { choiceIndex: 0 },
+        },
+      });
+
+      // Assert
+      expect(postMessageSpy).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          command: "updateState",
+          payload: expect.objectContaining({
+            state: expect.objectContaining({
+              story: expect.objectContaining({
+                turnIndex: 0,
+                variables: expect.any(Array),
+              }),
+            }),
+          }),
+        })
+      );
+    });
+
     test("should handle story restart", () => {
       // Execute
       mockWebviewPanel.webview.simulateMessage({
@@ -308,18 +350,455 @@ describe("PreviewController", () => {
     });
   });
 
+  describe("save slots", () => {
+    let saveSlotStore: PreviewSaveSlotStore;
+
+    function getTranscript(): string[] {
+      return controller
+        .getState()
+        .story.events.map((event) => (event.type === "text" ? event.text : ""));
+    }
+
+    beforeEach(async () => {
+      // Setup: Initialize controller and select a choice
+      const initPromise = controller.initializeStory(mockStoryManager);
+      mockWebviewPanel.webview.simulateMessage({
+        command: "ready",
+        payload: {},
+      });
+      await initPromise;
+      saveSlotStore = new PreviewSaveSlotStore(
+        new MockVSCodeExtensionService().getWorkspaceState(),
+        mockVSCodeUri("/mock/path/test.ink")
+      );
+      controller.setSaveSlotStore(saveSlotStore);
+      mockWebviewPanel.webview.simulateMessage({
+        command: "action",
+        payload: { type: "SELECT_CHOICE", payload: { choiceIndex: 1 } },
+      });
+    });
+
+    test("should save the story state and history to a slot", async () => {
+      // Execute
+      const slot = await controller.saveState("In the clearing");
+
+      // Assert
+      expect(saveSlotStore.getSlot("In the clearing")).toEqual(slot);
+      expect(slot!.storyState).toBe(mockStoryManager.getStateJson());
+      expect(slot!.history).toEqual([
+        { type: "START_STORY", payload: undefined },
+        { type: "SELECT_CHOICE", payload: { choiceIndex: 1 } },
+      ]);
+      expect(slot!.story).toEqual(controller.getState().story);
+    });
+
+    test("should restore the story and transcript when loading a slot", async () => {
+      // Setup
+      const slot = await controller.saveState("In the clearing");
+      const transcript = getTranscript();
+      mockWebviewPanel.webview.simulateMessage({
+        command: "action",
+        payload: { type: "START_STORY" },
+      });
+
+      // Execute
+      const loaded = controller.loadState(slot!);
+
+      // Assert
+      expect(loaded).toBe(true);
+      expect(getTranscript()).toEqual(transcript);
+      expect(controller.getState().ui.canRewind).toBe(true);
+      expect(mockStoryManager.getCurrentChoices().map((c) => c.text)).toEqual([
+        "Drink from fountain",
+        "Examine fountain",
+      ]);
+    });
+
+    test("should rewind to the choices made before the slot was saved", async () => {
+      // Setup
+      const slot = await controller.saveState("In the clearing");
+      mockWebviewPanel.webview.simulateMessage({
+        command: "action",
+        payload: { type: "START_STORY" },
+      });
+      controller.loadState(slot!);
+
+      // Execute
+      mockWebviewPanel.webview.simulateMessage({
+        command: "action",
+        payload: { type: "REWIND_STORY" },
+      });
+
+      // Assert
+      expect(controller.getState().story.isStart).toBe(true);
+      expect(mockStoryManager.getCurrentChoices()).toHaveLength(3);
+    });
+
+    test("should show an error when a slot cannot be loaded", async () => {
+      // Setup
+      const slot = await controller.saveState("Broken");
+      const transcript = getTranscript();
+
+      // Execute
+      const loaded = controller.loadState({ ...slot!, storyState: "{}" });
+
+      // Assert
+      expect(loaded).toBe(false);
+      expect(getTranscript()).toEqual(transcript);
+      expect(controller.getState().story.errors).toEqual([
+        expect.objectContaining({
+          message: expect.stringContaining("'Broken' could not be loaded"),
+        }),
+      ]);
+    });
+
+    test("should show an error when a slot cannot be saved", async () => {
+      // Setup
+      (vscode.window.showInputBox as jest.Mock).mockResolvedValue("Broken");
+      jest
+        .spyOn(saveSlotStore, "saveSlot")
+        .mockRejectedValue(new Error("Storage is full"));
+
+      // Execute
+      mockWebviewPanel.webview.simulateMessage({
+        command: "saveState",
+        payload: {},
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      // Assert
+      expect(controller.getState().story.errors).toEqual([
+        {
+          message: "The state could not be saved. Storage is full",
+          severity: "error",
+        },
+      ]);
+    });
+  });
+
+  describe("variable edits", () => {
+    const source = [
+      "VAR gold = 0",
+      "* [Look]",
+      "  You have {gold} gold.",
+      "  -> END",
+    ].join("\n");
+
+    function getGold(): string | undefined {
+      return controller
+        .getState()
+        .story.variables.find((variable) => variable.name === "gold")?.value;
+    }
+
+    beforeEach(async () => {
+      // Setup: Initialize controller with a story with a variable
+      const initPromise = controller.initializeStory(
+        new PreviewStoryManager(new Compiler(source).Compile())
+      );
+      mockWebviewPanel.webview.simulateMessage({
+        command: "ready",
+        payload: {},
+      });
+      await initPromise;
+    });
+
+    test("should prompt for the new value and set it in the story", async () => {
+      // Setup
+      const showInputBox = vscode.window.showInputBox as jest.Mock;
+      showInputBox.mockResolvedValue("50");
+
+      // Execute
+      mockWebviewPanel.webview.simulateMessage({
+        command: "editVariable",
+        payload: { name: "gold" },
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      // Assert
+      expect(showInputBox).toHaveBeenCalledWith(
+        expect.objectContaining({ title: "Set gold", value: "0" })
+      );
+      expect(getGold()).toBe("50");
+      expect(controller.getState().ui.canRewind).toBe(true);
+    });
+
+    test("should reproduce the edit when the story is replayed", async () => {
+      // Setup
+      mockWebviewPanel.webview.simulateMessage({
+        command: "action",
+        payload: {
+          type: "SET_VARIABLE",
+          payload: { name: "gold", value: "50" },
+        },
+      });
+
+      // Execute
+      await controller.refreshStory(
+        new PreviewStoryManager(new Compiler(source).Compile())
+      );
+      mockWebviewPanel.webview.simulateMessage({
+        command: "action",
+        payload: { type: "SELECT_CHOICE", payload: { choiceIndex: 0 } },
+      });
+
+      // Assert
+      expect(getGold()).toBe("50");
+      expect(
+        controller
+          .getState()
+          .story.events.some(
+            (event) =>
+              event.type === "text" && event.text === "You have 50 gold.\n"
+          )
+      ).toBe(true);
+    });
+
+    test("should undo the edit when rewinding", () => {
+      // Setup
+      mockWebviewPanel.webview.simulateMessage({
+        command: "action",
+        payload: {
+          type: "SET_VARIABLE",
+          payload: { name: "gold", value: "50" },
+        },
+      });
+
+      // Execute
+      mockWebviewPanel.webview.simulateMessage({
+        command: "action",
+        payload: { type: "REWIND_STORY" },
+      });
+
+      // Assert
+      expect(getGold()).toBe("0");
+    });
+  });
+
+  describe("knot jumps", () => {
+    const story = [
+      "INCLUDE chapter_9.ink",
+      "Start.",
+      "* [Go] -> chapter_1",
+      "== chapter_1 ==",
+      "One.",
+      "-> END",
+      "== scene(place) ==",
+      "In {place}.",
+      "-> END",
+    ].join("\n");
+    const chapter = [
+      "== chapter_9 ==",
+      "Nine.",
+      "-> END",
+      "= duel",
+      "En garde!",
+      "* [Parry] -> END",
+    ].join("\n");
+
+    function getTranscript(): string[] {
+      return controller
+        .getState()
+        .story.events.map((event) => (event.type === "text" ? event.text : ""));
+    }
+
+    function compileStory(): PreviewStoryManager {
+      const source = `${story.replace("INCLUDE chapter_9.ink", "")}\n${chapter}`;
+      return new PreviewStoryManager(new Compiler(source).Compile());
+    }
+
+    beforeEach(async () => {
+      // Setup: Parse the outline of the story and its include
+      OutlineManager.getInstance().clear();
+      DependencyManager.getInstance().clear();
+      const storyDocument = mockVSCodeDocument("/story.ink", story);
+      const chapterDocument = mockVSCodeDocument("/chapter_9.ink", chapter);
+      await new OutlineParser().parseAndCache(storyDocument);
+      await new OutlineParser().parseAndCache(chapterDocument);
+      DependencyManager.getInstance().addDependency(
+        storyDocument.uri,
+        chapterDocument.uri
+      );
+      controller.setStoryUri(storyDocument.uri);
+
+      // Setup: Initialize controller with the story
+      const initPromise = controller.initializeStory(compileStory());
+      mockWebviewPanel.webview.simulateMessage({
+        command: "ready",
+        payload: {},
+      });
+      await initPromise;
+    });
+
+    test("should list the knots and stitches of the story and its includes", () => {
+      // Execute
+      const paths = controller.getKnotPaths();
+
+      // Assert
+      expect(paths.map(({ path }) => path)).toEqual([
+        "chapter_1",
+        "chapter_9",
+        "chapter_9.duel",
+      ]);
+      expect(paths[1].uri.fsPath).toBe("/chapter_9.ink");
+    });
+
+    test("should prompt for a knot and jump to it", async () => {
+      // Setup
+      const showQuickPick = vscode.window.showQuickPick as jest.Mock;
+      showQuickPick.mockImplementation(async (items) => items[2]);
+
+      // Execute
+      mockWebviewPanel.webview.simulateMessage({
+        command: "goToKnot",
+        payload: {},
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      // Assert
+      expect(getTranscript()).toEqual(["Start.\n", "En garde!\n"]);
+      expect(controller.getState().story.choices).toEqual([
+        expect.objectContaining({ text: "Parry" }),
+      ]);
+      expect(controller.getState().ui.canRewind).toBe(true);
+    });
+
+    test("should reproduce the jump when the story is replayed", async () => {
+      // Setup
+      mockWebviewPanel.webview.simulateMessage({
+        command: "action",
+        payload: { type: "GO_TO_PATH", payload: { path: "chapter_9" } },
+      });
+
+      // Execute
+      await controller.refreshStory(compileStory());
+
+      // Assert
+      expect(getTranscript()).toEqual(["Start.\n", "Nine.\n"]);
+      expect(controller.getState().story.isEnded).toBe(true);
+    });
+
+    test("should return to where the jump was made when rewinding", () => {
+      // Setup
+      mockWebviewPanel.webview.simulateMessage({
+        command: "action",
+        payload: { type: "GO_TO_PATH", payload: { path: "chapter_9.duel" } },
+      });
+
+      // Execute
+      mockWebviewPanel.webview.simulateMessage({
+        command: "action",
+        payload: { type: "REWIND_STORY" },
+      });
+
+      // Assert
+      expect(getTranscript()).toEqual(["Start.\n"]);
+      expect(controller.getState().story.choices).toEqual([
+        expect.objectContaining({ text: "Go" }),
+      ]);
+    });
+  });
+
+  describe("visit counts", () => {
+    const source = [
+      "-> cabin",
+      "== cabin ==",
+      "* (knock) [Knock]",
+      "  No answer.",
+      "  -> cabin",
+      "* [Leave] -> END",
+    ].join("\n");
+
+    function compileStory(): PreviewStoryManager {
+      const compiler = new Compiler(
+        source,
+        new CompilerOptions(null, [], true)
+      );
+      const story = compiler.Compile();
+      return new PreviewStoryManager(
+        story,
+        getLabelPaths(compiler.parsedStory)
+      );
+    }
+
+    beforeEach(async () => {
+      // Setup: Parse the outline of the story
+      OutlineManager.getInstance().clear();
+      DependencyManager.getInstance().clear();
+      const document = mockVSCodeDocument("/cabin.ink", source);
+      await new OutlineParser().parseAndCache(document);
+      controller.setStoryUri(document.uri);
+
+      // Setup: Initialize controller with the story
+      const initPromise = controller.initializeStory(compileStory());
+      mockWebviewPanel.webview.simulateMessage({
+        command: "ready",
+        payload: {},
+      });
+      await initPromise;
+    });
+
+    test("should show the visits of each knot and label as the story progresses", () => {
+      // Execute
+      mockWebviewPanel.webview.simulateMessage({
+        command: "action",
+        payload: { type: "SELECT_CHOICE", payload: { choiceIndex: 0 } },
+      });
+
+      // Assert
+      expect(controller.getState().story.visits).toEqual([
+        { path: "cabin", visits: 1, turnsSince: 1, lastVisitTurnIndex: -1 },
+        {
+          path: "cabin.knock",
+          visits: 1,
+          turnsSince: 0,
+          lastVisitTurnIndex: 0,
+        },
+      ]);
+    });
+
+    test("should reset the visits when the story is restarted", () => {
+      // Setup
+      mockWebviewPanel.webview.simulateMessage({
+        command: "action",
+        payload: { type: "SELECT_CHOICE", payload: { choiceIndex: 0 } },
+      });
+
+      // Execute
+      mockWebviewPanel.webview.simulateMessage({
+        command: "action",
+        payload: { type: "START_STORY" },
+      });
+
+      // Assert
+      expect(controller.getState().story.visits).toEqual([
+        { path: "cabin", visits: 1, turnsSince: 0, lastVisitTurnIndex: -1 },
+        {
+          path: "cabin.knock",
+          visits: 0,
+          turnsSince: -1,
+          lastVisitTurnIndex: undefined,
+        },
+      ]);
+    });
+  });
+
   describe(".getState()", () => {
     test("should return current state from state manager", () => {
       // Setup
-      const expectedState = mockPreviewState({ isEnded: true }, { canRewind: true });
-      jest.spyOn(controller['stateManager'], 'getState').mockReturnValue(expectedState);
+      const expectedState = mockPreviewState(
+        { isEnded: true },
+        { canRewind: true }
+      );
+      jest
+        .spyOn(controller["stateManager"], "getState")
+        .mockReturnValue(expectedState);
 
       // Execute
       const result = controller.getState();
 
       // Assert
       expect(result).toBe(expectedState);
-      expect(controller['stateManager'].getState).toHaveBeenCalledTimes(1);
+      expect(controller["stateManager"].getState).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -0,0 +1,120 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { PreviewSaveSlot } from "../../src/preview/PreviewSaveSlot";
+import { PreviewSaveSlotStore } from "../../src/preview/PreviewSaveSlotStore";
+import { MockVSCodeExtensionService } from "../__mocks__/MockVSCodeExtensionService";
+import { mockPreviewStoryState } from "../__mocks__/mockPreviewState";
+import { mockVSCodeUri } from "../__mocks__/mockVSCodeUri";
+
+describe("PreviewSaveSlotStore", () => {
+  let extensionService: MockVSCodeExtensionService;
+  let store: PreviewSaveSlotStore;
+
+  function mockSlot(name: string): PreviewSaveSlot {
+    return {
+      name,
+      savedAt: "2025-01-01T00:00:00.000Z",
+      storyState: "{}",
+      history: [{ type: "START_STORY" }],
+      story: mockPreviewStoryState(),
+    };
+  }
+
+  beforeEach(() => {
+    extensionService = new MockVSCodeExtensionService();
+    store = new PreviewSaveSlotStore(
+      extensionService.getWorkspaceState(),
+      mockVSCodeUri("/story.ink")
+    );
+  });
+
+  describe(".saveSlot()", () => {
+    test("should list the most recently saved slot first", async () => {
+      // Setup
+      await store.saveSlot(mockSlot("Chapter 1"));
+
+      // Execute
+      await store.saveSlot(mockSlot("Chapter 3, after the duel"));
+
+      // Assert
+      expect(store.getSlots().map((slot) => slot.name)).toEqual([
+        "Chapter 3, after the duel",
+        "Chapter 1",
+      ]);
+    });
+
+    test("should replace a slot with the same name", async () => {
+      // Setup
+      await store.saveSlot(mockSlot("Chapter 1"));
+      const replacement = { ...mockSlot("Chapter 1"), storyState: "{1}" };
+
+      // Execute
+      await store.saveSlot(replacement);
+
+      // Assert
+      expect(store.getSlots()).toEqual([replacement]);
+    });
+
+    test("should persist slots in the workspace state", async () => {
+      // Setup
+      await store.saveSlot(mockSlot("Chapter 1"));
+
+      // Execute
+      const reopened = new PreviewSaveSlotStore(
+        extensionService.getWorkspaceState(),
+        mockVSCodeUri("/story.ink")
+      );
+
+      // Assert
+      expect(reopened.getSlot("Chapter 1")).toEqual(mockSlot("Chapter 1"));
+    });
+
+    test("should keep the slots of each story separate", async () => {
+      // Setup
+      const other = new PreviewSaveSlotStore(
+        extensionService.getWorkspaceState(),
+        mockVSCodeUri("/other.ink")
+      );
+
+      // Execute
+      await store.saveSlot(mockSlot("Chapter 1"));
+      await other.saveSlot(mockSlot("Prologue"));
+
+      // Assert
+      expect(store.getSlots().map((slot) => slot.name)).toEqual(["Chapter 1"]);
+      expect(other.getSlots().map((slot) => slot.name)).toEqual(["Prologue"]);
+    });
+  });
+
+  describe(".getSlot()", () => {
+    test("should return undefined for an unknown slot", () => {
+      // Execute
+      const slot = store.getSlot("Missing");
+
+      // Assert
+      expect(slot).toBeUndefined();
+    });
+  });
+});
@@ -25,6 +25,7 @@
 import { PreviewStateManager } from "../../src/preview/PreviewStateManager";
 import { PreviewAction } from "../../src/preview/PreviewAction";
 import { PreviewStoryManager } from "../../src/preview/PreviewStoryManager";
+import { SetVisitCountsAction } from "../../src/preview/actions/SetVisitCountsAction";
 import { mockPreviewState } from "../__mocks__/mockPreviewState";
 
 class MockPreviewAction implements PreviewAction {
@@ -74,6 +75,9 @@ const createMockStoryManager = (): jest.Mocked<PreviewStoryManager> => {
     isEnded: jest.fn().mockReturnValue(false),
     canContinue: jest.fn().mockReturnValue(true),
     getCurrentChoices: jest.fn().mockReturnValue([]),
+    getTurnIndex: jest.fn().mockReturnValue(-1),
+    getVariables: jest.fn().mockReturnValue([]),
+    getVisitCounts: jest.fn().mockReturnValue([]),
     onError: jest.fn(),
   } as any; // Use 'as any' to bypass strict type checking for the mock
 };
@@ -708,6 +712,81 @@ describe("PreviewStateManager", () => {
     });
   });
 
+  describe(".restore()", () => {
+    test("should restore the story state and clear errors", () => {
+      // Setup
+      const story = mockPreviewState({
+        isStart: false,
+        events: [{ type: "text", text: "After the duel.", tags: [] }],
+        choices: [{ index: 0, text: "Rest", tags: [] }],
+        errors: [{ message: "Old error", severity: "error" }],
+      }).story;
+
+      // Execute
+      const state = stateManager.restore(story, []);
+
+      // Assert
+      expect(state.story.events).toEqual(story.events);
+      expect(state.story.choices).toEqual(story.choices);
+      expect(state.story.errors).toEqual([]);
+      expect(state.ui.canRewind).toBe(true);
+    });
+
+    test("should restore a story state saved before some of its fields existed", () => {
+      // Setup
+      const story = {
+        events: [{ type: "text" as const, text: "After the duel.", tags: [] }],
+        choices: [],
+        errors: [],
+        isEnded: false,
+        isStart: false,
+        lastChoiceIndex: 0,
+      };
+
+      // Execute
+      const state = stateManager.restore(story, []);
+
+      // Assert
+      expect(state.story.variables).toEqual([]);
+      expect(state.story.visits).toEqual([]);
+      expect(state.story.turnIndex).toBe(-1);
+      expect(() =>
+        stateManager.dispatch(
+          new SetVisitCountsAction([{ path: "intro", visits: 1 }], 0)
+        )
+      ).not.toThrow();
+    });
+
+    test("should replace the history", () => {
+      // Setup
+      stateManager.dispatch(createMockAction("ACTION_1"));
+      const restored = createMockAction("RESTORED");
+
+      // Execute
+      stateManager.restore(mockPreviewState().story, [restored]);
+
+      // Assert
+      expect(stateManager.getHistory()).toEqual([restored]);
+      expect(restored.apply).not.toHaveBeenCalled();
+    });
+
+    test("should send the restored state", () => {
+      // Setup
+      const callback = jest.fn();
+      stateManager.setOnStateChange(callback);
+
+      // Execute
+      stateManager.restore(mockPreviewState({ isEnded: true }).story, []);
+
+      // Assert
+      expect(callback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          story: expect.objectContaining({ isEnded: true }),
+        })
+      );
+    });
+  });
+
   describe(".setOnStateChange()", () => {
     test("should call callback when state changes", () => {
       // Setup
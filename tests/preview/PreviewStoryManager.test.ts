@@ -0,0 +1,357 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { Compiler, CompilerOptions } from "inkjs/compiler/Compiler";
+import { PreviewStoryManager } from "../../src/preview/PreviewStoryManager";
+import { getLabelPaths } from "../../src/build/compiler/getLabelPaths";
+
+describe("PreviewStoryManager", () => {
+  function createStoryManager(lines: string[]): PreviewStoryManager {
+    const story = new Compiler(lines.join("\n")).Compile();
+    return new PreviewStoryManager(story);
+  }
+
+  describe(".choosePath()", () => {
+    const lines = [
+      "Start.",
+      "* [Go] -> chapter_1",
+      "== chapter_1 ==",
+      "One.",
+      "-> END",
+      "== chapter_9 ==",
+      "Nine.",
+      "= duel",
+      "En garde!",
+      "* [Parry] -> END",
+    ];
+
+    test("should jump to a stitch and continue from it", () => {
+      // Setup
+      const storyManager = createStoryManager(lines);
+      storyManager.continue();
+
+      // Execute
+      const result = storyManager.choosePath("chapter_9.duel");
+
+      // Assert
+      expect(result.events).toEqual([
+        expect.objectContaining({ text: "En garde!\n" }),
+      ]);
+      expect(result.choices.map((choice) => choice.text)).toEqual(["Parry"]);
+      expect(storyManager.getTurnIndex()).toBe(0);
+    });
+
+    test("should return an error for a path which is not in the story", () => {
+      // Setup
+      const storyManager = createStoryManager(lines);
+      storyManager.continue();
+
+      // Execute
+      const result = storyManager.choosePath("chapter_10");
+
+      // Assert
+      expect(result.isEnded).toBe(true);
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          message: expect.stringContaining("chapter_10"),
+          severity: "error",
+        }),
+      ]);
+    });
+
+    test("should tell whether the story contains a path", () => {
+      // Setup
+      const storyManager = createStoryManager(lines);
+
+      // Execute
+      const paths = ["chapter_9", "chapter_9.duel", "chapter_9.nope", "nope"];
+
+      // Assert
+      expect(paths.map((path) => storyManager.hasPath(path))).toEqual([
+        true,
+        true,
+        false,
+        false,
+      ]);
+    });
+  });
+
+  describe(".getVisitCounts()", () => {
+    const lines = [
+      "-> cabin",
+      "== cabin ==",
+      "* (knock) [Knock] -> cabin",
+      "* [Leave] -> forest.path",
+      "== forest ==",
+      "= path",
+      "- (clearing) A clearing.",
+      "-> END",
+    ];
+
+    function createCountingStoryManager(
+      countAllVisits: boolean
+    ): PreviewStoryManager {
+      const compiler = new Compiler(
+        lines.join("\n"),
+        new CompilerOptions(null, [], countAllVisits)
+      );
+      const story = compiler.Compile();
+      const storyManager = new PreviewStoryManager(
+        story,
+        getLabelPaths(compiler.parsedStory)
+      );
+      storyManager.setVisitPaths([
+        "cabin",
+        "cabin.knock",
+        "forest",
+        "forest.path",
+        "forest.path.clearing",
+        "missing",
+      ]);
+      return storyManager;
+    }
+
+    test("should count visits of knots, stitches and labels", () => {
+      // Setup
+      const storyManager = createCountingStoryManager(true);
+      storyManager.continue();
+      storyManager.selectChoice(0);
+
+      // Execute
+      storyManager.selectChoice(0);
+
+      // Assert
+      expect(storyManager.getVisitCounts()).toEqual([
+        { path: "cabin", visits: 1 },
+        { path: "cabin.knock", visits: 1 },
+        { path: "forest", visits: 1 },
+        { path: "forest.path", visits: 1 },
+        { path: "forest.path.clearing", visits: 1 },
+      ]);
+    });
+
+    test("should leave out those whose visits are not counted by the story", () => {
+      // Setup
+      const storyManager = createCountingStoryManager(false);
+      storyManager.continue();
+
+      // Execute
+      const visitCounts = storyManager.getVisitCounts();
+
+      // Assert: Only once-only choices are counted without counting all visits
+      expect(visitCounts).toEqual([{ path: "cabin.knock", visits: 0 }]);
+    });
+  });
+
+  describe(".getVariables()", () => {
+    test("should format each kind of global variable, sorted by name", () => {
+      // Setup
+      const storyManager = createStoryManager([
+        'VAR name = "Ann"',
+        "VAR gold = 3",
+        "VAR brave = true",
+        "VAR next = -> cabin",
+        "CONST LIMIT = 10",
+        "Hello.",
+        "-> cabin",
+        "== cabin ==",
+        "-> END",
+      ]);
+
+      // Execute
+      const variables = storyManager.getVariables();
+
+      // Assert
+      expect(variables).toEqual([
+        { name: "brave", type: "boolean", value: "true" },
+        { name: "gold", type: "number", value: "3" },
+        { name: "name", type: "string", value: '"Ann"' },
+        { name: "next", type: "divert", value: "-> cabin" },
+      ]);
+    });
+
+    test("should include lists with the lists their items originate from", () => {
+      // Setup
+      const storyManager = createStoryManager([
+        "LIST doors = front, (back)",
+        "LIST mood = happy, sad",
+        "VAR both = (front, happy)",
+        "-> END",
+      ]);
+
+      // Execute
+      const variables = storyManager.getVariables();
+
+      // Assert
+      expect(variables).toEqual([
+        {
+          name: "both",
+          type: "list",
+          value: "front, happy",
+          origins: ["doors", "mood"],
+        },
+        { name: "doors", type: "list", value: "back", origins: ["doors"] },
+        { name: "mood", type: "list", value: "", origins: ["mood"] },
+      ]);
+    });
+
+    test("should reflect values changed by the story", () => {
+      // Setup
+      const storyManager = createStoryManager([
+        "VAR gold = 3",
+        "* [Earn]",
+        "  ~ gold += 2",
+        "- Done.",
+        "-> END",
+      ]);
+      storyManager.continue();
+
+      // Execute
+      storyManager.selectChoice(0);
+
+      // Assert
+      expect(storyManager.getVariables()).toEqual([
+        { name: "gold", type: "number", value: "5" },
+      ]);
+    });
+  });
+
+  describe(".getTurnIndex()", () => {
+    test("should increment the turn index with each choice made", () => {
+      // Setup
+      const storyManager = createStoryManager(["* [Go]", "- Gone.", "-> END"]);
+      storyManager.continue();
+      const before = storyManager.getTurnIndex();
+
+      // Execute
+      storyManager.selectChoice(0);
+
+      // Assert
+      expect(before).toBe(-1);
+      expect(storyManager.getTurnIndex()).toBe(0);
+    });
+  });
+  describe(".setVariable()", () => {
+    const lines = [
+      "LIST doors = front, (back)",
+      "LIST mood = happy, sad",
+      'VAR name = "Ann"',
+      "VAR gold = 3",
+      "VAR ratio = 0.5",
+      "VAR brave = false",
+      "VAR both = (front, happy)",
+      "VAR next = -> cabin",
+      "{gold} {ratio} {brave} {name} {both}",
+      "-> cabin",
+      "== cabin ==",
+      "-> END",
+    ];
+
+    function getValue(storyManager: PreviewStoryManager, name: string) {
+      return storyManager.getVariables().find((v) => v.name === name)?.value;
+    }
+
+    test("should set each kind of editable variable", () => {
+      // Setup
+      const storyManager = createStoryManager(lines);
+
+      // Execute
+      storyManager.setVariable("name", "Bob");
+      storyManager.setVariable("gold", "7");
+      storyManager.setVariable("ratio", "2");
+      storyManager.setVariable("brave", "TRUE");
+      storyManager.setVariable("both", "back, mood.sad");
+
+      // Assert
+      expect(getValue(storyManager, "name")).toBe('"Bob"');
+      expect(getValue(storyManager, "gold")).toBe("7");
+      expect(getValue(storyManager, "brave")).toBe("true");
+      expect(getValue(storyManager, "both")).toBe("back, sad");
+      expect(storyManager.continue().events).toEqual([
+        expect.objectContaining({ text: "7 2 true Bob back, sad\n" }),
+      ]);
+    });
+
+    test("should keep numbers whole unless given a fraction or the variable is a float", () => {
+      // Setup
+      const storyManager = createStoryManager([
+        "VAR gold = 3",
+        "VAR ratio = 0.5",
+        "{gold / 2} {ratio / 2}",
+        "-> END",
+      ]);
+
+      // Execute
+      storyManager.setVariable("gold", "5");
+      storyManager.setVariable("ratio", "5");
+
+      // Assert
+      expect(storyManager.continue().events).toEqual([
+        expect.objectContaining({ text: "2 2.5\n" }),
+      ]);
+    });
+
+    test("should clear a list when given no items", () => {
+      // Setup
+      const storyManager = createStoryManager(lines);
+
+      // Execute
+      storyManager.setVariable("both", " ");
+
+      // Assert
+      expect(getValue(storyManager, "both")).toBe("");
+    });
+
+    test.each([
+      ["gold", "lots", "Enter a number."],
+      ["gold", "", "Enter a number."],
+      ["brave", "yes", "Enter true or false."],
+      ["both", "front, nope", "The list item 'nope' does not exist."],
+      ["next", "-> cabin", "Divert targets cannot be edited."],
+      ["missing", "1", "The story has no global variable named 'missing'."],
+    ])("should reject %s = '%s'", (name, text, message) => {
+      // Setup
+      const storyManager = createStoryManager(lines);
+
+      // Execute
+      const validation = storyManager.validateVariable(name, text);
+
+      // Assert
+      expect(validation).toBe(message);
+      expect(() => storyManager.setVariable(name, text)).toThrow(message);
+    });
+
+    test("should accept valid values without setting them when validating", () => {
+      // Setup
+      const storyManager = createStoryManager(lines);
+
+      // Execute
+      const validation = storyManager.validateVariable("gold", "10");
+
+      // Assert
+      expect(validation).toBeUndefined();
+      expect(getValue(storyManager, "gold")).toBe("3");
+    });
+  });
+});
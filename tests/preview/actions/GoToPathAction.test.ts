@@ -0,0 +1,119 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { GoToPathAction } from "../../../src/preview/actions/GoToPathAction";
+import { mockPreviewState } from "../../__mocks__/mockPreviewState";
+import { mockPreviewActionContext } from "../../__mocks__/mockPreviewActionContext";
+import { PreviewActionContext } from "../../../src/preview/PreviewActionContext";
+import { AddStoryEventsAction } from "../../../src/preview/actions/AddStoryEventsAction";
+import { SetCurrentChoicesAction } from "../../../src/preview/actions/SetCurrentChoicesAction";
+import { AddErrorsAction } from "../../../src/preview/actions/AddErrorsAction";
+
+describe("GoToPathAction", () => {
+  describe("apply()", () => {
+    test("should leave the start of the story and allow rewinding", () => {
+      // Setup
+      const action = new GoToPathAction("chapter_9");
+      const currentState = mockPreviewState(
+        { isStart: true },
+        { canRewind: false }
+      );
+
+      // Execute
+      const newState = action.apply(currentState);
+
+      // Assert
+      expect(newState.story.isStart).toBe(false);
+      expect(newState.ui.canRewind).toBe(true);
+    });
+  });
+
+  describe("effect()", () => {
+    let mockContext: PreviewActionContext;
+
+    beforeEach(() => {
+      mockContext = mockPreviewActionContext();
+    });
+
+    test("should jump to the path and apply the story progress", () => {
+      // Setup
+      const action = new GoToPathAction("chapter_9.duel");
+      const events = [{ type: "text", text: "En garde!\n", tags: [] }];
+      const choices = [{ index: 0, text: "Parry", tags: [] }];
+      (mockContext.storyManager.choosePath as jest.Mock).mockReturnValue({
+        events,
+        choices,
+        errors: [],
+        isEnded: false,
+      });
+
+      // Execute
+      action.effect(mockContext);
+
+      // Assert
+      expect(mockContext.storyManager.choosePath).toHaveBeenCalledWith(
+        "chapter_9.duel"
+      );
+      expect(mockContext.dispatch).toHaveBeenCalledWith(
+        new AddStoryEventsAction(events as any)
+      );
+      expect(mockContext.dispatch).toHaveBeenCalledWith(
+        new SetCurrentChoicesAction(choices)
+      );
+    });
+
+    test("should handle a path which is no longer in the story", () => {
+      // Setup
+      const action = new GoToPathAction("chapter_9");
+      (mockContext.storyManager.hasPath as jest.Mock).mockReturnValue(false);
+
+      // Execute
+      action.effect(mockContext);
+
+      // Assert
+      expect(mockContext.dispatch).toHaveBeenCalledWith(
+        new AddErrorsAction([
+          {
+            message:
+              "The knot or stitch 'chapter_9' that was jumped to is no longer in the story after live refreshing it.",
+            severity: "info",
+          },
+        ])
+      );
+      expect(mockContext.storyManager.choosePath).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Instance Properties", () => {
+    test("should have cursor set to true and the path as its payload", () => {
+      // Execute
+      const action = new GoToPathAction("chapter_9");
+
+      // Assert
+      expect(action.cursor).toBe(true);
+      expect(action.type).toBe(GoToPathAction.actionType);
+      expect(action.payload).toEqual({ path: "chapter_9" });
+    });
+  });
+});
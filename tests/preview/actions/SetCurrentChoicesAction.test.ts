@@ -100,6 +100,9 @@ describe("SetCurrentChoicesAction", () => {
         errors: [],
         isEnded: false,
         isStart: false,
+        turnIndex: -1,
+        variables: [],
+        visits: [],
       });
 
       // Execute
@@ -144,6 +147,9 @@ describe("SetCurrentChoicesAction", () => {
         errors: [],
         isEnded: false,
         isStart: false,
+        turnIndex: -1,
+        variables: [],
+        visits: [],
       });
 
       // Execute
@@ -175,6 +181,9 @@ describe("SetCurrentChoicesAction", () => {
         errors: [],
         isEnded: false,
         isStart: false,
+        turnIndex: -1,
+        variables: [],
+        visits: [],
       });
 
       // Execute
@@ -0,0 +1,104 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { SetVariableAction } from "../../../src/preview/actions/SetVariableAction";
+import { AddErrorsAction } from "../../../src/preview/actions/AddErrorsAction";
+import { SetVariablesAction } from "../../../src/preview/actions/SetVariablesAction";
+import { mockPreviewActionContext } from "../../__mocks__/mockPreviewActionContext";
+import { mockPreviewState } from "../../__mocks__/mockPreviewState";
+
+describe("SetVariableAction", () => {
+  describe("apply()", () => {
+    test("should allow the edit to be rewound", () => {
+      // Setup
+      const action = new SetVariableAction("gold", "5");
+
+      // Execute
+      const newState = action.apply(mockPreviewState({}, { canRewind: false }));
+
+      // Assert
+      expect(newState.ui.canRewind).toBe(true);
+    });
+  });
+
+  describe("effect()", () => {
+    test("should set the variable and refresh the variables of the state", () => {
+      // Setup
+      const context = mockPreviewActionContext();
+      const variables = [{ name: "gold", type: "number", value: "5" }];
+      (context.storyManager.getVariables as jest.Mock).mockReturnValue(
+        variables
+      );
+      const action = new SetVariableAction("gold", "5");
+
+      // Execute
+      action.effect(context);
+
+      // Assert
+      expect(context.storyManager.setVariable).toHaveBeenCalledWith(
+        "gold",
+        "5"
+      );
+      expect(context.dispatch).toHaveBeenCalledWith(
+        new SetVariablesAction(variables as any, -1)
+      );
+    });
+
+    test("should add a warning when the variable cannot be set", () => {
+      // Setup
+      const context = mockPreviewActionContext();
+      (context.storyManager.setVariable as jest.Mock).mockImplementation(() => {
+        throw new Error("Enter a number.");
+      });
+      const action = new SetVariableAction("gold", "lots");
+
+      // Execute
+      action.effect(context);
+
+      // Assert
+      expect(context.dispatch).toHaveBeenCalledTimes(1);
+      expect(context.dispatch).toHaveBeenCalledWith(
+        new AddErrorsAction([
+          {
+            message:
+              "The variable 'gold' could not be set to 'lots'. Enter a number.",
+            severity: "warning",
+          },
+        ])
+      );
+    });
+  });
+
+  describe("Instance Properties", () => {
+    test("should have cursor set to true and the edit as its payload", () => {
+      // Execute
+      const action = new SetVariableAction("gold", "5");
+
+      // Assert
+      expect(action.cursor).toBe(true);
+      expect(action.type).toBe(SetVariableAction.actionType);
+      expect(action.payload).toEqual({ name: "gold", value: "5" });
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { SetVariablesAction } from "../../../src/preview/actions/SetVariablesAction";
+import { StoryVariable } from "../../../src/preview/PreviewState";
+import { mockPreviewState } from "../../__mocks__/mockPreviewState";
+
+describe("SetVariablesAction", () => {
+  describe("apply()", () => {
+    test("should set the variables and turn index", () => {
+      // Setup
+      const variables: StoryVariable[] = [
+        { name: "gold", type: "number", value: "3" },
+      ];
+      const action = new SetVariablesAction(variables, 0);
+
+      // Execute
+      const newState = action.apply(mockPreviewState());
+
+      // Assert
+      expect(newState.story.variables).toEqual([
+        { name: "gold", type: "number", value: "3", previousValue: undefined },
+      ]);
+      expect(newState.story.turnIndex).toBe(0);
+    });
+
+    test("should mark variables changed since the last choice with their previous value", () => {
+      // Setup
+      const state = mockPreviewState({
+        variables: [
+          { name: "gold", type: "number", value: "3" },
+          { name: "name", type: "string", value: '"Ann"' },
+        ],
+      });
+      const action = new SetVariablesAction(
+        [
+          { name: "gold", type: "number", value: "5" },
+          { name: "name", type: "string", value: '"Ann"' },
+        ],
+        1
+      );
+
+      // Execute
+      const newState = action.apply(state);
+
+      // Assert
+      expect(newState.story.variables).toEqual([
+        { name: "gold", type: "number", value: "5", previousValue: "3" },
+        {
+          name: "name",
+          type: "string",
+          value: '"Ann"',
+          previousValue: undefined,
+        },
+      ]);
+    });
+
+    test("should clear changes which are no longer the latest", () => {
+      // Setup
+      const state = mockPreviewState({
+        variables: [
+          { name: "gold", type: "number", value: "5", previousValue: "3" },
+        ],
+      });
+      const action = new SetVariablesAction(
+        [{ name: "gold", type: "number", value: "5" }],
+        2
+      );
+
+      // Execute
+      const newState = action.apply(state);
+
+      // Assert
+      expect(newState.story.variables[0].previousValue).toBeUndefined();
+    });
+
+    test("should keep the changes of the last choice when variables are edited during the turn", () => {
+      // Setup
+      const state = mockPreviewState({
+        turnIndex: 1,
+        variables: [
+          { name: "gold", type: "number", value: "5", previousValue: "3" },
+          { name: "name", type: "string", value: '"Ann"' },
+        ],
+      });
+      const action = new SetVariablesAction(
+        [
+          { name: "gold", type: "number", value: "5" },
+          { name: "name", type: "string", value: '"Bob"' },
+        ],
+        1
+      );
+
+      // Execute
+      const newState = action.apply(state);
+
+      // Assert
+      expect(newState.story.variables).toEqual([
+        { name: "gold", type: "number", value: "5", previousValue: "3" },
+        {
+          name: "name",
+          type: "string",
+          value: '"Bob"',
+          previousValue: '"Ann"',
+        },
+      ]);
+    });
+  });
+
+  describe("Instance Properties", () => {
+    test("should have cursor set to false for non-historical action", () => {
+      // Execute
+      const action = new SetVariablesAction([], -1);
+
+      // Assert
+      expect(action.cursor).toBe(false);
+      expect(action.type).toBe(SetVariablesAction.actionType);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { SetVisitCountsAction } from "../../../src/preview/actions/SetVisitCountsAction";
+import { mockPreviewState } from "../../__mocks__/mockPreviewState";
+
+describe("SetVisitCountsAction", () => {
+  describe("apply()", () => {
+    test("should set the visit counts, with the turns since each was visited", () => {
+      // Setup
+      const action = new SetVisitCountsAction(
+        [
+          { path: "cabin", visits: 1 },
+          { path: "cabin.door", visits: 0 },
+        ],
+        -1
+      );
+
+      // Execute
+      const newState = action.apply(mockPreviewState());
+
+      // Assert
+      expect(newState.story.visits).toEqual([
+        { path: "cabin", visits: 1, turnsSince: 0, lastVisitTurnIndex: -1 },
+        {
+          path: "cabin.door",
+          visits: 0,
+          turnsSince: -1,
+          lastVisitTurnIndex: undefined,
+        },
+      ]);
+    });
+
+    test("should count the turns since the last visit until visited again", () => {
+      // Setup
+      const state = mockPreviewState({
+        visits: [
+          { path: "cabin", visits: 1, turnsSince: 0, lastVisitTurnIndex: -1 },
+          { path: "forest", visits: 1, turnsSince: 1, lastVisitTurnIndex: 0 },
+        ],
+      });
+      const action = new SetVisitCountsAction(
+        [
+          { path: "cabin", visits: 1 },
+          { path: "forest", visits: 2 },
+        ],
+        2
+      );
+
+      // Execute
+      const newState = action.apply(state);
+
+      // Assert
+      expect(newState.story.visits).toEqual([
+        { path: "cabin", visits: 1, turnsSince: 3, lastVisitTurnIndex: -1 },
+        { path: "forest", visits: 2, turnsSince: 0, lastVisitTurnIndex: 2 },
+      ]);
+    });
+  });
+
+  describe("Instance Properties", () => {
+    test("should have cursor set to false for non-historical action", () => {
+      // Execute
+      const action = new SetVisitCountsAction([], -1);
+
+      // Assert
+      expect(action.cursor).toBe(false);
+      expect(action.type).toBe(SetVisitCountsAction.actionType);
+    });
+  });
+});
@@ -69,6 +69,9 @@ describe("StartStoryAction", () => {
         isEnded: true,
         lastChoiceIndex: 5,
         isStart: false,
+        visits: [
+          { path: "cabin", visits: 2, turnsSince: 1, lastVisitTurnIndex: 0 },
+        ],
       });
       currentState.ui.canRewind = true;
 
@@ -82,6 +85,7 @@ describe("StartStoryAction", () => {
       expect(newState.story.isEnded).toBe(false);
       expect(newState.story.lastChoiceIndex).toBe(0);
       expect(newState.story.isStart).toBe(true);
+      expect(newState.story.visits).toEqual([]);
       expect(newState.ui.canRewind).toBe(false);
     });
   });
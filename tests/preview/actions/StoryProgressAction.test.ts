@@ -29,12 +29,15 @@ import { AddStoryEventsAction } from "../../../src/preview/actions/AddStoryEvent
 import { SetCurrentChoicesAction } from "../../../src/preview/actions/SetCurrentChoicesAction";
 import { EndStoryAction } from "../../../src/preview/actions/EndStoryAction";
 import { AddErrorsAction } from "../../../src/preview/actions/AddErrorsAction";
+import { SetVariablesAction } from "../../../src/preview/actions/SetVariablesAction";
+import { SetVisitCountsAction } from "../../../src/preview/actions/SetVisitCountsAction";
 import { StoryProgressResult } from "../../../src/preview/StoryProgressResult";
 import {
   StoryEvent,
   Choice,
   ErrorInfo,
   PreviewState,
+  StoryVariable,
 } from "../../../src/preview/PreviewState";
 
 // Test implementation of StoryProgressAction for testing protected methods
@@ -148,6 +151,54 @@ describe("StoryProgressAction", () => {
       expect(mockContext.dispatch).toHaveBeenCalledWith(new EndStoryAction());
     });
 
+    test("should dispatch SetVariablesAction with the story variables", () => {
+      // Setup
+      const variables: StoryVariable[] = [
+        { name: "gold", type: "number", value: "3" },
+      ];
+      (mockContext.storyManager.getVariables as jest.Mock).mockReturnValue(
+        variables
+      );
+      (mockContext.storyManager.getTurnIndex as jest.Mock).mockReturnValue(2);
+      const result: StoryProgressResult = {
+        events: [],
+        choices: [],
+        isEnded: false,
+        errors: [],
+      };
+
+      // Execute
+      action.testApplyStoryProgress(result, mockContext);
+
+      // Assert
+      expect(mockContext.dispatch).toHaveBeenCalledWith(
+        new SetVariablesAction(variables, 2)
+      );
+    });
+
+    test("should dispatch SetVisitCountsAction with the story visit counts", () => {
+      // Setup
+      const visitCounts = [{ path: "cabin", visits: 1 }];
+      (mockContext.storyManager.getVisitCounts as jest.Mock).mockReturnValue(
+        visitCounts
+      );
+      (mockContext.storyManager.getTurnIndex as jest.Mock).mockReturnValue(2);
+      const result: StoryProgressResult = {
+        events: [],
+        choices: [],
+        isEnded: false,
+        errors: [],
+      };
+
+      // Execute
+      action.testApplyStoryProgress(result, mockContext);
+
+      // Assert
+      expect(mockContext.dispatch).toHaveBeenCalledWith(
+        new SetVisitCountsAction(visitCounts, 2)
+      );
+    });
+
     test("should handle empty events array", () => {
       // Setup
       const result: StoryProgressResult = {
@@ -161,7 +212,7 @@ describe("StoryProgressAction", () => {
       action.testApplyStoryProgress(result, mockContext);
 
       // Assert
-      expect(mockContext.dispatch).toHaveBeenCalledTimes(1);
+      expect(mockContext.dispatch).toHaveBeenCalledTimes(3);
       expect(mockContext.dispatch).toHaveBeenCalledWith(
         new SetCurrentChoicesAction(result.choices)
       );
@@ -180,7 +231,7 @@ describe("StoryProgressAction", () => {
       action.testApplyStoryProgress(result, mockContext);
 
       // Assert
-      expect(mockContext.dispatch).toHaveBeenCalledTimes(2);
+      expect(mockContext.dispatch).toHaveBeenCalledTimes(4);
       expect(mockContext.dispatch).toHaveBeenCalledWith(
         new AddStoryEventsAction(result.events)
       );
@@ -211,7 +262,7 @@ describe("StoryProgressAction", () => {
       action.testApplyStoryProgress(result, mockContext);
 
       // Assert
-      expect(mockContext.dispatch).toHaveBeenCalledTimes(4);
+      expect(mockContext.dispatch).toHaveBeenCalledTimes(6);
       expect(mockContext.dispatch).toHaveBeenCalledWith(
         new AddErrorsAction(errors)
       );
@@ -172,6 +172,27 @@ describe("VSCodeExtensionService", () => {
     });
   });
 
+  describe("getWorkspaceState()", () => {
+    it("should return the workspace state of the extension", () => {
+      // Setup
+      const workspaceState = { get: jest.fn() } as unknown as vscode.Memento;
+      const activatedService = new VSCodeExtensionServiceImpl(workspaceState);
+
+      // Execute
+      const result = activatedService.getWorkspaceState();
+
+      // Assert
+      expect(result).toBe(workspaceState);
+    });
+
+    it("should throw error if the extension has not been activated", () => {
+      // Execute & Assert
+      expect(() => service.getWorkspaceState()).toThrow(
+        "Workspace state is not available until the extension is activated"
+      );
+    });
+  });
+
   describe("dispose()", () => {
     it("should dispose without errors", () => {
       // Execute & Assert - should not throw
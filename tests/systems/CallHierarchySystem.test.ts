@@ -0,0 +1,200 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { CallHierarchySystem } from "../../src/systems/CallHierarchySystem";
+import { OutlineManager } from "../../src/model/OutlineManager";
+import { DependencyManager } from "../../src/model/DependencyManager";
+import { ReferenceManager } from "../../src/model/ReferenceManager";
+import { mockVSCodeDocument } from "../__mocks__/mockVSCodeDocument";
+
+describe("CallHierarchySystem", () => {
+  let system: CallHierarchySystem;
+  let document: vscode.TextDocument;
+
+  beforeEach(() => {
+    OutlineManager.getInstance().clear();
+    DependencyManager.getInstance().clear();
+    ReferenceManager.getInstance().clear();
+    system = new CallHierarchySystem();
+    document = mockVSCodeDocument(
+      "/story.ink",
+      [
+        "-> intro", // 0
+        "== intro ==", // 1
+        "-> meet ->", // 2
+        "-> meet ->", // 3
+        "-> cellar", // 4
+        "== meet ==", // 5
+        "~ x = double(1)", // 6
+        "->->", // 7
+        "== cellar ==", // 8
+        "<- meet", // 9
+        "-> DONE", // 10
+        "=== function double(x) ===", // 11
+        "~ return x * 2", // 12
+      ].join("\n")
+    );
+  });
+
+  describe(".prepareCallHierarchy()", () => {
+    test("should return the knot referenced at the position", async () => {
+      // Execute
+      const item = await system.prepareCallHierarchy(
+        document,
+        new vscode.Position(2, 4)
+      );
+
+      // Assert
+      expect(item?.name).toBe("meet");
+      expect(item?.kind).toBe(vscode.SymbolKind.Package);
+      expect(item?.selectionRange.start.line).toBe(5);
+    });
+
+    test("should return the knot enclosing the position", async () => {
+      // Execute
+      const item = await system.prepareCallHierarchy(
+        document,
+        new vscode.Position(10, 0)
+      );
+
+      // Assert
+      expect(item?.name).toBe("cellar");
+    });
+
+    test("should return undefined outside of any knot or function", async () => {
+      // Setup
+      const top = mockVSCodeDocument("/top.ink", "Hello.");
+
+      // Execute
+      const item = await system.prepareCallHierarchy(
+        top,
+        new vscode.Position(0, 0)
+      );
+
+      // Assert
+      expect(item).toBeUndefined();
+    });
+  });
+
+  describe(".getIncomingCalls()", () => {
+    test("should group the diverts, tunnels and threads into a knot by caller", async () => {
+      // Setup
+      const item = await system.prepareCallHierarchy(
+        document,
+        new vscode.Position(5, 4)
+      );
+
+      // Execute
+      const calls = system.getIncomingCalls(item!);
+
+      // Assert
+      expect(
+        calls.map((c) => [
+          c.from.name,
+          c.from.detail,
+          c.fromRanges.map((r) => r.start.line),
+        ])
+      ).toEqual([
+        ["intro", "Knot (tunnel)", [2, 3]],
+        ["cellar", "Knot (thread)", [9]],
+      ]);
+    });
+
+    test("should include calls from the top of the story", async () => {
+      // Setup
+      const item = await system.prepareCallHierarchy(
+        document,
+        new vscode.Position(1, 4)
+      );
+
+      // Execute
+      const calls = system.getIncomingCalls(item!);
+
+      // Assert
+      expect(calls).toHaveLength(1);
+      expect(calls[0].from.name).toBe("story.ink");
+      expect(calls[0].from.kind).toBe(vscode.SymbolKind.File);
+    });
+
+    test("should find the calls of a function", async () => {
+      // Setup
+      const item = await system.prepareCallHierarchy(
+        document,
+        new vscode.Position(6, 8)
+      );
+
+      // Execute
+      const calls = system.getIncomingCalls(item!);
+
+      // Assert
+      expect(calls.map((c) => [c.from.name, c.from.detail])).toEqual([
+        ["meet", "Knot (call)"],
+      ]);
+    });
+  });
+
+  describe(".getOutgoingCalls()", () => {
+    test("should group the calls made by a knot by where they go", async () => {
+      // Setup
+      const item = await system.prepareCallHierarchy(
+        document,
+        new vscode.Position(1, 4)
+      );
+
+      // Execute
+      const calls = system.getOutgoingCalls(item!);
+
+      // Assert
+      expect(
+        calls.map((c) => [c.to.name, c.fromRanges.map((r) => r.start.line)])
+      ).toEqual([
+        ["meet", [2, 3]],
+        ["cellar", [4]],
+      ]);
+    });
+
+    test("should follow calls through recreated items", async () => {
+      // Setup
+      const item = await system.prepareCallHierarchy(
+        document,
+        new vscode.Position(5, 4)
+      );
+      const copy = new vscode.CallHierarchyItem(
+        item!.kind,
+        item!.name,
+        item!.detail!,
+        item!.uri,
+        item!.range,
+        item!.selectionRange
+      );
+
+      // Execute
+      const calls = system.getOutgoingCalls(copy);
+
+      // Assert
+      expect(calls.map((c) => c.to.name)).toEqual(["double"]);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { CompletionSystem } from "../../src/systems/CompletionSystem";
+import { OutlineManager } from "../../src/model/OutlineManager";
+import { DependencyManager } from "../../src/model/DependencyManager";
+import { OutlineParser } from "../../src/build/OutlineParser";
+import { mockVSCodeDocument } from "../__mocks__/mockVSCodeDocument";
+
+describe("CompletionSystem", () => {
+  let system: CompletionSystem;
+
+  const storyLines = [
+    "INCLUDE chapter.ink", // 0
+    "VAR gold = 0", // 1
+    "== intro ==", // 2
+    "= details", // 3
+    "- (greet) Hello", // 4
+  ];
+
+  function labels(items: vscode.CompletionItem[]): string[] {
+    return items.map((item) =>
+      typeof item.label === "string" ? item.label : item.label.label
+    );
+  }
+
+  beforeEach(async () => {
+    OutlineManager.getInstance().clear();
+    DependencyManager.getInstance().clear();
+    system = new CompletionSystem();
+
+    const include = mockVSCodeDocument(
+      "/chapter.ink",
+      [
+        "LIST doors = front, back",
+        "=== function pay(amount, ref purse) ===",
+        "== cabin(who) ==",
+      ].join("\n")
+    );
+    await new OutlineParser().parseAndCache(include);
+    DependencyManager.getInstance().addDependency(
+      mockVSCodeDocument("/story.ink", "").uri,
+      include.uri
+    );
+  });
+
+  function completeAt(text: string) {
+    const document = mockVSCodeDocument(
+      "/story.ink",
+      [...storyLines, text].join("\n")
+    );
+    return system.getCompletionItems(
+      document,
+      new vscode.Position(storyLines.length, text.length)
+    );
+  }
+
+  describe(".getCompletionItems()", () => {
+    test("should offer knots and local targets after a divert", async () => {
+      // Execute
+      const items = await completeAt("-> ");
+
+      // Assert
+      expect(labels(items)).toEqual([
+        "greet",
+        "details",
+        "intro",
+        "cabin",
+        "END",
+        "DONE",
+      ]);
+    });
+
+    test("should offer the children of a knot after a dot", async () => {
+      // Execute
+      const items = await completeAt("-> intro.");
+
+      // Assert
+      expect(labels(items)).toEqual(["details"]);
+    });
+
+    test("should offer variables, list items and functions within braces", async () => {
+      // Execute
+      const items = await completeAt("You have {g");
+
+      // Assert
+      expect(labels(items)).toEqual([
+        "gold",
+        "doors",
+        "front",
+        "back",
+        "pay",
+      ]);
+    });
+
+    test("should show function signatures from included files", async () => {
+      // Execute
+      const items = await completeAt("~ ");
+      const pay = items.find((i) => labels([i])[0] === "pay")!;
+
+      // Assert
+      expect(pay.label).toEqual({
+        label: "pay",
+        detail: "(amount, ref purse)",
+        description: "Function",
+      });
+      expect(pay.kind).toBe(vscode.CompletionItemKind.Function);
+    });
+
+    test("should offer nothing within prose", async () => {
+      // Execute
+      const items = await completeAt("The door {gold} is ");
+
+      // Assert
+      expect(items).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { DefinitionSystem } from "../../src/systems/DefinitionSystem";
+import { OutlineManager } from "../../src/model/OutlineManager";
+import { DependencyManager } from "../../src/model/DependencyManager";
+import { mockVSCodeDocument } from "../__mocks__/mockVSCodeDocument";
+
+describe("DefinitionSystem", () => {
+  let system: DefinitionSystem;
+
+  beforeEach(() => {
+    OutlineManager.getInstance().clear();
+    DependencyManager.getInstance().clear();
+    system = new DefinitionSystem();
+  });
+
+  describe(".getDefinition()", () => {
+    test("should return the location of a divert target", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        ["-> cabin", "== cabin ==", "Inside."].join("\n")
+      );
+
+      // Execute
+      const location = await system.getDefinition(
+        document,
+        new vscode.Position(0, 4)
+      );
+
+      // Assert
+      expect(location?.uri.toString()).toBe(document.uri.toString());
+      expect(location?.range.start.line).toBe(1);
+    });
+
+    test("should return undefined for an unresolved divert target", async () => {
+      // Setup
+      const document = mockVSCodeDocument("/story.ink", "-> nowhere");
+
+      // Execute
+      const location = await system.getDefinition(
+        document,
+        new vscode.Position(0, 4)
+      );
+
+      // Assert
+      expect(location).toBeUndefined();
+    });
+  });
+});
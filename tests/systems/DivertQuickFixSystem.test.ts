@@ -0,0 +1,216 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { DivertQuickFixSystem } from "../../src/systems/DivertQuickFixSystem";
+import { OutlineParser } from "../../src/build/OutlineParser";
+import { DependencyManager } from "../../src/model/DependencyManager";
+import { OutlineManager } from "../../src/model/OutlineManager";
+import { VSCodeServiceLocator } from "../../src/services/VSCodeServiceLocator";
+import { MockVSCodeConfigurationService } from "../__mocks__/MockVSCodeConfigurationService";
+import { mockVSCodeDocument } from "../__mocks__/mockVSCodeDocument";
+
+describe("DivertQuickFixSystem", () => {
+  let system: DivertQuickFixSystem;
+
+  async function parse(uri: string, lines: string[]) {
+    const document = mockVSCodeDocument(uri, lines.join("\n"));
+    await OutlineParser.getInstance().parseAndCache(document);
+    return document;
+  }
+
+  function makeDiagnostic(line: number, target: string): vscode.Diagnostic {
+    return new vscode.Diagnostic(
+      new vscode.Range(line, 0, line, 1),
+      `Divert target not found: '-> ${target}'`,
+      vscode.DiagnosticSeverity.Error
+    );
+  }
+
+  function getEdits(
+    action: vscode.CodeAction
+  ): Array<[string, vscode.Range, string]> {
+    return (action.edit?.entries() ?? []).flatMap(([uri, edits]) =>
+      edits.map(
+        (e) => [uri.path, e.range, e.newText] as [string, vscode.Range, string]
+      )
+    );
+  }
+
+  beforeEach(() => {
+    // Setup
+    OutlineManager.getInstance().clear();
+    DependencyManager.getInstance().clear();
+    VSCodeServiceLocator.setConfigurationService(
+      new MockVSCodeConfigurationService()
+    );
+    system = new DivertQuickFixSystem();
+  });
+
+  describe(".provideCodeActions()", () => {
+    test("should offer the closest knot names as corrections", async () => {
+      // Setup
+      const document = await parse("/stories/main.ink", [
+        "-> kitchn",
+        "== kitchen ==",
+        "-> END",
+        "== kitten ==",
+        "-> END",
+        "== hallway ==",
+        "-> END",
+      ]);
+
+      // Execute
+      const actions = system.provideCodeActions(document, [
+        makeDiagnostic(0, "kitchn"),
+      ]);
+
+      // Assert
+      const corrections = actions.filter((a) => a.title.startsWith("Change"));
+      expect(corrections.map((a) => a.title)).toEqual([
+        "Change to 'kitchen'",
+        "Change to 'kitten'",
+      ]);
+      expect(corrections[0].isPreferred).toBe(true);
+      const [[, range, text]] = getEdits(corrections[0]);
+      expect(range.start.character).toBe(3);
+      expect(range.end.character).toBe(9);
+      expect(text).toBe("kitchen");
+    });
+
+    test("should correct the last segment of a qualified target", async () => {
+      // Setup
+      const document = await parse("/stories/main.ink", [
+        "-> house.kitchn",
+        "== house ==",
+        "= kitchen",
+        "-> END",
+      ]);
+
+      // Execute
+      const actions = system.provideCodeActions(document, [
+        makeDiagnostic(0, "house.kitchn"),
+      ]);
+
+      // Assert
+      expect(actions[0].title).toBe("Change to 'house.kitchen'");
+      const [[, range]] = getEdits(actions[0]);
+      expect(range.start.character).toBe(9);
+      expect(range.end.character).toBe(15);
+    });
+
+    test("should offer a stub knot and a stub stitch of the enclosing knot", async () => {
+      // Setup
+      const document = await parse("/stories/main.ink", [
+        "== house ==",
+        "-> cellar",
+        "== garden ==",
+        "-> END",
+      ]);
+
+      // Execute
+      const actions = system.provideCodeActions(document, [
+        makeDiagnostic(1, "cellar"),
+      ]);
+
+      // Assert
+      expect(actions.map((a) => a.title)).toEqual([
+        "Create knot 'cellar'",
+        "Create stitch 'cellar' in knot 'house'",
+      ]);
+      const [[, knotRange, knotText]] = getEdits(actions[0]);
+      expect(knotRange.start.line).toBe(3);
+      expect(knotText).toBe("\n\n=== cellar ===\n-> DONE\n");
+      const [[, stitchRange, stitchText]] = getEdits(actions[1]);
+      expect(stitchRange.start.line).toBe(1);
+      expect(stitchRange.start.character).toBe(9);
+      expect(stitchText).toBe("\n\n= cellar\n-> DONE");
+    });
+
+    test("should offer to include a workspace file defining the knot", async () => {
+      // Setup
+      const document = await parse("/stories/main.ink", [
+        "INCLUDE intro.ink",
+        "-> harbour",
+      ]);
+      await parse("/stories/intro.ink", ["== intro ==", "-> END"]);
+      await parse("/stories/places/harbour.ink", ["== harbour ==", "-> END"]);
+      DependencyManager.getInstance().addDependency(
+        document.uri,
+        vscode.Uri.file("/stories/intro.ink")
+      );
+
+      // Execute
+      const actions = system.provideCodeActions(document, [
+        makeDiagnostic(1, "harbour"),
+      ]);
+
+      // Assert
+      const include = actions.find((a) => a.title.startsWith("Add INCLUDE"));
+      expect(include?.title).toBe("Add INCLUDE for 'places/harbour.ink'");
+      const [[uri, range, text]] = getEdits(include!);
+      expect(uri).toBe("/stories/main.ink");
+      expect(range.start.line).toBe(1);
+      expect(text).toBe("INCLUDE places/harbour.ink\n");
+    });
+
+    test("should make the included path relative to the root story", async () => {
+      // Setup
+      const root = await parse("/stories/main.ink", [
+        "INCLUDE chapters/ch1.ink",
+      ]);
+      const document = await parse("/stories/chapters/ch1.ink", ["-> harbour"]);
+      await parse("/stories/places/harbour.ink", ["== harbour ==", "-> END"]);
+      DependencyManager.getInstance().addDependency(root.uri, document.uri);
+
+      // Execute
+      const actions = system.provideCodeActions(document, [
+        makeDiagnostic(0, "harbour"),
+      ]);
+
+      // Assert
+      const include = actions.find((a) => a.title.startsWith("Add INCLUDE"));
+      expect(include?.title).toBe("Add INCLUDE for 'places/harbour.ink'");
+      const [[uri, , text]] = getEdits(include!);
+      expect(uri).toBe("/stories/chapters/ch1.ink");
+      expect(text).toBe("INCLUDE places/harbour.ink\n");
+    });
+
+    test("should ignore other diagnostics", async () => {
+      // Setup
+      const document = await parse("/stories/main.ink", ["~ f()"]);
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(0, 0, 0, 1),
+        "Function call target not found: '-> f'",
+        vscode.DiagnosticSeverity.Error
+      );
+
+      // Execute
+      const actions = system.provideCodeActions(document, [diagnostic]);
+
+      // Assert
+      expect(actions).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { DocumentLinkSystem } from "../../src/systems/DocumentLinkSystem";
+import { DependencyManager } from "../../src/model/DependencyManager";
+import { VSCodeServiceLocator } from "../../src/services/VSCodeServiceLocator";
+import { MockVSCodeConfigurationService } from "../__mocks__/MockVSCodeConfigurationService";
+import { mockVSCodeDocument } from "../__mocks__/mockVSCodeDocument";
+
+describe("DocumentLinkSystem", () => {
+  let system: DocumentLinkSystem;
+
+  beforeEach(() => {
+    // Setup
+    DependencyManager.getInstance().clear();
+    VSCodeServiceLocator.setConfigurationService(
+      new MockVSCodeConfigurationService()
+    );
+    system = new DocumentLinkSystem();
+  });
+
+  describe(".getDocumentLinks()", () => {
+    test("should link the paths of INCLUDE and LINK directives", () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/stories/main.ink",
+        [
+          "INCLUDE chapter2/_forest.ink",
+          "// LINK mocks/inventory.js",
+          "-> END",
+        ].join("\n")
+      );
+
+      // Execute
+      const links = system.getDocumentLinks(document);
+
+      // Assert
+      expect(links.map((l) => l.target?.path)).toEqual([
+        "/stories/chapter2/_forest.ink",
+        "/stories/mocks/inventory.js",
+      ]);
+      expect(links[0].range).toEqual(new vscode.Range(0, 8, 0, 28));
+      expect(links[1].range).toEqual(new vscode.Range(1, 8, 1, 26));
+    });
+
+    test("should resolve the paths of an include against its root story", () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/stories/chapter2/_forest.ink",
+        "INCLUDE chapter2/_clearing.ink"
+      );
+      DependencyManager.getInstance().addDependency(
+        vscode.Uri.file("/stories/main.ink"),
+        document.uri
+      );
+
+      // Execute
+      const links = system.getDocumentLinks(document);
+
+      // Assert
+      expect(links.map((l) => l.target?.path)).toEqual([
+        "/stories/chapter2/_clearing.ink",
+      ]);
+    });
+
+    test("should not link paths which cannot be resolved", () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/stories/main.ink",
+        "INCLUDE /absolute.ink"
+      );
+
+      // Execute
+      const links = system.getDocumentLinks(document);
+
+      // Assert
+      expect(links).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { ExternalFunctionQuickFixSystem } from "../../src/systems/ExternalFunctionQuickFixSystem";
+import { OutlineParser } from "../../src/build/OutlineParser";
+import { OutlineManager } from "../../src/model/OutlineManager";
+import { VSCodeServiceLocator } from "../../src/services/VSCodeServiceLocator";
+import { MockVSCodeDocumentService } from "../__mocks__/MockVSCodeDocumentService";
+import { mockVSCodeDocument } from "../__mocks__/mockVSCodeDocument";
+import { mockVSCodeUri } from "../__mocks__/mockVSCodeUri";
+
+describe("ExternalFunctionQuickFixSystem", () => {
+  let system: ExternalFunctionQuickFixSystem;
+  let mockDocumentService: MockVSCodeDocumentService;
+
+  function makeDiagnostic(
+    line: number,
+    message: string,
+    code: string
+  ): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(line, 0, line, 10),
+      message,
+      vscode.DiagnosticSeverity.Warning
+    );
+    diagnostic.code = code;
+    return diagnostic;
+  }
+
+  function getInsertions(
+    edit: vscode.WorkspaceEdit | undefined
+  ): Array<[string, vscode.Position, string]> {
+    return (edit?.entries() ?? []).flatMap(([uri, edits]) =>
+      edits.map(
+        (e) =>
+          [uri.path, e.range.start, e.newText] as [
+            string,
+            vscode.Position,
+            string,
+          ]
+      )
+    );
+  }
+
+  beforeEach(() => {
+    // Setup
+    OutlineManager.getInstance().clear();
+    mockDocumentService = new MockVSCodeDocumentService();
+    VSCodeServiceLocator.setDocumentService(mockDocumentService);
+    system = new ExternalFunctionQuickFixSystem();
+  });
+
+  describe(".provideCodeActions()", () => {
+    test("should add a declaration after the last EXTERNAL", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        ["// LINK mocks.js", "", "EXTERNAL getName()", "Hello"].join("\n")
+      );
+      await OutlineParser.getInstance().parseAndCache(document);
+      const diagnostic = makeDiagnostic(
+        0,
+        "Mock function 'addNumbers(a, b)' in 'mocks.js' is not declared EXTERNAL.",
+        "external-undeclared-mock"
+      );
+
+      // Execute
+      const actions = await system.provideCodeActions(document, [diagnostic]);
+
+      // Assert
+      expect(actions).toHaveLength(1);
+      expect(actions[0].title).toBe("Add EXTERNAL declaration for 'addNumbers'");
+      const [[uri, position, text]] = getInsertions(actions[0].edit);
+      expect(uri).toBe("/story.ink");
+      expect(position.line).toBe(3);
+      expect(text).toBe("EXTERNAL addNumbers(a, b)\n");
+    });
+
+    test("should add a declaration after a single-line LINK directive", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        ["Hello", "// LINK mocks.js"].join("\n")
+      );
+      await OutlineParser.getInstance().parseAndCache(document);
+      const diagnostic = makeDiagnostic(
+        1,
+        "Mock function 'getName()' in 'mocks.js' is not declared EXTERNAL.",
+        "external-undeclared-mock"
+      );
+
+      // Execute
+      const actions = await system.provideCodeActions(document, [diagnostic]);
+
+      // Assert
+      const [[, position, text]] = getInsertions(actions[0].edit);
+      expect(position.line).toBe(1);
+      expect(position.character).toBe(16);
+      expect(text).toBe("\nEXTERNAL getName()");
+    });
+
+    test("should generate a mock function in the linked file", async () => {
+      // Setup
+      const document = mockVSCodeDocument("/story.ink", "EXTERNAL roll(sides)");
+      const jsUri = mockVSCodeUri("/mocks.js");
+      mockDocumentService.mockTextDocument(
+        jsUri,
+        "module.exports = {\n  getName: () => 'A',\n};"
+      );
+      const diagnostic = makeDiagnostic(
+        0,
+        "External function 'roll(sides)' has no mock function in the linked files.",
+        "external-missing-mock"
+      );
+      diagnostic.relatedInformation = [
+        new vscode.DiagnosticRelatedInformation(
+          new vscode.Location(jsUri, new vscode.Position(0, 0)),
+          "Mock functions are linked from 'mocks.js'"
+        ),
+      ];
+
+      // Execute
+      const actions = await system.provideCodeActions(document, [diagnostic]);
+
+      // Assert
+      expect(actions).toHaveLength(1);
+      expect(actions[0].title).toBe(
+        "Generate mock function for 'roll' in 'mocks.js'"
+      );
+      const [[uri, position, text]] = getInsertions(actions[0].edit);
+      expect(uri).toBe("/mocks.js");
+      expect(position.line).toBe(2);
+      expect(position.character).toBe(2);
+      expect(text).toBe(
+        [
+          "",
+          "",
+          "module.exports.roll = function (sides) {",
+          "  // Mock implementation of EXTERNAL roll",
+          "  return null;",
+          "};",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("should ignore other diagnostics", async () => {
+      // Setup
+      const document = mockVSCodeDocument("/story.ink", "-> nowhere");
+      const diagnostic = makeDiagnostic(
+        0,
+        "Divert target not found: '-> nowhere'",
+        "choice-without-divert"
+      );
+
+      // Execute
+      const actions = await system.provideCodeActions(document, [diagnostic]);
+
+      // Assert
+      expect(actions).toEqual([]);
+    });
+  });
+});
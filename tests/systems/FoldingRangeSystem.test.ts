@@ -0,0 +1,194 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { FoldingRangeSystem } from "../../src/systems/FoldingRangeSystem";
+import { OutlineManager } from "../../src/model/OutlineManager";
+import { mockVSCodeDocument } from "../__mocks__/mockVSCodeDocument";
+
+/**
+ * Formats folding ranges as `start-end` strings, for comparison.
+ */
+function format(ranges: vscode.FoldingRange[]): string[] {
+  return ranges.map((r) => `${r.start}-${r.end}`);
+}
+
+describe("FoldingRangeSystem", () => {
+  let system: FoldingRangeSystem;
+
+  beforeEach(() => {
+    OutlineManager.getInstance().clear();
+    system = new FoldingRangeSystem();
+  });
+
+  describe(".getFoldingRanges()", () => {
+    test("should fold knots and stitches over their scope", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        [
+          "== cabin ==",
+          "Inside.",
+          "= bunk",
+          "Asleep.",
+          "",
+          "== deck ==",
+          "Outside.",
+        ].join("\n")
+      );
+
+      // Execute
+      const ranges = await system.getFoldingRanges(document);
+
+      // Assert
+      expect(format(ranges)).toEqual(["0-3", "2-3", "5-6"]);
+    });
+
+    test("should fold functions", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        ["=== function double(x) ===", "~ return x * 2"].join("\n")
+      );
+
+      // Execute
+      const ranges = await system.getFoldingRanges(document);
+
+      // Assert
+      expect(format(ranges)).toEqual(["0-1"]);
+    });
+
+    test("should fold nested choices and gathers by weave level", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        [
+          "* Left",
+          "  Dark.",
+          "  * * Onwards",
+          "    Darker.",
+          "  - - Back",
+          "    Light.",
+          "* Right",
+          "  Bright.",
+          "- Together",
+          "  Again.",
+        ].join("\n")
+      );
+
+      // Execute
+      const ranges = await system.getFoldingRanges(document);
+
+      // Assert
+      expect(format(ranges)).toEqual(["0-5", "2-3", "4-5", "6-7", "8-9"]);
+    });
+
+    test("should end a weave at the next stitch", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        ["== cabin ==", "* Sleep", "  Zzz.", "= bunk", "Asleep."].join("\n")
+      );
+
+      // Execute
+      const ranges = await system.getFoldingRanges(document);
+
+      // Assert
+      expect(format(ranges)).toContain("1-2");
+      expect(format(ranges)).not.toContain("1-4");
+    });
+
+    test("should fold multiline conditionals and their branches", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        [
+          "{",
+          "  - gold > 10:",
+          "    Rich.",
+          "  - else:",
+          "    Poor.",
+          "}",
+        ].join("\n")
+      );
+
+      // Execute
+      const ranges = await system.getFoldingRanges(document);
+
+      // Assert
+      expect(format(ranges)).toEqual(["1-2", "3-4", "0-4"]);
+    });
+
+    test("should not fold single line blocks", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        ["{gold > 10: Rich.|Poor.}", "* {gold} Count"].join("\n")
+      );
+
+      // Execute
+      const ranges = await system.getFoldingRanges(document);
+
+      // Assert
+      expect(ranges).toEqual([]);
+    });
+
+    test("should fold block comments", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        ["/*", "  Notes", "*/", "Text. /* inline */", "// /* not a comment"].join(
+          "\n"
+        )
+      );
+
+      // Execute
+      const ranges = await system.getFoldingRanges(document);
+
+      // Assert
+      expect(format(ranges)).toEqual(["0-2"]);
+      expect(ranges[0].kind).toBe(vscode.FoldingRangeKind.Comment);
+    });
+
+    test("should ignore comment markers within strings", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        [
+          '~ temp p = "a/*b"',
+          "Text.",
+          "More text. */",
+          '"// quoted" /*',
+          "*/",
+        ].join("\n")
+      );
+
+      // Execute
+      const ranges = await system.getFoldingRanges(document);
+
+      // Assert
+      expect(format(ranges)).toEqual(["3-4"]);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { FormattingSystem } from "../../src/systems/FormattingSystem";
+import { VSCodeServiceLocator } from "../../src/services/VSCodeServiceLocator";
+import { MockVSCodeConfigurationService } from "../__mocks__/MockVSCodeConfigurationService";
+import { mockVSCodeDocument } from "../__mocks__/mockVSCodeDocument";
+
+describe("FormattingSystem", () => {
+  let system: FormattingSystem;
+  let configService: MockVSCodeConfigurationService;
+
+  const options: vscode.FormattingOptions = { tabSize: 4, insertSpaces: true };
+
+  beforeEach(() => {
+    configService = new MockVSCodeConfigurationService();
+    VSCodeServiceLocator.setConfigurationService(configService);
+    system = new FormattingSystem();
+  });
+
+  describe(".getFormattingEdits()", () => {
+    test("should replace only the lines which change", () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        ["==cabin", "*Sleep", "  Zzz.", "->END"].join("\n")
+      );
+
+      // Execute
+      const edits = system.getFormattingEdits(document, options);
+
+      // Assert
+      expect(edits.map((e) => [e.range.start.line, e.newText])).toEqual([
+        [0, "=== cabin ==="],
+        [1, "* Sleep"],
+        [2, "    Zzz."],
+        [3, "    -> END"],
+      ]);
+    });
+
+    test("should only format lines within the range", () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        ["==cabin", "*Sleep", "Zzz."].join("\n")
+      );
+
+      // Execute
+      const edits = system.getFormattingEdits(
+        document,
+        options,
+        new vscode.Range(2, 0, 2, 4)
+      );
+
+      // Assert
+      expect(edits.map((e) => [e.range.start.line, e.newText])).toEqual([
+        [2, "    Zzz."],
+      ]);
+    });
+
+    test("should use the preferred style and indentation", () => {
+      // Setup
+      configService.mockSettings["ink.format.knotHeaderMarker"] = "==";
+      configService.mockSettings["ink.format.closeKnotHeaders"] = false;
+      configService.mockSettings["ink.format.bulletStyle"] = "compact";
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        ["=== cabin ===", "* * Sleep"].join("\n")
+      );
+
+      // Execute
+      const edits = system.getFormattingEdits(document, {
+        tabSize: 4,
+        insertSpaces: false,
+      });
+
+      // Assert
+      expect(edits.map((e) => e.newText)).toEqual(["== cabin", "\t** Sleep"]);
+    });
+
+    test("should return no edits for a formatted document", () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        ["=== cabin ===", "* Sleep", "    -> END"].join("\n")
+      );
+
+      // Execute
+      const edits = system.getFormattingEdits(document, options);
+
+      // Assert
+      expect(edits).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { HoverSystem } from "../../src/systems/HoverSystem";
+import { BuildEngine } from "../../src/build/BuildEngine";
+import { ExternalFunctionVM } from "../../src/build/ExternalFunctionVM";
+import { ISuccessfulBuildResult } from "../../src/build/IBuildResult";
+import { OutlineManager } from "../../src/model/OutlineManager";
+import { DependencyManager } from "../../src/model/DependencyManager";
+import { VSCodeServiceLocator } from "../../src/services/VSCodeServiceLocator";
+import { MockVSCodeDocumentService } from "../__mocks__/MockVSCodeDocumentService";
+
+describe("HoverSystem", () => {
+  let system: HoverSystem;
+  let document: vscode.TextDocument;
+
+  function hoverText(hover: vscode.Hover | undefined): string {
+    return (hover?.contents as vscode.MarkdownString[])
+      .map((c) => c.value)
+      .join("");
+  }
+
+  beforeEach(() => {
+    OutlineManager.getInstance().clear();
+    DependencyManager.getInstance().clear();
+    BuildEngine.clearInstance();
+
+    const docService = new MockVSCodeDocumentService();
+    VSCodeServiceLocator.setDocumentService(docService);
+    document = docService.mockTextDocument(
+      "/story.ink",
+      [
+        "EXTERNAL pay(amount)", // 0
+        "EXTERNAL shout()", // 1
+        "VAR gold = 10 // coins", // 2
+        "LIST doors = front, (back)", // 3
+        "== cabin(who) ==", // 4
+        "-> cabin(gold)", // 5
+        "~ pay(shout())", // 6
+      ].join("\n")
+    );
+
+    system = new HoverSystem();
+  });
+
+  afterEach(() => {
+    system.dispose();
+  });
+
+  describe(".getHover()", () => {
+    test("should describe a knot with its parameters and location", async () => {
+      // Execute
+      const hover = await system.getHover(document, new vscode.Position(5, 4));
+
+      // Assert
+      const text = hoverText(hover);
+      expect(text).toContain("cabin(who)");
+      expect(text).toContain("**Knot** defined in `story.ink`, line 5");
+      expect(hover?.range?.start.character).toBe(3);
+    });
+
+    test("should show the initial value of a variable", async () => {
+      // Execute
+      const hover = await system.getHover(document, new vscode.Position(5, 10));
+
+      // Assert
+      expect(hoverText(hover)).toContain("Initial value: `10`");
+    });
+
+    test("should list the members of a list", async () => {
+      // Execute
+      const hover = await system.getHover(document, new vscode.Position(3, 6));
+
+      // Assert
+      expect(hoverText(hover)).toContain("Members: `front`, `(back)`");
+    });
+
+    test("should show the source of a linked mock for an external", async () => {
+      // Setup
+      let listener: (result: ISuccessfulBuildResult) => void = () => {};
+      jest
+        .spyOn(BuildEngine.getInstance(), "onDidStoryCompile")
+        .mockImplementation((_, callback) => {
+          listener = callback;
+        });
+      system.activate({ subscriptions: [] } as unknown as vscode.ExtensionContext);
+      const vm = new ExternalFunctionVM();
+      vm.addJavaScriptContent("exports.pay = function(a) { return a; };", "mocks.js");
+      listener({
+        uri: document.uri,
+        success: true,
+        diagnostics: [],
+        story: {} as ISuccessfulBuildResult["story"],
+        externalFunctionVM: vm,
+      });
+
+      // Execute
+      const paid = await system.getHover(document, new vscode.Position(6, 3));
+      const shouted = await system.getHover(document, new vscode.Position(6, 8));
+
+      // Assert
+      expect(hoverText(paid)).toContain("Mocked by `mocks.js`");
+      expect(hoverText(shouted)).toContain("No mock function is linked");
+    });
+
+    test("should return undefined for prose", async () => {
+      // Execute
+      const hover = await system.getHover(document, new vscode.Position(2, 18));
+
+      // Assert
+      expect(hover).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import {
+  IncludeHierarchySystem,
+  IncludeTreeElement,
+} from "../../src/systems/IncludeHierarchySystem";
+import { DependencyManager } from "../../src/model/DependencyManager";
+import { mockVSCodeUri } from "../__mocks__/mockVSCodeUri";
+
+describe("IncludeHierarchySystem", () => {
+  let system: IncludeHierarchySystem;
+  let depManager: DependencyManager;
+
+  function pathsOf(elements: IncludeTreeElement[]): (string | undefined)[] {
+    return elements.map((element) => element.uri?.path);
+  }
+
+  function getSection(direction: IncludeTreeElement["direction"]) {
+    return system
+      .getChildren()
+      .find((element) => element.direction === direction)!;
+  }
+
+  beforeEach(() => {
+    depManager = DependencyManager.getInstance();
+    depManager.clear();
+    system = new IncludeHierarchySystem();
+
+    const root = mockVSCodeUri("/root.ink");
+    const chapter = mockVSCodeUri("/chapters/chapter.ink");
+    const common = mockVSCodeUri("/common.ink");
+    depManager.addDependency(root, chapter);
+    depManager.addDependency(root, common);
+    depManager.addDependency(chapter, common);
+    depManager.createNode(mockVSCodeUri("/other.ink"));
+  });
+
+  afterEach(() => {
+    system.dispose();
+  });
+
+  describe(".getChildren()", () => {
+    test("should list the root stories and included files as sections", () => {
+      // Execute
+      const sections = system.getChildren();
+
+      // Assert
+      expect(sections.map((section) => section.direction)).toEqual([
+        "includes",
+        "includedBy",
+      ]);
+      expect(pathsOf(sections)).toEqual([undefined, undefined]);
+    });
+
+    test("should list root stories sorted by path", () => {
+      // Execute
+      const roots = system.getChildren(getSection("includes"));
+
+      // Assert
+      expect(pathsOf(roots)).toEqual(["/other.ink", "/root.ink"]);
+    });
+
+    test("should expand root stories to the files they include", () => {
+      // Setup
+      const root = system.getChildren(getSection("includes"))[1];
+
+      // Execute
+      const includes = system.getChildren(root);
+
+      // Assert
+      expect(pathsOf(includes)).toEqual([
+        "/chapters/chapter.ink",
+        "/common.ink",
+      ]);
+      expect(pathsOf(system.getChildren(includes[0]))).toEqual(["/common.ink"]);
+    });
+
+    test("should expand included files to the files including them", () => {
+      // Setup
+      const files = system.getChildren(getSection("includedBy"));
+
+      // Execute
+      const includedBy = system.getChildren(files[1]);
+
+      // Assert
+      expect(pathsOf(files)).toEqual(["/chapters/chapter.ink", "/common.ink"]);
+      expect(pathsOf(includedBy)).toEqual([
+        "/chapters/chapter.ink",
+        "/root.ink",
+      ]);
+      expect(pathsOf(system.getChildren(includedBy[0]))).toEqual(["/root.ink"]);
+    });
+
+    test("should not expand a file listed above itself", () => {
+      // Setup
+      depManager.addDependency(
+        mockVSCodeUri("/common.ink"),
+        mockVSCodeUri("/chapters/chapter.ink")
+      );
+      const root = system.getChildren(getSection("includes"))[1];
+      const chapter = system.getChildren(root)[0];
+      const common = system.getChildren(chapter)[0];
+      const circular = system.getChildren(common)[0];
+
+      // Execute
+      const children = system.getChildren(circular);
+
+      // Assert
+      expect(circular.uri?.path).toBe("/chapters/chapter.ink");
+      expect(children).toEqual([]);
+      expect(system.getTreeItem(circular).description).toBe("circular include");
+    });
+  });
+
+  describe(".getTreeItem()", () => {
+    test("should name sections", () => {
+      // Execute
+      const items = system
+        .getChildren()
+        .map((section) => system.getTreeItem(section));
+
+      // Assert
+      expect(items.map((item) => item.label)).toEqual([
+        "Root Stories",
+        "Included Files",
+      ]);
+    });
+
+    test("should present files which open when clicked", () => {
+      // Setup
+      const root = system.getChildren(getSection("includes"))[1];
+
+      // Execute
+      const item = system.getTreeItem(root);
+
+      // Assert
+      expect(item.label).toBe("root.ink");
+      expect(item.collapsibleState).toBe(
+        vscode.TreeItemCollapsibleState.Collapsed
+      );
+      expect(item.command?.command).toBe("vscode.open");
+      expect(item.command?.arguments).toEqual([root.uri]);
+    });
+
+    test("should not make files without includes expandable", () => {
+      // Setup
+      const other = system.getChildren(getSection("includes"))[0];
+
+      // Execute
+      const item = system.getTreeItem(other);
+
+      // Assert
+      expect(item.collapsibleState).toBe(vscode.TreeItemCollapsibleState.None);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { InlayHintSystem } from "../../src/systems/InlayHintSystem";
+import { OutlineManager } from "../../src/model/OutlineManager";
+import { DependencyManager } from "../../src/model/DependencyManager";
+import { VSCodeServiceLocator } from "../../src/services/VSCodeServiceLocator";
+import { MockVSCodeConfigurationService } from "../__mocks__/MockVSCodeConfigurationService";
+import { mockVSCodeDocument } from "../__mocks__/mockVSCodeDocument";
+
+describe("InlayHintSystem", () => {
+  let system: InlayHintSystem;
+  let configService: MockVSCodeConfigurationService;
+
+  const story = [
+    "~ give(\"sword\", true, count)",
+    "-> meet(\"Ann\", -> home)",
+    "=== function give(item, equip, ref count) ===",
+    "~ return",
+    "== meet(name, -> next) ==",
+    "-> next",
+    "== home ==",
+    "-> DONE",
+  ].join("\n");
+
+  const range = new vscode.Range(0, 0, 7, 0);
+
+  beforeEach(() => {
+    OutlineManager.getInstance().clear();
+    DependencyManager.getInstance().clear();
+    configService = new MockVSCodeConfigurationService();
+    VSCodeServiceLocator.setConfigurationService(configService);
+    system = new InlayHintSystem();
+  });
+
+  describe(".getInlayHints()", () => {
+    test("should not show hints by default", async () => {
+      // Setup
+      const document = mockVSCodeDocument("/story.ink", story);
+
+      // Execute
+      const hints = await system.getInlayHints(document, range);
+
+      // Assert
+      expect(hints).toEqual([]);
+    });
+
+    test("should show hints for every argument not named after its parameter", async () => {
+      // Setup
+      configService.mockSettings["ink.inlayHints.parameterNames"] = "all";
+      const document = mockVSCodeDocument("/story.ink", story);
+
+      // Execute
+      const hints = await system.getInlayHints(document, range);
+
+      // Assert
+      expect(
+        hints.map((h) => `${h.position.line}:${h.position.character} ${h.label}`)
+      ).toEqual(["0:7 item:", "0:16 equip:", "1:8 name:", "1:15 next:"]);
+      expect(hints[0].kind).toBe(vscode.InlayHintKind.Parameter);
+      expect(hints[0].paddingRight).toBe(true);
+    });
+
+    test("should show hints only for literal arguments", async () => {
+      // Setup
+      configService.mockSettings["ink.inlayHints.parameterNames"] = "literals";
+      const document = mockVSCodeDocument("/story.ink", story);
+
+      // Execute
+      const hints = await system.getInlayHints(document, range);
+
+      // Assert
+      expect(hints.map((h) => h.label)).toEqual(["item:", "equip:", "name:"]);
+    });
+
+    test("should only show hints within the range", async () => {
+      // Setup
+      configService.mockSettings["ink.inlayHints.parameterNames"] = "all";
+      const document = mockVSCodeDocument("/story.ink", story);
+
+      // Execute
+      const hints = await system.getInlayHints(
+        document,
+        new vscode.Range(1, 0, 1, 0)
+      );
+
+      // Assert
+      expect(hints.map((h) => h.position.line)).toEqual([1, 1]);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { ReferenceSystem } from "../../src/systems/ReferenceSystem";
+import { OutlineManager } from "../../src/model/OutlineManager";
+import { DependencyManager } from "../../src/model/DependencyManager";
+import { ReferenceManager } from "../../src/model/ReferenceManager";
+import { mockVSCodeDocument } from "../__mocks__/mockVSCodeDocument";
+
+describe("ReferenceSystem", () => {
+  let system: ReferenceSystem;
+  let document: vscode.TextDocument;
+
+  beforeEach(() => {
+    OutlineManager.getInstance().clear();
+    DependencyManager.getInstance().clear();
+    ReferenceManager.getInstance().clear();
+    system = new ReferenceSystem();
+    document = mockVSCodeDocument(
+      "/story.ink",
+      [
+        "-> cabin", // 0
+        "== cabin ==", // 1
+        "{cabin > 1: Again.} -> cabin.interior", // 2
+        "= interior", // 3
+        "-> cabin", // 4
+      ].join("\n")
+    );
+  });
+
+  describe(".getReferences()", () => {
+    test("should return every reference to a knot", async () => {
+      // Execute
+      const locations = await system.getReferences(
+        document,
+        new vscode.Position(0, 4),
+        false
+      );
+
+      // Assert
+      expect(locations.map((l) => l.range.start.line)).toEqual([0, 2, 2, 4]);
+    });
+
+    test("should include the declaration when requested", async () => {
+      // Execute
+      const locations = await system.getReferences(
+        document,
+        new vscode.Position(3, 3),
+        true
+      );
+
+      // Assert
+      expect(locations.map((l) => l.range.start.line)).toEqual([3, 2]);
+    });
+
+    test("should return no references for an unresolved identifier", async () => {
+      // Execute
+      const locations = await system.getReferences(
+        document,
+        new vscode.Position(2, 13),
+        false
+      );
+
+      // Assert
+      expect(locations).toEqual([]);
+    });
+  });
+
+  describe(".getCodeLenses()", () => {
+    test("should return a CodeLens for each knot and stitch", async () => {
+      // Execute
+      const codeLenses = await system.getCodeLenses(document);
+
+      // Assert
+      expect(codeLenses.map((c) => c.range.start.line)).toEqual([1, 3]);
+    });
+
+    test("should not store the references again for an unchanged document", async () => {
+      // Setup
+      await system.getCodeLenses(document);
+      const version = ReferenceManager.getInstance().getVersion();
+
+      // Execute
+      await system.getCodeLenses(document);
+
+      // Assert
+      expect(ReferenceManager.getInstance().getVersion()).toBe(version);
+    });
+  });
+
+  describe(".resolveCodeLens()", () => {
+    test("should count the references to the knot", async () => {
+      // Setup
+      const [codeLens] = await system.getCodeLenses(document);
+
+      // Execute
+      const resolved = system.resolveCodeLens(codeLens);
+
+      // Assert
+      expect(resolved.command?.title).toBe("4 references");
+      expect(resolved.command?.command).toBe("editor.action.showReferences");
+    });
+
+    test("should use the singular for a single reference", async () => {
+      // Setup
+      const codeLenses = await system.getCodeLenses(document);
+
+      // Execute
+      const resolved = system.resolveCodeLens(codeLenses[1]);
+
+      // Assert
+      expect(resolved.command?.title).toBe("1 reference");
+    });
+
+    test("should recount the references when they change", async () => {
+      // Setup
+      system.resolveCodeLens((await system.getCodeLenses(document))[0]);
+      const changed = mockVSCodeDocument(
+        "/story.ink",
+        ["-> cabin", "== cabin ==", "Inside.", "= interior", "-> END"].join(
+          "\n"
+        )
+      );
+      const [codeLens] = await system.getCodeLenses(changed);
+
+      // Execute
+      const resolved = system.resolveCodeLens(codeLens);
+
+      // Assert
+      expect(resolved.command?.title).toBe("1 reference");
+    });
+  });
+});
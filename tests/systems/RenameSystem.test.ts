@@ -0,0 +1,178 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { RenameSystem } from "../../src/systems/RenameSystem";
+import { OutlineManager } from "../../src/model/OutlineManager";
+import { DependencyManager } from "../../src/model/DependencyManager";
+import { ReferenceManager } from "../../src/model/ReferenceManager";
+import { VSCodeServiceLocator } from "../../src/services/VSCodeServiceLocator";
+import { MockVSCodeDocumentService } from "../__mocks__/MockVSCodeDocumentService";
+
+describe("RenameSystem", () => {
+  let system: RenameSystem;
+  let rootDocument: vscode.TextDocument;
+  let includeDocument: vscode.TextDocument;
+
+  function describeEdits(edit: vscode.WorkspaceEdit, uri: vscode.Uri) {
+    return edit
+      .get(uri)
+      .map((e) => `${e.range.start.line}:${e.range.start.character}=${e.newText}`);
+  }
+
+  beforeEach(() => {
+    OutlineManager.getInstance().clear();
+    DependencyManager.getInstance().clear();
+    ReferenceManager.getInstance().clear();
+
+    const docService = new MockVSCodeDocumentService();
+    VSCodeServiceLocator.setDocumentService(docService);
+    rootDocument = docService.mockTextDocument(
+      "/root.ink",
+      [
+        "INCLUDE chapter.ink", // 0
+        "VAR gold = 0", // 1
+        "-> cabin_interior", // 2
+        "== outro ==", // 3
+        "{cabin_interior.look: You looked.}", // 4
+        "~ gold = gold + 1", // 5
+      ].join("\n")
+    );
+    includeDocument = docService.mockTextDocument(
+      "/chapter.ink",
+      [
+        "== cabin_interior ==", // 0
+        "- (look) {gold} coins. -> cabin_interior.look", // 1
+        "~ gold++", // 2
+      ].join("\n")
+    );
+    DependencyManager.getInstance().addDependency(
+      rootDocument.uri,
+      includeDocument.uri
+    );
+
+    system = new RenameSystem();
+  });
+
+  describe(".getRenameEdits()", () => {
+    test("should rename a knot and every path referring to it", async () => {
+      // Execute
+      const edit = await system.getRenameEdits(
+        rootDocument,
+        new vscode.Position(2, 5),
+        "cabin"
+      );
+
+      // Assert
+      expect(describeEdits(edit, rootDocument.uri)).toEqual([
+        "2:3=cabin",
+        "4:1=cabin",
+      ]);
+      expect(describeEdits(edit, includeDocument.uri)).toEqual([
+        "0:3=cabin",
+        "1:26=cabin",
+      ]);
+    });
+
+    test("should rename a label from its definition", async () => {
+      // Execute
+      const edit = await system.getRenameEdits(
+        includeDocument,
+        new vscode.Position(1, 4),
+        "glance"
+      );
+
+      // Assert
+      expect(describeEdits(edit, includeDocument.uri)).toEqual([
+        "1:3=glance",
+        "1:41=glance",
+      ]);
+      expect(describeEdits(edit, rootDocument.uri)).toEqual(["4:16=glance"]);
+    });
+
+    test("should rename reads and assignments of a variable", async () => {
+      // Execute
+      const edit = await system.getRenameEdits(
+        rootDocument,
+        new vscode.Position(1, 5),
+        "coins"
+      );
+
+      // Assert
+      expect(describeEdits(edit, rootDocument.uri)).toEqual([
+        "1:4=coins",
+        "5:2=coins",
+        "5:9=coins",
+      ]);
+      expect(describeEdits(edit, includeDocument.uri)).toEqual([
+        "1:10=coins",
+        "2:2=coins",
+      ]);
+    });
+
+    test("should reject an invalid identifier", async () => {
+      // Execute & Assert
+      await expect(
+        system.getRenameEdits(rootDocument, new vscode.Position(1, 5), "1st")
+      ).rejects.toThrow("not a valid Ink identifier");
+    });
+
+    test("should reject keywords and built-in names", async () => {
+      // Execute & Assert
+      for (const name of ["END", "DONE", "not", "true", "temp", "VAR"]) {
+        await expect(
+          system.getRenameEdits(rootDocument, new vscode.Position(1, 5), name)
+        ).rejects.toThrow("not a valid Ink identifier");
+      }
+    });
+
+    test("should reject a name already in use", async () => {
+      // Execute & Assert
+      await expect(
+        system.getRenameEdits(rootDocument, new vscode.Position(1, 5), "outro")
+      ).rejects.toThrow("already defined");
+    });
+  });
+
+  describe(".prepareRename()", () => {
+    test("should return the range and name of the identifier", async () => {
+      // Execute
+      const result = await system.prepareRename(
+        rootDocument,
+        new vscode.Position(4, 18)
+      );
+
+      // Assert
+      expect(result.placeholder).toBe("look");
+      expect(result.range.start.character).toBe(16);
+    });
+
+    test("should reject positions without a resolvable entity", async () => {
+      // Execute & Assert
+      await expect(
+        system.prepareRename(rootDocument, new vscode.Position(4, 25))
+      ).rejects.toThrow("cannot be renamed");
+    });
+  });
+});
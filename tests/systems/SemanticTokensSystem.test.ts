@@ -0,0 +1,247 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { SemanticTokensSystem } from "../../src/systems/SemanticTokensSystem";
+import { OutlineParser } from "../../src/build/OutlineParser";
+import { OutlineManager } from "../../src/model/OutlineManager";
+import { DependencyManager } from "../../src/model/DependencyManager";
+import { mockVSCodeDocument } from "../__mocks__/mockVSCodeDocument";
+
+/**
+ * Finds the token at a position.
+ */
+function tokenAt(
+  tokens: { range: vscode.Range; type: string; modifiers: string[] }[],
+  line: number,
+  character: number
+) {
+  return tokens.find(
+    (t) =>
+      t.range.start.line === line &&
+      t.range.start.character <= character &&
+      character < t.range.end.character
+  );
+}
+
+describe("SemanticTokensSystem", () => {
+  let system: SemanticTokensSystem;
+
+  beforeEach(() => {
+    OutlineManager.getInstance().clear();
+    DependencyManager.getInstance().clear();
+    system = new SemanticTokensSystem();
+  });
+
+  describe(".getSemanticTokens()", () => {
+    test("should distinguish knot and stitch diverts", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        ["-> cabin.bunk", "== cabin ==", "= bunk", "Asleep."].join("\n")
+      );
+
+      // Execute
+      const tokens = await system.getSemanticTokens(document);
+
+      // Assert
+      expect(tokenAt(tokens, 0, 3)).toMatchObject({
+        type: "knot",
+        modifiers: [],
+      });
+      expect(tokenAt(tokens, 0, 9)).toMatchObject({
+        type: "stitch",
+        modifiers: [],
+      });
+      expect(tokenAt(tokens, 1, 3)).toMatchObject({
+        type: "knot",
+        modifiers: ["declaration"],
+      });
+    });
+
+    test("should distinguish global, constant and temporary variables", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        [
+          "VAR gold = 0",
+          "CONST MAX_GOLD = 10",
+          "== shop ==",
+          "~ temp price = 2",
+          "~ gold = MAX_GOLD - price",
+        ].join("\n")
+      );
+
+      // Execute
+      const tokens = await system.getSemanticTokens(document);
+
+      // Assert
+      expect(tokenAt(tokens, 3, 7)).toMatchObject({
+        type: "variable",
+        modifiers: ["declaration", "temporary"],
+      });
+      expect(tokenAt(tokens, 4, 2)).toMatchObject({
+        type: "variable",
+        modifiers: [],
+      });
+      expect(tokenAt(tokens, 4, 9)).toMatchObject({
+        type: "variable",
+        modifiers: ["readonly"],
+      });
+      expect(tokenAt(tokens, 4, 20)).toMatchObject({
+        type: "variable",
+        modifiers: ["temporary"],
+      });
+    });
+
+    test("should distinguish function calls from external calls", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        [
+          "EXTERNAL play_sound(name)",
+          "~ play_sound(\"bell\")",
+          "~ ring()",
+          "=== function ring() ===",
+          "~ return",
+        ].join("\n")
+      );
+
+      // Execute
+      const tokens = await system.getSemanticTokens(document);
+
+      // Assert
+      expect(tokenAt(tokens, 1, 2)?.type).toBe("external");
+      expect(tokenAt(tokens, 2, 2)?.type).toBe("function");
+    });
+
+    test("should classify parameters within their knot", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        ["== greet(name, -> next) ==", "Hello {name}.", "-> next"].join("\n")
+      );
+
+      // Execute
+      const tokens = await system.getSemanticTokens(document);
+
+      // Assert
+      expect(tokenAt(tokens, 0, 9)).toMatchObject({
+        type: "parameter",
+        modifiers: ["declaration"],
+      });
+      expect(tokenAt(tokens, 0, 18)).toMatchObject({
+        type: "parameter",
+        modifiers: ["declaration"],
+      });
+      expect(tokenAt(tokens, 1, 7)?.type).toBe("parameter");
+      expect(tokenAt(tokens, 2, 3)?.type).toBe("parameter");
+    });
+
+    test("should classify list items", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        ["LIST doors = open, closed", "{doors ? open}"].join("\n")
+      );
+
+      // Execute
+      const tokens = await system.getSemanticTokens(document);
+
+      // Assert
+      expect(tokenAt(tokens, 1, 1)?.type).toBe("enum");
+      expect(tokenAt(tokens, 1, 9)?.type).toBe("enumMember");
+    });
+
+    test("should mark unresolved identifiers", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        ["-> nowhere", "{missing}", "== cabin ==", "-> cabin.nothing"].join(
+          "\n"
+        )
+      );
+
+      // Execute
+      const tokens = await system.getSemanticTokens(document);
+
+      // Assert
+      expect(tokenAt(tokens, 0, 3)?.type).toBe("unresolved");
+      expect(tokenAt(tokens, 1, 1)?.type).toBe("unresolved");
+      expect(tokenAt(tokens, 3, 3)?.type).toBe("knot");
+      expect(tokenAt(tokens, 3, 9)?.type).toBe("unresolved");
+    });
+
+    test("should resolve identifiers defined in included files", async () => {
+      // Setup
+      const include = mockVSCodeDocument(
+        "/cabin.ink",
+        ["== cabin ==", "Inside."].join("\n")
+      );
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        ["INCLUDE cabin.ink", "-> cabin"].join("\n")
+      );
+      await OutlineParser.getInstance().parseAndCache(include);
+      DependencyManager.getInstance().addDependency(document.uri, include.uri);
+
+      // Execute
+      const tokens = await system.getSemanticTokens(document);
+
+      // Assert
+      expect(tokenAt(tokens, 1, 3)?.type).toBe("knot");
+    });
+
+    test("should ignore identifiers within comments", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        ["// -> nowhere", "Text."].join("\n")
+      );
+
+      // Execute
+      const tokens = await system.getSemanticTokens(document);
+
+      // Assert
+      expect(tokens).toEqual([]);
+    });
+
+    test("should return tokens in document order", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        ["-> b", "== a ==", "-> a", "== b ==", "-> a"].join("\n")
+      );
+
+      // Execute
+      const tokens = await system.getSemanticTokens(document);
+
+      // Assert
+      const positions = tokens.map(
+        (t) => `${t.range.start.line}:${t.range.start.character}`
+      );
+      expect(positions).toEqual(["0:3", "1:3", "2:3", "3:3", "4:3"]);
+    });
+  });
+});
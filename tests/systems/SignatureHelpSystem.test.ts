@@ -0,0 +1,170 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { SignatureHelpSystem } from "../../src/systems/SignatureHelpSystem";
+import { OutlineManager } from "../../src/model/OutlineManager";
+import { DependencyManager } from "../../src/model/DependencyManager";
+import { mockVSCodeDocument } from "../__mocks__/mockVSCodeDocument";
+
+describe("SignatureHelpSystem", () => {
+  let system: SignatureHelpSystem;
+
+  beforeEach(() => {
+    OutlineManager.getInstance().clear();
+    DependencyManager.getInstance().clear();
+    system = new SignatureHelpSystem();
+  });
+
+  describe(".getSignatureHelp()", () => {
+    test("should show the signature of a function being called", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        [
+          "~ add_item(",
+          "=== function add_item(name, ref count, stackable) ===",
+          "~ return",
+        ].join("\n")
+      );
+
+      // Execute
+      const help = await system.getSignatureHelp(
+        document,
+        new vscode.Position(0, 11)
+      );
+
+      // Assert
+      expect(help?.signatures[0].label).toBe(
+        "add_item(name, ref count, stackable)"
+      );
+      expect(help?.signatures[0].documentation).toBe("Function");
+      expect(help?.signatures[0].parameters.map((p) => p.label)).toEqual([
+        [9, 13],
+        [15, 24],
+        [26, 35],
+      ]);
+      expect(help?.activeParameter).toBe(0);
+    });
+
+    test("should track the parameter being typed", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        [
+          "-> meet_character(\"Ann\", (1 + 2), ",
+          "== meet_character(name, mood, -> next) ==",
+          "-> next",
+        ].join("\n")
+      );
+
+      // Execute
+      const help = await system.getSignatureHelp(
+        document,
+        new vscode.Position(0, 35)
+      );
+
+      // Assert
+      expect(help?.signatures[0].label).toBe(
+        "meet_character(name, mood, -> next)"
+      );
+      expect(help?.activeParameter).toBe(2);
+    });
+
+    test("should show the signature of an external function", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        ["EXTERNAL play_sound(name, loop)", "~ play_sound(\"bell\", "].join(
+          "\n"
+        )
+      );
+
+      // Execute
+      const help = await system.getSignatureHelp(
+        document,
+        new vscode.Position(1, 21)
+      );
+
+      // Assert
+      expect(help?.signatures[0].label).toBe("play_sound(name, loop)");
+      expect(help?.signatures[0].documentation).toBe("External Function");
+      expect(help?.activeParameter).toBe(1);
+    });
+
+    test("should use the innermost call", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        [
+          "~ x = double((half(",
+          "=== function double(a) ===",
+          "~ return a * 2",
+          "=== function half(b) ===",
+          "~ return b / 2",
+        ].join("\n")
+      );
+
+      // Execute
+      const help = await system.getSignatureHelp(
+        document,
+        new vscode.Position(0, 19)
+      );
+
+      // Assert
+      expect(help?.signatures[0].label).toBe("half(b)");
+    });
+
+    test("should return undefined outside of a call", async () => {
+      // Setup
+      const document = mockVSCodeDocument(
+        "/story.ink",
+        ["~ add_item(1)", "=== function add_item(x) ==="].join("\n")
+      );
+
+      // Execute
+      const help = await system.getSignatureHelp(
+        document,
+        new vscode.Position(0, 13)
+      );
+
+      // Assert
+      expect(help).toBeUndefined();
+    });
+
+    test("should return undefined for an unknown function", async () => {
+      // Setup
+      const document = mockVSCodeDocument("/story.ink", "~ unknown(");
+
+      // Execute
+      const help = await system.getSignatureHelp(
+        document,
+        new vscode.Position(0, 10)
+      );
+
+      // Assert
+      expect(help).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import {
+  StoryExplorerSystem,
+  StoryTreeElement,
+} from "../../src/systems/StoryExplorerSystem";
+import { OutlineParser } from "../../src/build/OutlineParser";
+import { DependencyManager } from "../../src/model/DependencyManager";
+import { OutlineManager } from "../../src/model/OutlineManager";
+import { mockVSCodeDocument } from "../__mocks__/mockVSCodeDocument";
+
+describe("StoryExplorerSystem", () => {
+  let system: StoryExplorerSystem;
+
+  function labelsOf(elements: StoryTreeElement[]): string[] {
+    return elements.map((element) => `${system.getTreeItem(element).label}`);
+  }
+
+  function getGroup(storyName: string, label: string): StoryTreeElement {
+    const story = system
+      .getChildren()
+      .find((element) => system.getTreeItem(element).label === storyName)!;
+    return system
+      .getChildren(story)
+      .find((group) => system.getTreeItem(group).label === label)!;
+  }
+
+  beforeEach(async () => {
+    OutlineManager.getInstance().clear();
+    DependencyManager.getInstance().clear();
+    system = new StoryExplorerSystem();
+
+    const story = mockVSCodeDocument(
+      "/story.ink",
+      [
+        "INCLUDE chapter.ink", // 0
+        "VAR gold = 0", // 1
+        "== intro ==", // 2
+        "= arrival", // 3
+        "Hello.", // 4
+        "= departure", // 5
+        "Goodbye.", // 6
+      ].join("\n")
+    );
+    const chapter = mockVSCodeDocument(
+      "/chapter.ink",
+      [
+        "CONST MAX_GOLD = 10", // 0
+        "LIST doors = front, back", // 1
+        "== cabin ==", // 2
+        "=== function pay(amount) ===", // 3
+        "~ gold -= amount", // 4
+      ].join("\n")
+    );
+    await new OutlineParser().parseAndCache(story);
+    await new OutlineParser().parseAndCache(chapter);
+    DependencyManager.getInstance().addDependency(story.uri, chapter.uri);
+    DependencyManager.getInstance().createNode(
+      mockVSCodeDocument("/other.ink", "").uri
+    );
+  });
+
+  afterEach(() => {
+    system.dispose();
+  });
+
+  describe(".getChildren()", () => {
+    test("should list root stories sorted by path", () => {
+      // Execute
+      const stories = system.getChildren();
+
+      // Assert
+      expect(labelsOf(stories)).toEqual(["other.ink", "story.ink"]);
+    });
+
+    test("should group the entities of a story and its includes by kind", () => {
+      // Setup
+      const story = system.getChildren()[1];
+
+      // Execute
+      const groups = system.getChildren(story);
+
+      // Assert
+      expect(labelsOf(groups)).toEqual([
+        "Knots",
+        "Functions",
+        "Variables",
+        "Constants",
+        "Lists",
+      ]);
+    });
+
+    test("should merge knots from every file of a story", () => {
+      // Setup
+      const knots = getGroup("story.ink", "Knots");
+
+      // Execute
+      const entities = system.getChildren(knots);
+
+      // Assert
+      expect(labelsOf(entities)).toEqual(["intro", "cabin"]);
+      expect(
+        entities.map((entity) => system.getTreeItem(entity).description)
+      ).toEqual(["story.ink", "chapter.ink"]);
+    });
+
+    test("should list the stitches of a knot", () => {
+      // Setup
+      const intro = system.getChildren(getGroup("story.ink", "Knots"))[0];
+
+      // Execute
+      const stitches = system.getChildren(intro);
+
+      // Assert
+      expect(labelsOf(stitches)).toEqual(["intro.arrival", "intro.departure"]);
+    });
+
+    test("should list only matching entities and their stories while filtering", () => {
+      // Setup
+      system.setFilter("DEPART");
+
+      // Execute
+      const stories = system.getChildren();
+
+      // Assert
+      expect(labelsOf(stories)).toEqual(["story.ink"]);
+      expect(labelsOf(system.getChildren(stories[0]))).toEqual(["Knots"]);
+      const intro = system.getChildren(getGroup("story.ink", "Knots"));
+      expect(labelsOf(intro)).toEqual(["intro"]);
+      expect(labelsOf(system.getChildren(intro[0]))).toEqual([
+        "intro.departure",
+      ]);
+    });
+
+    test("should list nothing when the filter matches nothing", () => {
+      // Setup
+      system.setFilter("missing");
+
+      // Execute
+      const stories = system.getChildren();
+
+      // Assert
+      expect(stories).toEqual([]);
+    });
+  });
+
+  describe(".getTreeItem()", () => {
+    test("should reveal the definition of an entity when clicked", () => {
+      // Setup
+      const functions = system.getChildren(getGroup("story.ink", "Functions"));
+
+      // Execute
+      const item = system.getTreeItem(functions[0]);
+
+      // Assert
+      expect(item.label).toBe("pay");
+      expect(item.command?.command).toBe("vscode.open");
+      expect(item.command?.arguments?.[0].path).toBe("/chapter.ink");
+      expect(item.command?.arguments?.[1].selection.start.line).toBe(3);
+      expect(item.collapsibleState).toBe(vscode.TreeItemCollapsibleState.None);
+    });
+
+    test("should expand items while filtering", () => {
+      // Setup
+      system.setFilter("intro");
+      const story = system.getChildren()[0];
+
+      // Execute
+      const item = system.getTreeItem(story);
+
+      // Assert
+      expect(item.collapsibleState).toBe(
+        vscode.TreeItemCollapsibleState.Expanded
+      );
+    });
+  });
+});
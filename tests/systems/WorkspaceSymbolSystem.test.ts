@@ -0,0 +1,95 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { WorkspaceSymbolSystem } from "../../src/systems/WorkspaceSymbolSystem";
+import { OutlineManager } from "../../src/model/OutlineManager";
+import { OutlineParser } from "../../src/build/OutlineParser";
+import { mockVSCodeDocument } from "../__mocks__/mockVSCodeDocument";
+
+describe("WorkspaceSymbolSystem", () => {
+  let system: WorkspaceSymbolSystem;
+
+  beforeEach(async () => {
+    OutlineManager.getInstance().clear();
+    system = new WorkspaceSymbolSystem();
+
+    const parser = new OutlineParser();
+    await parser.parseAndCache(
+      mockVSCodeDocument(
+        "/stories/ship.ink",
+        [
+          "VAR crew = 3",
+          "== cabin_interior ==",
+          "= bunk",
+          "- (sleep) Zzz",
+          "== deck ==",
+          "= bridge",
+        ].join("\n")
+      )
+    );
+    await parser.parseAndCache(
+      mockVSCodeDocument(
+        "/stories/shore.ink",
+        ["LIST tides = low, high", "=== function count_crew() ==="].join("\n")
+      )
+    );
+  });
+
+  describe(".getWorkspaceSymbols()", () => {
+    test("should fuzzily match symbols across all files", () => {
+      // Execute
+      const symbols = system.getWorkspaceSymbols("crw");
+
+      // Assert
+      expect(symbols.map((s) => s.name)).toEqual(["crew", "count_crew"]);
+      expect(symbols[1].location.uri.fsPath).toBe("/stories/shore.ink");
+      expect(symbols[1].containerName).toBe("shore.ink");
+    });
+
+    test("should match qualified knot.stitch queries", () => {
+      // Execute
+      const symbols = system.getWorkspaceSymbols("cabint.b");
+
+      // Assert
+      expect(symbols.map((s) => s.name)).toEqual(["bunk"]);
+      expect(symbols[0].containerName).toBe("cabin_interior");
+    });
+
+    test("should not return labels or list items", () => {
+      // Execute
+      const symbols = system.getWorkspaceSymbols("");
+
+      // Assert
+      expect(symbols.map((s) => s.name)).toEqual([
+        "crew",
+        "cabin_interior",
+        "deck",
+        "bunk",
+        "bridge",
+        "tides",
+        "count_crew",
+      ]);
+    });
+  });
+});
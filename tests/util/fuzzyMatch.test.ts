@@ -0,0 +1,40 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { fuzzyMatch } from "../../src/util/fuzzyMatch";
+
+describe("fuzzyMatch()", () => {
+  it("matches characters in order, ignoring case", () => {
+    // Execute & Assert
+    expect(fuzzyMatch("cabint", "cabin_interior")).toBe(true);
+    expect(fuzzyMatch("CI", "cabin_interior")).toBe(true);
+    expect(fuzzyMatch("", "anything")).toBe(true);
+  });
+
+  it("does not match characters out of order or missing", () => {
+    // Execute & Assert
+    expect(fuzzyMatch("ic", "cabin")).toBe(false);
+    expect(fuzzyMatch("cabz", "cabin")).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { OutlineParser } from "../../../src/build/OutlineParser";
+import { getDefinitionNameRange } from "../../../src/util/ink/getDefinitionNameRange";
+import { mockVSCodeDocument } from "../../__mocks__/mockVSCodeDocument";
+
+describe("getDefinitionNameRange()", () => {
+  test("should return the range of a knot name within its header", async () => {
+    // Setup
+    const document = mockVSCodeDocument("/story.ink", "=== travel(to) ===");
+    const [knot] = await new OutlineParser().parse(document);
+
+    // Execute
+    const range = getDefinitionNameRange(document, knot);
+
+    // Assert
+    expect(range?.start.character).toBe(4);
+    expect(range?.end.character).toBe(10);
+  });
+
+  test("should find a list item after the list name", async () => {
+    // Setup
+    const document = mockVSCodeDocument("/story.ink", "LIST door = (door), window");
+    const [list] = await new OutlineParser().parse(document);
+
+    // Execute
+    const range = getDefinitionNameRange(document, list.children[0]);
+
+    // Assert
+    expect(range?.start.character).toBe(13);
+  });
+});
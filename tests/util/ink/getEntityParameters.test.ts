@@ -0,0 +1,58 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { EntityType, OutlineEntity } from "../../../src/model/OutlineEntity";
+import { getEntityParameters } from "../../../src/util/ink/getEntityParameters";
+
+describe("getEntityParameters()", () => {
+  const range = new vscode.Range(0, 0, 0, 0);
+
+  it("normalises reference and divert parameters", () => {
+    // Setup
+    const entity = new OutlineEntity(
+      "meet(who,ref  mood,->next)",
+      EntityType.knot,
+      range,
+      range
+    );
+
+    // Execute
+    const params = getEntityParameters(entity);
+
+    // Assert
+    expect(params).toEqual(["who", "ref mood", "-> next"]);
+  });
+
+  it("returns no parameters for an entity without any", () => {
+    // Setup
+    const entity = new OutlineEntity("ring()", EntityType.function, range, range);
+
+    // Execute
+    const params = getEntityParameters(entity);
+
+    // Assert
+    expect(params).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import * as vscode from "vscode";
+import { getIdentifierPathAtPosition } from "../../../src/util/ink/getIdentifierPathAtPosition";
+import { mockVSCodeDocument } from "../../__mocks__/mockVSCodeDocument";
+
+describe("getIdentifierPathAtPosition()", () => {
+  function getPath(line: string, character: number) {
+    const document = mockVSCodeDocument("/test.ink", line);
+    return getIdentifierPathAtPosition(
+      document,
+      new vscode.Position(0, character)
+    );
+  }
+
+  it("returns the identifier of a simple divert", () => {
+    // Execute
+    const result = getPath("-> cabin", 5);
+
+    // Assert
+    expect(result?.segments).toEqual(["cabin"]);
+    expect(result?.range.start.character).toBe(3);
+    expect(result?.range.end.character).toBe(8);
+  });
+
+  it("returns the segments up to the position of a dotted path", () => {
+    // Execute
+    const result = getPath("-> cabin.interior.look", 12);
+
+    // Assert
+    expect(result?.segments).toEqual(["cabin", "interior"]);
+    expect(result?.range.start.character).toBe(9);
+    expect(result?.range.end.character).toBe(17);
+  });
+
+  it("returns the identifier of a thread", () => {
+    // Execute
+    const result = getPath("<- background_chatter", 4);
+
+    // Assert
+    expect(result?.segments).toEqual(["background_chatter"]);
+  });
+
+  it("returns the identifier of a read count condition", () => {
+    // Execute
+    const result = getPath("{seen_letter: You know.}", 3);
+
+    // Assert
+    expect(result?.segments).toEqual(["seen_letter"]);
+  });
+
+  it("returns undefined when not on an identifier", () => {
+    // Execute
+    const result = getPath("-> cabin", 1);
+
+    // Assert
+    expect(result).toBeUndefined();
+  });
+
+  it("returns undefined within a line comment", () => {
+    // Execute
+    const result = getPath("-> cabin // see cabin", 18);
+
+    // Assert
+    expect(result).toBeUndefined();
+  });
+
+  it("returns undefined within a number", () => {
+    // Execute
+    const result = getPath("~ x = 1e5", 8);
+
+    // Assert
+    expect(result).toBeUndefined();
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { parseCallArguments } from "../../../src/util/ink/parseCallArguments";
+
+describe("parseCallArguments()", () => {
+  it("finds the text and start of each argument", () => {
+    // Setup
+    const text = "~ add_item(  sword, 2,true)";
+
+    // Execute
+    const args = parseCallArguments(text, text.indexOf("("));
+
+    // Assert
+    expect(args).toEqual([
+      { text: "sword", start: 13 },
+      { text: "2", start: 20 },
+      { text: "true", start: 22 },
+    ]);
+  });
+
+  it("ignores commas within nested brackets and strings", () => {
+    // Setup
+    const text = '~ f(g(a, b), "x, y", {c})';
+
+    // Execute
+    const args = parseCallArguments(text, text.indexOf("("));
+
+    // Assert
+    expect(args.map((a) => a.text)).toEqual(["g(a, b)", '"x, y"', "{c}"]);
+  });
+
+  it("parses an unclosed argument list up to the end of the line", () => {
+    // Setup
+    const text = "-> meet(true, ";
+
+    // Execute
+    const args = parseCallArguments(text, text.indexOf("("));
+
+    // Assert
+    expect(args).toEqual([
+      { text: "true", start: 8 },
+      { text: "", start: 14 },
+    ]);
+  });
+
+  it("returns no arguments for a blank argument list", () => {
+    // Setup
+    const text = "~ ring( )";
+
+    // Execute
+    const args = parseCallArguments(text, text.indexOf("("));
+
+    // Assert
+    expect(args).toEqual([]);
+  });
+});
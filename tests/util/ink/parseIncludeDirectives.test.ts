@@ -0,0 +1,56 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { parseIncludeDirectives } from "../../../src/util/ink/parseIncludeDirectives";
+
+describe("parseIncludeDirectives()", () => {
+  it("finds the path of each INCLUDE directive", () => {
+    // Setup
+    const text = [
+      "INCLUDE intro.ink",
+      "Some text",
+      "  INCLUDE   chapter2/_forest.ink  ",
+    ].join("\n");
+
+    // Execute
+    const directives = parseIncludeDirectives(text);
+
+    // Assert
+    expect(directives).toEqual([
+      { path: "intro.ink", line: 0, character: 8 },
+      { path: "chapter2/_forest.ink", line: 2, character: 12 },
+    ]);
+  });
+
+  it("ignores directives within comments", () => {
+    // Setup
+    const text = "// INCLUDE a.ink\n/*\nINCLUDE b.ink\n*/";
+
+    // Execute
+    const directives = parseIncludeDirectives(text);
+
+    // Assert
+    expect(directives).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2025 Martin Crawford
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { parseLinkDirectives } from "../../../src/util/ink/parseLinkDirectives";
+
+describe("parseLinkDirectives()", () => {
+  it("finds the path of LINK directives in single-line comments", () => {
+    // Setup
+    const text = ["Hello", "  // LINK mocks/inventory.js", "//LINKS a.js"].join(
+      "\n"
+    );
+
+    // Execute
+    const directives = parseLinkDirectives(text);
+
+    // Assert
+    expect(directives).toEqual([
+      { path: "mocks/inventory.js", line: 1, character: 10 },
+      { path: "a.js", line: 2, character: 8 },
+    ]);
+  });
+
+  it("finds the path of LINK directives in multi-line comments", () => {
+    // Setup
+    const text = ["/*", "  LINK first.js", "*/ /* LINK second.js */"].join(
+      "\n"
+    );
+
+    // Execute
+    const directives = parseLinkDirectives(text);
+
+    // Assert
+    expect(directives).toEqual([
+      { path: "first.js", line: 1, character: 7 },
+      { path: "second.js", line: 2, character: 11 },
+    ]);
+  });
+
+  it("ignores LINK outside of comments or without a JavaScript file", () => {
+    // Setup
+    const text = "LINK a.js\n// LINK notes.txt\n// Some LINK b.js";
+
+    // Execute
+    const directives = parseLinkDirectives(text);
+
+    // Assert
+    expect(directives).toEqual([]);
+  });
+});